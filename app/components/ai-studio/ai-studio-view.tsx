@@ -8,9 +8,16 @@ import type { Id } from "@/convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { toast } from "sonner";
+import { History } from "lucide-react";
 import { PersonalitySection } from "@/app/components/ai-studio/personality-section";
 import { SystemInstructionsSection } from "@/app/components/ai-studio/system-instructions-section";
 import { HandoffTriggersSection } from "@/app/components/ai-studio/handoff-triggers-section";
+import { TopicPolicySection } from "@/app/components/ai-studio/topic-policy-section";
+import { RulesSection } from "@/app/components/ai-studio/rules-section";
+import { EvalsSection } from "@/app/components/ai-studio/evals-section";
+import { ApprovalModeSection } from "@/app/components/ai-studio/approval-mode-section";
+import { ConfigHistoryDialog } from "@/app/components/ai-studio/config-history-dialog";
+import { PiiRedactionSection } from "@/app/components/ai-studio/pii-redaction-section";
 import { CompanyContextTab } from "@/app/components/workspace/company-context-tab";
 import { ProductsTab } from "@/app/components/workspace/products-tab";
 import { useUser } from "@/app/contexts/user-context";
@@ -24,8 +31,19 @@ export interface AIConfig {
     billingQuestions: boolean;
     negativeSentiment: boolean;
     multipleFailedAttempts: boolean;
+    lowConfidence: boolean;
   };
   customTriggers: string[];
+  keywordOverride: boolean;
+  failedAttemptsThreshold: number;
+  approvalRequired: boolean;
+  // Topic lists are edited as newline-separated text
+  topicPolicy: {
+    allowedTopics: string;
+    blockedTopics: string;
+    deflectionMessage: string;
+    strictness: "lenient" | "balanced" | "strict";
+  };
 }
 
 const defaultConfig: AIConfig = {
@@ -37,11 +55,24 @@ const defaultConfig: AIConfig = {
     billingQuestions: true,
     negativeSentiment: false,
     multipleFailedAttempts: false,
+    lowConfidence: true,
   },
   customTriggers: [],
+  keywordOverride: false,
+  failedAttemptsThreshold: 3,
+  approvalRequired: false,
+  topicPolicy: {
+    allowedTopics: "",
+    blockedTopics: "",
+    deflectionMessage: "",
+    strictness: "balanced",
+  },
 };
 
-type TabType = "personality" | "context" | "handoff";
+const splitTopics = (text: string) =>
+  text.split("\n").map((t) => t.trim()).filter(Boolean);
+
+type TabType = "personality" | "context" | "handoff" | "rules" | "tests" | "privacy";
 
 export function AIStudioView() {
   const { userData } = useUser();
@@ -49,11 +80,23 @@ export function AIStudioView() {
   const [config, setConfig] = useState<AIConfig>(defaultConfig);
   const [savedConfig, setSavedConfig] = useState<AIConfig>(defaultConfig);
   const [isSaving, setIsSaving] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [contextDraft, setContextDraft] = useState<string | null>(null);
 
   // Read tab from URL query params
   const tabParam = searchParams.get("tab");
   const [activeTab, setActiveTab] = useState<TabType>(
-    tabParam === "context" ? "context" : tabParam === "handoff" ? "handoff" : "personality"
+    tabParam === "context"
+      ? "context"
+      : tabParam === "handoff"
+        ? "handoff"
+        : tabParam === "rules"
+          ? "rules"
+          : tabParam === "tests"
+            ? "tests"
+            : tabParam === "privacy"
+              ? "privacy"
+              : "personality"
   );
 
   // Update tab when URL changes
@@ -61,6 +104,9 @@ export function AIStudioView() {
     const tab = searchParams.get("tab");
     if (tab === "context") setActiveTab("context");
     else if (tab === "handoff") setActiveTab("handoff");
+    else if (tab === "rules") setActiveTab("rules");
+    else if (tab === "tests") setActiveTab("tests");
+    else if (tab === "privacy") setActiveTab("privacy");
     else setActiveTab("personality");
   }, [searchParams]);
 
@@ -89,6 +135,7 @@ export function AIStudioView() {
       const multipleFailedAttempts = fullConfig.aiHandoffTriggers.includes(
         "multiple_failed_attempts"
       );
+      const lowConfidence = fullConfig.aiHandoffTriggers.includes("low_confidence");
 
       const customTriggers = fullConfig.aiHandoffTriggers.filter(
         (t: any) =>
@@ -97,6 +144,7 @@ export function AIStudioView() {
             "billing_questions",
             "negative_sentiment",
             "multiple_failed_attempts",
+            "low_confidence",
           ].includes(t)
       );
 
@@ -109,8 +157,18 @@ export function AIStudioView() {
           billingQuestions,
           negativeSentiment,
           multipleFailedAttempts,
+          lowConfidence,
         },
         customTriggers,
+        keywordOverride: fullConfig.aiHandoffKeywordOverride,
+        failedAttemptsThreshold: fullConfig.aiFailedAttemptsThreshold,
+        approvalRequired: fullConfig.aiApprovalRequired,
+        topicPolicy: {
+          allowedTopics: (fullConfig.aiTopicPolicy?.allowedTopics || []).join("\n"),
+          blockedTopics: (fullConfig.aiTopicPolicy?.blockedTopics || []).join("\n"),
+          deflectionMessage: fullConfig.aiTopicPolicy?.deflectionMessage || "",
+          strictness: fullConfig.aiTopicPolicy?.strictness || "balanced",
+        },
       };
 
       setConfig(loadedConfig);
@@ -121,30 +179,47 @@ export function AIStudioView() {
   const hasUnsavedChanges =
     JSON.stringify(config) !== JSON.stringify(savedConfig);
 
+  // Convert handoff toggles + custom triggers to array
+  const getTriggers = () => {
+    const triggers: string[] = [];
+    if (config.handoffTriggers.customerRequestsHuman)
+      triggers.push("customer_requests_human");
+    if (config.handoffTriggers.billingQuestions)
+      triggers.push("billing_questions");
+    if (config.handoffTriggers.negativeSentiment)
+      triggers.push("negative_sentiment");
+    if (config.handoffTriggers.multipleFailedAttempts)
+      triggers.push("multiple_failed_attempts");
+    if (config.handoffTriggers.lowConfidence)
+      triggers.push("low_confidence");
+    triggers.push(...config.customTriggers);
+    return triggers;
+  };
+
+  const getTopicPolicy = () => ({
+    allowedTopics: splitTopics(config.topicPolicy.allowedTopics),
+    blockedTopics: splitTopics(config.topicPolicy.blockedTopics),
+    deflectionMessage: config.topicPolicy.deflectionMessage.trim() || undefined,
+    strictness: config.topicPolicy.strictness,
+  });
+
   const handleSave = async () => {
     if (!userData?.currentCompanyId) return;
 
     setIsSaving(true);
 
     try {
-      // Convert handoff toggles + custom triggers to array
-      const triggers: string[] = [];
-      if (config.handoffTriggers.customerRequestsHuman)
-        triggers.push("customer_requests_human");
-      if (config.handoffTriggers.billingQuestions)
-        triggers.push("billing_questions");
-      if (config.handoffTriggers.negativeSentiment)
-        triggers.push("negative_sentiment");
-      if (config.handoffTriggers.multipleFailedAttempts)
-        triggers.push("multiple_failed_attempts");
-      triggers.push(...config.customTriggers);
-
       await updateAiConfig({
         companyId: userData.currentCompanyId as Id<"companies">,
+        updatedBy: userData.user?._id as Id<"users"> | undefined,
         aiPersonality: config.personality,
         aiResponseLength: config.responseLength,
         aiSystemPrompt: config.systemInstructions,
-        aiHandoffTriggers: triggers,
+        aiHandoffTriggers: getTriggers(),
+        aiHandoffKeywordOverride: config.keywordOverride,
+        aiFailedAttemptsThreshold: config.failedAttemptsThreshold,
+        aiApprovalRequired: config.approvalRequired,
+        aiTopicPolicy: getTopicPolicy(),
       });
 
       setSavedConfig(config);
@@ -175,7 +250,22 @@ export function AIStudioView() {
       case "handoff":
         return {
           title: "Handoff Triggers",
-          description: "Configure when the AI should hand off to human support",
+          description: "Configure when the AI should hand off to human support and which replies need approval",
+        };
+      case "rules":
+        return {
+          title: "Automation Rules",
+          description: "Reply, hand off, route or tag when a message matches a rule",
+        };
+      case "tests":
+        return {
+          title: "Test Suite",
+          description: "Check saved customer questions against your AI before changes go live",
+        };
+      case "privacy":
+        return {
+          title: "Privacy",
+          description: "Control what customer data the AI model sees",
         };
       default:
         return {
@@ -201,28 +291,43 @@ export function AIStudioView() {
                 {pageInfo.description}
               </p>
             </div>
-            {/* Only show save/discard on personality and handoff tabs */}
-            {activeTab !== "context" && (
-              <div className="flex items-center gap-2">
-                {hasUnsavedChanges && (
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={handleDiscard}
-                    disabled={isSaving}
-                  >
-                    Discard
-                  </Button>
-                )}
+            <div className="flex items-center gap-2">
+              {userData?.currentCompanyId && (
                 <Button
-                  onClick={handleSave}
-                  disabled={!hasUnsavedChanges || isSaving}
+                  variant="ghost"
                   size="sm"
+                  onClick={() => setIsHistoryOpen(true)}
                 >
-                  {isSaving ? "Saving..." : "Save"}
+                  <History className="h-4 w-4 mr-1.5" />
+                  History
                 </Button>
-              </div>
-            )}
+              )}
+              {/* Only show save/discard on personality and handoff tabs */}
+              {activeTab !== "context" &&
+                activeTab !== "rules" &&
+                activeTab !== "tests" &&
+                activeTab !== "privacy" && (
+                <>
+                  {hasUnsavedChanges && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleDiscard}
+                      disabled={isSaving}
+                    >
+                      Discard
+                    </Button>
+                  )}
+                  <Button
+                    onClick={handleSave}
+                    disabled={!hasUnsavedChanges || isSaving}
+                    size="sm"
+                  >
+                    {isSaving ? "Saving..." : "Save"}
+                  </Button>
+                </>
+              )}
+            </div>
           </div>
         </div>
       </div>
@@ -257,13 +362,24 @@ export function AIStudioView() {
                     setConfig({ ...config, systemInstructions })
                   }
                 />
+
+                <TopicPolicySection
+                  value={config.topicPolicy}
+                  onChange={(topicPolicy) =>
+                    setConfig({ ...config, topicPolicy })
+                  }
+                />
               </div>
             )}
 
             {/* Company Context Tab */}
             {activeTab === "context" && (
               <div className="space-y-12">
-                <CompanyContextTab fullConfig={fullConfig} />
+                <CompanyContextTab
+                  fullConfig={fullConfig}
+                  draft={contextDraft}
+                  onDraftChange={setContextDraft}
+                />
 
                 {/* Products Section */}
                 {userData?.currentCompanyId && (
@@ -278,18 +394,81 @@ export function AIStudioView() {
                 <HandoffTriggersSection
                   triggers={config.handoffTriggers}
                   customTriggers={config.customTriggers}
+                  keywordOverride={config.keywordOverride}
+                  failedAttemptsThreshold={config.failedAttemptsThreshold}
                   onTriggersChange={(handoffTriggers) =>
                     setConfig({ ...config, handoffTriggers })
                   }
+                  onKeywordOverrideChange={(keywordOverride) =>
+                    setConfig({ ...config, keywordOverride })
+                  }
+                  onFailedAttemptsThresholdChange={(failedAttemptsThreshold) =>
+                    setConfig({ ...config, failedAttemptsThreshold })
+                  }
                   onCustomTriggersChange={(customTriggers) =>
                     setConfig({ ...config, customTriggers })
                   }
                 />
+
+                {userData?.currentCompanyId && (
+                  <ApprovalModeSection
+                    companyId={userData.currentCompanyId as Id<"companies">}
+                    approvalRequired={config.approvalRequired}
+                    onApprovalRequiredChange={(approvalRequired) =>
+                      setConfig({ ...config, approvalRequired })
+                    }
+                  />
+                )}
               </div>
             )}
+
+            {/* Automation Rules Tab */}
+            {activeTab === "rules" && userData?.currentCompanyId && (
+              <RulesSection
+                companyId={userData.currentCompanyId as Id<"companies">}
+                userId={userData.user?._id as Id<"users"> | undefined}
+              />
+            )}
+
+            {/* Privacy Tab */}
+            {activeTab === "privacy" && userData?.currentCompanyId && fullConfig && (
+              <PiiRedactionSection
+                companyId={userData.currentCompanyId as Id<"companies">}
+                settings={fullConfig.piiRedaction}
+              />
+            )}
+
+            {/* Test Suite Tab */}
+            {activeTab === "tests" && userData?.currentCompanyId && (
+              <EvalsSection
+                companyId={userData.currentCompanyId as Id<"companies">}
+                userId={userData.user?._id as Id<"users"> | undefined}
+                candidateConfig={
+                  hasUnsavedChanges || contextDraft !== null
+                    ? {
+                        aiSystemPrompt: config.systemInstructions,
+                        aiResponseLength: config.responseLength,
+                        aiHandoffTriggers: getTriggers(),
+                        aiHandoffKeywordOverride: config.keywordOverride,
+                        aiTopicPolicy: getTopicPolicy(),
+                        companyContext: contextDraft ?? undefined,
+                      }
+                    : undefined
+                }
+              />
+            )}
           </>
         )}
       </div>
+
+      {userData?.currentCompanyId && (
+        <ConfigHistoryDialog
+          open={isHistoryOpen}
+          onClose={() => setIsHistoryOpen(false)}
+          companyId={userData.currentCompanyId as Id<"companies">}
+          userId={userData.user?._id as Id<"users"> | undefined}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,97 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { Switch } from "@/components/ui/switch";
+import { Progress } from "@/components/ui/progress";
+import { ShieldCheck, Gauge } from "lucide-react";
+
+interface ApprovalModeSectionProps {
+  companyId: Id<"companies">;
+  approvalRequired: boolean;
+  onApprovalRequiredChange: (enabled: boolean) => void;
+}
+
+export function ApprovalModeSection({
+  companyId,
+  approvalRequired,
+  onApprovalRequiredChange,
+}: ApprovalModeSectionProps) {
+  const stats = useQuery(api.messages.queries.getApprovalStats, { companyId });
+
+  const getReadinessMessage = () => {
+    if (!stats) return "";
+    if (stats.reviewed === 0) {
+      return "No reviewed replies yet. Approve, edit or reject AI replies in your conversations to build a score.";
+    }
+    if (stats.reviewsNeeded > 0) {
+      return `Review ${stats.reviewsNeeded} more ${stats.reviewsNeeded === 1 ? "reply" : "replies"} before the score is reliable.`;
+    }
+    if (stats.ready) {
+      return approvalRequired
+        ? "Your team approves almost every AI reply as written. It looks safe to let the AI answer on its own."
+        : "The AI kept a high approval rate while it was supervised.";
+    }
+    return "Your team still edits or rejects too many AI replies. Keep reviewing, and adjust the AI's instructions or knowledge where it goes wrong.";
+  };
+
+  return (
+    <div>
+      <div className="mb-4">
+        <h2 className="text-h3 font-semibold text-foreground">Approval Mode</h2>
+        <p className="text-muted-foreground mt-1">
+          Review AI replies before customers see them
+        </p>
+      </div>
+
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4 p-4 rounded-xl border border-border bg-card">
+          <div className="flex items-start gap-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <ShieldCheck className="h-4 w-4 text-primary" />
+            </div>
+            <div>
+              <p className="font-medium text-foreground">Require approval for AI replies</p>
+              <p className="text-sm text-muted-foreground mt-0.5">
+                AI replies wait in the conversation until an agent approves, edits or
+                rejects them. Departments can override this in Workspace settings.
+              </p>
+            </div>
+          </div>
+          <Switch
+            checked={approvalRequired}
+            onCheckedChange={onApprovalRequiredChange}
+          />
+        </div>
+
+        {/* Readiness */}
+        {stats && (stats.reviewed > 0 || approvalRequired) && (
+          <div className="p-4 rounded-xl border border-border bg-card space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Gauge className="h-4 w-4 text-primary" />
+                <p className="font-medium text-foreground">Readiness</p>
+              </div>
+              <span className="text-h3 font-semibold text-foreground tabular-nums">
+                {stats.reviewsNeeded > 0 ? "—" : `${stats.score}%`}
+              </span>
+            </div>
+            <Progress
+              value={stats.reviewsNeeded > 0 ? 0 : stats.score}
+              className="h-2"
+            />
+            <p className={stats.ready ? "text-foreground" : "text-muted-foreground"}>
+              {getReadinessMessage()}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              Last 30 days: {stats.approved} approved · {stats.edited} edited ·{" "}
+              {stats.rejected} rejected
+              {stats.pending > 0 && ` · ${stats.pending} waiting for review`}
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { History, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface ConfigHistoryDialogProps {
+  open: boolean;
+  onClose: () => void;
+  companyId: Id<"companies">;
+  userId?: Id<"users">;
+}
+
+const sourceLabels: Record<string, string> = {
+  baseline: "Before history started",
+  ai_studio: "AI Studio",
+  company_context: "Company context",
+  onboarding: "Setup",
+  rollback: "Restore",
+  experiment: "Experiment winner",
+};
+
+type Comparison = "previous" | "live";
+
+export function ConfigHistoryDialog({
+  open,
+  onClose,
+  companyId,
+  userId,
+}: ConfigHistoryDialogProps) {
+  const [selectedId, setSelectedId] = useState<Id<"ai_config_versions"> | null>(null);
+  const [comparison, setComparison] = useState<Comparison>("previous");
+  const [confirmRestore, setConfirmRestore] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const versions = useQuery(
+    api.aiConfigVersions.queries.listVersions,
+    open ? { companyId } : "skip"
+  );
+  const activeId = selectedId ?? versions?.[0]?._id;
+  const selected = versions?.find((version) => version._id === activeId);
+
+  const diff = useQuery(
+    api.aiConfigVersions.queries.getVersionDiff,
+    open && activeId ? { versionId: activeId, against: comparison } : "skip"
+  );
+
+  const restoreVersion = useMutation(
+    api.aiConfigVersions.mutations.restoreAiConfigVersion
+  );
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      const { version } = await restoreVersion({
+        versionId: selected._id,
+        restoredBy: userId,
+      });
+      toast.success(`Restored version ${selected.version} as version ${version}`);
+      setSelectedId(null);
+      setComparison("previous");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to restore version");
+    } finally {
+      setIsRestoring(false);
+      setConfirmRestore(false);
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onClose}>
+        <DialogContent className="text-body-sm max-w-5xl">
+          <DialogHeader>
+            <DialogTitle className="text-h3">Version History</DialogTitle>
+            <DialogDescription>
+              Every saved change to AI settings and company context. Restoring
+              an old version saves it as a new one.
+            </DialogDescription>
+          </DialogHeader>
+
+          {versions === undefined ? (
+            <Skeleton className="h-64 w-full" />
+          ) : versions.length === 0 ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <div className="p-4 rounded-full bg-secondary mb-4">
+                <History className="h-8 w-8 text-muted-foreground" />
+              </div>
+              <p className="text-muted-foreground max-w-sm">
+                No saved versions yet. The next change you save will start the
+                history.
+              </p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-[220px_1fr] gap-4 h-[60vh]">
+              {/* Version list */}
+              <div className="overflow-y-auto space-y-1 pr-1">
+                {versions.map((version) => (
+                  <button
+                    key={version._id}
+                    onClick={() => {
+                      setSelectedId(version._id);
+                      setComparison("previous");
+                    }}
+                    className={cn(
+                      "w-full text-left p-2.5 rounded-lg border transition-colors",
+                      version._id === activeId
+                        ? "border-primary bg-primary/5"
+                        : "border-transparent hover:bg-secondary"
+                    )}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-foreground">
+                        Version {version.version}
+                      </span>
+                      {version.isLive && (
+                        <Badge className="text-xs">Live</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-0.5">
+                      {new Date(version.createdAt).toLocaleString()}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {version.source === "rollback" && version.restoredFromVersion
+                        ? `Restored version ${version.restoredFromVersion}`
+                        : version.source === "experiment" && version.restoredFromVersion
+                          ? `Promoted version ${version.restoredFromVersion} from an experiment`
+                          : sourceLabels[version.source]}
+                      {version.authorName && ` · ${version.authorName}`}
+                    </p>
+                  </button>
+                ))}
+              </div>
+
+              {/* Diff */}
+              <div className="flex flex-col min-h-0">
+                <div className="flex items-center justify-between gap-2 mb-3">
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant={comparison === "previous" ? "secondary" : "ghost"}
+                      onClick={() => setComparison("previous")}
+                    >
+                      Changes in this version
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={comparison === "live" ? "secondary" : "ghost"}
+                      onClick={() => setComparison("live")}
+                      disabled={selected?.isLive}
+                    >
+                      Compare with live
+                    </Button>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setConfirmRestore(true)}
+                    disabled={!selected || selected.isLive}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1.5" />
+                    Restore
+                  </Button>
+                </div>
+
+                <div className="flex-1 overflow-y-auto space-y-4">
+                  {diff === undefined ? (
+                    <Skeleton className="h-32 w-full" />
+                  ) : !diff || diff.fields.length === 0 ? (
+                    <p className="text-muted-foreground">
+                      {selected?.source === "baseline"
+                        ? "The settings as they were before history started."
+                        : "No differences."}
+                    </p>
+                  ) : (
+                    diff.fields.map((field) => (
+                      <div key={field.field} className="rounded-lg border border-border">
+                        <div className="grid grid-cols-2 border-b border-border bg-secondary/50">
+                          <p className="px-3 py-1.5 text-label">
+                            {field.label} ·{" "}
+                            {comparison === "live" ? "Live" : "Before"}
+                          </p>
+                          <p className="px-3 py-1.5 text-label border-l border-border">
+                            {field.label} · Version {diff.version}
+                          </p>
+                        </div>
+                        <div className="font-mono text-xs max-h-80 overflow-y-auto">
+                          {field.rows.map((row, i) => (
+                            <div key={i} className="grid grid-cols-2">
+                              <div
+                                className={cn(
+                                  "px-3 py-0.5 whitespace-pre-wrap break-words",
+                                  row.left?.type === "removed" &&
+                                    "bg-destructive/10 text-destructive"
+                                )}
+                              >
+                                {row.left?.text}
+                              </div>
+                              <div
+                                className={cn(
+                                  "px-3 py-0.5 whitespace-pre-wrap break-words border-l border-border",
+                                  row.right?.type === "added" &&
+                                    "bg-success/10 text-success"
+                                )}
+                              >
+                                {row.right?.text}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={confirmRestore} onOpenChange={setConfirmRestore}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {selected?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The AI will use these settings for new replies right away. Unsaved
+              changes in AI Studio will be replaced.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isRestoring}>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore} disabled={isRestoring}>
+              {isRestoring ? "Restoring..." : "Restore"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,190 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+
+export interface EvalCaseFormData {
+  question: string;
+  expectedFacts: string[];
+  forbiddenPhrases: string[];
+  expectHandoff?: boolean;
+}
+
+interface EvalCaseModalProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: (data: EvalCaseFormData) => Promise<void>;
+  testCase?: EvalCaseFormData | null;
+}
+
+type HandoffExpectation = "any" | "handoff" | "answer";
+
+const splitLines = (text: string) =>
+  text.split("\n").map((line) => line.trim()).filter(Boolean);
+
+export function EvalCaseModal({
+  open,
+  onClose,
+  onSave,
+  testCase,
+}: EvalCaseModalProps) {
+  const [question, setQuestion] = useState("");
+  const [expectedFacts, setExpectedFacts] = useState("");
+  const [forbiddenPhrases, setForbiddenPhrases] = useState("");
+  const [handoff, setHandoff] = useState<HandoffExpectation>("any");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load case data when editing
+  useEffect(() => {
+    setQuestion(testCase?.question ?? "");
+    setExpectedFacts((testCase?.expectedFacts ?? []).join("\n"));
+    setForbiddenPhrases((testCase?.forbiddenPhrases ?? []).join("\n"));
+    setHandoff(
+      testCase?.expectHandoff === undefined
+        ? "any"
+        : testCase.expectHandoff
+          ? "handoff"
+          : "answer"
+    );
+  }, [testCase, open]);
+
+  const hasCheck =
+    splitLines(expectedFacts).length > 0 ||
+    splitLines(forbiddenPhrases).length > 0 ||
+    handoff !== "any";
+  const canSave = !!question.trim() && hasCheck && !isSaving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        question: question.trim(),
+        expectedFacts: splitLines(expectedFacts),
+        forbiddenPhrases: splitLines(forbiddenPhrases),
+        expectHandoff: handoff === "any" ? undefined : handoff === "handoff",
+      });
+      onClose();
+    } catch {
+      // Parent shows the error; keep the dialog open so nothing is lost
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="text-body-sm max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-h3">
+            {testCase ? "Edit Test Case" : "New Test Case"}
+          </DialogTitle>
+          <DialogDescription>
+            A customer question and what a good answer looks like.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="eval-question" className="text-label">
+              Customer question
+            </Label>
+            <Textarea
+              id="eval-question"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              rows={2}
+              className="resize-none"
+              placeholder="How much is the yearly plan?"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="eval-facts" className="text-label">
+                Must mention
+              </Label>
+              <Textarea
+                id="eval-facts"
+                value={expectedFacts}
+                onChange={(e) => setExpectedFacts(e.target.value)}
+                rows={4}
+                className="resize-none"
+                placeholder={"$199\n14-day refund"}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="eval-forbidden" className="text-label">
+                Must not say
+              </Label>
+              <Textarea
+                id="eval-forbidden"
+                value={forbiddenPhrases}
+                onChange={(e) => setForbiddenPhrases(e.target.value)}
+                rows={4}
+                className="resize-none"
+                placeholder={"lifetime access\nguaranteed"}
+              />
+            </div>
+          </div>
+          <p className="text-muted-foreground -mt-2">
+            One per line. Matching ignores case and spacing.
+          </p>
+
+          <div className="space-y-2">
+            <Label htmlFor="eval-handoff" className="text-label">
+              Handoff
+            </Label>
+            <Select
+              value={handoff}
+              onValueChange={(v) => setHandoff(v as HandoffExpectation)}
+            >
+              <SelectTrigger id="eval-handoff" className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Don't check</SelectItem>
+                <SelectItem value="handoff">Should hand off</SelectItem>
+                <SelectItem value="answer">Should answer</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!hasCheck && (
+            <p className="text-muted-foreground">
+              Add something to check: a phrase it must mention, one it must not
+              say, or a handoff expectation.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {testCase ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
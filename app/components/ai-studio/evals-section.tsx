@@ -0,0 +1,412 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  CheckCircle2,
+  FlaskConical,
+  Pencil,
+  Play,
+  Plus,
+  Trash2,
+  XCircle,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { EvalCaseModal, type EvalCaseFormData } from "./eval-case-modal";
+
+// Unsaved AI Studio settings to test instead of the live ones
+export interface EvalCandidateConfig {
+  aiSystemPrompt: string;
+  aiResponseLength: "brief" | "medium" | "detailed";
+  aiHandoffTriggers: string[];
+  aiHandoffKeywordOverride: boolean;
+  aiTopicPolicy: {
+    allowedTopics: string[];
+    blockedTopics: string[];
+    deflectionMessage?: string;
+    strictness: "lenient" | "balanced" | "strict";
+  };
+  companyContext?: string; // Unsaved company context edits
+}
+
+interface EvalsSectionProps {
+  companyId: Id<"companies">;
+  userId?: Id<"users">;
+  candidateConfig?: EvalCandidateConfig;
+}
+
+const changeLabels: Record<string, { label: string; className: string }> = {
+  regressed: { label: "Regressed", className: "bg-destructive/10 text-destructive border-destructive/20" },
+  fixed: { label: "Fixed", className: "bg-success/10 text-success border-success/20" },
+  new: { label: "New", className: "" },
+};
+
+const checkLabels = {
+  fact: "Missing",
+  forbidden: "Said",
+  handoff: "Expected",
+} as const;
+
+export function EvalsSection({ companyId, userId, candidateConfig }: EvalsSectionProps) {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingCase, setEditingCase] = useState<any>(null);
+  const [deletingCase, setDeletingCase] = useState<any>(null);
+  const [selectedRunId, setSelectedRunId] = useState<Id<"eval_runs"> | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+
+  const cases = useQuery(api.evals.queries.listCases, { companyId });
+  const runs = useQuery(api.evals.queries.listRuns, { companyId });
+
+  const activeRunId = selectedRunId ?? runs?.[0]?._id;
+  const runResults = useQuery(
+    api.evals.queries.getRunResults,
+    activeRunId ? { runId: activeRunId } : "skip"
+  );
+
+  const createCase = useMutation(api.evals.mutations.createCase);
+  const updateCase = useMutation(api.evals.mutations.updateCase);
+  const deleteCase = useMutation(api.evals.mutations.deleteCase);
+  const startRun = useMutation(api.evals.mutations.startRun);
+
+  const isRunning = runs?.[0]?.status === "running";
+
+  const handleSave = async (data: EvalCaseFormData) => {
+    try {
+      if (editingCase) {
+        await updateCase({ caseId: editingCase._id, ...data });
+        toast.success("Test case updated");
+      } else {
+        await createCase({ companyId, createdBy: userId, ...data });
+        toast.success("Test case created");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save test case");
+      throw error;
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingCase) return;
+    try {
+      await deleteCase({ caseId: deletingCase._id });
+      toast.success("Test case deleted");
+      setDeletingCase(null);
+    } catch (error) {
+      toast.error("Failed to delete test case");
+    }
+  };
+
+  const handleRun = async (withCandidate: boolean) => {
+    setIsStarting(true);
+    try {
+      await startRun({
+        companyId,
+        startedBy: userId,
+        candidateConfig: withCandidate ? candidateConfig : undefined,
+      });
+      setSelectedRunId(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start test run");
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const formatRunLabel = (run: NonNullable<typeof runs>[number]) => {
+    const when = new Date(run.startedAt).toLocaleString();
+    const config = run.candidateConfig ? " · unsaved changes" : "";
+    if (run.status === "running") return `${when} · running${config}`;
+    if (run.status === "failed") return `${when} · failed${config}`;
+    return `${when} · ${run.passedCases}/${run.totalCases} passed${config}`;
+  };
+
+  const run = runResults?.run;
+  const resultsByCase = new Map(
+    (runResults?.results ?? []).map((result) => [result.caseId, result])
+  );
+
+  return (
+    <div>
+      {/* Section Header */}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-h3 font-semibold text-foreground">Test Cases</h2>
+          <p className="text-muted-foreground mt-1">
+            Questions your AI must keep answering correctly. Run them after you
+            change instructions, company context or products.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => {
+            setEditingCase(null);
+            setIsModalOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-1.5" />
+          Add Case
+        </Button>
+      </div>
+
+      {/* Run controls */}
+      <div className="p-4 rounded-xl border border-border bg-card mb-6 space-y-3">
+        <div className="flex items-center justify-between gap-4 flex-wrap">
+          <div className="flex items-center gap-2">
+            <FlaskConical className="h-4 w-4 text-primary" />
+            <p className="font-medium text-foreground">Run tests</p>
+          </div>
+          <div className="flex items-center gap-2">
+            {candidateConfig && (
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => handleRun(true)}
+                disabled={isRunning || isStarting || !cases?.length}
+              >
+                Run with unsaved changes
+              </Button>
+            )}
+            <Button
+              size="sm"
+              onClick={() => handleRun(false)}
+              disabled={isRunning || isStarting || !cases?.length}
+            >
+              <Play className="h-4 w-4 mr-1.5" />
+              {candidateConfig ? "Run with saved settings" : "Run all"}
+            </Button>
+          </div>
+        </div>
+
+        {runs && runs.length > 0 && (
+          <Select
+            value={activeRunId}
+            onValueChange={(v) => setSelectedRunId(v as Id<"eval_runs">)}
+          >
+            <SelectTrigger className="w-full sm:w-96">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {runs.map((r) => (
+                <SelectItem key={r._id} value={r._id}>
+                  {formatRunLabel(r)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {run?.status === "running" && (
+          <div className="space-y-1.5">
+            <Progress
+              value={(run.completedCases / Math.max(run.totalCases, 1)) * 100}
+              className="h-2"
+            />
+            <p className="text-muted-foreground">
+              {run.completedCases} of {run.totalCases} cases checked...
+            </p>
+          </div>
+        )}
+        {run?.status === "failed" && (
+          <p className="text-destructive">Run failed: {run.error}</p>
+        )}
+        {run?.status === "completed" && (
+          <p className="text-muted-foreground">
+            <span className="font-medium text-foreground">
+              {run.passedCases} of {run.totalCases} passed
+            </span>
+            {runResults?.previousRunId
+              ? ` · compared with the run before`
+              : " · first completed run"}
+            {run.aiModel && ` · ${run.aiModel}`}
+          </p>
+        )}
+      </div>
+
+      {/* Cases List */}
+      {cases === undefined ? (
+        <div className="space-y-3">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+        </div>
+      ) : cases.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <div className="p-4 rounded-full bg-secondary mb-4">
+            <FlaskConical className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium text-foreground mb-2">No test cases yet</h3>
+          <p className="text-sm text-muted-foreground max-w-sm">
+            Add the questions customers ask most, with the facts a correct answer
+            must include.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {cases.map((testCase) => {
+            const result = resultsByCase.get(testCase._id);
+            const change = result && "change" in result ? result.change : undefined;
+            const failedChecks = result?.checks.filter((check) => !check.passed) ?? [];
+            return (
+              <div
+                key={testCase._id}
+                className={cn(
+                  "p-4 rounded-xl border bg-card",
+                  change === "regressed" ? "border-destructive" : "border-border"
+                )}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      {result &&
+                        (result.passed ? (
+                          <CheckCircle2 className="h-4 w-4 text-success" />
+                        ) : (
+                          <XCircle className="h-4 w-4 text-destructive" />
+                        ))}
+                      <span className="font-medium text-foreground">{testCase.question}</span>
+                      {change && changeLabels[change] && (
+                        <Badge variant="outline" className={cn("text-xs", changeLabels[change].className)}>
+                          {changeLabels[change].label}
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {[
+                        testCase.expectedFacts.length > 0 &&
+                          `Mentions: ${testCase.expectedFacts.join(", ")}`,
+                        testCase.forbiddenPhrases.length > 0 &&
+                          `Never: ${testCase.forbiddenPhrases.join(", ")}`,
+                        testCase.expectHandoff !== undefined &&
+                          (testCase.expectHandoff ? "Hands off" : "Answers"),
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+
+                    {result && (
+                      <div className="mt-3 space-y-2">
+                        {result.error ? (
+                          <p className="text-destructive">Error: {result.error}</p>
+                        ) : (
+                          failedChecks.length > 0 && (
+                            <div className="flex flex-wrap gap-1.5">
+                              {failedChecks.map((check, i) => (
+                                <Badge key={i} variant="outline" className="text-xs text-destructive">
+                                  {checkLabels[check.kind]}: {check.expected}
+                                </Badge>
+                              ))}
+                            </div>
+                          )
+                        )}
+                        <div className="p-3 rounded-lg bg-secondary whitespace-pre-wrap">
+                          {result.answer || (
+                            <span className="text-muted-foreground">No reply</span>
+                          )}
+                          {(result.handoff || result.ruleName) && (
+                            <p className="text-xs text-muted-foreground mt-2">
+                              {result.ruleName && `Rule "${result.ruleName}"`}
+                              {result.ruleName && result.handoff && " · "}
+                              {result.handoff && "Handed off"}
+                            </p>
+                          )}
+                        </div>
+                        {(change === "regressed" || change === "fixed") &&
+                          "previousAnswer" in result && (
+                            <div className="p-3 rounded-lg border border-dashed border-border whitespace-pre-wrap text-muted-foreground">
+                              <p className="text-xs font-medium mb-1">Previous run</p>
+                              {result.previousAnswer || "No reply"}
+                            </div>
+                          )}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => {
+                        setEditingCase(testCase);
+                        setIsModalOpen(true);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => setDeletingCase(testCase)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <EvalCaseModal
+        open={isModalOpen}
+        onClose={() => {
+          setIsModalOpen(false);
+          setEditingCase(null);
+        }}
+        onSave={handleSave}
+        testCase={editingCase}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!deletingCase}
+        onOpenChange={(open) => !open && setDeletingCase(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete test case?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{deletingCase?.question}&quot; won&apos;t be checked in future
+              runs. Past results are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,16 +1,30 @@
 "use client";
 
 import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { AIConfig } from "./ai-studio-view";
-import { MessageSquare, CreditCard } from "lucide-react";
+import { MessageSquare, CreditCard, TextSearch, Repeat, CircleHelp } from "lucide-react";
 
 interface HandoffTriggersSectionProps {
   triggers: AIConfig["handoffTriggers"];
   customTriggers: string[];
+  keywordOverride: boolean;
+  failedAttemptsThreshold: number;
   onTriggersChange: (triggers: AIConfig["handoffTriggers"]) => void;
   onCustomTriggersChange: (triggers: string[]) => void;
+  onKeywordOverrideChange: (enabled: boolean) => void;
+  onFailedAttemptsThresholdChange: (threshold: number) => void;
 }
 
+// Mirrors MIN/MAX_FAILED_ATTEMPTS_THRESHOLD in convex/ai/failureLoop.ts
+const failedAttemptsOptions = [2, 3, 4, 5, 6];
+
 const commonTriggers = [
   {
     id: "customerRequestsHuman" as const,
@@ -21,14 +35,30 @@ const commonTriggers = [
   {
     id: "billingQuestions" as const,
     label: "Billing & payment questions",
-    description: "Auto-escalates billing, refund, and payment-related conversations",
+    description: "Hands off refunds, failed charges, and other billing problems. Pricing questions are still answered by the AI",
     icon: CreditCard,
   },
+  {
+    id: "multipleFailedAttempts" as const,
+    label: "AI keeps failing",
+    description: "When customers repeat the same question, rate replies as not helpful, or say the answer didn't help",
+    icon: Repeat,
+  },
+  {
+    id: "lowConfidence" as const,
+    label: "AI isn't sure of its answer",
+    description: "When the AI rates its own answer as a likely guess",
+    icon: CircleHelp,
+  },
 ];
 
 export function HandoffTriggersSection({
   triggers,
+  keywordOverride,
+  failedAttemptsThreshold,
   onTriggersChange,
+  onKeywordOverrideChange,
+  onFailedAttemptsThresholdChange,
 }: HandoffTriggersSectionProps) {
   return (
     <div>
@@ -50,6 +80,27 @@ export function HandoffTriggersSection({
                   <p className="text-sm text-muted-foreground mt-0.5">
                     {trigger.description}
                   </p>
+                  {trigger.id === "multipleFailedAttempts" && triggers.multipleFailedAttempts && (
+                    <div className="flex items-center gap-2 mt-3">
+                      <span className="text-sm text-muted-foreground">Hand off after</span>
+                      <Select
+                        value={String(failedAttemptsThreshold)}
+                        onValueChange={(v) => onFailedAttemptsThresholdChange(Number(v))}
+                      >
+                        <SelectTrigger className="h-8 w-16">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {failedAttemptsOptions.map((n) => (
+                            <SelectItem key={n} value={String(n)}>
+                              {n}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-sm text-muted-foreground">failed answers</span>
+                    </div>
+                  )}
                 </div>
               </div>
               <Switch
@@ -63,10 +114,31 @@ export function HandoffTriggersSection({
         })}
       </div>
 
+      {/* Keyword Override */}
+      <div className="mt-6 flex items-center justify-between gap-4 p-4 rounded-xl border border-border bg-card">
+        <div className="flex items-start gap-3">
+          <div className="p-2 rounded-lg bg-secondary">
+            <TextSearch className="h-4 w-4 text-muted-foreground" />
+          </div>
+          <div>
+            <p className="font-medium text-foreground">Strict keyword matching</p>
+            <p className="text-sm text-muted-foreground mt-0.5">
+              Always hand off when a customer message contains a trigger keyword
+              (e.g. &quot;refund&quot;, &quot;real person&quot;), even if the AI could answer
+            </p>
+          </div>
+        </div>
+        <Switch
+          checked={keywordOverride}
+          onCheckedChange={onKeywordOverrideChange}
+        />
+      </div>
+
       {/* Info Note */}
       <div className="mt-6 p-4 rounded-lg bg-secondary/50 border border-border">
         <p className="text-sm text-muted-foreground">
-          <strong className="text-foreground">Tip:</strong> When a handoff is triggered,
+          <strong className="text-foreground">Tip:</strong> The AI decides when a
+          conversation needs a human based on the triggers above. When a handoff is triggered,
           customers will be notified that a human agent will assist them shortly.
           The conversation will appear in your support queue.
         </p>
@@ -0,0 +1,216 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { EyeOff, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+type PiiCategory = "email" | "phone" | "card" | "license_key";
+
+interface CustomPattern {
+  label: string;
+  pattern: string;
+  reinsert: boolean;
+}
+
+export interface PiiRedactionSettings {
+  enabled: boolean;
+  categories: PiiCategory[];
+  customPatterns: CustomPattern[];
+}
+
+// Mirrors PII_CATEGORY_LABELS in convex/ai/redaction.ts
+const categoryOptions: { value: PiiCategory; label: string; description: string }[] = [
+  { value: "email", label: "Email addresses", description: "Put back in replies" },
+  { value: "phone", label: "Phone numbers", description: "Put back in replies" },
+  { value: "card", label: "Card numbers", description: "Shown masked in replies, e.g. •••• 4242" },
+  { value: "license_key", label: "License keys", description: "Put back in replies" },
+];
+
+interface PiiRedactionSectionProps {
+  companyId: Id<"companies">;
+  settings: PiiRedactionSettings;
+}
+
+export function PiiRedactionSection({ companyId, settings }: PiiRedactionSectionProps) {
+  const updatePiiRedaction = useMutation(api.companies.mutations.updatePiiRedaction);
+  const [draft, setDraft] = useState<PiiRedactionSettings>(settings);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(settings);
+  }, [settings]);
+
+  const hasChanges = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  const toggleCategory = (category: PiiCategory, checked: boolean) => {
+    setDraft({
+      ...draft,
+      categories: checked
+        ? [...draft.categories, category]
+        : draft.categories.filter((c) => c !== category),
+    });
+  };
+
+  const updatePattern = (index: number, patch: Partial<CustomPattern>) => {
+    setDraft({
+      ...draft,
+      customPatterns: draft.customPatterns.map((pattern, i) =>
+        i === index ? { ...pattern, ...patch } : pattern
+      ),
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updatePiiRedaction({ companyId, ...draft });
+      toast.success("Privacy settings saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save privacy settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      {/* Section Header */}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-h3 font-semibold text-foreground">PII Redaction</h2>
+          <p className="text-muted-foreground mt-1">
+            Hide personal details from the AI model. Your team still sees the
+            original messages.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {hasChanges && (
+            <Button variant="ghost" size="sm" onClick={() => setDraft(settings)} disabled={isSaving}>
+              Discard
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSave} disabled={!hasChanges || isSaving}>
+            {isSaving ? "Saving..." : "Save"}
+          </Button>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <div className="flex items-center justify-between gap-4 p-4 rounded-xl border border-border bg-card">
+          <div className="flex items-start gap-3">
+            <div className="p-2 rounded-lg bg-primary/10">
+              <EyeOff className="h-4 w-4 text-primary" />
+            </div>
+            <div>
+              <p className="font-medium text-foreground">Redact before sending to the AI</p>
+              <p className="text-sm text-muted-foreground mt-0.5">
+                Detected values are replaced with placeholders like [EMAIL_3F9A1C].
+                The AI answers with the placeholder and the value is put back before
+                the customer sees the reply.
+              </p>
+            </div>
+          </div>
+          <Switch
+            checked={draft.enabled}
+            onCheckedChange={(enabled) => setDraft({ ...draft, enabled })}
+          />
+        </div>
+
+        {draft.enabled && (
+          <>
+            <div className="space-y-3">
+              <Label className="text-label text-foreground">Detect</Label>
+              {categoryOptions.map((option) => (
+                <label key={option.value} className="flex items-start gap-3 cursor-pointer">
+                  <Checkbox
+                    checked={draft.categories.includes(option.value)}
+                    onCheckedChange={(checked) => toggleCategory(option.value, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <div>
+                    <p className="text-foreground">{option.label}</p>
+                    <p className="text-muted-foreground">{option.description}</p>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <Label className="text-label text-foreground">Custom patterns</Label>
+                <p className="text-muted-foreground mt-1">
+                  Regular expressions for anything else you don&apos;t want the AI to
+                  see, e.g. account IDs. Matching ignores case.
+                </p>
+              </div>
+
+              {draft.customPatterns.map((pattern, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Input
+                    value={pattern.label}
+                    onChange={(e) => updatePattern(index, { label: e.target.value })}
+                    placeholder="Account ID"
+                    className="w-40"
+                  />
+                  <Input
+                    value={pattern.pattern}
+                    onChange={(e) => updatePattern(index, { pattern: e.target.value })}
+                    placeholder="ACC-\d{6}"
+                    className="flex-1 font-mono text-xs"
+                  />
+                  <label className="flex items-center gap-1.5 text-muted-foreground whitespace-nowrap">
+                    <Checkbox
+                      checked={pattern.reinsert}
+                      onCheckedChange={(checked) =>
+                        updatePattern(index, { reinsert: checked === true })
+                      }
+                    />
+                    Put back in replies
+                  </label>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() =>
+                      setDraft({
+                        ...draft,
+                        customPatterns: draft.customPatterns.filter((_, i) => i !== index),
+                      })
+                    }
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setDraft({
+                    ...draft,
+                    customPatterns: [
+                      ...draft.customPatterns,
+                      { label: "", pattern: "", reinsert: true },
+                    ],
+                  })
+                }
+              >
+                <Plus className="h-4 w-4 mr-1.5" />
+                Add pattern
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
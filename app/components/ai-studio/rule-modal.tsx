@@ -0,0 +1,299 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import type { Id } from "@/convex/_generated/dataModel";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+
+export type RuleMatchType = "contains" | "regex" | "semantic";
+
+export interface RuleFormData {
+  name: string;
+  matchType: RuleMatchType;
+  pattern: string;
+  semanticThreshold?: number;
+  actions: {
+    reply?: string;
+    handoff?: boolean;
+    departmentId?: Id<"departments">;
+    tag?: string;
+  };
+}
+
+interface RuleModalProps {
+  open: boolean;
+  onClose: () => void;
+  onSave: (data: RuleFormData) => Promise<void>;
+  rule?: RuleFormData | null;
+  departments: Array<{ _id: Id<"departments">; name: string }>;
+  tagNames: string[];
+}
+
+const NO_DEPARTMENT = "none";
+
+const patternHints: Record<RuleMatchType, { placeholder: string; help: string }> = {
+  contains: {
+    placeholder: "refund policy",
+    help: "Matches when the customer message contains this text (case-insensitive)",
+  },
+  regex: {
+    placeholder: "\\b(cancel|unsubscribe)\\b",
+    help: "A regular expression, matched case-insensitively",
+  },
+  semantic: {
+    placeholder: "I want my money back",
+    help: "An example message. Customer messages with the same meaning match, even when worded differently",
+  },
+};
+
+export function RuleModal({
+  open,
+  onClose,
+  onSave,
+  rule,
+  departments,
+  tagNames,
+}: RuleModalProps) {
+  const [name, setName] = useState("");
+  const [matchType, setMatchType] = useState<RuleMatchType>("contains");
+  const [pattern, setPattern] = useState("");
+  const [threshold, setThreshold] = useState("0.8");
+  const [reply, setReply] = useState("");
+  const [handoff, setHandoff] = useState(false);
+  const [departmentId, setDepartmentId] = useState<string>(NO_DEPARTMENT);
+  const [tag, setTag] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Load rule data when editing
+  useEffect(() => {
+    setName(rule?.name ?? "");
+    setMatchType(rule?.matchType ?? "contains");
+    setPattern(rule?.pattern ?? "");
+    setThreshold(String(rule?.semanticThreshold ?? 0.8));
+    setReply(rule?.actions.reply ?? "");
+    setHandoff(rule?.actions.handoff ?? false);
+    setDepartmentId(rule?.actions.departmentId ?? NO_DEPARTMENT);
+    setTag(rule?.actions.tag ?? "");
+  }, [rule, open]);
+
+  const hasAction =
+    !!reply.trim() || handoff || departmentId !== NO_DEPARTMENT || !!tag.trim();
+  const parsedThreshold = Number(threshold);
+  const thresholdValid =
+    matchType !== "semantic" ||
+    (!Number.isNaN(parsedThreshold) && parsedThreshold > 0 && parsedThreshold <= 1);
+  const canSave = !!pattern.trim() && hasAction && thresholdValid && !isSaving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    setIsSaving(true);
+    try {
+      await onSave({
+        name: name.trim(),
+        matchType,
+        pattern: pattern.trim(),
+        semanticThreshold: matchType === "semantic" ? parsedThreshold : undefined,
+        actions: {
+          reply: reply.trim() || undefined,
+          handoff: handoff || undefined,
+          departmentId:
+            departmentId !== NO_DEPARTMENT
+              ? (departmentId as Id<"departments">)
+              : undefined,
+          tag: tag.trim() || undefined,
+        },
+      });
+      onClose();
+    } catch {
+      // Parent shows the error; keep the dialog open so nothing is lost
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="text-body-sm max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-h3">
+            {rule ? "Edit Rule" : "New Rule"}
+          </DialogTitle>
+          <DialogDescription>
+            Rules run before the AI. The first matching rule wins.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {/* Name */}
+          <div className="space-y-2">
+            <Label htmlFor="rule-name" className="text-label">
+              Name
+            </Label>
+            <Input
+              id="rule-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Refund requests"
+            />
+          </div>
+
+          {/* Match */}
+          <div className="grid grid-cols-[160px_1fr] gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rule-match-type" className="text-label">
+                Match
+              </Label>
+              <Select
+                value={matchType}
+                onValueChange={(v) => setMatchType(v as RuleMatchType)}
+              >
+                <SelectTrigger id="rule-match-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="contains">Contains</SelectItem>
+                  <SelectItem value="regex">Regex</SelectItem>
+                  <SelectItem value="semantic">Similar meaning</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-pattern" className="text-label">
+                Pattern
+              </Label>
+              <Input
+                id="rule-pattern"
+                value={pattern}
+                onChange={(e) => setPattern(e.target.value)}
+                placeholder={patternHints[matchType].placeholder}
+                className={matchType === "regex" ? "font-mono" : undefined}
+              />
+            </div>
+          </div>
+          <p className="text-muted-foreground -mt-2">
+            {patternHints[matchType].help}
+          </p>
+
+          {matchType === "semantic" && (
+            <div className="space-y-2">
+              <Label htmlFor="rule-threshold" className="text-label">
+                Similarity threshold
+              </Label>
+              <Input
+                id="rule-threshold"
+                type="number"
+                min={0.5}
+                max={1}
+                step={0.01}
+                value={threshold}
+                onChange={(e) => setThreshold(e.target.value)}
+                className="w-32"
+              />
+              <p className="text-muted-foreground">
+                Between 0 and 1. Higher values only match messages very close to the example.
+              </p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="space-y-2">
+            <Label htmlFor="rule-reply" className="text-label">
+              Reply
+            </Label>
+            <Textarea
+              id="rule-reply"
+              value={reply}
+              onChange={(e) => setReply(e.target.value)}
+              rows={4}
+              className="resize-none"
+              placeholder="Leave empty to let the AI reply"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-4 p-3 rounded-lg border border-border">
+            <div>
+              <p className="font-medium text-foreground">Hand off to a human</p>
+              <p className="text-muted-foreground mt-0.5">
+                Stop the AI and bring in your support team
+              </p>
+            </div>
+            <Switch checked={handoff} onCheckedChange={setHandoff} />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="rule-department" className="text-label">
+                Route to department
+              </Label>
+              <Select value={departmentId} onValueChange={setDepartmentId}>
+                <SelectTrigger id="rule-department">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_DEPARTMENT}>Don't route</SelectItem>
+                  {departments.map((dept) => (
+                    <SelectItem key={dept._id} value={dept._id}>
+                      {dept.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-tag" className="text-label">
+                Tag conversation
+              </Label>
+              <Input
+                id="rule-tag"
+                value={tag}
+                onChange={(e) => setTag(e.target.value)}
+                placeholder="refund"
+                maxLength={40}
+                list="rule-tag-options"
+              />
+              <datalist id="rule-tag-options">
+                {tagNames.map((tagName) => (
+                  <option key={tagName} value={tagName} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          {!hasAction && (
+            <p className="text-muted-foreground">
+              Choose at least one action: a reply, a handoff, a department or a tag.
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            {rule ? "Update" : "Create"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,375 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation, useAction } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ArrowDown,
+  ArrowUp,
+  FlaskConical,
+  ListChecks,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { RuleModal, type RuleFormData } from "./rule-modal";
+
+interface RulesSectionProps {
+  companyId: Id<"companies">;
+  userId?: Id<"users">;
+}
+
+type TestResult = {
+  matchedRuleId: Id<"ai_rules"> | null;
+  results: Array<{ ruleId: Id<"ai_rules">; matched: boolean; score?: number }>;
+};
+
+const matchTypeLabels: Record<RuleFormData["matchType"], string> = {
+  contains: "Contains",
+  regex: "Regex",
+  semantic: "Similar meaning",
+};
+
+export function RulesSection({ companyId, userId }: RulesSectionProps) {
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<any>(null);
+  const [deletingRule, setDeletingRule] = useState<any>(null);
+  const [testMessage, setTestMessage] = useState("");
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+
+  const rules = useQuery(api.aiRules.queries.listRulesByCompany, { companyId });
+  const departments = useQuery(api.departments.queries.listActiveDepartments, {
+    companyId,
+  });
+  const tags = useQuery(api.tags.queries.listTags, { companyId });
+
+  const createRule = useMutation(api.aiRules.mutations.createRule);
+  const updateRule = useMutation(api.aiRules.mutations.updateRule);
+  const setRuleEnabled = useMutation(api.aiRules.mutations.setRuleEnabled);
+  const reorderRules = useMutation(api.aiRules.mutations.reorderRules);
+  const deleteRule = useMutation(api.aiRules.mutations.deleteRule);
+  const testRules = useAction(api.aiRules.actions.testRules);
+
+  const handleSave = async (data: RuleFormData) => {
+    try {
+      if (editingRule) {
+        await updateRule({ ruleId: editingRule._id, ...data });
+        toast.success("Rule updated");
+      } else {
+        await createRule({ companyId, createdBy: userId, ...data });
+        toast.success("Rule created");
+      }
+      setTestResult(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save rule");
+      throw error;
+    }
+  };
+
+  const handleToggle = async (rule: any) => {
+    try {
+      await setRuleEnabled({ ruleId: rule._id, enabled: !rule.enabled });
+    } catch (error) {
+      toast.error("Failed to update rule");
+    }
+  };
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    if (!rules) return;
+    const target = index + direction;
+    if (target < 0 || target >= rules.length) return;
+
+    const ruleIds = rules.map((rule) => rule._id);
+    [ruleIds[index], ruleIds[target]] = [ruleIds[target], ruleIds[index]];
+    try {
+      await reorderRules({ companyId, ruleIds });
+    } catch (error) {
+      toast.error("Failed to reorder rules");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingRule) return;
+    try {
+      await deleteRule({ ruleId: deletingRule._id });
+      toast.success("Rule deleted");
+      setDeletingRule(null);
+    } catch (error) {
+      toast.error("Failed to delete rule");
+    }
+  };
+
+  const handleTest = async () => {
+    if (!testMessage.trim()) return;
+    setIsTesting(true);
+    try {
+      setTestResult(await testRules({ companyId, message: testMessage.trim() }));
+    } catch (error) {
+      toast.error("Failed to test message");
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const describeActions = (rule: any): string[] => {
+    const parts: string[] = [];
+    if (rule.actions.reply) parts.push("Reply");
+    if (rule.actions.handoff) parts.push("Hand off");
+    if (rule.actions.departmentId) {
+      const dept = departments?.find((d) => d._id === rule.actions.departmentId);
+      parts.push(`Route to ${dept?.name ?? "department"}`);
+    }
+    if (rule.actions.tag) parts.push(`Tag "${rule.actions.tag}"`);
+    return parts;
+  };
+
+  const matchedRule = testResult?.matchedRuleId
+    ? rules?.find((rule) => rule._id === testResult.matchedRuleId)
+    : null;
+
+  return (
+    <div>
+      {/* Section Header */}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-h3 font-semibold text-foreground">Rules</h2>
+          <p className="text-muted-foreground mt-1">
+            Checked from top to bottom before the AI replies. The first enabled
+            rule that matches runs its actions.
+          </p>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => {
+            setEditingRule(null);
+            setIsModalOpen(true);
+          }}
+        >
+          <Plus className="h-4 w-4 mr-1.5" />
+          Add Rule
+        </Button>
+      </div>
+
+      {/* Test box */}
+      <div className="p-4 rounded-xl border border-border bg-card mb-6 space-y-3">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="h-4 w-4 text-primary" />
+          <p className="font-medium text-foreground">Test a message</p>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            value={testMessage}
+            onChange={(e) => {
+              setTestMessage(e.target.value);
+              setTestResult(null);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleTest();
+            }}
+            placeholder="Type a customer message, e.g. How do I get a refund?"
+          />
+          <Button
+            variant="secondary"
+            onClick={handleTest}
+            disabled={!testMessage.trim() || isTesting}
+          >
+            {isTesting ? "Testing..." : "Test"}
+          </Button>
+        </div>
+        {testResult && (
+          <p className="text-muted-foreground">
+            {matchedRule ? (
+              <>
+                Matches <span className="font-medium text-foreground">{matchedRule.name}</span>
+                {" — "}
+                {describeActions(matchedRule).join(", ")}
+              </>
+            ) : (
+              "No rule matches. The AI would reply normally."
+            )}
+          </p>
+        )}
+      </div>
+
+      {/* Rules List */}
+      {rules === undefined ? (
+        <div className="space-y-3">
+          <Skeleton className="h-20 w-full" />
+          <Skeleton className="h-20 w-full" />
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-12 text-center">
+          <div className="p-4 rounded-full bg-secondary mb-4">
+            <ListChecks className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium text-foreground mb-2">No rules yet</h3>
+          <p className="text-sm text-muted-foreground max-w-sm">
+            Add a rule to send a fixed reply, hand off, route or tag conversations
+            when a customer message matches.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {rules.map((rule, index) => {
+            const result = testResult?.results.find((r) => r.ruleId === rule._id);
+            const isWinner = testResult?.matchedRuleId === rule._id;
+            return (
+              <div
+                key={rule._id}
+                className={cn(
+                  "p-4 rounded-xl border bg-card transition-colors",
+                  isWinner ? "border-primary" : "border-border",
+                  !rule.enabled && "opacity-60"
+                )}
+              >
+                <div className="flex items-start justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="text-muted-foreground tabular-nums">{index + 1}.</span>
+                      <span className="font-medium text-foreground">{rule.name}</span>
+                      <Badge variant="secondary" className="text-xs">
+                        {matchTypeLabels[rule.matchType]}
+                      </Badge>
+                      {rule.source === "context_migration" && (
+                        <Badge variant="outline" className="text-xs">
+                          Imported
+                        </Badge>
+                      )}
+                      {result?.matched && (
+                        <Badge className="text-xs">
+                          {isWinner ? "Match" : "Also matches"}
+                          {result.score !== undefined && ` · ${result.score.toFixed(2)}`}
+                        </Badge>
+                      )}
+                      {!result?.matched && result?.score !== undefined && (
+                        <span className="text-xs text-muted-foreground">
+                          Similarity {result.score.toFixed(2)}
+                        </span>
+                      )}
+                    </div>
+                    <p className="font-mono text-xs text-muted-foreground mt-1 truncate">
+                      {rule.pattern}
+                    </p>
+                    {rule.matchType === "semantic" && !rule.hasEmbedding && (
+                      <p className="text-xs text-warning mt-1">
+                        Preparing similarity matching...
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-2">
+                      {describeActions(rule).join(" · ")}
+                      {" · "}
+                      {rule.hitCount === 1 ? "1 hit" : `${rule.hitCount} hits`}
+                      {rule.lastHitAt &&
+                        `, last ${new Date(rule.lastHitAt).toLocaleDateString()}`}
+                    </p>
+                  </div>
+
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={index === 0}
+                      onClick={() => handleMove(index, -1)}
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={index === rules.length - 1}
+                      onClick={() => handleMove(index, 1)}
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => {
+                        setEditingRule(rule);
+                        setIsModalOpen(true);
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive"
+                      onClick={() => setDeletingRule(rule)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                    <Switch
+                      className="ml-2"
+                      checked={rule.enabled}
+                      onCheckedChange={() => handleToggle(rule)}
+                    />
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <RuleModal
+        open={isModalOpen}
+        onClose={() => {
+          setIsModalOpen(false);
+          setEditingRule(null);
+        }}
+        onSave={handleSave}
+        rule={editingRule}
+        departments={departments ?? []}
+        tagNames={tags?.map((t) => t.name) ?? []}
+      />
+
+      {/* Delete Confirmation */}
+      <AlertDialog
+        open={!!deletingRule}
+        onOpenChange={(open) => !open && setDeletingRule(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete rule?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{deletingRule?.name}&quot; will stop running immediately. This
+              can&apos;t be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -72,6 +72,8 @@ export function TestAISection({
         triggers.push("negative_sentiment");
       if (config.handoffTriggers.multipleFailedAttempts)
         triggers.push("multiple_failed_attempts");
+      if (config.handoffTriggers.lowConfidence)
+        triggers.push("low_confidence");
       triggers.push(...config.customTriggers);
 
       const response = await testAI({
@@ -0,0 +1,125 @@
+"use client";
+
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { AIConfig } from "./ai-studio-view";
+
+interface TopicPolicySectionProps {
+  value: AIConfig["topicPolicy"];
+  onChange: (value: AIConfig["topicPolicy"]) => void;
+}
+
+const strictnessOptions = [
+  {
+    value: "lenient" as const,
+    label: "Lenient",
+    description: "Only deflect requests that are clearly unrelated",
+  },
+  {
+    value: "balanced" as const,
+    label: "Balanced",
+    description: "Deflect anything unrelated to your business or Whop",
+  },
+  {
+    value: "strict" as const,
+    label: "Strict",
+    description: "Deflect anything not directly about your products or account",
+  },
+];
+
+export function TopicPolicySection({ value, onChange }: TopicPolicySectionProps) {
+  return (
+    <div>
+      {/* Section Header */}
+      <div className="mb-6">
+        <h2 className="text-h3 font-semibold text-foreground">Topic Policy</h2>
+        <p className="text-muted-foreground mt-1">
+          Control what the AI will talk about. Every reply is checked against
+          this policy before it reaches the customer.
+        </p>
+      </div>
+
+      {/* Content */}
+      <div className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="allowed-topics" className="text-label text-foreground">
+            Allowed topics
+          </Label>
+          <Textarea
+            id="allowed-topics"
+            value={value.allowedTopics}
+            onChange={(e) => onChange({ ...value, allowedTopics: e.target.value })}
+            rows={4}
+            className="resize-none text-xs"
+            placeholder={`One topic per line, e.g.
+Questions about lessons in our trading course
+General crypto market terminology`}
+          />
+          <p className="text-muted-foreground">
+            Extra topics the AI may help with beyond your products and account questions
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="blocked-topics" className="text-label text-foreground">
+            Blocked topics
+          </Label>
+          <Textarea
+            id="blocked-topics"
+            value={value.blockedTopics}
+            onChange={(e) => onChange({ ...value, blockedTopics: e.target.value })}
+            rows={4}
+            className="resize-none text-xs"
+            placeholder={`One topic per line, e.g.
+Specific investment advice
+Competitor products`}
+          />
+          <p className="text-muted-foreground">
+            Always deflected, even when related to your business
+          </p>
+        </div>
+
+        <div className="space-y-3">
+          <Label className="text-label text-foreground">Strictness</Label>
+          <RadioGroup
+            value={value.strictness}
+            onValueChange={(strictness) =>
+              onChange({ ...value, strictness: strictness as AIConfig["topicPolicy"]["strictness"] })
+            }
+          >
+            {strictnessOptions.map((option) => (
+              <div key={option.value} className="flex items-center gap-2">
+                <RadioGroupItem value={option.value} id={`strictness-${option.value}`} />
+                <Label
+                  htmlFor={`strictness-${option.value}`}
+                  className="text-foreground font-normal cursor-pointer"
+                >
+                  {option.label}
+                </Label>
+                <span className="text-muted-foreground">— {option.description}</span>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="deflection-message" className="text-label text-foreground">
+            Deflection message
+          </Label>
+          <Textarea
+            id="deflection-message"
+            value={value.deflectionMessage}
+            onChange={(e) => onChange({ ...value, deflectionMessage: e.target.value })}
+            rows={3}
+            className="resize-none text-xs"
+            placeholder="I'm here to help with questions about our products and your membership. How can I help you today?"
+          />
+          <p className="text-muted-foreground">
+            Sent instead of an off-topic reply. Leave empty to use the default.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
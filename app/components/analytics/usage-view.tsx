@@ -8,7 +8,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
-import { Activity, Calendar, TrendingUp, Zap } from "lucide-react";
+import { Activity, Calendar, DollarSign, Sparkles, TrendingUp, Zap } from "lucide-react";
 
 export function UsageView() {
   const { userData } = useUser();
@@ -21,6 +21,25 @@ export function UsageView() {
       : "skip"
   );
 
+  // Fetch how agents used their copilot drafts this cycle
+  const draftStats = useQuery(
+    api.copilot.queries.getDraftOutcomeStats,
+    userData?.currentCompanyId && usageData
+      ? {
+          companyId: userData.currentCompanyId as Id<"companies">,
+          since: usageData.billingCycleStart,
+        }
+      : "skip"
+  );
+
+  // Fetch AI spend for the last 30 days
+  const spendData = useQuery(
+    api.usage.queries.getSpendBreakdown,
+    userData?.currentCompanyId
+      ? { companyId: userData.currentCompanyId as Id<"companies">, period: "month" }
+      : "skip"
+  );
+
   // Get usage status
   const getUsageStatus = (percentageUsed: number) => {
     if (percentageUsed > 80) return { status: "critical", color: "text-red-500", bg: "bg-red-500" };
@@ -143,6 +162,86 @@ export function UsageView() {
           </CardContent>
         </Card>
 
+        {/* Agent Drafts Card */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Sparkles className="h-5 w-5 text-primary" />
+              Agent Drafts
+            </CardTitle>
+            <CardDescription>
+              Replies drafted for your support team. Counted separately from AI responses.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-baseline gap-2">
+                <span className="text-2xl font-bold text-foreground">
+                  {usageData.drafts.currentUsage.toLocaleString()}
+                </span>
+                <span className="text-muted-foreground">
+                  / {usageData.drafts.totalLimit.toLocaleString()}
+                </span>
+              </div>
+              <Progress
+                value={Math.min(usageData.drafts.percentageUsed, 100)}
+                className="h-2"
+              />
+            </div>
+            {draftStats && draftStats.total > 0 && (
+              <div className="grid grid-cols-4 gap-2 text-center">
+                <div>
+                  <p className="text-lg font-semibold text-foreground">{draftStats.sent}</p>
+                  <p className="text-xs text-muted-foreground">Sent as-is</p>
+                </div>
+                <div>
+                  <p className="text-lg font-semibold text-foreground">{draftStats.edited}</p>
+                  <p className="text-xs text-muted-foreground">Edited</p>
+                </div>
+                <div>
+                  <p className="text-lg font-semibold text-foreground">{draftStats.discarded}</p>
+                  <p className="text-xs text-muted-foreground">Discarded</p>
+                </div>
+                <div>
+                  <p className="text-lg font-semibold text-foreground">{draftStats.acceptanceRate}%</p>
+                  <p className="text-xs text-muted-foreground">Used</p>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* AI Spend Card */}
+        {spendData && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <DollarSign className="h-5 w-5 text-primary" />
+                AI Spend
+              </CardTitle>
+              <CardDescription>
+                Model cost of AI replies over the last 30 days. See Insights for the full breakdown.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <span className="text-2xl font-bold text-foreground">
+                ${spendData.totalCostUsd.toFixed(2)}
+              </span>
+              {spendData.perModel.map((entry) => (
+                <div
+                  key={entry.model}
+                  className="flex items-center justify-between py-2 border-b border-border last:border-0"
+                >
+                  <span className="text-muted-foreground">{entry.model}</span>
+                  <span className="font-medium">
+                    ${entry.costUsd.toFixed(2)} · {entry.responses.toLocaleString()} replies
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Stats Grid */}
         <div className="grid gap-4 md:grid-cols-3">
           {/* Billing Period */}
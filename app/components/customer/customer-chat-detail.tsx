@@ -33,6 +33,8 @@ interface Message {
   aiModel?: string;
   tokensUsed?: number;
   processingTime?: number;
+  streamStatus?: "streaming" | "complete" | "replaced";
+  customerFeedback?: "helpful" | "not_helpful";
   agentId?: string;
   agentName?: string;
   agentAvatar?: string;
@@ -47,7 +49,8 @@ interface Message {
     | "agent_joined"
     | "agent_left"
     | "issue_resolved"
-    | "auto_resolved";
+    | "auto_resolved"
+    | "transferred";
 }
 
 export function CustomerChatDetail({
@@ -97,6 +100,7 @@ export function CustomerChatDetail({
   const sendMessage = useMutation(api.messages.mutations.sendCustomerMessage);
   const uploadFile = useAction(api.uploadthing.actions.uploadFile);
   const selectDepartment = useMutation(api.departments.mutations.selectDepartmentForConversation);
+  const submitFeedback = useMutation(api.messages.mutations.submitMessageFeedback);
   const updatePresence = useMutation(api.presence.mutations.updatePresence);
   const heartbeat = useMutation(api.presence.mutations.heartbeat);
   const markAsRead = useMutation(
@@ -153,7 +157,19 @@ export function CustomerChatDetail({
     }
   };
 
-  const isAITyping = conversation.aiProcessing || false;
+  const handleFeedback = async (messageId: string, feedback: "helpful" | "not_helpful") => {
+    try {
+      await submitFeedback({ messageId: messageId as Id<"messages">, feedback });
+    } catch (error) {
+      toast.error("Failed to send feedback");
+    }
+  };
+
+  // Once streamed text is visible, it replaces the typing indicator
+  const hasStreamingText = allMessages.some(
+    (msg) => msg.streamStatus === "streaming" && msg.content
+  );
+  const isAITyping = (conversation.aiProcessing || false) && !hasStreamingText;
   const isAgentTyping = typingUsers?.some((u: any) => u.userRole === "support");
 
   // Message transformation
@@ -167,6 +183,8 @@ export function CustomerChatDetail({
     agentAvatar: msg.agentAvatar,
     readByCustomerAt: msg.readByCustomerAt,
     readByAgentAt: msg.readByAgentAt,
+    isStreaming: msg.streamStatus === "streaming",
+    customerFeedback: msg.customerFeedback,
     attachment: msg.attachmentUrl
       ? {
           name: msg.attachmentName || "image",
@@ -485,6 +503,7 @@ export function CustomerChatDetail({
                   message={transformMessage(msg)}
                   viewType="customer"
                   currentUserId={userId}
+                  onFeedback={(feedback) => handleFeedback(msg._id, feedback)}
                 />
               ))}
 
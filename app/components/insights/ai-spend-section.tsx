@@ -0,0 +1,345 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { TimePeriod, SpendBreakdown, formatUsd } from "./types";
+
+interface AiSpendSectionProps {
+  data: SpendBreakdown;
+  period: TimePeriod;
+}
+
+const periodLabels: Record<TimePeriod, string> = {
+  "3days": "3 Days",
+  week: "Week",
+  month: "Month",
+  "3months": "3 Months",
+};
+
+export function AiSpendSection({ data, period }: AiSpendSectionProps) {
+  const [pricingOpen, setPricingOpen] = useState(false);
+
+  return (
+    <div>
+      {/* Section Header */}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-h3 text-foreground">AI Spend</h2>
+          <p className="text-body-sm text-muted-foreground mt-1">
+            What AI replies cost, by model, day and conversation
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setPricingOpen(true)}>
+          Model prices
+        </Button>
+      </div>
+
+      {data.unpricedModels.length > 0 && (
+        <p className="mb-4 text-body-sm text-warning">
+          No price set for {data.unpricedModels.join(", ")}. Replies from{" "}
+          {data.unpricedModels.length === 1 ? "this model" : "these models"} are
+          counted as $0.
+        </p>
+      )}
+
+      {data.perDay.length === 0 ? (
+        <div className="border border-border rounded-lg p-12 text-center">
+          <h3 className="text-body-sm text-foreground font-medium mb-1">
+            No AI spend in this period
+          </h3>
+          <p className="text-body-sm text-muted-foreground">
+            Costs will appear here as the AI replies to customers
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="border border-border rounded-lg p-4 bg-card">
+            <ResponsiveContainer width="100%" height={200}>
+              <BarChart data={data.perDay} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <XAxis
+                  dataKey="label"
+                  stroke="var(--muted-foreground)"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  stroke="var(--muted-foreground)"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={(value: number) => `$${value}`}
+                />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    if (!active || !payload || payload.length === 0)
+                      return null;
+                    const day = payload[0].payload;
+                    return (
+                      <div className="bg-card border border-border rounded-lg shadow-lg p-3">
+                        <p className="text-body-sm text-foreground font-medium">
+                          {formatUsd(day.costUsd)}
+                        </p>
+                        <p className="text-body-sm text-muted-foreground">
+                          {day.label} · {day.responses} replies
+                        </p>
+                      </div>
+                    );
+                  }}
+                  cursor={{ fill: "var(--secondary)", opacity: 0.4 }}
+                />
+                <Bar dataKey="costUsd" fill="var(--primary)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <p className="text-body-sm text-foreground">
+            <span className="text-muted-foreground">
+              Past {periodLabels[period]}:
+            </span>{" "}
+            <span className="font-medium">{formatUsd(data.totalCostUsd)}</span>
+          </p>
+
+          {/* Per model */}
+          <div>
+            <h3 className="text-label text-foreground mb-2">By model</h3>
+            <div className="border border-border rounded-lg divide-y divide-border">
+              <div className="grid grid-cols-5 gap-2 px-3 py-2 text-muted-foreground">
+                <span className="col-span-2">Model</span>
+                <span className="text-right">Replies</span>
+                <span className="text-right">Tokens in / out</span>
+                <span className="text-right">Cost</span>
+              </div>
+              {data.perModel.map((entry) => (
+                <div key={entry.model} className="grid grid-cols-5 gap-2 px-3 py-2">
+                  <span className="col-span-2 font-medium truncate">{entry.model}</span>
+                  <span className="text-right">{entry.responses.toLocaleString()}</span>
+                  <span className="text-right text-muted-foreground">
+                    {entry.promptTokens.toLocaleString()} /{" "}
+                    {entry.completionTokens.toLocaleString()}
+                  </span>
+                  <span className="text-right">{formatUsd(entry.costUsd)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Per conversation */}
+          {data.topConversations.length > 0 && (
+            <div>
+              <h3 className="text-label text-foreground mb-2">
+                Most expensive conversations
+              </h3>
+              <div className="border border-border rounded-lg divide-y divide-border">
+                {data.topConversations.map((conversation) => (
+                  <div
+                    key={conversation.conversationId}
+                    className="flex items-center justify-between gap-2 px-3 py-2"
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{conversation.customerName}</p>
+                      <p className="text-muted-foreground">
+                        {conversation.messageCount} messages · last{" "}
+                        {new Date(conversation.lastMessageAt).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <span>{formatUsd(conversation.costUsd)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      <ModelPricingDialog open={pricingOpen} onClose={() => setPricingOpen(false)} />
+    </div>
+  );
+}
+
+function ModelPricingDialog({ open, onClose }: { open: boolean; onClose: () => void }) {
+  const prices = useQuery(api.modelPricing.queries.listModelPricing, open ? {} : "skip");
+  const upsertPrice = useMutation(api.modelPricing.mutations.upsertModelPricing);
+  const deletePrice = useMutation(api.modelPricing.mutations.deleteModelPricing);
+  const seedDefaults = useMutation(api.modelPricing.mutations.seedDefaultModelPricing);
+
+  const [model, setModel] = useState("");
+  const [input, setInput] = useState("");
+  const [output, setOutput] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const parsedInput = Number(input);
+  const parsedOutput = Number(output);
+  const canSave =
+    model.trim().length > 0 &&
+    input !== "" &&
+    output !== "" &&
+    parsedInput >= 0 &&
+    parsedOutput >= 0 &&
+    !isSaving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      await upsertPrice({
+        model: model.trim(),
+        inputPerMillion: parsedInput,
+        outputPerMillion: parsedOutput,
+      });
+      toast.success("Price saved");
+      setModel("");
+      setInput("");
+      setOutput("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save price");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (pricingId: Id<"model_pricing">) => {
+    try {
+      await deletePrice({ pricingId });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete price");
+    }
+  };
+
+  const handleSeed = async () => {
+    try {
+      const { added } = await seedDefaults({});
+      toast.success(added > 0 ? `Added ${added} list prices` : "List prices already set");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to add list prices");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="text-body-sm">
+        <DialogHeader>
+          <DialogTitle className="text-h3">Model Prices</DialogTitle>
+          <DialogDescription>
+            USD per million tokens. Changes apply to replies sent from now on.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {prices !== undefined && prices.length === 0 ? (
+            <p className="text-muted-foreground">
+              No prices yet.{" "}
+              <button type="button" className="underline" onClick={handleSeed}>
+                Add OpenAI list prices
+              </button>
+            </p>
+          ) : (
+            <div className="border border-border rounded-lg divide-y divide-border">
+              {(prices ?? []).map((price) => (
+                <div
+                  key={price._id}
+                  className="flex items-center justify-between gap-2 px-3 py-2"
+                >
+                  <button
+                    type="button"
+                    className="font-medium truncate text-left"
+                    onClick={() => {
+                      setModel(price.model);
+                      setInput(String(price.inputPerMillion));
+                      setOutput(String(price.outputPerMillion));
+                    }}
+                  >
+                    {price.model}
+                  </button>
+                  <div className="flex items-center gap-3">
+                    <span className="text-muted-foreground">
+                      ${price.inputPerMillion} in · ${price.outputPerMillion} out
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => handleDelete(price._id)}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="pricing-model" className="text-label">
+                Model
+              </Label>
+              <Input
+                id="pricing-model"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                placeholder="gpt-5-nano"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pricing-input" className="text-label">
+                Input
+              </Label>
+              <Input
+                id="pricing-input"
+                type="number"
+                min={0}
+                step="any"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pricing-output" className="text-label">
+                Output
+              </Label>
+              <Input
+                id="pricing-output"
+                type="number"
+                min={0}
+                step="any"
+                value={output}
+                onChange={(e) => setOutput(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            Save price
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
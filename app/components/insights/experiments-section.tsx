@@ -0,0 +1,448 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+interface ExperimentsSectionProps {
+  companyId: Id<"companies">;
+  userId?: Id<"users">;
+}
+
+// Below this many conversations per variant the numbers are mostly noise
+const MIN_CONVERSATIONS_PER_VARIANT = 30;
+
+type Variant = "a" | "b";
+
+type Metric = {
+  label: string;
+  format: (stats: VariantStats) => string;
+  value: (stats: VariantStats) => number | null;
+  higherIsBetter: boolean;
+};
+
+type VariantStats = {
+  conversations: number;
+  handoffRate: number;
+  deflectionRate: number;
+  csatScore: number | null;
+  csatResponses: number;
+  aiReplies: number;
+  avgTokensPerReply: number;
+};
+
+const metrics: Metric[] = [
+  {
+    label: "Handoff rate",
+    format: (s) => `${s.handoffRate}%`,
+    value: (s) => s.handoffRate,
+    higherIsBetter: false,
+  },
+  {
+    label: "Resolved without a human",
+    format: (s) => `${s.deflectionRate}%`,
+    value: (s) => s.deflectionRate,
+    higherIsBetter: true,
+  },
+  {
+    label: "CSAT",
+    format: (s) =>
+      s.csatScore === null ? "—" : `${s.csatScore}% (${s.csatResponses} ratings)`,
+    value: (s) => s.csatScore,
+    higherIsBetter: true,
+  },
+  {
+    label: "Tokens per reply",
+    format: (s) => s.avgTokensPerReply.toLocaleString(),
+    value: (s) => (s.aiReplies === 0 ? null : s.avgTokensPerReply),
+    higherIsBetter: false,
+  },
+];
+
+export function ExperimentsSection({ companyId, userId }: ExperimentsSectionProps) {
+  const [selectedId, setSelectedId] = useState<Id<"ai_experiments"> | null>(null);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const experiments = useQuery(api.experiments.queries.listExperiments, { companyId });
+  const activeId = selectedId ?? experiments?.[0]?._id;
+  const experiment = experiments?.find((e) => e._id === activeId);
+  const results = useQuery(
+    api.experiments.queries.getExperimentResults,
+    activeId ? { experimentId: activeId } : "skip"
+  );
+
+  const stopExperiment = useMutation(api.experiments.mutations.stopExperiment);
+  const promoteVariant = useMutation(api.experiments.mutations.promoteVariant);
+
+  const handleStop = async () => {
+    if (!experiment) return;
+    setIsUpdating(true);
+    try {
+      await stopExperiment({ experimentId: experiment._id });
+      toast.success("Experiment stopped");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to stop experiment");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handlePromote = async (variant: Variant) => {
+    if (!experiment) return;
+    setIsUpdating(true);
+    try {
+      await promoteVariant({ experimentId: experiment._id, variant, promotedBy: userId });
+      toast.success(`Variant ${variant.toUpperCase()} is now live`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to promote variant");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const isBetter = (metric: Metric, variant: Variant) => {
+    if (!results) return false;
+    const mine = metric.value(results[variant]);
+    const theirs = metric.value(results[variant === "a" ? "b" : "a"]);
+    if (mine === null || theirs === null || mine === theirs) return false;
+    return metric.higherIsBetter ? mine > theirs : mine < theirs;
+  };
+
+  const tooEarly =
+    !!results &&
+    (results.a.conversations < MIN_CONVERSATIONS_PER_VARIANT ||
+      results.b.conversations < MIN_CONVERSATIONS_PER_VARIANT);
+
+  return (
+    <div>
+      {/* Section Header */}
+      <div className="mb-6 flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-h3 text-foreground">Experiments</h2>
+          <p className="text-body-sm text-muted-foreground mt-1">
+            Compare two saved AI configurations on live conversations
+          </p>
+        </div>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => setIsCreateOpen(true)}
+          disabled={experiments?.some((e) => e.status === "running")}
+        >
+          <Plus className="h-4 w-4 mr-1.5" />
+          New Experiment
+        </Button>
+      </div>
+
+      {experiments === undefined ? (
+        <Skeleton className="h-[160px] w-full" />
+      ) : !experiment ? (
+        <div className="border border-border rounded-lg p-12 text-center">
+          <h3 className="text-body-sm text-foreground font-medium mb-1">
+            No experiments yet
+          </h3>
+          <p className="text-body-sm text-muted-foreground">
+            Pick two versions from AI Studio history and split new conversations
+            between them
+          </p>
+        </div>
+      ) : (
+        <div className="border border-border rounded-lg p-4 bg-card space-y-4">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <Select
+              value={activeId}
+              onValueChange={(v) => setSelectedId(v as Id<"ai_experiments">)}
+            >
+              <SelectTrigger className="w-full sm:w-80">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {experiments.map((e) => (
+                  <SelectItem key={e._id} value={e._id}>
+                    {e.name} · {new Date(e.startedAt).toLocaleDateString()}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {experiment.status === "running" ? (
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className="text-xs">
+                  Running
+                </Badge>
+                <Button size="sm" variant="ghost" onClick={handleStop} disabled={isUpdating}>
+                  Stop
+                </Button>
+              </div>
+            ) : (
+              <p className="text-body-sm text-muted-foreground">
+                {experiment.winner
+                  ? `Variant ${experiment.winner.toUpperCase()} promoted`
+                  : "Stopped"}
+                {experiment.endedAt &&
+                  ` on ${new Date(experiment.endedAt).toLocaleDateString()}`}
+              </p>
+            )}
+          </div>
+
+          {results === undefined ? (
+            <Skeleton className="h-32 w-full" />
+          ) : (
+            <>
+              <table className="w-full text-body-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground">
+                    <th className="font-normal py-2"></th>
+                    {(["a", "b"] as const).map((variant) => (
+                      <th key={variant} className="font-normal py-2">
+                        <span className="font-medium text-foreground">
+                          Variant {variant.toUpperCase()}
+                        </span>{" "}
+                        · version{" "}
+                        {variant === "a"
+                          ? experiment.variantAVersion
+                          : experiment.variantBVersion}{" "}
+                        ·{" "}
+                        {variant === "a"
+                          ? 100 - experiment.trafficSplit
+                          : experiment.trafficSplit}
+                        % of traffic
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-t border-border">
+                    <td className="py-2 text-muted-foreground">Conversations</td>
+                    <td className="py-2">{results.a.conversations.toLocaleString()}</td>
+                    <td className="py-2">{results.b.conversations.toLocaleString()}</td>
+                  </tr>
+                  {metrics.map((metric) => (
+                    <tr key={metric.label} className="border-t border-border">
+                      <td className="py-2 text-muted-foreground">{metric.label}</td>
+                      {(["a", "b"] as const).map((variant) => (
+                        <td
+                          key={variant}
+                          className={cn(
+                            "py-2",
+                            isBetter(metric, variant) && "font-medium text-success"
+                          )}
+                        >
+                          {metric.format(results[variant])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {experiment.status === "running" && (
+                <div className="flex items-center justify-between gap-4 flex-wrap">
+                  <p className="text-body-sm text-muted-foreground">
+                    {tooEarly
+                      ? `Too early to call. Wait for at least ${MIN_CONVERSATIONS_PER_VARIANT} conversations in each variant.`
+                      : "Promoting a variant makes it the live config for everyone."}
+                  </p>
+                  <div className="flex gap-2">
+                    {(["a", "b"] as const).map((variant) => (
+                      <Button
+                        key={variant}
+                        size="sm"
+                        variant="outline"
+                        onClick={() => handlePromote(variant)}
+                        disabled={isUpdating}
+                      >
+                        Promote {variant.toUpperCase()}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      <NewExperimentDialog
+        open={isCreateOpen}
+        onClose={() => setIsCreateOpen(false)}
+        companyId={companyId}
+        userId={userId}
+        onCreated={(experimentId) => setSelectedId(experimentId)}
+      />
+    </div>
+  );
+}
+
+function NewExperimentDialog({
+  open,
+  onClose,
+  companyId,
+  userId,
+  onCreated,
+}: {
+  open: boolean;
+  onClose: () => void;
+  companyId: Id<"companies">;
+  userId?: Id<"users">;
+  onCreated: (experimentId: Id<"ai_experiments">) => void;
+}) {
+  const [name, setName] = useState("");
+  const [variantA, setVariantA] = useState<string>("");
+  const [variantB, setVariantB] = useState<string>("");
+  const [split, setSplit] = useState("50");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const versions = useQuery(
+    api.aiConfigVersions.queries.listVersions,
+    open ? { companyId } : "skip"
+  );
+  const startExperiment = useMutation(api.experiments.mutations.startExperiment);
+
+  const parsedSplit = Number(split);
+  const canSave =
+    !!name.trim() &&
+    !!variantA &&
+    !!variantB &&
+    variantA !== variantB &&
+    Number.isInteger(parsedSplit) &&
+    parsedSplit >= 1 &&
+    parsedSplit <= 99 &&
+    !isSaving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    try {
+      const experimentId = await startExperiment({
+        companyId,
+        name: name.trim(),
+        variantAVersionId: variantA as Id<"ai_config_versions">,
+        variantBVersionId: variantB as Id<"ai_config_versions">,
+        trafficSplit: parsedSplit,
+        startedBy: userId,
+      });
+      toast.success("Experiment started");
+      onCreated(experimentId);
+      setName("");
+      setVariantA("");
+      setVariantB("");
+      setSplit("50");
+      onClose();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to start experiment");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const versionOptions = (versions ?? []).map((version) => (
+    <SelectItem key={version._id} value={version._id}>
+      Version {version.version}
+      {version.isLive && " (live)"} ·{" "}
+      {new Date(version.createdAt).toLocaleDateString()}
+    </SelectItem>
+  ));
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="text-body-sm">
+        <DialogHeader>
+          <DialogTitle className="text-h3">New Experiment</DialogTitle>
+          <DialogDescription>
+            New conversations are split between the two versions. Each
+            conversation keeps its version until it ends.
+          </DialogDescription>
+        </DialogHeader>
+
+        {versions !== undefined && versions.length < 2 ? (
+          <p className="text-muted-foreground">
+            Save at least two versions in AI Studio before starting an experiment.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="experiment-name" className="text-label">
+                Name
+              </Label>
+              <Input
+                id="experiment-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Shorter instructions"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label className="text-label">Variant A</Label>
+                <Select value={variantA} onValueChange={setVariantA}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pick a version" />
+                  </SelectTrigger>
+                  <SelectContent>{versionOptions}</SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-label">Variant B</Label>
+                <Select value={variantB} onValueChange={setVariantB}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Pick a version" />
+                  </SelectTrigger>
+                  <SelectContent>{versionOptions}</SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="experiment-split" className="text-label">
+                Traffic to variant B (%)
+              </Label>
+              <Input
+                id="experiment-split"
+                type="number"
+                min={1}
+                max={99}
+                value={split}
+                onChange={(e) => setSplit(e.target.value)}
+                className="w-32"
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!canSave}>
+            Start
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,108 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { TimePeriod, HandoffReasonBreakdown, handoffReasonLabels } from "./types";
+
+interface HandoffReasonsSectionProps {
+  data: HandoffReasonBreakdown;
+  period: TimePeriod;
+}
+
+const periodLabels: Record<TimePeriod, string> = {
+  "3days": "3 Days",
+  week: "Week",
+  month: "Month",
+  "3months": "3 Months",
+};
+
+export function HandoffReasonsSection({ data, period }: HandoffReasonsSectionProps) {
+  const chartData = data.reasons.map((reason) => ({
+    ...reason,
+    label: handoffReasonLabels[reason.category] || reason.category,
+  }));
+
+  return (
+    <div>
+      {/* Section Header */}
+      <div className="mb-6">
+        <h2 className="text-h3 text-foreground">Handoff Reasons</h2>
+        <p className="text-body-sm text-muted-foreground mt-1">
+          Why conversations were handed to your team
+        </p>
+      </div>
+
+      {data.total === 0 ? (
+        <div className="border border-border rounded-lg p-12 text-center">
+          <h3 className="text-body-sm text-foreground font-medium mb-1">
+            No handoffs in this period
+          </h3>
+          <p className="text-body-sm text-muted-foreground">
+            Handoffs will appear here when the AI passes a conversation to your team
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="border border-border rounded-lg p-4 bg-card">
+            <ResponsiveContainer width="100%" height={Math.max(120, chartData.length * 44)}>
+              <BarChart
+                data={chartData}
+                layout="vertical"
+                margin={{ top: 5, right: 20, left: 0, bottom: 5 }}
+              >
+                <XAxis
+                  type="number"
+                  allowDecimals={false}
+                  stroke="var(--muted-foreground)"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  type="category"
+                  dataKey="label"
+                  width={180}
+                  stroke="var(--muted-foreground)"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    if (!active || !payload || payload.length === 0)
+                      return null;
+                    return (
+                      <div className="bg-card border border-border rounded-lg shadow-lg p-3">
+                        <p className="text-body-sm text-foreground font-medium">
+                          {payload[0].value} handoffs
+                        </p>
+                        <p className="text-body-sm text-muted-foreground">
+                          {payload[0].payload.label}
+                        </p>
+                      </div>
+                    );
+                  }}
+                  cursor={{ fill: "var(--secondary)", opacity: 0.4 }}
+                />
+                <Bar dataKey="count" fill="var(--primary)" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <p className="mt-4 text-body-sm text-foreground">
+            <span className="text-muted-foreground">
+              Past {periodLabels[period]}:
+            </span>{" "}
+            <span className="font-medium">
+              {data.total.toLocaleString()} handoffs
+            </span>
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
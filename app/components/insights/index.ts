@@ -1,4 +1,11 @@
 export { InsightsView } from "./insights-view";
 export { UsageOverviewSection } from "./usage-overview-section";
 export { UsageTrendsSection } from "./usage-trends-section";
+export { HandoffReasonsSection } from "./handoff-reasons-section";
+export { ExperimentsSection } from "./experiments-section";
+export { AiSpendSection } from "./ai-spend-section";
+export { InjectionSection } from "./injection-section";
+export { PriceIncidentsSection } from "./price-incidents-section";
+export { SlaSection } from "./sla-section";
+export { TagsSection } from "./tags-section";
 export * from "./types";
@@ -0,0 +1,114 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { TimePeriod, InjectionTrends, injectionSignalLabels } from "./types";
+
+interface InjectionSectionProps {
+  data: InjectionTrends;
+  period: TimePeriod;
+}
+
+const periodLabels: Record<TimePeriod, string> = {
+  "3days": "3 Days",
+  week: "Week",
+  month: "Month",
+  "3months": "3 Months",
+};
+
+export function InjectionSection({ data, period }: InjectionSectionProps) {
+  return (
+    <div>
+      {/* Section Header */}
+      <div className="mb-6">
+        <h2 className="text-h3 text-foreground">Prompt Injection</h2>
+        <p className="text-body-sm text-muted-foreground mt-1">
+          Customer messages that tried to take over the AI
+        </p>
+      </div>
+
+      {data.total === 0 ? (
+        <div className="border border-border rounded-lg p-12 text-center">
+          <h3 className="text-body-sm text-foreground font-medium mb-1">
+            No injection attempts in this period
+          </h3>
+          <p className="text-body-sm text-muted-foreground">
+            Suspicious messages will appear here when customers try to override the AI
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="border border-border rounded-lg p-4 bg-card">
+            <ResponsiveContainer width="100%" height={180}>
+              <BarChart data={data.perDay} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <XAxis
+                  dataKey="label"
+                  stroke="var(--muted-foreground)"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  allowDecimals={false}
+                  stroke="var(--muted-foreground)"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    if (!active || !payload || payload.length === 0)
+                      return null;
+                    const day = payload[0].payload;
+                    return (
+                      <div className="bg-card border border-border rounded-lg shadow-lg p-3">
+                        <p className="text-body-sm text-foreground font-medium">
+                          {day.quarantined} quarantined · {day.suspicious} suspicious
+                        </p>
+                        <p className="text-body-sm text-muted-foreground">{day.label}</p>
+                      </div>
+                    );
+                  }}
+                  cursor={{ fill: "var(--secondary)", opacity: 0.4 }}
+                />
+                <Bar dataKey="quarantined" stackId="detections" fill="var(--destructive)" />
+                <Bar
+                  dataKey="suspicious"
+                  stackId="detections"
+                  fill="var(--muted-foreground)"
+                  radius={[4, 4, 0, 0]}
+                />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <p className="mt-4 text-body-sm text-foreground">
+            <span className="text-muted-foreground">
+              Past {periodLabels[period]}:
+            </span>{" "}
+            <span className="font-medium">
+              {data.quarantined.toLocaleString()} quarantined,{" "}
+              {(data.total - data.quarantined).toLocaleString()} suspicious across{" "}
+              {data.conversations.toLocaleString()} conversations
+            </span>
+          </p>
+
+          <div className="mt-4 flex flex-wrap gap-2">
+            {data.signals.map(({ signal, count }) => (
+              <span
+                key={signal}
+                className="px-2 py-1 rounded-md border border-border text-body-sm text-muted-foreground"
+              >
+                {injectionSignalLabels[signal] ?? signal} · {count}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -8,6 +8,13 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useUser } from "@/app/contexts/user-context";
 import { UsageOverviewSection } from "./usage-overview-section";
 import { UsageTrendsSection } from "./usage-trends-section";
+import { HandoffReasonsSection } from "./handoff-reasons-section";
+import { ExperimentsSection } from "./experiments-section";
+import { AiSpendSection } from "./ai-spend-section";
+import { InjectionSection } from "./injection-section";
+import { PriceIncidentsSection } from "./price-incidents-section";
+import { SlaSection } from "./sla-section";
+import { TagsSection } from "./tags-section";
 import { TimePeriod, ChartDataPoint, PeriodStats } from "./types";
 
 export function InsightsView() {
@@ -43,6 +50,42 @@ export function InsightsView() {
     companyId ? { companyId, period } : "skip"
   );
 
+  // Fetch handoff reasons
+  const handoffData = useQuery(
+    api.conversations.queries.getHandoffReasonBreakdown,
+    companyId ? { companyId, period } : "skip"
+  );
+
+  // Fetch AI spend
+  const spendData = useQuery(
+    api.usage.queries.getSpendBreakdown,
+    companyId ? { companyId, period } : "skip"
+  );
+
+  // Fetch prompt injection detections
+  const injectionData = useQuery(
+    api.injectionDetections.queries.getInjectionTrends,
+    companyId ? { companyId, period } : "skip"
+  );
+
+  // Fetch price guard incidents
+  const priceIncidentData = useQuery(
+    api.priceIncidents.queries.getPriceIncidents,
+    companyId ? { companyId, period } : "skip"
+  );
+
+  // Fetch SLA attainment
+  const slaData = useQuery(
+    api.sla.queries.getSlaAttainment,
+    companyId ? { companyId, period } : "skip"
+  );
+
+  // Fetch tag counts
+  const tagData = useQuery(
+    api.tags.queries.getTagCounts,
+    companyId ? { companyId, period } : "skip"
+  );
+
   // Track initial load
   useEffect(() => {
     if (usageData && !hasLoadedOnce) {
@@ -81,7 +124,7 @@ export function InsightsView() {
       <div className="sticky top-0 z-10 bg-background p-4 border-b border-border">
         <h1 className="text-h2 text-foreground">Insights</h1>
         <p className="text-body-sm text-muted-foreground mt-1">
-          Track AI usage and plan limits
+          Track AI usage, spend, plan limits, handoffs, SLAs and experiments
         </p>
       </div>
 
@@ -126,6 +169,80 @@ export function InsightsView() {
               isRefetching={!trendsData && previousTrendsData !== null}
             />
           )}
+
+          {/* Handoff Reasons */}
+          {handoffData ? (
+            <HandoffReasonsSection data={handoffData} period={period} />
+          ) : (
+            <div className="space-y-4">
+              <Skeleton className="h-5 w-32" />
+              <Skeleton className="h-4 w-64" />
+              <Skeleton className="h-[160px] w-full" />
+            </div>
+          )}
+
+          {/* SLA Attainment */}
+          {slaData ? (
+            <SlaSection data={slaData} period={period} />
+          ) : (
+            <div className="space-y-4">
+              <Skeleton className="h-5 w-32" />
+              <Skeleton className="h-4 w-64" />
+              <Skeleton className="h-[120px] w-full" />
+            </div>
+          )}
+
+          {/* Conversation Tags */}
+          {tagData ? (
+            <TagsSection data={tagData} period={period} />
+          ) : (
+            <div className="space-y-4">
+              <Skeleton className="h-5 w-32" />
+              <Skeleton className="h-4 w-64" />
+              <Skeleton className="h-[160px] w-full" />
+            </div>
+          )}
+
+          {/* AI Spend */}
+          {spendData ? (
+            <AiSpendSection data={spendData} period={period} />
+          ) : (
+            <div className="space-y-4">
+              <Skeleton className="h-5 w-32" />
+              <Skeleton className="h-4 w-64" />
+              <Skeleton className="h-[200px] w-full" />
+            </div>
+          )}
+
+          {/* Prompt Injection */}
+          {injectionData ? (
+            <InjectionSection data={injectionData} period={period} />
+          ) : (
+            <div className="space-y-4">
+              <Skeleton className="h-5 w-32" />
+              <Skeleton className="h-4 w-64" />
+              <Skeleton className="h-[180px] w-full" />
+            </div>
+          )}
+
+          {/* Price Corrections */}
+          {priceIncidentData ? (
+            <PriceIncidentsSection data={priceIncidentData} period={period} />
+          ) : (
+            <div className="space-y-4">
+              <Skeleton className="h-5 w-32" />
+              <Skeleton className="h-4 w-64" />
+              <Skeleton className="h-[180px] w-full" />
+            </div>
+          )}
+
+          {/* A/B Experiments */}
+          {companyId && (
+            <ExperimentsSection
+              companyId={companyId}
+              userId={userData?.user?._id as Id<"users"> | undefined}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,123 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { formatDistanceToNow } from "date-fns";
+import { TimePeriod, PriceIncidents, PriceResolution, priceResolutionLabels } from "./types";
+
+interface PriceIncidentsSectionProps {
+  data: PriceIncidents;
+  period: TimePeriod;
+}
+
+const periodLabels: Record<TimePeriod, string> = {
+  "3days": "3 Days",
+  week: "Week",
+  month: "Month",
+  "3months": "3 Months",
+};
+
+export function PriceIncidentsSection({ data, period }: PriceIncidentsSectionProps) {
+  return (
+    <div>
+      {/* Section Header */}
+      <div className="mb-6">
+        <h2 className="text-h3 text-foreground">Price Corrections</h2>
+        <p className="text-body-sm text-muted-foreground mt-1">
+          AI replies that quoted prices not in your plan catalog
+        </p>
+      </div>
+
+      {data.total === 0 ? (
+        <div className="border border-border rounded-lg p-12 text-center">
+          <h3 className="text-body-sm text-foreground font-medium mb-1">
+            No wrong prices in this period
+          </h3>
+          <p className="text-body-sm text-muted-foreground">
+            Replies quoting a price that doesn&apos;t match a visible plan will appear here
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="border border-border rounded-lg p-4 bg-card">
+            <ResponsiveContainer width="100%" height={180}>
+              <BarChart data={data.perDay} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <XAxis
+                  dataKey="label"
+                  stroke="var(--muted-foreground)"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  allowDecimals={false}
+                  stroke="var(--muted-foreground)"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    if (!active || !payload || payload.length === 0)
+                      return null;
+                    const day = payload[0].payload;
+                    return (
+                      <div className="bg-card border border-border rounded-lg shadow-lg p-3">
+                        <p className="text-body-sm text-foreground font-medium">
+                          {day.count} {day.count === 1 ? "reply" : "replies"} corrected
+                        </p>
+                        <p className="text-body-sm text-muted-foreground">{day.label}</p>
+                      </div>
+                    );
+                  }}
+                  cursor={{ fill: "var(--secondary)", opacity: 0.4 }}
+                />
+                <Bar dataKey="count" fill="var(--color-warning)" radius={[4, 4, 0, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <p className="mt-4 text-body-sm text-foreground">
+            <span className="text-muted-foreground">
+              Past {periodLabels[period]}:
+            </span>{" "}
+            <span className="font-medium">
+              {data.total.toLocaleString()} {data.total === 1 ? "reply" : "replies"} with wrong prices
+            </span>
+          </p>
+
+          <div className="mt-4 flex flex-wrap gap-2">
+            {(Object.keys(data.byResolution) as PriceResolution[])
+              .filter((resolution) => data.byResolution[resolution] > 0)
+              .map((resolution) => (
+                <span
+                  key={resolution}
+                  className="px-2 py-1 rounded-md border border-border text-body-sm text-muted-foreground"
+                >
+                  {priceResolutionLabels[resolution]} · {data.byResolution[resolution]}
+                </span>
+              ))}
+          </div>
+
+          <div className="mt-4 border border-border rounded-lg divide-y divide-border">
+            {data.recent.map((incident) => (
+              <div key={incident.id} className="flex items-center justify-between gap-4 px-4 py-2">
+                <span className="text-body-sm text-foreground truncate">
+                  Quoted {incident.quoted.join(", ")}
+                </span>
+                <span className="text-body-sm text-muted-foreground whitespace-nowrap">
+                  {priceResolutionLabels[incident.resolution]} ·{" "}
+                  {formatDistanceToNow(new Date(incident.createdAt), { addSuffix: true })}
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { cn } from "@/lib/utils";
+import { TimePeriod, SlaAttainment, SlaMetric, SlaPriority, slaMetricLabels } from "./types";
+
+interface SlaSectionProps {
+  data: SlaAttainment;
+  period: TimePeriod;
+}
+
+const periodLabels: Record<TimePeriod, string> = {
+  "3days": "3 Days",
+  week: "Week",
+  month: "Month",
+  "3months": "3 Months",
+};
+
+const priorityLabels: Record<SlaPriority, string> = {
+  urgent: "Urgent",
+  high: "High",
+  normal: "Normal",
+  low: "Low",
+};
+
+const formatRate = (rate: number | null) => (rate === null ? "—" : `${Math.round(rate * 100)}%`);
+
+export function SlaSection({ data, period }: SlaSectionProps) {
+  return (
+    <div>
+      {/* Section Header */}
+      <div className="mb-6">
+        <h2 className="text-h3 text-foreground">SLA Attainment</h2>
+        <p className="text-body-sm text-muted-foreground mt-1">
+          How often your team met its response and resolution targets
+        </p>
+      </div>
+
+      {data.conversations === 0 ? (
+        <div className="border border-border rounded-lg p-12 text-center">
+          <h3 className="text-body-sm text-foreground font-medium mb-1">
+            No conversations with an SLA in this period
+          </h3>
+          <p className="text-body-sm text-muted-foreground">
+            Add an SLA policy under Workspace to track response times on handed-off conversations
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {(Object.keys(data.metrics) as SlaMetric[]).map((metric) => {
+              const { met, breached, attainmentRate } = data.metrics[metric];
+              return (
+                <div key={metric} className="border border-border rounded-lg p-4 bg-card">
+                  <p className="text-body-sm text-muted-foreground">{slaMetricLabels[metric]}</p>
+                  <p
+                    className={cn(
+                      "text-h3 font-medium mt-1",
+                      attainmentRate !== null && attainmentRate < 0.8
+                        ? "text-destructive"
+                        : "text-foreground"
+                    )}
+                  >
+                    {formatRate(attainmentRate)}
+                  </p>
+                  <p className="text-body-sm text-muted-foreground mt-1">
+                    {met} met · {breached} breached
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          <p className="mt-4 text-body-sm text-foreground">
+            <span className="text-muted-foreground">
+              Past {periodLabels[period]}:
+            </span>{" "}
+            <span className="font-medium">
+              {data.breachedConversations} of {data.conversations.toLocaleString()}{" "}
+              {data.conversations === 1 ? "conversation" : "conversations"} missed a target
+            </span>
+            {data.overdueNow > 0 && (
+              <span className="text-destructive"> · {data.overdueNow} overdue right now</span>
+            )}
+          </p>
+
+          <div className="mt-4 flex flex-wrap gap-2">
+            {(Object.keys(data.byPriority) as SlaPriority[])
+              .filter((priority) => data.byPriority[priority].conversations > 0)
+              .map((priority) => (
+                <span
+                  key={priority}
+                  className="px-2 py-1 rounded-md border border-border text-body-sm text-muted-foreground"
+                >
+                  {priorityLabels[priority]} · {data.byPriority[priority].breached}/
+                  {data.byPriority[priority].conversations} breached
+                </span>
+              ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { TimePeriod, TagCounts } from "./types";
+
+interface TagsSectionProps {
+  data: TagCounts;
+  period: TimePeriod;
+}
+
+const periodLabels: Record<TimePeriod, string> = {
+  "3days": "3 Days",
+  week: "Week",
+  month: "Month",
+  "3months": "3 Months",
+};
+
+// Only the most used tags fit the chart
+const MAX_CHART_TAGS = 10;
+
+export function TagsSection({ data, period }: TagsSectionProps) {
+  const chartData = data.tags.slice(0, MAX_CHART_TAGS);
+  const fromAi = data.tags.reduce((sum, tag) => sum + tag.fromAi, 0);
+
+  return (
+    <div>
+      {/* Section Header */}
+      <div className="mb-6">
+        <h2 className="text-h3 text-foreground">Conversation Tags</h2>
+        <p className="text-body-sm text-muted-foreground mt-1">
+          What your conversations were about, by how often each tag was added
+        </p>
+      </div>
+
+      {data.tags.length === 0 ? (
+        <div className="border border-border rounded-lg p-12 text-center">
+          <h3 className="text-body-sm text-foreground font-medium mb-1">
+            No tagged conversations in this period
+          </h3>
+          <p className="text-body-sm text-muted-foreground">
+            Tags added by agents, automation rules and templates will appear here
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="border border-border rounded-lg p-4 bg-card">
+            <ResponsiveContainer width="100%" height={Math.max(120, chartData.length * 44)}>
+              <BarChart
+                data={chartData}
+                layout="vertical"
+                margin={{ top: 5, right: 20, left: 0, bottom: 5 }}
+              >
+                <XAxis
+                  type="number"
+                  allowDecimals={false}
+                  stroke="var(--muted-foreground)"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <YAxis
+                  type="category"
+                  dataKey="name"
+                  width={140}
+                  stroke="var(--muted-foreground)"
+                  fontSize={11}
+                  tickLine={false}
+                  axisLine={false}
+                />
+                <Tooltip
+                  content={({ active, payload }) => {
+                    if (!active || !payload || payload.length === 0)
+                      return null;
+                    const tag = payload[0].payload;
+                    return (
+                      <div className="bg-card border border-border rounded-lg shadow-lg p-3">
+                        <p className="text-body-sm text-foreground font-medium">
+                          {tag.conversations} conversations
+                        </p>
+                        <p className="text-body-sm text-muted-foreground">
+                          {tag.name}
+                          {tag.fromAi > 0 && ` · ${tag.fromAi} by automation rules`}
+                        </p>
+                      </div>
+                    );
+                  }}
+                  cursor={{ fill: "var(--secondary)", opacity: 0.4 }}
+                />
+                <Bar dataKey="conversations" fill="var(--primary)" radius={[0, 4, 4, 0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <p className="mt-4 text-body-sm text-foreground">
+            <span className="text-muted-foreground">
+              Past {periodLabels[period]}:
+            </span>{" "}
+            <span className="font-medium">
+              {data.totalTagged.toLocaleString()}{" "}
+              {data.totalTagged === 1 ? "conversation" : "conversations"} tagged
+            </span>
+            {fromAi > 0 && (
+              <span className="text-muted-foreground">
+                {" "}· {fromAi.toLocaleString()} tags added by automation rules
+              </span>
+            )}
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
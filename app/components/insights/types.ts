@@ -53,3 +53,125 @@ export function getStatusMessage(status: UsageStatus): string {
       return "You're running low on responses";
   }
 }
+
+export interface HandoffReasonCount {
+  category: string;
+  count: number;
+}
+
+export interface HandoffReasonBreakdown {
+  total: number;
+  reasons: HandoffReasonCount[];
+}
+
+// Mirrors HANDOFF_REASON_LABELS in convex/ai/handoff.ts
+export const handoffReasonLabels: Record<string, string> = {
+  customer_requested_human: "Customer requested a human",
+  billing: "Billing issue",
+  account_access: "Account or access issue",
+  technical_issue: "Technical issue",
+  negative_sentiment: "Frustrated customer",
+  low_confidence: "AI not confident",
+  keyword_trigger: "Keyword trigger",
+  usage_limit: "AI usage limit reached",
+  automation_rule: "Automation rule",
+  repeated_failures: "AI couldn't resolve it",
+  other: "Other",
+};
+
+export interface ModelSpend {
+  model: string;
+  responses: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface SpendBreakdown {
+  totalCostUsd: number;
+  perModel: ModelSpend[];
+  perDay: { date: string; label: string; costUsd: number; responses: number }[];
+  topConversations: {
+    conversationId: string;
+    customerName: string;
+    messageCount: number;
+    costUsd: number;
+    lastMessageAt: number;
+  }[];
+  unpricedModels: string[];
+}
+
+// Sub-cent spend still shows a non-zero figure
+export function formatUsd(amount: number): string {
+  if (amount > 0 && amount < 0.01) return `$${amount.toFixed(4)}`;
+  return `$${amount.toFixed(2)}`;
+}
+
+export interface InjectionTrends {
+  total: number;
+  quarantined: number;
+  conversations: number;
+  perDay: { date: string; label: string; quarantined: number; suspicious: number }[];
+  signals: { signal: string; count: number }[];
+}
+
+// Mirrors INJECTION_SIGNAL_LABELS in convex/ai/injection.ts
+export const injectionSignalLabels: Record<string, string> = {
+  instruction_override: "Override instructions",
+  prompt_extraction: "Extract system prompt",
+  jailbreak: "Jailbreak",
+  delimiter_spoofing: "Spoofed system/role markers",
+  role_play: "Role-play exploit",
+  encoded_payload: "Encoded payload",
+};
+
+export type PriceResolution = "corrected" | "regenerated" | "flagged" | "price_list";
+
+export interface PriceIncidents {
+  total: number;
+  byResolution: Record<PriceResolution, number>;
+  perDay: { date: string; label: string; count: number }[];
+  recent: {
+    id: string;
+    conversationId: string;
+    quoted: string[];
+    resolution: PriceResolution;
+    createdAt: number;
+  }[];
+}
+
+export const priceResolutionLabels: Record<PriceResolution, string> = {
+  corrected: "Corrected in place",
+  regenerated: "Reply regenerated",
+  flagged: "Flagged for an agent",
+  price_list: "Replaced with price list",
+};
+
+export type SlaMetric = "first_response" | "next_response" | "resolution";
+export type SlaPriority = "urgent" | "high" | "normal" | "low";
+
+export interface SlaAttainment {
+  conversations: number;
+  breachedConversations: number;
+  overdueNow: number;
+  metrics: Record<SlaMetric, { met: number; breached: number; attainmentRate: number | null }>;
+  byPriority: Record<SlaPriority, { conversations: number; breached: number }>;
+}
+
+// Mirrors SLA_METRIC_LABELS in convex/sla/policy.ts
+export const slaMetricLabels: Record<SlaMetric, string> = {
+  first_response: "First response",
+  next_response: "Next response",
+  resolution: "Resolution",
+};
+
+export interface TagCounts {
+  totalTagged: number;
+  tags: Array<{
+    tagId: string;
+    name: string;
+    color: string;
+    conversations: number;
+    fromAi: number; // Added by automation rules
+  }>;
+}
@@ -13,7 +13,13 @@ import {
   LucideIcon,
   Sparkles,
   Building2,
+  Timer,
+  Tag,
+  UserCheck,
   ArrowRightLeft,
+  ListChecks,
+  FlaskConical,
+  EyeOff,
   Activity,
   FileText,
   Users,
@@ -215,6 +221,9 @@ export function MobileSidebar({ userType, user }: MobileSidebarProps) {
         { id: "personality", icon: Sparkles, label: "Personality & Tone", route: "/ai-studio" },
         { id: "company-context", icon: Building2, label: "Company Context", route: "/ai-studio?tab=context" },
         { id: "handoff", icon: ArrowRightLeft, label: "Handoff Triggers", route: "/ai-studio?tab=handoff" },
+        { id: "rules", icon: ListChecks, label: "Automation Rules", route: "/ai-studio?tab=rules" },
+        { id: "tests", icon: FlaskConical, label: "Test Suite", route: "/ai-studio?tab=tests" },
+        { id: "privacy", icon: EyeOff, label: "Privacy", route: "/ai-studio?tab=privacy" },
         { id: "customer-test", icon: Eye, label: "Customer Test", route: "/customer-test" },
       ],
     };
@@ -227,6 +236,9 @@ export function MobileSidebar({ userType, user }: MobileSidebarProps) {
         { id: "templates", icon: FileText, label: "Templates", route: "/workspace" },
         { id: "team", icon: Users, label: "Team", route: "/workspace?tab=team" },
         { id: "departments", icon: Building2, label: "Departments", route: "/workspace?tab=departments" },
+        { id: "sla", icon: Timer, label: "SLA Policies", route: "/workspace?tab=sla" },
+        { id: "tags", icon: Tag, label: "Tags", route: "/workspace?tab=tags" },
+        { id: "assignment", icon: UserCheck, label: "Assignment", route: "/workspace?tab=assignment" },
       ],
     };
 
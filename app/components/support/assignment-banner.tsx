@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { UserCheck } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import type { PendingAssignment } from "./types";
+
+interface AssignmentBannerProps {
+  conversationId: Id<"conversations">;
+  agentId: Id<"users">;
+  assignment: PendingAssignment;
+  assignedAgentName?: string;
+}
+
+export function AssignmentBanner({
+  conversationId,
+  agentId,
+  assignment,
+  assignedAgentName,
+}: AssignmentBannerProps) {
+  const supportTakeover = useMutation(api.conversations.mutations.supportTakeover);
+  const declineAssignment = useMutation(api.assignment.mutations.declineAssignment);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const isMine = assignment.agentId === agentId;
+
+  const handleAccept = async () => {
+    setIsSaving(true);
+    try {
+      await supportTakeover({ conversationId, agentId });
+      toast.success("Conversation accepted");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to accept conversation");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDecline = async () => {
+    setIsSaving(true);
+    try {
+      const result = await declineAssignment({ conversationId, agentId });
+      toast.success(
+        result.reassignedTo ? "Passed to another agent" : "Returned to the queue"
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to decline conversation");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 bg-primary/5 border-primary/20">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <UserCheck className="h-4 w-4 text-primary" />
+            <h3 className="text-sm font-semibold">
+              {isMine ? "Assigned to you" : `Assigned to ${assignedAgentName ?? "another agent"}`}
+            </h3>
+            <span className="text-xs text-muted-foreground">
+              moves on {formatDistanceToNow(new Date(assignment.expiresAt), { addSuffix: true })}
+            </span>
+          </div>
+          <p className="text-sm text-muted-foreground">{assignment.reason}</p>
+        </div>
+        {isMine && (
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={handleDecline} disabled={isSaving}>
+              Decline
+            </Button>
+            <Button size="sm" onClick={handleAccept} disabled={isSaving}>
+              Accept
+            </Button>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+}
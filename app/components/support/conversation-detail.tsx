@@ -23,6 +23,13 @@ import {
   VolumeX,
   CheckCircle2,
   Trash2,
+  Sparkles,
+  Check,
+  Pencil,
+  Flag,
+  ArrowRightLeft,
+  AlarmClock,
+  Hourglass,
 } from "lucide-react";
 import {
   MessageBubble,
@@ -30,8 +37,21 @@ import {
 } from "./message-bubble";
 import { TypingIndicator } from "./typing-indicator";
 import { CustomerProfileModal } from "./customer-profile-modal";
-import { EnhancedQuickReplyPicker } from "./enhanced-quick-reply-picker";
+import {
+  EnhancedQuickReplyPicker,
+  type QuickReplyTemplate as EnhancedQuickReplyTemplate,
+} from "./enhanced-quick-reply-picker";
 import { InternalNotes } from "./internal-notes";
+import { ConversationSummary } from "./conversation-summary";
+import { InjectionReviewBanner } from "./injection-review-banner";
+import { GroundingReviewBanner } from "./grounding-review-banner";
+import { PriceReviewBanner } from "./price-review-banner";
+import { AssignmentBanner } from "./assignment-banner";
+import { TransferDialog } from "./transfer-dialog";
+import { TransferHistory } from "./transfer-history";
+import { ParkDialog, type ParkStatus } from "./park-dialog";
+import { ParkedBanner } from "./parked-banner";
+import type { KnowledgeSource } from "./source-chips";
 import type { QuickReplyTemplate } from "./quick-reply-picker";
 import { MessageListSkeleton } from "./message-skeleton";
 import { UserPresenceAvatar } from "@/components/animate-ui/user-presence-avatar";
@@ -45,6 +65,13 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -66,7 +93,19 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import type { Conversation } from "./types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Textarea } from "@/components/ui/textarea";
+import type { Conversation, ConversationPriority } from "./types";
+import { priorityLabels } from "./sla-badge";
+import { ConversationTags } from "./conversation-tags";
+import { cn } from "@/lib/utils";
 import { Id } from "@/convex/_generated/dataModel";
 
 interface ConversationDetailProps {
@@ -85,6 +124,22 @@ interface Message {
   aiModel?: string;
   tokensUsed?: number;
   processingTime?: number;
+  streamStatus?: "streaming" | "complete" | "replaced";
+  topicVerdict?: {
+    verdict: "allowed" | "off_topic" | "blocked";
+    matchedTopic: string;
+    reason: string;
+    confidence: number;
+    deflected: boolean;
+  };
+  approvalStatus?: "pending" | "approved" | "edited" | "rejected";
+  redactedCategories?: string[];
+  knowledgeSources?: KnowledgeSource[];
+  ungrounded?: boolean;
+  priceCorrection?: "corrected" | "regenerated" | "flagged" | "price_list";
+  customerFeedback?: "helpful" | "not_helpful";
+  injectionScore?: number;
+  injectionSignals?: string[];
   agentId?: string;
   agentName?: string;
   agentAvatar?: string; // Added for avatar URL
@@ -99,7 +154,8 @@ interface Message {
     | "agent_joined"
     | "agent_left"
     | "issue_resolved"
-    | "auto_resolved";
+    | "auto_resolved"
+    | "transferred";
 }
 
 interface TypingUser {
@@ -123,10 +179,18 @@ export function ConversationDetail({
   const [showCustomerProfile, setShowCustomerProfile] = useState(false);
   const [showQuickReplyPicker, setShowQuickReplyPicker] = useState(false);
   const [showHandBackDialog, setShowHandBackDialog] = useState(false);
+  const [showTransferDialog, setShowTransferDialog] = useState(false);
+  const [parkStatus, setParkStatus] = useState<ParkStatus | null>(null);
   const [selectedImage, setSelectedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [draft, setDraft] = useState<{ id: Id<"ai_drafts">; content: string } | null>(null);
+  const [isDrafting, setIsDrafting] = useState(false);
+  // Workspace templates inserted into the composer, applied once the message is sent
+  const [pendingTemplateIds, setPendingTemplateIds] = useState<Id<"templates">[]>([]);
+  const [editingApproval, setEditingApproval] = useState<{ id: string; content: string } | null>(null);
+  const [reviewingMessageId, setReviewingMessageId] = useState<string | null>(null);
   const textareaRef = usePreventZoom<HTMLTextAreaElement>();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const convex = useConvex();
@@ -157,6 +221,14 @@ export function ConversationDetail({
       : "skip"
   );
 
+  // Query copilot draft limit status
+  const draftLimitStatus = useQuery(
+    api.usage.queries.checkDraftUsageLimit,
+    userData?.currentCompanyId
+      ? { companyId: userData.currentCompanyId as Id<"companies"> }
+      : "skip"
+  );
+
   // Typing timeout ref
   const typingTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
 
@@ -171,14 +243,15 @@ export function ConversationDetail({
   );
 
   // Live query for real-time updates (latest 50 messages)
-  const liveMessages = useQuery(api.messages.queries.getMessages, {
+  // Agent view - includes AI replies awaiting approval; null if not an agent
+  const liveMessages = useQuery(api.messages.queries.getAgentMessages, {
     conversationId: conversation.id as any,
     limit: 50,
-  }) as Message[] | undefined;
+  }) as Message[] | null | undefined;
 
   // Query for older messages when needed
   const olderMessages = useQuery(
-    api.messages.queries.getMessages,
+    api.messages.queries.getAgentMessages,
     beforeTimestamp
       ? {
           conversationId: conversation.id as any,
@@ -186,7 +259,7 @@ export function ConversationDetail({
           limit: 50,
         }
       : "skip"
-  ) as Message[] | undefined;
+  ) as Message[] | null | undefined;
 
   // Track previous message count for sound notifications
   const previousMessageCountRef = useRef(preFetchedMessages?.length || 0);
@@ -210,10 +283,10 @@ export function ConversationDetail({
       // Query completed (either with results or empty)
       setIsLoadingOlder(false);
 
-      if (olderMessages.length === 0) {
+      if (!olderMessages?.length) {
         // No more messages found
         setHasMoreMessages(false);
-      } else if (olderMessages.length > 0) {
+      } else {
         // Messages found - add them
         if (olderMessages.length < 50) {
           setHasMoreMessages(false); // This was the last batch
@@ -241,12 +314,18 @@ export function ConversationDetail({
   );
 
   // Fetch templates for quick replies
-  const templates = useQuery(
+  const companyTemplates = useQuery(
     api.templates.queries.listTemplatesByCompany,
     userData?.currentCompanyId
       ? { companyId: userData.currentCompanyId as Id<"companies"> }
       : "skip"
-  ) as QuickReplyTemplate[] | undefined;
+  );
+  const templates: QuickReplyTemplate[] | undefined = companyTemplates?.map((template) => ({
+    id: template._id,
+    title: template.title,
+    content: template.content,
+    category: template.category,
+  }));
 
   // Fetch typing indicators from other agents
   const typingUsers = useQuery(
@@ -280,6 +359,14 @@ export function ConversationDetail({
   // Send agent message
   const sendMessage = useMutation(api.messages.mutations.sendAgentMessage);
 
+  // Copilot drafts
+  const generateDraftReply = useAction(api.copilot.actions.generateDraftReply);
+  const resolveDraft = useMutation(api.copilot.mutations.resolveDraft);
+
+  // Approval mode - review pending AI replies
+  const approveAIMessage = useMutation(api.messages.mutations.approveAIMessage);
+  const rejectAIMessage = useMutation(api.messages.mutations.rejectAIMessage);
+
   // Upload file
   const uploadFile = useAction(api.uploadthing.actions.uploadFile);
 
@@ -291,6 +378,10 @@ export function ConversationDetail({
   // Hand back to AI
   const handBackToAI = useMutation(api.conversations.mutations.updateStatus);
 
+  // Priority (rescales the SLA deadlines)
+  const setPriority = useMutation(api.conversations.mutations.setConversationPriority);
+  const applyTemplate = useMutation(api.templates.mutations.applyTemplate);
+
   // Delete conversation
   const deleteConversation = useMutation(
     api.conversations.mutations.deleteConversation
@@ -575,7 +666,7 @@ export function ConversationDetail({
       }
 
       // Send message with optional attachment
-      await sendMessage({
+      const messageId = await sendMessage({
         conversationId: conversation.id as Id<"conversations">,
         content: messageContent,
         agentId: userData.user._id as Id<"users">,
@@ -585,6 +676,26 @@ export function ConversationDetail({
         attachmentType,
       });
 
+      // Record whether the copilot draft went out as written or edited
+      if (draft) {
+        resolveDraft({
+          draftId: draft.id,
+          sentContent: messageContent,
+          sentMessageId: messageId,
+        }).catch((error) => console.error("Failed to resolve draft:", error));
+        setDraft(null);
+      }
+
+      // Workspace templates count usage and may tag the conversation
+      for (const templateId of pendingTemplateIds) {
+        applyTemplate({
+          templateId,
+          conversationId: conversation.id as Id<"conversations">,
+          agentId: userData.user._id as Id<"users">,
+        }).catch(() => toast.error("Failed to apply template tags"));
+      }
+      setPendingTemplateIds([]);
+
       // Play sound on successful send
       playSound('messageSent');
 
@@ -603,6 +714,116 @@ export function ConversationDetail({
     }
   };
 
+  const handleDraftReply = async () => {
+    if (!userData?.user._id || isDrafting) return;
+
+    setIsDrafting(true);
+    try {
+      // Any previous pending draft is discarded server-side
+      const result = await generateDraftReply({
+        conversationId: conversation.id as Id<"conversations">,
+        agentId: userData.user._id as Id<"users">,
+      });
+      setDraft({ id: result.draftId, content: result.content });
+      setMessage(result.content);
+      setPendingTemplateIds([]);
+      textareaRef.current?.focus();
+    } catch (error) {
+      console.error("Failed to draft reply:", error);
+      toast.error(
+        draftLimitStatus?.hasReachedLimit
+          ? "Monthly draft limit reached"
+          : "Failed to draft a reply. Please try again."
+      );
+    } finally {
+      setIsDrafting(false);
+    }
+  };
+
+  const handleDiscardDraft = () => {
+    if (!draft) return;
+    resolveDraft({ draftId: draft.id }).catch((error) =>
+      console.error("Failed to discard draft:", error)
+    );
+    setDraft(null);
+    setMessage("");
+  };
+
+  const handleApproveAIMessage = async (messageId: string, content?: string) => {
+    if (!userData?.user._id) return;
+
+    setReviewingMessageId(messageId);
+    try {
+      const result = await approveAIMessage({
+        messageId: messageId as Id<"messages">,
+        agentId: userData.user._id as Id<"users">,
+        content,
+      });
+      setEditingApproval(null);
+      toast.success(result.status === "edited" ? "Edited reply sent" : "Reply approved and sent");
+    } catch (error) {
+      console.error("Failed to approve reply:", error);
+      toast.error("Failed to approve reply. Please try again.");
+    } finally {
+      setReviewingMessageId(null);
+    }
+  };
+
+  const handleRejectAIMessage = async (messageId: string) => {
+    if (!userData?.user._id) return;
+
+    setReviewingMessageId(messageId);
+    try {
+      await rejectAIMessage({
+        messageId: messageId as Id<"messages">,
+        agentId: userData.user._id as Id<"users">,
+      });
+      toast.success("Reply rejected - the customer won't see it");
+    } catch (error) {
+      console.error("Failed to reject reply:", error);
+      toast.error("Failed to reject reply. Please try again.");
+    } finally {
+      setReviewingMessageId(null);
+    }
+  };
+
+  const renderApprovalActions = (msg: Message) => {
+    const isReviewing = reviewingMessageId === msg._id;
+    return (
+      <div className="flex items-center gap-1 mt-2">
+        <Button
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => handleApproveAIMessage(msg._id)}
+          disabled={isReviewing}
+        >
+          <Check className="h-3 w-3 mr-1" />
+          Approve
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 px-2 text-xs"
+          onClick={() => setEditingApproval({ id: msg._id, content: msg.content })}
+          disabled={isReviewing}
+        >
+          <Pencil className="h-3 w-3 mr-1" />
+          Edit
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-muted-foreground hover:text-destructive"
+          onClick={() => handleRejectAIMessage(msg._id)}
+          disabled={isReviewing}
+        >
+          <X className="h-3 w-3 mr-1" />
+          Reject
+        </Button>
+      </div>
+    );
+  };
+
   const handleMarkAsResolved = async () => {
     if (!userData?.user._id) return;
 
@@ -656,15 +877,22 @@ export function ConversationDetail({
     }
   };
 
-  const handleTemplateSelect = (content: string) => {
+  const handleTemplateSelect = (template: EnhancedQuickReplyTemplate) => {
+    const content = template.content;
+
+    // Workspace templates are applied when the message goes out
+    const templateIds = template.isPersonal ? [] : [template.id as Id<"templates">];
+
     // If the message starts with "/", replace it with the template content
     // Otherwise just set the content normally
     if (message.trim() === '/' || message.endsWith(' /') || message.endsWith('\n/')) {
       // Remove the trailing "/" and add the template content
       const messageWithoutSlash = message.slice(0, -1);
       setMessage(messageWithoutSlash + content);
+      setPendingTemplateIds((ids) => [...ids, ...templateIds.filter((id) => !ids.includes(id))]);
     } else {
       setMessage(content);
+      setPendingTemplateIds(templateIds);
     }
     setShowQuickReplyPicker(false);
     // Focus the textarea after selecting a template
@@ -715,6 +943,17 @@ export function ConversationDetail({
     }
   };
 
+  const handlePriorityChange = async (priority: ConversationPriority) => {
+    try {
+      await setPriority({
+        conversationId: conversation.id as Id<"conversations">,
+        priority,
+      });
+    } catch (error) {
+      toast.error("Failed to update priority");
+    }
+  };
+
   const handleDeleteConversation = async () => {
     setIsDeleting(true);
     try {
@@ -751,6 +990,15 @@ export function ConversationDetail({
     const newValue = e.target.value;
     setMessage(newValue);
 
+    // Clearing the composer throws the draft away
+    if (draft && !newValue.trim()) {
+      resolveDraft({ draftId: draft.id }).catch((error) =>
+        console.error("Failed to discard draft:", error)
+      );
+      setDraft(null);
+    }
+    if (!newValue.trim()) setPendingTemplateIds([]);
+
     // Check if user typed "/" at the beginning or after a space/newline
     const cursorPosition = e.target.selectionStart;
     const charBeforeCursor = cursorPosition > 0 ? newValue[cursorPosition - 2] : '';
@@ -844,6 +1092,24 @@ export function ConversationDetail({
       agentAvatar: msg.agentAvatar, // Use the enriched agentAvatar from the query
       readByCustomerAt: msg.readByCustomerAt, // Add read receipt fields
       readByAgentAt: msg.readByAgentAt, // Add read receipt fields
+      isStreaming: msg.streamStatus === "streaming",
+      approvalStatus: msg.approvalStatus,
+      redactedCategories: msg.redactedCategories,
+      knowledgeSources: msg.knowledgeSources,
+      ungrounded: msg.ungrounded,
+      priceCorrection: msg.priceCorrection,
+      customerFeedback: msg.customerFeedback,
+      injection:
+        msg.injectionScore !== undefined
+          ? { score: msg.injectionScore, signals: msg.injectionSignals ?? [] }
+          : undefined,
+      topicDeflection: msg.topicVerdict?.deflected
+        ? {
+            reason: msg.topicVerdict.reason,
+            matchedTopic: msg.topicVerdict.matchedTopic || undefined,
+            confidence: msg.topicVerdict.confidence,
+          }
+        : undefined,
       attachment: msg.attachmentUrl
         ? {
             name: msg.attachmentName || "image",
@@ -942,6 +1208,34 @@ export function ConversationDetail({
               </TooltipContent>
             </Tooltip>
 
+            {conversation.status !== "resolved" && (
+              <Select
+                value={conversation.priority ?? "normal"}
+                onValueChange={(value) => handlePriorityChange(value as ConversationPriority)}
+              >
+                <SelectTrigger className="h-8 w-[110px] text-xs gap-1">
+                  <Flag
+                    className={cn(
+                      "h-3.5 w-3.5",
+                      conversation.priority === "urgent"
+                        ? "text-destructive"
+                        : conversation.priority === "high"
+                          ? "text-orange-500"
+                          : "text-muted-foreground"
+                    )}
+                  />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(priorityLabels) as ConversationPriority[]).map((priority) => (
+                    <SelectItem key={priority} value={priority}>
+                      {priorityLabels[priority]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
             {/* Resolve Button - Prominent! */}
             {conversation.status !== "resolved" && (
               <Button
@@ -965,6 +1259,27 @@ export function ConversationDetail({
                 <DropdownMenuItem onClick={() => setShowCustomerProfile(true)}>
                   View customer profile
                 </DropdownMenuItem>
+                {(conversation.status === "available" || conversation.status === "support") && (
+                  <DropdownMenuItem onClick={() => setShowTransferDialog(true)}>
+                    <ArrowRightLeft className="h-4 w-4 mr-2" />
+                    Transfer
+                  </DropdownMenuItem>
+                )}
+                {(conversation.status === "available" ||
+                  conversation.status === "support" ||
+                  conversation.status === "pending_customer" ||
+                  conversation.status === "snoozed") && (
+                  <>
+                    <DropdownMenuItem onClick={() => setParkStatus("pending_customer")}>
+                      <Hourglass className="h-4 w-4 mr-2" />
+                      Wait on customer
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setParkStatus("snoozed")}>
+                      <AlarmClock className="h-4 w-4 mr-2" />
+                      Snooze
+                    </DropdownMenuItem>
+                  </>
+                )}
                 <DropdownMenuItem onClick={() => handleExportConversation()}>
                   <Download className="h-4 w-4 mr-2" />
                   Export to CSV
@@ -981,6 +1296,88 @@ export function ConversationDetail({
           </div>
         </div>
 
+        {/* Tags */}
+        {userData?.currentCompanyId && (
+          <div className="px-4 pt-3">
+            <ConversationTags
+              conversationId={conversation.id as Id<"conversations">}
+              companyId={userData.currentCompanyId as Id<"companies">}
+              agentId={userData.user._id as Id<"users">}
+              tags={conversation.tags ?? []}
+            />
+          </div>
+        )}
+
+        {/* Parked until the customer replies or the wake-up time */}
+        {(conversation.status === "pending_customer" || conversation.status === "snoozed") &&
+          userData?.user._id && (
+            <div className="px-4 pt-3">
+              <ParkedBanner
+                conversationId={conversation.id as Id<"conversations">}
+                agentId={userData.user._id as Id<"users">}
+                status={conversation.status}
+                wakeAt={conversation.wakeAt}
+              />
+            </div>
+          )}
+
+        {/* Automatic assignment waiting for the agent to accept */}
+        {conversation.pendingAssignment && userData?.user._id && (
+          <div className="px-4 pt-3">
+            <AssignmentBanner
+              conversationId={conversation.id as Id<"conversations">}
+              agentId={userData.user._id as Id<"users">}
+              assignment={conversation.pendingAssignment}
+              assignedAgentName={conversation.assignedAgent?.name}
+            />
+          </div>
+        )}
+
+        {/* Handovers between agents and departments, with their notes */}
+        <div className="px-4 pt-3 empty:hidden">
+          <TransferHistory conversationId={conversation.id as Id<"conversations">} />
+        </div>
+
+        {/* Quarantined prompt injection waiting for an agent to review */}
+        {conversation.injectionFlag && (
+          <div className="px-4 pt-3">
+            <InjectionReviewBanner
+              conversationId={conversation.id as Id<"conversations">}
+              flag={conversation.injectionFlag}
+            />
+          </div>
+        )}
+
+        {/* AI answer that cited none of the company's knowledge */}
+        {conversation.groundingFlag && (
+          <div className="px-4 pt-3">
+            <GroundingReviewBanner
+              conversationId={conversation.id as Id<"conversations">}
+              flag={conversation.groundingFlag}
+            />
+          </div>
+        )}
+
+        {/* AI answer with prices the price guard couldn't verify */}
+        {conversation.priceFlag && (
+          <div className="px-4 pt-3">
+            <PriceReviewBanner
+              conversationId={conversation.id as Id<"conversations">}
+              flag={conversation.priceFlag}
+            />
+          </div>
+        )}
+
+        {/* AI summary of older messages - helps agents catch up on long threads */}
+        {conversation.summary && (
+          <div className="px-4 pt-3">
+            <ConversationSummary
+              summary={conversation.summary}
+              updatedAt={conversation.summaryUpdatedAt}
+            />
+          </div>
+        )}
+
         {/* Internal Notes Section - Only visible to agents */}
         {conversation.id && (
           <div className="px-4 py-3 border-b border-border">
@@ -1027,6 +1424,11 @@ export function ConversationDetail({
                     message={transformMessage(msg)}
                     viewType="support"
                     currentUserId={userData?.user._id}
+                    approvalActions={
+                      msg.approvalStatus === "pending"
+                        ? renderApprovalActions(msg)
+                        : undefined
+                    }
                   />
                 ))}
               </>
@@ -1103,6 +1505,24 @@ export function ConversationDetail({
               )}
 
               <Card className="px-4 py-3">
+                {/* Copilot draft notice */}
+                {draft && (
+                  <div className="flex items-center justify-between gap-2 mb-2 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1.5">
+                      <Sparkles className="h-3 w-3 text-primary" />
+                      AI draft - review and edit before sending
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={handleDiscardDraft}
+                      className="h-6 px-2 text-xs text-muted-foreground hover:text-destructive"
+                    >
+                      Discard
+                    </Button>
+                  </div>
+                )}
+
                 {/* Input Row */}
                 <div>
                   <textarea
@@ -1159,6 +1579,38 @@ export function ConversationDetail({
                       </TooltipContent>
                     </Tooltip>
 
+                    {/* Copilot draft - Only show once a human has the conversation */}
+                    {conversation.status === "support" && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            onClick={handleDraftReply}
+                            disabled={
+                              isDrafting || draftLimitStatus?.hasReachedLimit || false
+                            }
+                          >
+                            {isDrafting ? (
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                            ) : (
+                              <Sparkles className="h-4 w-4" />
+                            )}
+                          </Button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>
+                            {draftLimitStatus?.hasReachedLimit
+                              ? "Draft limit reached"
+                              : draft
+                                ? "Redraft reply"
+                                : "Draft reply with AI"}
+                          </p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
+
                     {/* Hand Back to AI - Only show if conversation is in support status */}
                     {conversation.status === "support" && (
                       <Tooltip>
@@ -1263,6 +1715,47 @@ export function ConversationDetail({
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Edit Pending AI Reply Dialog */}
+      <Dialog
+        open={!!editingApproval}
+        onOpenChange={(open) => !open && setEditingApproval(null)}
+      >
+        <DialogContent className="text-body-sm max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-h3">Edit AI Reply</DialogTitle>
+            <DialogDescription>
+              The customer will see your edited version. The original is kept for review.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={editingApproval?.content ?? ""}
+            onChange={(e) =>
+              editingApproval &&
+              setEditingApproval({ ...editingApproval, content: e.target.value })
+            }
+            rows={8}
+            className="resize-none"
+          />
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setEditingApproval(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() =>
+                editingApproval &&
+                handleApproveAIMessage(editingApproval.id, editingApproval.content)
+              }
+              disabled={
+                !editingApproval?.content.trim() ||
+                reviewingMessageId === editingApproval?.id
+              }
+            >
+              Approve & Send
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Hand Back to AI Confirmation Dialog */}
       <AlertDialog
         open={showHandBackDialog}
@@ -1317,6 +1810,27 @@ export function ConversationDetail({
         customerAvatar={conversation.customerAvatar}
       />
 
+      {/* Transfer Dialog */}
+      {userData?.currentCompanyId && (
+        <TransferDialog
+          open={showTransferDialog}
+          onOpenChange={setShowTransferDialog}
+          conversationId={conversation.id as Id<"conversations">}
+          companyId={userData.currentCompanyId as Id<"companies">}
+          agentId={userData.user._id as Id<"users">}
+        />
+      )}
+
+      {/* Park Dialog */}
+      {userData?.user._id && (
+        <ParkDialog
+          status={parkStatus}
+          onClose={() => setParkStatus(null)}
+          conversationId={conversation.id as Id<"conversations">}
+          agentId={userData.user._id as Id<"users">}
+        />
+      )}
+
       {/* Hidden file input */}
       <input
         ref={fileInputRef}
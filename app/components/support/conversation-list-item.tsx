@@ -4,9 +4,11 @@ import {
   AvatarFallback,
 } from "../../../components/ui/avatar";
 import { Badge } from "../../../components/ui/badge";
-import { Check, Bot, AlertCircle, User, CheckCircle, Clock, Building2 } from "lucide-react";
-import { formatDistanceToNow } from "date-fns";
+import { Check, Bot, AlertCircle, User, CheckCircle, Clock, Building2, ShieldCheck, ShieldAlert, BookX, Tag, Flag, UserCheck, Hourglass, AlarmClock } from "lucide-react";
+import { format, formatDistanceToNow } from "date-fns";
 import type { Conversation } from "./types";
+import { SlaBadge, priorityLabels } from "./sla-badge";
+import { TagChip } from "./tag-chip";
 import { useUser } from "@/app/contexts/user-context";
 import { cn } from "@/lib/utils";
 
@@ -14,12 +16,14 @@ interface ConversationListItemProps {
   conversation: Conversation;
   isSelected: boolean;
   onClick: () => void;
+  now: number; // Shared clock for the SLA countdown
 }
 
 export function ConversationListItem({
   conversation,
   isSelected,
   onClick,
+  now,
 }: ConversationListItemProps) {
   const { userData } = useUser();
 
@@ -55,6 +59,28 @@ export function ConversationListItem({
             Needs pickup
           </Badge>
         );
+      case "pending_customer":
+        return (
+          <Badge
+            variant="secondary"
+            className="h-5 px-2 text-[10px] bg-blue-500/10 text-blue-600 dark:text-blue-400 border border-blue-500/20 hover:bg-blue-500/10 flex items-center gap-1"
+          >
+            <Hourglass className="h-3 w-3" />
+            Waiting on customer
+          </Badge>
+        );
+      case "snoozed":
+        return (
+          <Badge
+            variant="secondary"
+            className="h-5 px-2 text-[10px] bg-blue-500/10 text-blue-600 dark:text-blue-400 border border-blue-500/20 hover:bg-blue-500/10 flex items-center gap-1"
+          >
+            <AlarmClock className="h-3 w-3" />
+            {conversation.wakeAt
+              ? `Snoozed till ${format(new Date(conversation.wakeAt), "MMM d, h:mm a")}`
+              : "Snoozed"}
+          </Badge>
+        );
       case "support": {
         // Check if current user is participating in this conversation
         const currentUserId = userData?.user._id;
@@ -188,6 +214,81 @@ export function ConversationListItem({
             {conversation.customerName}
           </h3>
           {getStatusBadge()}
+          {!!conversation.pendingApprovalCount && (
+            <Badge
+              variant="secondary"
+              className="h-5 px-2 text-[10px] bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border border-yellow-500/20 hover:bg-yellow-500/10 flex items-center gap-1"
+            >
+              <ShieldCheck className="h-3 w-3" />
+              Needs approval
+            </Badge>
+          )}
+          {conversation.injectionFlag && (
+            <Badge
+              variant="secondary"
+              className="h-5 px-2 text-[10px] bg-destructive/10 text-destructive border border-destructive/20 hover:bg-destructive/10 flex items-center gap-1"
+            >
+              <ShieldAlert className="h-3 w-3" />
+              Review
+            </Badge>
+          )}
+          {conversation.groundingFlag && (
+            <Badge
+              variant="secondary"
+              className="h-5 px-2 text-[10px] bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border border-yellow-500/20 hover:bg-yellow-500/10 flex items-center gap-1"
+            >
+              <BookX className="h-3 w-3" />
+              Unsourced
+            </Badge>
+          )}
+          {conversation.priceFlag && (
+            <Badge
+              variant="secondary"
+              className="h-5 px-2 text-[10px] bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border border-yellow-500/20 hover:bg-yellow-500/10 flex items-center gap-1"
+            >
+              <Tag className="h-3 w-3" />
+              Prices
+            </Badge>
+          )}
+          {(conversation.priority === "high" || conversation.priority === "urgent") && (
+            <Badge
+              variant="secondary"
+              className={cn(
+                "h-5 px-2 text-[10px] border flex items-center gap-1",
+                conversation.priority === "urgent"
+                  ? "bg-destructive/10 text-destructive border-destructive/20 hover:bg-destructive/10"
+                  : "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20 hover:bg-orange-500/10"
+              )}
+            >
+              <Flag className="h-3 w-3" />
+              {priorityLabels[conversation.priority]}
+            </Badge>
+          )}
+          {conversation.pendingAssignment && (
+            <Badge
+              variant="secondary"
+              className={cn(
+                "h-5 px-2 text-[10px] border flex items-center gap-1",
+                conversation.pendingAssignment.agentId === userData?.user._id
+                  ? "bg-primary/10 text-primary border-primary/20 hover:bg-primary/10"
+                  : "bg-muted text-muted-foreground border-border hover:bg-muted"
+              )}
+            >
+              <UserCheck className="h-3 w-3" />
+              {conversation.pendingAssignment.agentId === userData?.user._id
+                ? "Assigned to you"
+                : conversation.assignedAgent?.name.split(" ")[0] ?? "Assigned"}
+            </Badge>
+          )}
+          <SlaBadge conversation={conversation} now={now} />
+          {conversation.tags?.slice(0, 3).map((tag) => (
+            <TagChip key={tag.id} name={tag.name} color={tag.color} />
+          ))}
+          {(conversation.tags?.length ?? 0) > 3 && (
+            <span className="text-[10px] text-muted-foreground">
+              +{conversation.tags!.length - 3}
+            </span>
+          )}
         </div>
 
         {/* Last Message */}
@@ -11,13 +11,18 @@ import {
   SelectValue,
 } from "../../../components/ui/select";
 import { ConversationListItem } from "./conversation-list-item";
+import { getSlaState } from "./sla-badge";
 import type { Conversation, ConversationStatus } from "./types";
+import { useNow } from "@/app/hooks/use-now";
 import { cn } from "@/lib/utils";
 
 interface ConversationListProps {
   conversations: Conversation[];
   selectedConversationId?: string;
   onSelectConversation: (conversationId: string) => void;
+  tags: Array<{ _id: string; name: string }>;
+  tagFilter: string; // Tag id or "all" - applied by the query in support-view
+  onTagFilterChange: (tagFilter: string) => void;
 }
 
 const STATUS_FILTERS: { value: ConversationStatus | "all"; label: string }[] = [
@@ -25,13 +30,21 @@ const STATUS_FILTERS: { value: ConversationStatus | "all"; label: string }[] = [
   { value: "available", label: "Available" },
   { value: "ai", label: "AI" },
   { value: "support", label: "Support" },
+  { value: "pending_customer", label: "Pending" },
+  { value: "snoozed", label: "Snoozed" },
   { value: "resolved", label: "Resolved" },
 ];
 
+type SlaFilter = "all" | "breached" | "due_soon";
+type SortBy = "recent" | "oldest" | "newest" | "sla_due";
+
 export function ConversationList({
   conversations,
   selectedConversationId,
   onSelectConversation,
+  tags,
+  tagFilter,
+  onTagFilterChange,
 }: ConversationListProps) {
   const [searchQuery, setSearchQuery] = useState("");
   const searchInputRef = usePreventZoom<HTMLInputElement>();
@@ -39,9 +52,11 @@ export function ConversationList({
     "all"
   );
   const [departmentFilter, setDepartmentFilter] = useState<string>("all");
-  const [sortBy, setSortBy] = useState<"recent" | "oldest" | "newest">(
-    "recent"
-  );
+  const [slaFilter, setSlaFilter] = useState<SlaFilter>("all");
+  const [sortBy, setSortBy] = useState<SortBy>("recent");
+  const now = useNow();
+
+  const hasSla = conversations.some((conv) => conv.slaDue || conv.slaBreached);
 
   // Get unique department names for filter
   const departments = useMemo(() => {
@@ -79,9 +94,24 @@ export function ConversationList({
       filtered = filtered.filter((conv) => conv.departmentName === departmentFilter);
     }
 
+    // SLA filter - breached includes targets missed earlier in the conversation
+    if (slaFilter === "breached") {
+      filtered = filtered.filter(
+        (conv) => conv.slaBreached || getSlaState(conv, now) === "overdue"
+      );
+    } else if (slaFilter === "due_soon") {
+      filtered = filtered.filter((conv) => getSlaState(conv, now) === "due_soon");
+    }
+
     // Sort
     filtered.sort((a, b) => {
-      if (sortBy === "recent") {
+      if (sortBy === "sla_due") {
+        // Earliest deadline first; conversations without a running SLA last
+        const aDue = a.slaDue?.dueAt ?? Infinity;
+        const bDue = b.slaDue?.dueAt ?? Infinity;
+        if (aDue !== bDue) return aDue - bDue;
+        return b.lastMessageTime.getTime() - a.lastMessageTime.getTime();
+      } else if (sortBy === "recent") {
         return b.lastMessageTime.getTime() - a.lastMessageTime.getTime();
       } else if (sortBy === "oldest") {
         return a.createdAt.getTime() - b.createdAt.getTime();
@@ -91,7 +121,7 @@ export function ConversationList({
     });
 
     return filtered;
-  }, [conversations, searchQuery, statusFilter, departmentFilter, sortBy]);
+  }, [conversations, searchQuery, statusFilter, departmentFilter, slaFilter, sortBy, now]);
 
   // Separate conversations needing attention (available + awaiting_department)
   const availableConversations = filteredConversations.filter(
@@ -102,7 +132,12 @@ export function ConversationList({
   );
 
   const availableCount = availableConversations.length;
-  const hasFilters = searchQuery || statusFilter !== "all" || departmentFilter !== "all";
+  const hasFilters =
+    searchQuery ||
+    statusFilter !== "all" ||
+    departmentFilter !== "all" ||
+    slaFilter !== "all" ||
+    tagFilter !== "all";
 
   return (
     <div className="flex flex-col h-full">
@@ -177,11 +212,39 @@ export function ConversationList({
               </Select>
             )}
 
+            {hasSla && (
+              <Select
+                value={slaFilter}
+                onValueChange={(value) => setSlaFilter(value as SlaFilter)}
+              >
+                <SelectTrigger className="h-8 w-[110px] text-xs border-0 bg-secondary">
+                  <SelectValue placeholder="SLA" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All SLAs</SelectItem>
+                  <SelectItem value="breached">Breached</SelectItem>
+                  <SelectItem value="due_soon">Due soon</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
+            {tags.length > 0 && (
+              <Select value={tagFilter} onValueChange={onTagFilterChange}>
+                <SelectTrigger className="h-8 w-[110px] text-xs border-0 bg-secondary">
+                  <SelectValue placeholder="Tag" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Tags</SelectItem>
+                  {tags.map((tag) => (
+                    <SelectItem key={tag._id} value={tag._id}>{tag.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
             <Select
               value={sortBy}
-              onValueChange={(value) =>
-                setSortBy(value as "recent" | "oldest" | "newest")
-              }
+              onValueChange={(value) => setSortBy(value as SortBy)}
             >
               <SelectTrigger className="h-8 w-[100px] text-xs border-0 bg-secondary">
                 <SelectValue placeholder="Sort" />
@@ -190,6 +253,7 @@ export function ConversationList({
                 <SelectItem value="recent">Recent</SelectItem>
                 <SelectItem value="oldest">Oldest</SelectItem>
                 <SelectItem value="newest">Newest</SelectItem>
+                {hasSla && <SelectItem value="sla_due">SLA due</SelectItem>}
               </SelectContent>
             </Select>
           </div>
@@ -217,6 +281,7 @@ export function ConversationList({
                   conversation={conversation}
                   isSelected={conversation.id === selectedConversationId}
                   onClick={() => onSelectConversation(conversation.id)}
+                  now={now}
                 />
               ))}
             </div>
@@ -237,6 +302,7 @@ export function ConversationList({
                     conversation={conversation}
                     isSelected={conversation.id === selectedConversationId}
                     onClick={() => onSelectConversation(conversation.id)}
+                    now={now}
                   />
                 ))}
               </div>
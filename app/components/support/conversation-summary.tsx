@@ -0,0 +1,55 @@
+"use client";
+
+import { useState } from "react";
+import { Sparkles, ChevronDown, ChevronUp } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+interface ConversationSummaryProps {
+  summary: string;
+  updatedAt?: Date;
+}
+
+export function ConversationSummary({
+  summary,
+  updatedAt,
+}: ConversationSummaryProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  return (
+    <Card className="p-4 bg-primary/5 border-primary/20">
+      <div className="space-y-2">
+        <div className="flex items-start justify-between">
+          <div className="flex items-center gap-2">
+            <Sparkles className="h-4 w-4 text-primary" />
+            <h3 className="text-sm font-semibold">Conversation Summary</h3>
+            {updatedAt && (
+              <span className="text-xs text-muted-foreground">
+                Updated {formatDistanceToNow(updatedAt, { addSuffix: true })}
+              </span>
+            )}
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={() => setIsExpanded(!isExpanded)}
+          >
+            {isExpanded ? (
+              <ChevronUp className="h-3 w-3" />
+            ) : (
+              <ChevronDown className="h-3 w-3" />
+            )}
+          </Button>
+        </div>
+
+        {isExpanded && (
+          <p className="text-sm text-muted-foreground whitespace-pre-wrap">
+            {summary}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+}
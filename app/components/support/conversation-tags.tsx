@@ -0,0 +1,140 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { Check, Plus, Tag } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { TagChip, tagColorClasses } from "./tag-chip";
+import type { ConversationTag } from "./types";
+import { cn } from "@/lib/utils";
+
+interface ConversationTagsProps {
+  conversationId: Id<"conversations">;
+  companyId: Id<"companies">;
+  agentId?: Id<"users">;
+  tags: ConversationTag[];
+}
+
+export function ConversationTags({
+  conversationId,
+  companyId,
+  agentId,
+  tags,
+}: ConversationTagsProps) {
+  const companyTags = useQuery(api.tags.queries.listTags, { companyId });
+  const createTag = useMutation(api.tags.mutations.createTag);
+  const addTag = useMutation(api.tags.mutations.addTagToConversation);
+  const removeTag = useMutation(api.tags.mutations.removeTagFromConversation);
+
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+
+  const query = search.trim().toLowerCase();
+  const matches = (companyTags ?? []).filter((tag) => tag.name.toLowerCase().includes(query));
+  const exactMatch = (companyTags ?? []).some((tag) => tag.name.toLowerCase() === query);
+  const appliedIds = new Set(tags.map((tag) => tag.id));
+
+  const handleToggle = async (tagId: Id<"tags">) => {
+    try {
+      if (appliedIds.has(tagId)) {
+        await removeTag({ conversationId, tagId });
+      } else {
+        await addTag({ conversationId, tagId, agentId });
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update tags");
+    }
+  };
+
+  const handleCreate = async () => {
+    try {
+      const tagId = await createTag({ companyId, name: search, createdBy: agentId });
+      await addTag({ conversationId, tagId, agentId });
+      setSearch("");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to create tag");
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {tags.map((tag) => (
+        <TagChip
+          key={tag.id}
+          name={tag.name}
+          color={tag.color}
+          onRemove={() => handleToggle(tag.id as Id<"tags">)}
+        />
+      ))}
+
+      <Popover
+        open={open}
+        onOpenChange={(next) => {
+          setOpen(next);
+          if (!next) setSearch("");
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-muted-foreground gap-1">
+            <Tag className="h-3 w-3" />
+            {tags.length === 0 ? "Add tag" : <Plus className="h-3 w-3" />}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-64 p-2">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && query && !exactMatch) {
+                e.preventDefault();
+                handleCreate();
+              }
+            }}
+            placeholder="Find or create a tag..."
+            maxLength={40}
+            className="h-8 text-sm mb-2"
+          />
+          <div className="max-h-56 overflow-y-auto space-y-0.5">
+            {matches.map((tag) => (
+              <button
+                key={tag._id}
+                type="button"
+                onClick={() => handleToggle(tag._id)}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-sm hover:bg-secondary text-left"
+              >
+                <span
+                  className={cn(
+                    "h-2.5 w-2.5 rounded-full border shrink-0",
+                    tagColorClasses[tag.color] ?? tagColorClasses.gray
+                  )}
+                />
+                <span className="flex-1 truncate">{tag.name}</span>
+                {appliedIds.has(tag._id) && <Check className="h-3.5 w-3.5 text-primary" />}
+              </button>
+            ))}
+            {query && !exactMatch && (
+              <button
+                type="button"
+                onClick={handleCreate}
+                className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md text-sm hover:bg-secondary text-left"
+              >
+                <Plus className="h-3.5 w-3.5 text-muted-foreground" />
+                <span className="truncate">Create &quot;{search.trim()}&quot;</span>
+              </button>
+            )}
+            {!query && matches.length === 0 && (
+              <p className="px-2 py-1.5 text-sm text-muted-foreground">
+                No tags yet - type a name to create one
+              </p>
+            )}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
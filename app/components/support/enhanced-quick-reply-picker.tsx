@@ -39,7 +39,7 @@ interface AgentPhrase {
 }
 
 interface EnhancedQuickReplyPickerProps {
-  onSelect: (content: string) => void;
+  onSelect: (template: QuickReplyTemplate) => void;
   templates?: QuickReplyTemplate[];
   isLoading?: boolean;
 }
@@ -440,7 +440,7 @@ export function EnhancedQuickReplyPicker({
                 {combinedTemplates.map((template) => (
                   <button
                     key={template.id}
-                    onClick={() => onSelect(template.content)}
+                    onClick={() => onSelect(template)}
                     className="w-full text-left p-3 rounded-lg hover:bg-muted/50 transition-colors group border border-transparent hover:border-border"
                   >
                     <div className="flex items-start justify-between gap-2 mb-1">
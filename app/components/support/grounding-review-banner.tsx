@@ -0,0 +1,56 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { BookX } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+interface GroundingReviewBannerProps {
+  conversationId: Id<"conversations">;
+  flag: { flaggedAt: number };
+}
+
+export function GroundingReviewBanner({ conversationId, flag }: GroundingReviewBannerProps) {
+  const clearGroundingFlag = useMutation(api.conversations.mutations.clearGroundingFlag);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const handleReviewed = async () => {
+    setIsClearing(true);
+    try {
+      await clearGroundingFlag({ conversationId });
+      toast.success("Marked as reviewed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update conversation");
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 bg-warning/5 border-warning/20">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <BookX className="h-4 w-4 text-warning" />
+            <h3 className="text-sm font-semibold">AI answer without sources</h3>
+            <span className="text-xs text-muted-foreground">
+              {formatDistanceToNow(new Date(flag.flaggedAt), { addSuffix: true })}
+            </span>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            The AI didn&apos;t cite your company context, products or plans for an
+            answer in this conversation. Check it for made-up prices or policies.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleReviewed} disabled={isClearing}>
+          Mark reviewed
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { ShieldAlert } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+// Mirrors INJECTION_SIGNAL_LABELS in convex/ai/injection.ts
+export const injectionSignalLabels: Record<string, string> = {
+  instruction_override: "Override instructions",
+  prompt_extraction: "Extract system prompt",
+  jailbreak: "Jailbreak",
+  delimiter_spoofing: "Spoofed system/role markers",
+  role_play: "Role-play exploit",
+  encoded_payload: "Encoded payload",
+};
+
+interface InjectionReviewBannerProps {
+  conversationId: Id<"conversations">;
+  flag: { score: number; signals: string[]; flaggedAt: number };
+}
+
+export function InjectionReviewBanner({ conversationId, flag }: InjectionReviewBannerProps) {
+  const clearInjectionFlag = useMutation(api.injectionDetections.mutations.clearInjectionFlag);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const handleReviewed = async () => {
+    setIsClearing(true);
+    try {
+      await clearInjectionFlag({ conversationId });
+      toast.success("Marked as reviewed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update conversation");
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 bg-destructive/5 border-destructive/20">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <ShieldAlert className="h-4 w-4 text-destructive" />
+            <h3 className="text-sm font-semibold">
+              Possible prompt injection · score {flag.score}
+            </h3>
+            <span className="text-xs text-muted-foreground">
+              {formatDistanceToNow(new Date(flag.flaggedAt), { addSuffix: true })}
+            </span>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            A customer message looked like an attempt to take over the AI, so it
+            wasn&apos;t sent to the model and the customer got a safe reply.
+            Signals: {flag.signals.map((s) => injectionSignalLabels[s] ?? s).join(", ")}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleReviewed} disabled={isClearing}>
+          Mark reviewed
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -1,6 +1,6 @@
 import { motion } from "motion/react";
 import { useState, useMemo } from "react";
-import { BotMessageSquare, Eye, Check } from "lucide-react";
+import { BotMessageSquare, Eye, EyeOff, Check, ShieldAlert, Clock, Ban, PencilLine, BookX, Tag, ThumbsUp, ThumbsDown } from "lucide-react";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   Dialog,
@@ -15,6 +15,8 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import ReactMarkdown from "react-markdown";
+import { injectionSignalLabels } from "./injection-review-banner";
+import { SourceChips, type KnowledgeSource } from "./source-chips";
 import remarkGfm from "remark-gfm";
 
 // Helper to convert URLs in text to clickable links
@@ -63,6 +65,26 @@ export interface Message {
   attachment?: FileAttachment; // Optional file attachment
   readByCustomerAt?: number; // For read receipts
   readByAgentAt?: number; // For read receipts
+  isStreaming?: boolean; // AI reply still being generated
+  topicDeflection?: {
+    // AI reply replaced by the topic policy (support view only)
+    reason: string;
+    matchedTopic?: string;
+    confidence: number;
+  };
+  // Approval mode review state (support view only)
+  approvalStatus?: "pending" | "approved" | "edited" | "rejected";
+  // PII hidden from the model when this AI reply was generated (support view only)
+  redactedCategories?: string[];
+  // Company knowledge the AI reply cited, and whether it cited none (support view only)
+  knowledgeSources?: KnowledgeSource[];
+  ungrounded?: boolean;
+  // Price guard changed the prices in this AI reply (support view only)
+  priceCorrection?: "corrected" | "regenerated" | "flagged" | "price_list";
+  // Customer's rating of an AI reply
+  customerFeedback?: "helpful" | "not_helpful";
+  // Prompt injection score for suspicious customer messages (support view only)
+  injection?: { score: number; signals: string[] };
   systemMessageType?:
     | "handoff"
     | "department_prompt"
@@ -70,13 +92,31 @@ export interface Message {
     | "agent_joined"
     | "agent_left"
     | "issue_resolved"
-    | "auto_resolved";
+    | "auto_resolved"
+    | "transferred";
 }
 
+// Mirrors PII_CATEGORY_LABELS in convex/ai/redaction.ts; custom patterns use their own name
+const redactedCategoryLabels: Record<string, string> = {
+  email: "Email addresses",
+  phone: "Phone numbers",
+  card: "Card numbers",
+  license_key: "License keys",
+};
+
+const priceCorrectionLabels: Record<NonNullable<Message["priceCorrection"]>, string> = {
+  corrected: "The AI quoted a rounded or mismatched price. It was corrected to the plan price.",
+  regenerated: "The AI quoted a price that isn't in your plans, so the reply was rewritten.",
+  flagged: "The AI quoted prices that couldn't be checked against your plans. Review them before the customer relies on them.",
+  price_list: "The AI kept quoting wrong prices, so the customer got your plan list instead.",
+};
+
 interface MessageBubbleProps {
   message: Message;
   viewType?: "customer" | "support"; // customer view = customer on right, support view = customer on left
   currentUserId?: string; // For "You" logic
+  approvalActions?: React.ReactNode; // Approve/edit/reject controls for pending AI replies
+  onFeedback?: (feedback: "helpful" | "not_helpful") => void; // Customer view: rate an AI reply
 }
 
 // Markdown components for styled rendering
@@ -110,6 +150,8 @@ export function MessageBubble({
   message,
   viewType = "customer",
   currentUserId,
+  approvalActions,
+  onFeedback,
 }: MessageBubbleProps) {
   const [showImageDialog, setShowImageDialog] = useState(false);
 
@@ -311,6 +353,25 @@ export function MessageBubble({
             <div className="flex items-center justify-end gap-1 text-xs text-muted-foreground mt-1">
               <span>{formatTime(message.timestamp)}</span>
               {renderReadReceipt()}
+              {viewType === "support" && message.injection && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <span className="flex items-center gap-1 ml-1 text-destructive cursor-help">
+                        <ShieldAlert className="h-3 w-3" />
+                        Injection score {message.injection.score}
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-xs">
+                      <p>
+                        {message.injection.signals
+                          .map((signal) => injectionSignalLabels[signal] ?? signal)
+                          .join(", ")}
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
             </div>
           </div>
         </motion.div>
@@ -321,6 +382,12 @@ export function MessageBubble({
 
   // AI message (alignment depends on view) - WITH MARKDOWN RENDERING
   if (message.type === "ai") {
+    // Nothing streamed yet - the typing indicator covers this state
+    if (message.isStreaming && !message.content) return null;
+
+    const isPending = viewType === "support" && message.approvalStatus === "pending";
+    const isRejected = viewType === "support" && message.approvalStatus === "rejected";
+
     return (
       <>
         <motion.div
@@ -336,7 +403,11 @@ export function MessageBubble({
                 Support Assistant
               </span>
             </div>
-            <div className="rounded-2xl bg-primary/5 px-4 py-2.5 max-w-max">
+            <div
+              className={`rounded-2xl bg-primary/5 px-4 py-2.5 max-w-max ${
+                isPending ? "border border-dashed border-primary/40" : ""
+              } ${isRejected ? "opacity-50 line-through" : ""}`}
+            >
               {message.attachment && (
                 <div className="mb-2">{renderAttachment()}</div>
               )}
@@ -348,13 +419,147 @@ export function MessageBubble({
                   >
                     {message.content}
                   </ReactMarkdown>
+                  {message.isStreaming && (
+                    <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-primary/60 animate-pulse" />
+                  )}
                 </div>
               )}
             </div>
             <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
               <span>{formatTime(message.timestamp)}</span>
               {renderReadReceipt()}
+              {viewType === "support" && message.topicDeflection && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <span className="flex items-center gap-1 ml-1 text-warning cursor-help">
+                        <ShieldAlert className="h-3 w-3" />
+                        Deflected by topic policy
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-xs">
+                      <p>{message.topicDeflection.reason}</p>
+                      {message.topicDeflection.matchedTopic && (
+                        <p className="mt-1">Topic: {message.topicDeflection.matchedTopic}</p>
+                      )}
+                      <p className="mt-1">
+                        Confidence: {Math.round(message.topicDeflection.confidence * 100)}%
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {viewType === "support" && !!message.redactedCategories?.length && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <span className="flex items-center gap-1 ml-1 cursor-help">
+                        <EyeOff className="h-3 w-3" />
+                        PII hidden from AI
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-xs">
+                      <p>Replaced with placeholders before the conversation was sent to the model:</p>
+                      <p className="mt-1">
+                        {message.redactedCategories
+                          .map((category) => redactedCategoryLabels[category] ?? category)
+                          .join(", ")}
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {viewType === "support" && message.ungrounded && !message.isStreaming && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <span className="flex items-center gap-1 ml-1 text-warning cursor-help">
+                        <BookX className="h-3 w-3" />
+                        No sources
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-xs">
+                      <p>
+                        This answer didn&apos;t cite your company context, products or
+                        plans. Check it before relying on it.
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {viewType === "support" && message.priceCorrection && (
+                <TooltipProvider>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <span className="flex items-center gap-1 ml-1 text-warning cursor-help">
+                        <Tag className="h-3 w-3" />
+                        {message.priceCorrection === "flagged" ? "Check prices" : "Prices corrected"}
+                      </span>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-xs">
+                      <p>{priceCorrectionLabels[message.priceCorrection]}</p>
+                    </TooltipContent>
+                  </Tooltip>
+                </TooltipProvider>
+              )}
+              {viewType === "support" && message.customerFeedback && (
+                <span
+                  className={`flex items-center gap-1 ml-1 ${
+                    message.customerFeedback === "not_helpful" ? "text-warning" : ""
+                  }`}
+                >
+                  {message.customerFeedback === "helpful" ? (
+                    <ThumbsUp className="h-3 w-3" />
+                  ) : (
+                    <ThumbsDown className="h-3 w-3" />
+                  )}
+                  {message.customerFeedback === "helpful" ? "Helpful" : "Not helpful"}
+                </span>
+              )}
+              {viewType === "customer" && onFeedback && !message.isStreaming && (
+                <span className="flex items-center gap-0.5 ml-1">
+                  {(["helpful", "not_helpful"] as const).map((feedback) => {
+                    const Icon = feedback === "helpful" ? ThumbsUp : ThumbsDown;
+                    const selected = message.customerFeedback === feedback;
+                    return (
+                      <button
+                        key={feedback}
+                        type="button"
+                        aria-label={feedback === "helpful" ? "Helpful" : "Not helpful"}
+                        onClick={() => !selected && onFeedback(feedback)}
+                        className={`p-1 rounded transition-colors ${
+                          selected ? "text-primary" : "hover:text-foreground"
+                        }`}
+                      >
+                        <Icon className={`h-3 w-3 ${selected ? "fill-current" : ""}`} />
+                      </button>
+                    );
+                  })}
+                </span>
+              )}
+              {isPending && (
+                <span className="flex items-center gap-1 ml-1 text-warning">
+                  <Clock className="h-3 w-3" />
+                  Awaiting approval - not visible to customer
+                </span>
+              )}
+              {isRejected && (
+                <span className="flex items-center gap-1 ml-1">
+                  <Ban className="h-3 w-3" />
+                  Rejected - not sent
+                </span>
+              )}
+              {viewType === "support" && message.approvalStatus === "edited" && (
+                <span className="flex items-center gap-1 ml-1">
+                  <PencilLine className="h-3 w-3" />
+                  Edited before sending
+                </span>
+              )}
             </div>
+            {viewType === "support" && !!message.knowledgeSources?.length && (
+              <SourceChips sources={message.knowledgeSources} />
+            )}
+            {isPending && !message.isStreaming && approvalActions}
           </div>
         </motion.div>
         {renderImageDialog()}
@@ -0,0 +1,162 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { addDays, addHours, format, setHours, startOfDay } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+
+export type ParkStatus = "pending_customer" | "snoozed";
+
+const NO_WAKE_UP = "none";
+const CUSTOM = "custom";
+
+// Tomorrow and next Monday wake up at 9am local time
+const wakeUpPresets = (now: Date) => {
+  const tomorrowMorning = setHours(startOfDay(addDays(now, 1)), 9);
+  const daysToMonday = ((8 - now.getDay()) % 7) || 7;
+  return [
+    { id: "1h", label: "In 1 hour", at: addHours(now, 1) },
+    { id: "4h", label: "In 4 hours", at: addHours(now, 4) },
+    { id: "tomorrow", label: "Tomorrow morning", at: tomorrowMorning },
+    { id: "monday", label: "Next Monday", at: setHours(startOfDay(addDays(now, daysToMonday)), 9) },
+  ];
+};
+
+interface ParkDialogProps {
+  status: ParkStatus | null; // null closes the dialog
+  onClose: () => void;
+  conversationId: Id<"conversations">;
+  agentId: Id<"users">;
+}
+
+export function ParkDialog({ status, onClose, conversationId, agentId }: ParkDialogProps) {
+  const [choice, setChoice] = useState("tomorrow");
+  const [customAt, setCustomAt] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const parkConversation = useMutation(api.conversations.mutations.parkConversation);
+
+  const presets = wakeUpPresets(new Date());
+  const isSnooze = status === "snoozed";
+
+  const wakeAt = (() => {
+    if (choice === NO_WAKE_UP) return undefined;
+    if (choice === CUSTOM) return customAt ? new Date(customAt).getTime() : undefined;
+    return presets.find((preset) => preset.id === choice)?.at.getTime();
+  })();
+
+  const close = () => {
+    setChoice("tomorrow");
+    setCustomAt("");
+    onClose();
+  };
+
+  const handleSave = async () => {
+    if (!status) return;
+    setIsSaving(true);
+    try {
+      await parkConversation({ conversationId, agentId, status, wakeAt });
+      toast.success(
+        isSnooze
+          ? `Snoozed until ${format(new Date(wakeAt!), "MMM d, h:mm a")}`
+          : "Waiting on the customer"
+      );
+      close();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update conversation");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const options = [
+    ...presets,
+    ...(isSnooze ? [] : [{ id: NO_WAKE_UP, label: "Only when they reply", at: undefined }]),
+  ];
+
+  return (
+    <Dialog open={status !== null} onOpenChange={(open) => !open && close()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isSnooze ? "Snooze conversation" : "Wait on customer"}</DialogTitle>
+          <DialogDescription>
+            {isSnooze
+              ? "Hide this conversation until later. It comes back to the queue at the time you pick, or as soon as the customer replies."
+              : "Park this conversation until the customer replies. Pick a time to bring it back if they don't."}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          <div className="grid grid-cols-2 gap-2">
+            {options.map((option) => (
+              <button
+                key={option.id}
+                type="button"
+                onClick={() => setChoice(option.id)}
+                className={cn(
+                  "p-3 rounded-lg border text-left transition-colors",
+                  choice === option.id
+                    ? "border-primary bg-primary/5"
+                    : "border-border hover:bg-secondary/50"
+                )}
+              >
+                <div className="text-sm font-medium text-foreground">{option.label}</div>
+                {option.at && (
+                  <div className="text-xs text-muted-foreground">
+                    {format(option.at, "EEE MMM d, h:mm a")}
+                  </div>
+                )}
+              </button>
+            ))}
+            <button
+              type="button"
+              onClick={() => setChoice(CUSTOM)}
+              className={cn(
+                "p-3 rounded-lg border text-left transition-colors",
+                choice === CUSTOM
+                  ? "border-primary bg-primary/5"
+                  : "border-border hover:bg-secondary/50"
+              )}
+            >
+              <div className="text-sm font-medium text-foreground">Pick a time</div>
+              <div className="text-xs text-muted-foreground">Up to 30 days ahead</div>
+            </button>
+          </div>
+          {choice === CUSTOM && (
+            <div className="space-y-2">
+              <Label>Wake up at</Label>
+              <Input
+                type="datetime-local"
+                value={customAt}
+                onChange={(e) => setCustomAt(e.target.value)}
+              />
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={close}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={isSaving || (choice !== NO_WAKE_UP && wakeAt === undefined)}
+          >
+            {isSnooze ? "Snooze" : "Wait on customer"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { AlarmClock, Hourglass } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+interface ParkedBannerProps {
+  conversationId: Id<"conversations">;
+  agentId: Id<"users">;
+  status: "pending_customer" | "snoozed";
+  wakeAt?: number;
+}
+
+export function ParkedBanner({ conversationId, agentId, status, wakeAt }: ParkedBannerProps) {
+  const unparkConversation = useMutation(api.conversations.mutations.unparkConversation);
+  const [isWaking, setIsWaking] = useState(false);
+
+  const handleWake = async () => {
+    setIsWaking(true);
+    try {
+      await unparkConversation({ conversationId, agentId });
+      toast.success("Back in the queue");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update conversation");
+    } finally {
+      setIsWaking(false);
+    }
+  };
+
+  const Icon = status === "snoozed" ? AlarmClock : Hourglass;
+  const wakeUp = wakeAt ? format(new Date(wakeAt), "EEE MMM d, h:mm a") : null;
+
+  return (
+    <Card className="p-4 bg-blue-500/5 border-blue-500/20">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Icon className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+            <h3 className="text-sm font-semibold">
+              {status === "snoozed" ? "Snoozed" : "Waiting on the customer"}
+            </h3>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {wakeUp
+              ? `Back in the queue on ${wakeUp}, or as soon as the customer replies.`
+              : "Back in the queue as soon as the customer replies."}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleWake} disabled={isWaking}>
+          Wake now
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { Tag } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+
+interface PriceReviewBannerProps {
+  conversationId: Id<"conversations">;
+  flag: { flaggedAt: number };
+}
+
+export function PriceReviewBanner({ conversationId, flag }: PriceReviewBannerProps) {
+  const clearPriceFlag = useMutation(api.conversations.mutations.clearPriceFlag);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const handleReviewed = async () => {
+    setIsClearing(true);
+    try {
+      await clearPriceFlag({ conversationId });
+      toast.success("Marked as reviewed");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update conversation");
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 bg-warning/5 border-warning/20">
+      <div className="flex items-start justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Tag className="h-4 w-4 text-warning" />
+            <h3 className="text-sm font-semibold">AI prices to check</h3>
+            <span className="text-xs text-muted-foreground">
+              {formatDistanceToNow(new Date(flag.flaggedAt), { addSuffix: true })}
+            </span>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            The AI quoted prices in this conversation that don&apos;t match your plans,
+            even after a rewrite. Check them and correct the customer if needed.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleReviewed} disabled={isClearing}>
+          Mark reviewed
+        </Button>
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { Timer, TimerOff } from "lucide-react";
+import { Badge } from "../../../components/ui/badge";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "../../../components/ui/tooltip";
+import type { Conversation, ConversationPriority, SlaMetric } from "./types";
+import { cn } from "@/lib/utils";
+
+// Mirrors PRIORITY_LABELS in convex/sla/policy.ts
+export const priorityLabels: Record<ConversationPriority, string> = {
+  low: "Low",
+  normal: "Normal",
+  high: "High",
+  urgent: "Urgent",
+};
+
+// Mirrors SLA_METRIC_LABELS in convex/sla/policy.ts
+export const slaMetricLabels: Record<SlaMetric, string> = {
+  first_response: "First response",
+  next_response: "Next response",
+  resolution: "Resolution",
+};
+
+// Mirrors SLA_DUE_SOON_MS in convex/sla/policy.ts
+const SLA_DUE_SOON_MS = 15 * 60 * 1000;
+
+export type SlaState = "overdue" | "due_soon" | "on_track";
+
+/**
+ * Where the conversation's earliest running SLA target stands right now.
+ * null when no SLA clock is running.
+ */
+export function getSlaState(conversation: Conversation, now: number): SlaState | null {
+  if (!conversation.slaDue) return null;
+  const remaining = conversation.slaDue.dueAt - now;
+  if (remaining < 0) return "overdue";
+  return remaining <= SLA_DUE_SOON_MS ? "due_soon" : "on_track";
+}
+
+export function formatSlaDuration(ms: number): string {
+  const minutes = Math.max(1, Math.round(Math.abs(ms) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  return `${Math.floor(hours / 24)}d`;
+}
+
+const stateClasses: Record<SlaState, string> = {
+  overdue: "bg-destructive/10 text-destructive border-destructive/20 hover:bg-destructive/10",
+  due_soon:
+    "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20 hover:bg-yellow-500/10",
+  on_track: "bg-secondary text-muted-foreground border-border hover:bg-secondary",
+};
+
+interface SlaBadgeProps {
+  conversation: Conversation;
+  now: number;
+}
+
+/**
+ * Countdown to the conversation's next SLA deadline
+ */
+export function SlaBadge({ conversation, now }: SlaBadgeProps) {
+  const state = getSlaState(conversation, now);
+  if (!state || !conversation.slaDue) return null;
+
+  const { metric, dueAt } = conversation.slaDue;
+  const remaining = dueAt - now;
+  const Icon = state === "overdue" ? TimerOff : Timer;
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant="secondary"
+          className={cn("h-5 px-2 text-[10px] border flex items-center gap-1", stateClasses[state])}
+        >
+          <Icon className="h-3 w-3" />
+          {state === "overdue"
+            ? `Overdue ${formatSlaDuration(remaining)}`
+            : formatSlaDuration(remaining)}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        {slaMetricLabels[metric]} due {new Date(dueAt).toLocaleString()}
+        {conversation.slaBreached && state !== "overdue" && " · an earlier target was missed"}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,75 @@
+"use client";
+
+import { useState } from "react";
+import { BookOpen, Package, Tag } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+export interface KnowledgeSource {
+  type: "company_context" | "product" | "plan";
+  sourceId?: string;
+  title: string;
+  excerpt?: string;
+}
+
+// Mirrors CITATION_TYPE_LABELS in convex/ai/citations.ts
+const citationTypeLabels: Record<KnowledgeSource["type"], string> = {
+  company_context: "Company context",
+  product: "Product",
+  plan: "Pricing plan",
+};
+
+const citationTypeIcons: Record<KnowledgeSource["type"], typeof BookOpen> = {
+  company_context: BookOpen,
+  product: Package,
+  plan: Tag,
+};
+
+interface SourceChipsProps {
+  sources: KnowledgeSource[];
+}
+
+/**
+ * Knowledge an AI reply relied on. Click a chip to see where it came from.
+ */
+export function SourceChips({ sources }: SourceChipsProps) {
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const active = expanded !== null ? sources[expanded] : undefined;
+
+  return (
+    <div className="mt-1.5">
+      <div className="flex flex-wrap gap-1">
+        {sources.map((source, index) => {
+          const Icon = citationTypeIcons[source.type];
+          return (
+            <button
+              key={`${source.type}-${source.sourceId ?? index}`}
+              type="button"
+              onClick={() => setExpanded(expanded === index ? null : index)}
+              className={cn(
+                "flex items-center gap-1 max-w-[220px] px-2 py-0.5 rounded-full border text-xs transition-colors",
+                expanded === index
+                  ? "border-primary/40 bg-primary/10 text-foreground"
+                  : "border-border bg-card text-muted-foreground hover:text-foreground"
+              )}
+            >
+              <Icon className="h-3 w-3 shrink-0" />
+              <span className="truncate">{source.title}</span>
+            </button>
+          );
+        })}
+      </div>
+      {active && (
+        <div className="mt-1.5 p-2 rounded-lg border border-border bg-card text-xs max-w-md">
+          <p className="text-muted-foreground">
+            {citationTypeLabels[active.type]}
+            {active.type === "company_context" && active.sourceId && ` · section ${active.sourceId}`}
+          </p>
+          <p className="font-medium text-foreground mt-0.5">{active.title}</p>
+          {active.excerpt && (
+            <p className="text-muted-foreground mt-1 whitespace-pre-wrap">{active.excerpt}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
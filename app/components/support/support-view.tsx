@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useParams } from "next/navigation";
 import { useQuery } from "convex/react";
 import { api } from "@/convex/_generated/api";
@@ -88,23 +88,49 @@ export function SupportView() {
   const [selectedConversationId, setSelectedConversationId] = useState<
     string | undefined
   >();
+  const [tagFilter, setTagFilter] = useState<string>("all");
 
-  // Get conversations using Convex live query
-  const backendConversations = useQuery(
+  // Get conversations using Convex live query - the tag filter runs server-side
+  const liveConversations = useQuery(
     api.conversations.queries.listConversationsForAgents,
     userData?.currentCompanyId
-      ? { companyId: userData.currentCompanyId as any }
+      ? {
+          companyId: userData.currentCompanyId as any,
+          tagId: tagFilter !== "all" ? (tagFilter as any) : undefined,
+        }
       : "skip"
   );
+  const tags = useQuery(
+    api.tags.queries.listTags,
+    userData?.currentCompanyId ? { companyId: userData.currentCompanyId as any } : "skip"
+  );
+
+  // Clear the filter if its tag is deleted
+  useEffect(() => {
+    if (tags && tagFilter !== "all" && !tags.some((tag) => tag._id === tagFilter)) {
+      setTagFilter("all");
+    }
+  }, [tags, tagFilter]);
+
+  // Keep showing the previous results while a new tag filter loads
+  const lastConversationsRef = useRef(liveConversations);
+  if (liveConversations) lastConversationsRef.current = liveConversations;
+  const backendConversations = liveConversations ?? lastConversationsRef.current;
 
   // Transform backend data to frontend format
   const conversations: Conversation[] = backendConversations
     ? transformConversations(backendConversations)
     : [];
 
-  const selectedConversation = conversations.find(
-    (c) => c.id === selectedConversationId
-  );
+  // Keep the open conversation if it drops out of the tag filter (e.g. the
+  // agent just removed that tag from it)
+  const lastSelectedRef = useRef<Conversation | undefined>(undefined);
+  const selectedConversation =
+    conversations.find((c) => c.id === selectedConversationId) ??
+    (lastSelectedRef.current?.id === selectedConversationId
+      ? lastSelectedRef.current
+      : undefined);
+  lastSelectedRef.current = selectedConversation;
 
   const handleSelectConversation = (id: string) => {
     setSelectedConversationId(id);
@@ -139,6 +165,9 @@ export function SupportView() {
         conversations={conversations}
         selectedConversationId={selectedConversationId}
         onSelectConversation={handleSelectConversation}
+        tags={tags ?? []}
+        tagFilter={tagFilter}
+        onTagFilterChange={setTagFilter}
       />
     </div>
   );
@@ -0,0 +1,60 @@
+"use client";
+
+import { X } from "lucide-react";
+import { Badge } from "../../../components/ui/badge";
+import { cn } from "@/lib/utils";
+
+// Mirrors TAG_COLORS in convex/tags/names.ts
+export const tagColorClasses: Record<string, string> = {
+  gray: "bg-muted text-muted-foreground border-border hover:bg-muted",
+  red: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20 hover:bg-red-500/10",
+  orange:
+    "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20 hover:bg-orange-500/10",
+  yellow:
+    "bg-yellow-500/10 text-yellow-600 dark:text-yellow-400 border-yellow-500/20 hover:bg-yellow-500/10",
+  green:
+    "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20 hover:bg-green-500/10",
+  blue: "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20 hover:bg-blue-500/10",
+  indigo:
+    "bg-indigo-500/10 text-indigo-600 dark:text-indigo-400 border-indigo-500/20 hover:bg-indigo-500/10",
+  purple:
+    "bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/20 hover:bg-purple-500/10",
+  pink: "bg-pink-500/10 text-pink-600 dark:text-pink-400 border-pink-500/20 hover:bg-pink-500/10",
+};
+
+export const tagColors = Object.keys(tagColorClasses);
+
+interface TagChipProps {
+  name: string;
+  color: string;
+  onRemove?: () => void;
+  className?: string;
+}
+
+export function TagChip({ name, color, onRemove, className }: TagChipProps) {
+  return (
+    <Badge
+      variant="secondary"
+      className={cn(
+        "h-5 px-2 text-[10px] border flex items-center gap-1 max-w-[160px]",
+        tagColorClasses[color] ?? tagColorClasses.gray,
+        className
+      )}
+    >
+      <span className="truncate">{name}</span>
+      {onRemove && (
+        <button
+          type="button"
+          onClick={(e) => {
+            e.stopPropagation();
+            onRemove();
+          }}
+          className="-mr-1 rounded-sm opacity-60 hover:opacity-100"
+          aria-label={`Remove tag ${name}`}
+        >
+          <X className="h-3 w-3" />
+        </button>
+      )}
+    </Badge>
+  );
+}
@@ -0,0 +1,185 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const NONE = "none";
+
+const availabilityLabels: Record<string, string> = {
+  available: "Available",
+  busy: "Busy",
+  offline: "Offline",
+};
+
+interface TransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  conversationId: Id<"conversations">;
+  companyId: Id<"companies">;
+  agentId: Id<"users">;
+}
+
+export function TransferDialog({
+  open,
+  onOpenChange,
+  conversationId,
+  companyId,
+  agentId,
+}: TransferDialogProps) {
+  const [toAgentId, setToAgentId] = useState(NONE);
+  const [toDepartmentId, setToDepartmentId] = useState(NONE);
+  const [note, setNote] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const teamMembers = useQuery(
+    api.users.queries.listTeamMembersByCompany,
+    open ? { companyId } : "skip"
+  );
+  const departments = useQuery(
+    api.departments.queries.listActiveDepartments,
+    open ? { companyId } : "skip"
+  );
+  const transferConversation = useMutation(api.conversations.mutations.transferConversation);
+
+  // Agents in the chosen department, without the current agent
+  const agents = (teamMembers ?? []).filter(
+    (member: any) =>
+      member._id !== agentId &&
+      (toDepartmentId === NONE || member.departmentIds?.includes(toDepartmentId))
+  );
+
+  const reset = () => {
+    setToAgentId(NONE);
+    setToDepartmentId(NONE);
+    setNote("");
+  };
+
+  const handleTransfer = async () => {
+    setIsSaving(true);
+    try {
+      await transferConversation({
+        conversationId,
+        fromAgentId: agentId,
+        toAgentId: toAgentId === NONE ? undefined : (toAgentId as Id<"users">),
+        toDepartmentId:
+          toDepartmentId === NONE ? undefined : (toDepartmentId as Id<"departments">),
+        note: note.trim() || undefined,
+      });
+      toast.success("Conversation transferred");
+      reset();
+      onOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to transfer conversation");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) reset();
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transfer conversation</DialogTitle>
+          <DialogDescription>
+            Hand this conversation to a teammate or another department. You&apos;ll leave the
+            conversation.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4 py-4">
+          {!!departments?.length && (
+            <div className="space-y-2">
+              <Label>Department</Label>
+              <Select
+                value={toDepartmentId}
+                onValueChange={(value) => {
+                  setToDepartmentId(value);
+                  setToAgentId(NONE);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Keep current department</SelectItem>
+                  {departments.map((department) => (
+                    <SelectItem key={department._id} value={department._id}>
+                      {department.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Agent</Label>
+            <Select value={toAgentId} onValueChange={setToAgentId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NONE}>
+                  {toDepartmentId === NONE ? "Choose an agent..." : "Anyone in the department"}
+                </SelectItem>
+                {agents.map((member: any) => (
+                  <SelectItem key={member._id} value={member._id}>
+                    {member.displayName} ·{" "}
+                    {availabilityLabels[member.availabilityStatus ?? "available"]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Handover note</Label>
+            <Textarea
+              placeholder="What's been tried, what the customer needs next..."
+              value={note}
+              maxLength={2000}
+              rows={4}
+              onChange={(e) => setNote(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Only your team can see this note</p>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="ghost" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleTransfer}
+            disabled={isSaving || (toAgentId === NONE && toDepartmentId === NONE)}
+          >
+            Transfer
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,49 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import type { Id } from "@/convex/_generated/dataModel";
+import { ArrowRightLeft } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { Card } from "@/components/ui/card";
+
+interface TransferHistoryProps {
+  conversationId: Id<"conversations">;
+}
+
+export function TransferHistory({ conversationId }: TransferHistoryProps) {
+  const transfers = useQuery(api.conversations.queries.listConversationTransfers, {
+    conversationId,
+  });
+
+  if (!transfers?.length) return null;
+
+  return (
+    <Card className="p-4 bg-muted/30">
+      <div className="flex items-center gap-2 mb-2">
+        <ArrowRightLeft className="h-4 w-4 text-muted-foreground" />
+        <h3 className="text-sm font-semibold">
+          Transferred {transfers.length === 1 ? "once" : `${transfers.length} times`}
+        </h3>
+      </div>
+      <ol className="space-y-2">
+        {transfers.map((transfer) => (
+          <li key={transfer._id} className="text-sm">
+            <div className="flex items-baseline justify-between gap-2">
+              <span className="text-foreground">
+                {transfer.fromAgentName} →{" "}
+                {[transfer.toAgentName, transfer.toDepartmentName].filter(Boolean).join(", ")}
+              </span>
+              <span className="text-xs text-muted-foreground flex-shrink-0">
+                {formatDistanceToNow(new Date(transfer.createdAt), { addSuffix: true })}
+              </span>
+            </div>
+            {transfer.note && (
+              <p className="text-muted-foreground whitespace-pre-wrap mt-0.5">{transfer.note}</p>
+            )}
+          </li>
+        ))}
+      </ol>
+    </Card>
+  );
+}
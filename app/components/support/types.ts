@@ -6,8 +6,29 @@
 
 import type { Doc } from "@/convex/_generated/dataModel";
 
-export type ConversationStatus = "ai" | "awaiting_department" | "available" | "support" | "resolved";
+export type ConversationStatus =
+  | "ai"
+  | "awaiting_department"
+  | "available"
+  | "support"
+  | "pending_customer"
+  | "snoozed"
+  | "resolved";
 export type DeliveryStatus = "sent" | "delivered" | "seen";
+export type ConversationPriority = "low" | "normal" | "high" | "urgent";
+export type SlaMetric = "first_response" | "next_response" | "resolution";
+
+export interface ConversationTag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface PendingAssignment {
+  agentId: string;
+  reason: string; // Why the agent was picked
+  expiresAt: number; // When the offer moves to the next agent
+}
 
 export interface Agent {
   id: string;
@@ -34,6 +55,19 @@ export interface Conversation {
   participatingAgents: Agent[];
   handoffReason?: string;
   departmentName?: string;
+  pendingApprovalCount?: number; // AI replies waiting for an agent to approve
+  injectionFlag?: { score: number; signals: string[]; flaggedAt: number }; // Quarantined prompt injection awaiting review
+  groundingFlag?: { flaggedAt: number }; // AI answer with no knowledge sources awaiting review
+  priceFlag?: { flaggedAt: number }; // AI answer with prices the price guard couldn't verify
+  priority?: ConversationPriority; // Unset means normal
+  slaDue?: { metric: SlaMetric; dueAt: number }; // Earliest running SLA target
+  slaBreached?: boolean; // Missed an SLA target since the handoff
+  tags?: ConversationTag[];
+  assignedAgent?: { id: string; name: string }; // Owner of the conversation
+  pendingAssignment?: PendingAssignment; // Offer awaiting the assigned agent
+  wakeAt?: number; // When a pending_customer or snoozed conversation returns to the queue
+  summary?: string; // Rolling AI summary of older messages
+  summaryUpdatedAt?: Date;
   createdAt: Date;
   messages?: Doc<"messages">[]; // Pre-fetched messages for instant display
 }
@@ -0,0 +1,381 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { useUser } from "@/app/contexts/user-context";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { UserCheck, Pencil } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+
+type AssignmentStrategy = "manual" | "round_robin" | "least_busy" | "skills";
+
+// Mirrors ASSIGNMENT_STRATEGY_LABELS in convex/assignment/strategy.ts
+const strategyOptions: { value: AssignmentStrategy; label: string; description: string }[] = [
+  {
+    value: "manual",
+    label: "Manual",
+    description: "Every agent is notified and the first to take over owns the conversation",
+  },
+  {
+    value: "round_robin",
+    label: "Round-robin",
+    description: "Agents take turns, starting with whoever was assigned least recently",
+  },
+  {
+    value: "least_busy",
+    label: "Least busy",
+    description: "The agent with the fewest open conversations",
+  },
+  {
+    value: "skills",
+    label: "Skills-based",
+    description: "The agent whose skills match the conversation's tags and topic, then the least busy",
+  },
+];
+
+// Mirrors DEFAULT_ACCEPT_TIMEOUT_MINUTES in convex/assignment/strategy.ts
+const DEFAULT_ACCEPT_TIMEOUT_MINUTES = 5;
+
+const outcomeLabels: Record<string, { label: string; className: string }> = {
+  pending: { label: "Waiting", className: "bg-primary/10 text-primary border-primary/20" },
+  accepted: { label: "Accepted", className: "bg-success/10 text-success border-success/20" },
+  declined: { label: "Declined", className: "bg-muted text-muted-foreground border-border" },
+  timed_out: {
+    label: "Timed out",
+    className: "bg-orange-500/10 text-orange-600 dark:text-orange-400 border-orange-500/20",
+  },
+  taken_over: { label: "Taken by another agent", className: "bg-muted text-muted-foreground border-border" },
+  cancelled: { label: "Cancelled", className: "bg-muted text-muted-foreground border-border" },
+};
+
+const availabilityLabels: Record<string, string> = {
+  available: "Available",
+  busy: "Busy",
+  offline: "Offline",
+};
+
+const parseCap = (value: string) => {
+  const cap = Number(value);
+  return value.trim() && Number.isInteger(cap) && cap > 0 ? cap : undefined;
+};
+
+export function AssignmentTab() {
+  const { userData, isLoading: userLoading } = useUser();
+  const companyId = userData?.currentCompanyId as Id<"companies"> | undefined;
+
+  const [strategy, setStrategy] = useState<AssignmentStrategy>("manual");
+  const [acceptTimeout, setAcceptTimeout] = useState(String(DEFAULT_ACCEPT_TIMEOUT_MINUTES));
+  const [defaultCap, setDefaultCap] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const [selectedAgent, setSelectedAgent] = useState<any>(null);
+  const [agentCap, setAgentCap] = useState("");
+  const [agentSkills, setAgentSkills] = useState("");
+
+  const company = useQuery(api.companies.queries.getCompanyById, companyId ? { companyId } : "skip");
+  const teamMembers = useQuery(
+    api.users.queries.listTeamMembersByCompany,
+    companyId ? { companyId } : "skip"
+  );
+  const recentAssignments = useQuery(
+    api.assignment.queries.listRecentAssignments,
+    companyId ? { companyId } : "skip"
+  );
+
+  const updateAssignmentSettings = useMutation(api.assignment.mutations.updateAssignmentSettings);
+  const updateAgentAssignmentSettings = useMutation(
+    api.assignment.mutations.updateAgentAssignmentSettings
+  );
+
+  // Load the saved settings into the form
+  useEffect(() => {
+    if (!company) return;
+    setStrategy(company.assignment?.strategy ?? "manual");
+    setAcceptTimeout(
+      String(company.assignment?.acceptTimeoutMinutes ?? DEFAULT_ACCEPT_TIMEOUT_MINUTES)
+    );
+    setDefaultCap(company.assignment?.maxConcurrentConversations?.toString() ?? "");
+  }, [company]);
+
+  const handleSaveSettings = async () => {
+    if (!companyId) return;
+    const timeout = Number(acceptTimeout);
+    if (!Number.isFinite(timeout) || timeout < 1) {
+      toast.error("The accept timeout must be at least 1 minute");
+      return;
+    }
+    if (defaultCap.trim() && parseCap(defaultCap) === undefined) {
+      toast.error("The conversation cap must be a whole number of at least 1");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updateAssignmentSettings({
+        companyId,
+        strategy,
+        acceptTimeoutMinutes: timeout,
+        maxConcurrentConversations: parseCap(defaultCap),
+      });
+      toast.success("Assignment settings saved");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save settings");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openAgentDialog = (agent: any) => {
+    setSelectedAgent(agent);
+    setAgentCap(agent.maxConcurrentConversations?.toString() ?? "");
+    setAgentSkills((agent.skills ?? []).join(", "));
+  };
+
+  const handleSaveAgent = async () => {
+    if (!companyId || !selectedAgent) return;
+    if (agentCap.trim() && parseCap(agentCap) === undefined) {
+      toast.error("The conversation cap must be a whole number of at least 1");
+      return;
+    }
+    try {
+      await updateAgentAssignmentSettings({
+        userId: selectedAgent._id,
+        companyId,
+        maxConcurrentConversations: parseCap(agentCap) ?? null,
+        skills: agentSkills.split(","),
+      });
+      toast.success(`Saved ${selectedAgent.displayName}`);
+      setSelectedAgent(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save agent");
+    }
+  };
+
+  if (
+    userLoading ||
+    !userData ||
+    company === undefined ||
+    teamMembers === undefined ||
+    recentAssignments === undefined
+  ) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-5 w-48" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  const savedCap = company?.assignment?.maxConcurrentConversations;
+  const selectedStrategy = strategyOptions.find((option) => option.value === strategy);
+
+  return (
+    <div className="space-y-8">
+      {/* Company Settings */}
+      <div className="rounded-xl border border-border overflow-hidden">
+        <div className="px-4 py-3 bg-secondary/50 border-b border-border flex items-center gap-2">
+          <UserCheck className="h-4 w-4 text-muted-foreground" />
+          <h2 className="text-sm font-medium text-foreground">Automatic assignment</h2>
+        </div>
+        <div className="p-4 space-y-4">
+          <div className="space-y-2">
+            <Label>Strategy</Label>
+            <Select value={strategy} onValueChange={(value) => setStrategy(value as AssignmentStrategy)}>
+              <SelectTrigger className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {strategyOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              {selectedStrategy?.description}. Departments can use their own strategy.
+            </p>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label>Accept timeout (minutes)</Label>
+              <Input
+                type="number"
+                min={1}
+                value={acceptTimeout}
+                onChange={(e) => setAcceptTimeout(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                If the agent doesn&apos;t take over in time, the next agent is tried
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Max open conversations per agent</Label>
+              <Input
+                type="number"
+                min={1}
+                placeholder="No limit"
+                value={defaultCap}
+                onChange={(e) => setDefaultCap(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Agents at their limit are skipped. Set a different limit per agent below.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <Button size="sm" onClick={handleSaveSettings} disabled={isSaving}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {/* Agents */}
+      <div className="space-y-3">
+        <h2 className="text-sm font-medium text-foreground">Agents</h2>
+        <div className="grid gap-3">
+          {teamMembers.map((agent: any) => (
+            <div
+              key={agent._id}
+              className="p-4 rounded-lg border border-border bg-card hover:bg-secondary/30 transition-colors"
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-foreground truncate">
+                      {agent.displayName}
+                    </span>
+                    <Badge variant="secondary" className="h-5 px-2 text-[10px]">
+                      {availabilityLabels[agent.availabilityStatus ?? "available"]}
+                    </Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1.5">
+                    {agent.maxConcurrentConversations !== undefined
+                      ? `Up to ${agent.maxConcurrentConversations} open`
+                      : savedCap !== undefined
+                        ? `Up to ${savedCap} open (company default)`
+                        : "No limit"}
+                    {agent.skills?.length ? ` · Skills: ${agent.skills.join(", ")}` : ""}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => openAgentDialog(agent)}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Recent Assignments */}
+      <div className="space-y-3">
+        <h2 className="text-sm font-medium text-foreground">Recent assignments</h2>
+        {recentAssignments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No conversations have been assigned automatically yet.
+          </p>
+        ) : (
+          <div className="rounded-xl border border-border divide-y divide-border">
+            {recentAssignments.map((assignment) => {
+              const outcome = outcomeLabels[assignment.outcome];
+              return (
+                <div key={assignment._id} className="p-3 flex items-start justify-between gap-4">
+                  <div className="min-w-0">
+                    <p className="text-sm text-foreground truncate">
+                      {assignment.customerName} → {assignment.agentName}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-0.5">{assignment.reason}</p>
+                  </div>
+                  <div className="flex flex-col items-end gap-1 flex-shrink-0">
+                    <Badge
+                      variant="secondary"
+                      className={cn("h-5 px-2 text-[10px] border", outcome.className)}
+                    >
+                      {outcome.label}
+                    </Badge>
+                    <span className="text-[10px] text-muted-foreground">
+                      {formatDistanceToNow(new Date(assignment.assignedAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Agent Dialog */}
+      <Dialog open={!!selectedAgent} onOpenChange={(open) => !open && setSelectedAgent(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedAgent?.displayName}</DialogTitle>
+            <DialogDescription>
+              How many conversations this agent can hold and what they&apos;re best at
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Max open conversations</Label>
+              <Input
+                type="number"
+                min={1}
+                placeholder={savedCap !== undefined ? `Company default (${savedCap})` : "No limit"}
+                value={agentCap}
+                onChange={(e) => setAgentCap(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Skills</Label>
+              <Input
+                placeholder="e.g. billing, refunds, technical_issue"
+                value={agentSkills}
+                onChange={(e) => setAgentSkills(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Comma separated. Matched against conversation tags and handoff topics.
+              </p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setSelectedAgent(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveAgent}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -12,23 +12,31 @@ import { Pencil, FileText } from "lucide-react";
 
 interface CompanyContextTabProps {
   fullConfig: any; // Type from getFullCompanyConfig query
+  // Unsaved edits, kept by the parent so they survive switching tabs
+  draft?: string | null;
+  onDraftChange?: (draft: string | null) => void;
 }
 
-export function CompanyContextTab({ fullConfig }: CompanyContextTabProps) {
+export function CompanyContextTab({ fullConfig, draft, onDraftChange }: CompanyContextTabProps) {
   const { userData } = useUser();
-  const [content, setContent] = useState("");
+  const [content, setContent] = useState(draft ?? "");
   const [savedContent, setSavedContent] = useState("");
   const [isSaving, setIsSaving] = useState(false);
-  const [isEditing, setIsEditing] = useState(false);
+  const [isEditing, setIsEditing] = useState(draft != null);
 
   // Initialize content from fullConfig
   useEffect(() => {
     if (fullConfig?.companyContextOriginal) {
-      setContent(fullConfig.companyContextOriginal);
+      setContent(draft ?? fullConfig.companyContextOriginal);
       setSavedContent(fullConfig.companyContextOriginal);
     }
   }, [fullConfig?.companyContextOriginal]);
 
+  const handleContentChange = (text: string) => {
+    setContent(text);
+    onDraftChange?.(text !== savedContent ? text : null);
+  };
+
   // Update context action (calls the action that updates DB + Vector Store)
   const updateContext = useAction(api.workspace.actions.updateContextFromText);
 
@@ -43,10 +51,12 @@ export function CompanyContextTab({ fullConfig }: CompanyContextTabProps) {
         companyId: userData.currentCompanyId as Id<"companies">,
         text: content,
         shouldCondense: false,
+        updatedBy: userData.user?._id as Id<"users"> | undefined,
       });
 
       setSavedContent(content);
       setIsEditing(false);
+      onDraftChange?.(null);
       toast.success("Company context updated");
     } catch (error) {
       console.error("Error saving context:", error);
@@ -61,6 +71,7 @@ export function CompanyContextTab({ fullConfig }: CompanyContextTabProps) {
   const handleDiscard = () => {
     setContent(savedContent);
     setIsEditing(false);
+    onDraftChange?.(null);
   };
 
   const wordCount = (text: string) => {
@@ -125,7 +136,7 @@ export function CompanyContextTab({ fullConfig }: CompanyContextTabProps) {
       <div className="relative">
         <Textarea
           value={content}
-          onChange={(e) => setContent(e.target.value)}
+          onChange={(e) => handleContentChange(e.target.value)}
           rows={16}
           className="resize-none font-sans text-sm"
           placeholder={`Describe your company, products, policies, FAQs...
@@ -8,6 +8,8 @@ import { Id } from "@/convex/_generated/dataModel";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -51,10 +53,54 @@ import {
   Users,
   UserPlus,
   UserMinus,
+  Sparkles,
 } from "lucide-react";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
 
+type ApprovalMode = "inherit" | "required" | "autonomous";
+
+const approvalModeLabels: Record<ApprovalMode, string> = {
+  inherit: "Use company setting",
+  required: "Require approval",
+  autonomous: "Send without approval",
+};
+
+type DepartmentAssignmentStrategy = "inherit" | "manual" | "round_robin" | "least_busy" | "skills";
+
+// Mirrors ASSIGNMENT_STRATEGY_LABELS in convex/assignment/strategy.ts
+const assignmentStrategyLabels: Record<DepartmentAssignmentStrategy, string> = {
+  inherit: "Use company setting",
+  manual: "Manual",
+  round_robin: "Round-robin",
+  least_busy: "Least busy",
+  skills: "Skills-based",
+};
+
+type PersonaPersonality = "professional" | "friendly" | "casual" | "technical";
+
+// Mirrors PERSONA_PERSONALITY_LABELS in convex/ai/departmentPersona.ts
+const personalityLabels: Record<PersonaPersonality, string> = {
+  professional: "Professional",
+  friendly: "Friendly",
+  casual: "Casual",
+  technical: "Technical",
+};
+
+// Built-in triggers from AI Studio's handoff settings
+const personaHandoffTriggers = [
+  { id: "customer_requests_human", label: "Customer requests human help" },
+  { id: "billing_questions", label: "Billing & payment problems" },
+  { id: "negative_sentiment", label: "Frustrated customer" },
+  { id: "low_confidence", label: "AI isn't sure of its answer" },
+];
+
+const splitTopics = (value: string) =>
+  value
+    .split(",")
+    .map((topic) => topic.trim())
+    .filter(Boolean);
+
 export function DepartmentsTab() {
   const { userData, isLoading: userLoading } = useUser();
   const companyId = userData?.currentCompanyId as Id<"companies"> | undefined;
@@ -66,6 +112,16 @@ export function DepartmentsTab() {
   const [selectedDept, setSelectedDept] = useState<any>(null);
   const [name, setName] = useState("");
   const [description, setDescription] = useState("");
+  const [approvalMode, setApprovalMode] = useState<ApprovalMode>("inherit");
+  const [assignmentStrategy, setAssignmentStrategy] =
+    useState<DepartmentAssignmentStrategy>("inherit");
+  const [personaEnabled, setPersonaEnabled] = useState(false);
+  const [personaPersonality, setPersonaPersonality] = useState<PersonaPersonality | "inherit">("inherit");
+  const [personaInstructions, setPersonaInstructions] = useState("");
+  const [personaTopics, setPersonaTopics] = useState("");
+  const [personaProductIds, setPersonaProductIds] = useState<string[]>([]);
+  const [customHandoff, setCustomHandoff] = useState(false);
+  const [personaTriggers, setPersonaTriggers] = useState<string[]>([]);
   const [selectedAgentId, setSelectedAgentId] = useState("");
 
   const company = useQuery(
@@ -83,6 +139,11 @@ export function DepartmentsTab() {
     companyId ? { companyId } : "skip"
   );
 
+  const products = useQuery(
+    api.products.queries.getCompanyProducts,
+    companyId && isEditOpen ? { companyId } : "skip"
+  );
+
   const createDepartment = useMutation(api.departments.mutations.createDepartment);
   const updateDepartment = useMutation(api.departments.mutations.updateDepartment);
   const deleteDepartment = useMutation(api.departments.mutations.deleteDepartment);
@@ -115,6 +176,19 @@ export function DepartmentsTab() {
         departmentId: selectedDept._id,
         name: name.trim(),
         description: description.trim() || undefined,
+        aiApprovalMode: approvalMode,
+        assignmentStrategy,
+        aiPersona:
+          personaEnabled || selectedDept.aiPersona
+            ? {
+                enabled: personaEnabled,
+                personality: personaPersonality === "inherit" ? undefined : personaPersonality,
+                instructions: personaInstructions.trim() || undefined,
+                knowledgeTopics: splitTopics(personaTopics),
+                productIds: personaProductIds as Id<"products">[],
+                handoffTriggers: customHandoff ? personaTriggers : undefined,
+              }
+            : undefined,
       });
       toast.success("Department updated");
       setIsEditOpen(false);
@@ -191,6 +265,15 @@ export function DepartmentsTab() {
     setSelectedDept(dept);
     setName(dept.name);
     setDescription(dept.description || "");
+    setApprovalMode(dept.aiApprovalMode || "inherit");
+    setAssignmentStrategy(dept.assignmentStrategy || "inherit");
+    setPersonaEnabled(dept.aiPersona?.enabled ?? false);
+    setPersonaPersonality(dept.aiPersona?.personality || "inherit");
+    setPersonaInstructions(dept.aiPersona?.instructions || "");
+    setPersonaTopics((dept.aiPersona?.knowledgeTopics || []).join(", "));
+    setPersonaProductIds(dept.aiPersona?.productIds || []);
+    setCustomHandoff(!!dept.aiPersona?.handoffTriggers);
+    setPersonaTriggers(dept.aiPersona?.handoffTriggers || []);
     setIsEditOpen(true);
   };
 
@@ -303,6 +386,26 @@ export function DepartmentsTab() {
                         >
                           {dept.isActive ? "Active" : "Inactive"}
                         </Badge>
+                        {dept.aiApprovalMode && dept.aiApprovalMode !== "inherit" && (
+                          <Badge variant="outline" className="text-xs">
+                            {approvalModeLabels[dept.aiApprovalMode as ApprovalMode]}
+                          </Badge>
+                        )}
+                        {dept.assignmentStrategy && dept.assignmentStrategy !== "inherit" && (
+                          <Badge variant="outline" className="text-xs">
+                            {
+                              assignmentStrategyLabels[
+                                dept.assignmentStrategy as DepartmentAssignmentStrategy
+                              ]
+                            }
+                          </Badge>
+                        )}
+                        {dept.aiPersona?.enabled && (
+                          <Badge variant="outline" className="text-xs gap-1">
+                            <Sparkles className="h-3 w-3" />
+                            AI persona
+                          </Badge>
+                        )}
                       </div>
                       {dept.description && (
                         <p className="text-sm text-muted-foreground mt-1">
@@ -422,7 +525,7 @@ export function DepartmentsTab() {
 
       {/* Edit Dialog */}
       <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
-        <DialogContent>
+        <DialogContent className="max-h-[85vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Department</DialogTitle>
           </DialogHeader>
@@ -438,6 +541,174 @@ export function DepartmentsTab() {
                 onChange={(e) => setDescription(e.target.value)}
               />
             </div>
+            <div className="space-y-2">
+              <Label>AI replies</Label>
+              <Select
+                value={approvalMode}
+                onValueChange={(v) => setApprovalMode(v as ApprovalMode)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(approvalModeLabels) as ApprovalMode[]).map((mode) => (
+                    <SelectItem key={mode} value={mode}>
+                      {approvalModeLabels[mode]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Whether agents approve AI replies in this department&apos;s conversations
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label>Assignment</Label>
+              <Select
+                value={assignmentStrategy}
+                onValueChange={(v) => setAssignmentStrategy(v as DepartmentAssignmentStrategy)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(assignmentStrategyLabels) as DepartmentAssignmentStrategy[]).map(
+                    (strategy) => (
+                      <SelectItem key={strategy} value={strategy}>
+                        {assignmentStrategyLabels[strategy]}
+                      </SelectItem>
+                    )
+                  )}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                How this department&apos;s conversations are assigned to its agents
+              </p>
+            </div>
+
+            {/* AI Persona */}
+            <div className="space-y-4 pt-4 border-t border-border">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>AI persona</Label>
+                  <p className="text-xs text-muted-foreground mt-0.5">
+                    The AI answers as this department before handing off to its agents
+                  </p>
+                </div>
+                <Switch checked={personaEnabled} onCheckedChange={setPersonaEnabled} />
+              </div>
+
+              {personaEnabled && (
+                <>
+                  <div className="space-y-2">
+                    <Label>Personality</Label>
+                    <Select
+                      value={personaPersonality}
+                      onValueChange={(v) => setPersonaPersonality(v as PersonaPersonality | "inherit")}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="inherit">Use company setting</SelectItem>
+                        {(Object.keys(personalityLabels) as PersonaPersonality[]).map((p) => (
+                          <SelectItem key={p} value={p}>
+                            {personalityLabels[p]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Instructions</Label>
+                    <Textarea
+                      rows={4}
+                      placeholder="e.g. Only offer refunds within 14 days of purchase. Never promise a refund for annual plans."
+                      value={personaInstructions}
+                      onChange={(e) => setPersonaInstructions(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Added to your AI Studio instructions. These win where the two disagree
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Knowledge topics (optional)</Label>
+                    <Input
+                      placeholder="e.g. refund, invoice, subscription"
+                      value={personaTopics}
+                      onChange={(e) => setPersonaTopics(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Only company context sections mentioning one of these are used. Leave empty for all
+                    </p>
+                  </div>
+
+                  {products && products.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Products (optional)</Label>
+                      <div className="max-h-36 overflow-y-auto space-y-2 rounded-md border border-border p-2">
+                        {products.map((product: any) => (
+                          <label
+                            key={product._id}
+                            className="flex items-center gap-2 text-sm text-foreground"
+                          >
+                            <Checkbox
+                              checked={personaProductIds.includes(product._id)}
+                              onCheckedChange={(checked) =>
+                                setPersonaProductIds(
+                                  checked
+                                    ? [...personaProductIds, product._id]
+                                    : personaProductIds.filter((id) => id !== product._id)
+                                )
+                              }
+                            />
+                            <span className="truncate">{product.title}</span>
+                          </label>
+                        ))}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        None selected means the whole catalog
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>Custom handoff triggers</Label>
+                      <Switch checked={customHandoff} onCheckedChange={setCustomHandoff} />
+                    </div>
+                    {customHandoff ? (
+                      <div className="space-y-2">
+                        {personaHandoffTriggers.map((trigger) => (
+                          <label
+                            key={trigger.id}
+                            className="flex items-center gap-2 text-sm text-foreground"
+                          >
+                            <Checkbox
+                              checked={personaTriggers.includes(trigger.id)}
+                              onCheckedChange={(checked) =>
+                                setPersonaTriggers(
+                                  checked
+                                    ? [...personaTriggers, trigger.id]
+                                    : personaTriggers.filter((id) => id !== trigger.id)
+                                )
+                              }
+                            />
+                            {trigger.label}
+                          </label>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-xs text-muted-foreground">
+                        Uses the handoff triggers from AI Studio
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
+            </div>
           </div>
           <DialogFooter>
             <Button variant="ghost" onClick={() => setIsEditOpen(false)}>
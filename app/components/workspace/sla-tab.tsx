@@ -0,0 +1,427 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { useUser } from "@/app/contexts/user-context";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Timer, Plus, MoreHorizontal, Pencil, Trash2, Building2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatSlaDuration } from "@/app/components/support/sla-badge";
+
+// Mirrors PRIORITY_TARGET_MULTIPLIERS in convex/sla/policy.ts
+const priorityScaling = [
+  { label: "Urgent", share: "¼ of the time" },
+  { label: "High", share: "½ of the time" },
+  { label: "Normal", share: "the targets below" },
+  { label: "Low", share: "twice the time" },
+];
+
+const COMPANY_DEFAULT = "company";
+
+const parseMinutes = (value: string) => {
+  const minutes = Number(value);
+  return value.trim() && Number.isFinite(minutes) && minutes > 0 ? minutes : undefined;
+};
+
+const formatTarget = (minutes?: number) =>
+  minutes !== undefined ? formatSlaDuration(minutes * 60000) : "—";
+
+export function SlaTab() {
+  const { userData, isLoading: userLoading } = useUser();
+  const companyId = userData?.currentCompanyId as Id<"companies"> | undefined;
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [selectedPolicy, setSelectedPolicy] = useState<any>(null);
+  const [name, setName] = useState("");
+  const [scope, setScope] = useState(COMPANY_DEFAULT);
+  const [firstResponse, setFirstResponse] = useState("");
+  const [nextResponse, setNextResponse] = useState("");
+  const [resolution, setResolution] = useState("");
+
+  const policies = useQuery(
+    api.sla.queries.listSlaPolicies,
+    companyId ? { companyId } : "skip"
+  );
+
+  const departments = useQuery(
+    api.departments.queries.listDepartments,
+    companyId ? { companyId } : "skip"
+  );
+
+  const createPolicy = useMutation(api.sla.mutations.createSlaPolicy);
+  const updatePolicy = useMutation(api.sla.mutations.updateSlaPolicy);
+  const deletePolicy = useMutation(api.sla.mutations.deleteSlaPolicy);
+
+  const departmentName = (departmentId?: string) =>
+    departments?.find((dept) => dept._id === departmentId)?.name ?? "Deleted department";
+
+  // Scopes that don't have a policy yet
+  const availableScopes = [
+    ...(policies?.some((policy) => !policy.departmentId)
+      ? []
+      : [{ value: COMPANY_DEFAULT, label: "Company default" }]),
+    ...(departments ?? [])
+      .filter((dept) => !policies?.some((policy) => policy.departmentId === dept._id))
+      .map((dept) => ({ value: dept._id as string, label: dept.name })),
+  ];
+
+  const openCreateDialog = () => {
+    setSelectedPolicy(null);
+    setName("");
+    setScope(availableScopes[0]?.value ?? COMPANY_DEFAULT);
+    setFirstResponse("60");
+    setNextResponse("");
+    setResolution("");
+    setIsFormOpen(true);
+  };
+
+  const openEditDialog = (policy: any) => {
+    setSelectedPolicy(policy);
+    setName(policy.name);
+    setFirstResponse(String(policy.firstResponseMinutes));
+    setNextResponse(policy.nextResponseMinutes ? String(policy.nextResponseMinutes) : "");
+    setResolution(policy.resolutionMinutes ? String(policy.resolutionMinutes) : "");
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    const firstResponseMinutes = parseMinutes(firstResponse);
+    if (!companyId || !name.trim() || !firstResponseMinutes) return;
+    try {
+      if (selectedPolicy) {
+        await updatePolicy({
+          policyId: selectedPolicy._id,
+          name: name.trim(),
+          firstResponseMinutes,
+          nextResponseMinutes: parseMinutes(nextResponse) ?? null,
+          resolutionMinutes: parseMinutes(resolution) ?? null,
+        });
+        toast.success("SLA policy updated");
+      } else {
+        await createPolicy({
+          companyId,
+          departmentId:
+            scope === COMPANY_DEFAULT ? undefined : (scope as Id<"departments">),
+          name: name.trim(),
+          firstResponseMinutes,
+          nextResponseMinutes: parseMinutes(nextResponse),
+          resolutionMinutes: parseMinutes(resolution),
+          createdBy: userData?.user?._id as Id<"users"> | undefined,
+        });
+        toast.success(`SLA policy "${name.trim()}" created`);
+      }
+      setIsFormOpen(false);
+      setSelectedPolicy(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save SLA policy");
+    }
+  };
+
+  const handleToggleActive = async (policy: any) => {
+    try {
+      await updatePolicy({ policyId: policy._id, isActive: !policy.isActive });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedPolicy) return;
+    try {
+      await deletePolicy({ policyId: selectedPolicy._id });
+      toast.success("SLA policy deleted");
+      setIsDeleteOpen(false);
+      setSelectedPolicy(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete");
+    }
+  };
+
+  if (userLoading || !userData || policies === undefined) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-5 w-48" />
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  // Company default first, then departments by name
+  const sortedPolicies = [...policies].sort((a, b) =>
+    !a.departmentId ? -1 : !b.departmentId ? 1 : a.name.localeCompare(b.name)
+  );
+
+  return (
+    <div className="space-y-6">
+      {/* How it works */}
+      <div className="p-4 rounded-lg border border-border bg-card">
+        <h3 className="text-sm font-medium text-foreground">How SLAs work</h3>
+        <p className="text-xs text-muted-foreground mt-0.5">
+          The clock starts when a conversation is handed to your team. A department&apos;s
+          policy replaces the company default. Conversation priority scales the targets:
+        </p>
+        <div className="flex flex-wrap gap-2 mt-3">
+          {priorityScaling.map((item) => (
+            <Badge key={item.label} variant="outline" className="text-xs font-normal">
+              <span className="font-medium mr-1">{item.label}</span>
+              {item.share}
+            </Badge>
+          ))}
+        </div>
+      </div>
+
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Timer className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm text-muted-foreground">
+            {policies.length} {policies.length === 1 ? "policy" : "policies"}
+          </span>
+        </div>
+        <Button onClick={openCreateDialog} size="sm" disabled={availableScopes.length === 0}>
+          <Plus className="h-4 w-4 mr-1.5" />
+          Add Policy
+        </Button>
+      </div>
+
+      {/* Policies List */}
+      <div className="grid gap-3">
+        {sortedPolicies.map((policy) => (
+          <div
+            key={policy._id}
+            className="p-4 rounded-lg border border-border bg-card hover:bg-secondary/30 transition-colors"
+          >
+            <div className="flex items-start justify-between">
+              <div className="flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-foreground">{policy.name}</span>
+                  <Badge variant="outline" className="text-xs gap-1">
+                    {policy.departmentId ? (
+                      <>
+                        <Building2 className="h-3 w-3" />
+                        {departmentName(policy.departmentId)}
+                      </>
+                    ) : (
+                      "Company default"
+                    )}
+                  </Badge>
+                </div>
+                <div className="grid grid-cols-3 gap-4 mt-3 max-w-md">
+                  <div>
+                    <p className="text-xs text-muted-foreground">First response</p>
+                    <p className="text-sm font-medium text-foreground">
+                      {formatTarget(policy.firstResponseMinutes)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Next response</p>
+                    <p className="text-sm font-medium text-foreground">
+                      {formatTarget(policy.nextResponseMinutes)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-xs text-muted-foreground">Resolution</p>
+                    <p className="text-sm font-medium text-foreground">
+                      {formatTarget(policy.resolutionMinutes)}
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={policy.isActive}
+                  onCheckedChange={() => handleToggleActive(policy)}
+                />
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-8 w-8">
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => openEditDialog(policy)}>
+                      <Pencil className="h-4 w-4 mr-2" />
+                      Edit
+                    </DropdownMenuItem>
+                    <DropdownMenuItem
+                      className="text-destructive focus:text-destructive"
+                      onClick={() => {
+                        setSelectedPolicy(policy);
+                        setIsDeleteOpen(true);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 mr-2" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {policies.length === 0 && (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="p-4 rounded-full bg-secondary mb-4">
+            <Timer className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium text-foreground mb-2">No SLA policies yet</h3>
+          <p className="text-sm text-muted-foreground mb-6 max-w-sm">
+            Add a company default so agents see how long they have to reply to each conversation
+          </p>
+          <Button onClick={openCreateDialog} size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            Create First Policy
+          </Button>
+        </div>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedPolicy ? "Edit SLA Policy" : "Create SLA Policy"}</DialogTitle>
+            <DialogDescription>
+              Targets are in minutes for normal priority. Changes apply to conversations handed
+              off after saving.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                placeholder="e.g. Standard support, Billing"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            {!selectedPolicy && (
+              <div className="space-y-2">
+                <Label>Applies to</Label>
+                <Select value={scope} onValueChange={setScope}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {availableScopes.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label>First response</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  value={firstResponse}
+                  onChange={(e) => setFirstResponse(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Next response</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="None"
+                  value={nextResponse}
+                  onChange={(e) => setNextResponse(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Resolution</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  placeholder="None"
+                  value={resolution}
+                  onChange={(e) => setResolution(e.target.value)}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Next response is measured from each customer message waiting for a reply after the
+              first response. Leave a target empty to skip it.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim() || !parseMinutes(firstResponse)}>
+              {selectedPolicy ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete SLA Policy?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete &quot;{selectedPolicy?.name}&quot;? Conversations
+              already on this policy keep their current deadlines.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
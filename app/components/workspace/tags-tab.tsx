@@ -0,0 +1,289 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { useUser } from "@/app/contexts/user-context";
+import { Id } from "@/convex/_generated/dataModel";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Tag, Plus, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { TagChip, tagColorClasses, tagColors } from "@/app/components/support/tag-chip";
+import { cn } from "@/lib/utils";
+
+export function TagsTab() {
+  const { userData, isLoading: userLoading } = useUser();
+  const companyId = userData?.currentCompanyId as Id<"companies"> | undefined;
+
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [selectedTag, setSelectedTag] = useState<any>(null);
+  const [name, setName] = useState("");
+  const [color, setColor] = useState("blue");
+  const [description, setDescription] = useState("");
+
+  const tags = useQuery(api.tags.queries.listTags, companyId ? { companyId } : "skip");
+
+  const createTag = useMutation(api.tags.mutations.createTag);
+  const updateTag = useMutation(api.tags.mutations.updateTag);
+  const deleteTag = useMutation(api.tags.mutations.deleteTag);
+
+  const openCreateDialog = () => {
+    setSelectedTag(null);
+    setName("");
+    setColor("blue");
+    setDescription("");
+    setIsFormOpen(true);
+  };
+
+  const openEditDialog = (tag: any) => {
+    setSelectedTag(tag);
+    setName(tag.name);
+    setColor(tag.color);
+    setDescription(tag.description ?? "");
+    setIsFormOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!companyId || !name.trim()) return;
+    try {
+      if (selectedTag) {
+        await updateTag({ tagId: selectedTag._id, name, color, description });
+        toast.success("Tag updated");
+      } else {
+        await createTag({
+          companyId,
+          name,
+          color,
+          description: description || undefined,
+          createdBy: userData?.user?._id as Id<"users"> | undefined,
+        });
+        toast.success(`Tag "${name.trim()}" created`);
+      }
+      setIsFormOpen(false);
+      setSelectedTag(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to save tag");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedTag) return;
+    try {
+      await deleteTag({ tagId: selectedTag._id });
+      toast.success("Tag deleted");
+      setIsDeleteOpen(false);
+      setSelectedTag(null);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to delete");
+    }
+  };
+
+  if (userLoading || !userData || tags === undefined) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-5 w-48" />
+        <Skeleton className="h-10 w-full" />
+        <Skeleton className="h-32 w-full" />
+      </div>
+    );
+  }
+
+  const sortedTags = [...tags].sort((a, b) => a.name.localeCompare(b.name));
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Tag className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm text-muted-foreground">
+            {tags.length} {tags.length === 1 ? "tag" : "tags"}
+          </span>
+        </div>
+        <Button onClick={openCreateDialog} size="sm">
+          <Plus className="h-4 w-4 mr-1.5" />
+          Add Tag
+        </Button>
+      </div>
+
+      {/* Tags List */}
+      <div className="grid gap-3">
+        {sortedTags.map((tag) => (
+          <div
+            key={tag._id}
+            className="p-4 rounded-lg border border-border bg-card hover:bg-secondary/30 transition-colors"
+          >
+            <div className="flex items-center justify-between gap-4">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <TagChip name={tag.name} color={tag.color} />
+                  <span className="text-xs text-muted-foreground">
+                    {tag.conversationCount}{" "}
+                    {tag.conversationCount === 1 ? "conversation" : "conversations"}
+                  </span>
+                </div>
+                {tag.description && (
+                  <p className="text-xs text-muted-foreground mt-1.5 truncate">
+                    {tag.description}
+                  </p>
+                )}
+              </div>
+
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" className="h-8 w-8">
+                    <MoreHorizontal className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => openEditDialog(tag)}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    className="text-destructive focus:text-destructive"
+                    onClick={() => {
+                      setSelectedTag(tag);
+                      setIsDeleteOpen(true);
+                    }}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {tags.length === 0 && (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <div className="p-4 rounded-full bg-secondary mb-4">
+            <Tag className="h-8 w-8 text-muted-foreground" />
+          </div>
+          <h3 className="text-lg font-medium text-foreground mb-2">No tags yet</h3>
+          <p className="text-sm text-muted-foreground mb-6 max-w-sm">
+            Tag conversations to group them by topic and filter your inbox. Agents can also
+            create tags from a conversation.
+          </p>
+          <Button onClick={openCreateDialog} size="sm">
+            <Plus className="h-4 w-4 mr-2" />
+            Create First Tag
+          </Button>
+        </div>
+      )}
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedTag ? "Edit Tag" : "Create Tag"}</DialogTitle>
+            <DialogDescription>
+              {selectedTag
+                ? "Renaming a tag updates it on every conversation"
+                : "Tags are shared by your whole team"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>Name</Label>
+              <Input
+                placeholder="e.g. Refund, Bug report, VIP"
+                value={name}
+                maxLength={40}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Color</Label>
+              <div className="flex flex-wrap gap-2">
+                {tagColors.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setColor(option)}
+                    className={cn(
+                      "h-7 w-7 rounded-full border transition-all",
+                      tagColorClasses[option],
+                      color === option && "ring-2 ring-primary ring-offset-2 ring-offset-background"
+                    )}
+                    aria-label={option}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Description</Label>
+              <Input
+                placeholder="Optional - when to use this tag"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsFormOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!name.trim()}>
+              {selectedTag ? "Save" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation */}
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete tag?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{selectedTag?.name}&quot; will be removed from{" "}
+              {selectedTag?.conversationCount ?? 0}{" "}
+              {selectedTag?.conversationCount === 1 ? "conversation" : "conversations"} and any
+              templates that add it. AI rules that use this name will create it again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -21,6 +21,8 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Button } from "@/components/ui/button";
+import { TagChip } from "@/app/components/support/tag-chip";
+import { cn } from "@/lib/utils";
 
 type TemplateCategory = "greeting" | "escalation" | "resolution" | "general";
 
@@ -29,6 +31,7 @@ interface Template {
   title: string;
   content: string;
   category: TemplateCategory;
+  tagIds?: Id<"tags">[];
 }
 
 interface TemplateModalProps {
@@ -38,8 +41,10 @@ interface TemplateModalProps {
     title: string;
     content: string;
     category: TemplateCategory;
+    tagIds: Id<"tags">[];
   }) => void;
   template?: Template | null;
+  tags: Array<{ _id: Id<"tags">; name: string; color: string }>;
 }
 
 export function TemplateModal({
@@ -47,10 +52,12 @@ export function TemplateModal({
   onClose,
   onSave,
   template,
+  tags,
 }: TemplateModalProps) {
   const [title, setTitle] = useState("");
   const [content, setContent] = useState("");
   const [category, setCategory] = useState<TemplateCategory>("general");
+  const [tagIds, setTagIds] = useState<Id<"tags">[]>([]);
 
   // Load template data when editing
   useEffect(() => {
@@ -58,10 +65,12 @@ export function TemplateModal({
       setTitle(template.title);
       setContent(template.content);
       setCategory(template.category);
+      setTagIds(template.tagIds ?? []);
     } else {
       setTitle("");
       setContent("");
       setCategory("general");
+      setTagIds([]);
     }
   }, [template, open]);
 
@@ -72,6 +81,7 @@ export function TemplateModal({
       title: title.trim(),
       content: content.trim(),
       category,
+      tagIds,
     });
 
     onClose();
@@ -156,6 +166,38 @@ export function TemplateModal({
             </p>
           </div>
 
+          {/* Tags */}
+          {tags.length > 0 && (
+            <div className="space-y-2">
+              <Label className="text-label">Tag conversation</Label>
+              <div className="flex flex-wrap gap-1.5">
+                {tags.map((tag) => {
+                  const selected = tagIds.includes(tag._id);
+                  return (
+                    <button
+                      key={tag._id}
+                      type="button"
+                      onClick={() =>
+                        setTagIds((current) =>
+                          selected ? current.filter((id) => id !== tag._id) : [...current, tag._id]
+                        )
+                      }
+                    >
+                      <TagChip
+                        name={tag.name}
+                        color={tag.color}
+                        className={cn(!selected && "opacity-40")}
+                      />
+                    </button>
+                  );
+                })}
+              </div>
+              <p className="text-muted-foreground">
+                Selected tags are added to the conversation when an agent uses this template
+              </p>
+            </div>
+          )}
+
           {/* Detected Variables */}
           {detectedVariables.length > 0 && (
             <div className="space-y-2">
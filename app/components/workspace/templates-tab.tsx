@@ -10,6 +10,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
 import { Plus, Search, Edit, Trash2, MessageSquare, ChevronDown, Hand, CheckCircle, Sparkles, MessagesSquare } from "lucide-react";
 import { TemplateModal } from "./template-modal";
+import { TagChip } from "@/app/components/support/tag-chip";
 import { toast } from "sonner";
 import {
   AlertDialog,
@@ -37,6 +38,7 @@ interface Template {
   title: string;
   content: string;
   category: TemplateCategory;
+  tagIds?: Id<"tags">[];
   createdAt: number;
   updatedAt: number;
 }
@@ -64,6 +66,8 @@ export function TemplatesTab({ companyId }: TemplatesTabProps) {
   const templates = useQuery(api.templates.queries.listTemplatesByCompany, {
     companyId,
   });
+  const tags = useQuery(api.tags.queries.listTags, { companyId });
+  const tagMap = new Map((tags ?? []).map((tag) => [tag._id, tag]));
 
   // Add loading check
   const isLoading = templates === undefined;
@@ -93,6 +97,7 @@ export function TemplatesTab({ companyId }: TemplatesTabProps) {
     title: string;
     content: string;
     category: TemplateCategory;
+    tagIds: Id<"tags">[];
   }) => {
     if (!userData?.user?._id) return;
 
@@ -103,6 +108,7 @@ export function TemplatesTab({ companyId }: TemplatesTabProps) {
         title: data.title,
         content: data.content,
         category: data.category,
+        tagIds: data.tagIds,
       });
       toast.success("Template created");
     } catch (error) {
@@ -115,6 +121,7 @@ export function TemplatesTab({ companyId }: TemplatesTabProps) {
     title: string;
     content: string;
     category: TemplateCategory;
+    tagIds: Id<"tags">[];
   }) => {
     if (!editingTemplate) return;
 
@@ -124,6 +131,7 @@ export function TemplatesTab({ companyId }: TemplatesTabProps) {
         title: data.title,
         content: data.content,
         category: data.category,
+        tagIds: data.tagIds,
       });
       toast.success("Template updated");
     } catch (error) {
@@ -267,6 +275,16 @@ export function TemplatesTab({ companyId }: TemplatesTabProps) {
                             <p className="text-sm text-muted-foreground line-clamp-2 mt-1">
                               {template.content}
                             </p>
+                            {template.tagIds?.length > 0 && (
+                              <div className="flex flex-wrap gap-1.5 mt-3">
+                                {template.tagIds.map((tagId: Id<"tags">) => {
+                                  const tag = tagMap.get(tagId);
+                                  return tag ? (
+                                    <TagChip key={tagId} name={tag.name} color={tag.color} />
+                                  ) : null;
+                                })}
+                              </div>
+                            )}
                             {variables.length > 0 && (
                               <div className="flex flex-wrap gap-1.5 mt-3">
                                 {variables.map((variable, idx) => (
@@ -315,6 +333,7 @@ export function TemplatesTab({ companyId }: TemplatesTabProps) {
         onClose={closeModal}
         onSave={editingTemplate ? handleUpdate : handleCreate}
         template={editingTemplate}
+        tags={tags ?? []}
       />
 
       {/* Delete Confirmation Dialog */}
@@ -10,8 +10,11 @@ import type { Id } from "@/convex/_generated/dataModel";
 import { TemplatesTab } from "./templates-tab";
 import { TeamTab } from "./team-tab";
 import { DepartmentsTab } from "./departments-tab";
+import { SlaTab } from "./sla-tab";
+import { TagsTab } from "./tags-tab";
+import { AssignmentTab } from "./assignment-tab";
 
-type TabId = "templates" | "team" | "departments";
+type TabId = "templates" | "team" | "departments" | "sla" | "tags" | "assignment";
 
 export function WorkspaceView() {
   const { userData } = useUser();
@@ -21,7 +24,17 @@ export function WorkspaceView() {
   // Read tab from URL query params
   const tabParam = searchParams.get("tab");
   const [activeTab, setActiveTab] = useState<TabId>(
-    tabParam === "team" ? "team" : tabParam === "departments" ? "departments" : "templates"
+    tabParam === "team"
+      ? "team"
+      : tabParam === "departments"
+        ? "departments"
+        : tabParam === "sla"
+          ? "sla"
+          : tabParam === "tags"
+            ? "tags"
+            : tabParam === "assignment"
+              ? "assignment"
+              : "templates"
   );
 
   // Update tab when URL changes
@@ -29,6 +42,9 @@ export function WorkspaceView() {
     const tab = searchParams.get("tab");
     if (tab === "team") setActiveTab("team");
     else if (tab === "departments") setActiveTab("departments");
+    else if (tab === "sla") setActiveTab("sla");
+    else if (tab === "tags") setActiveTab("tags");
+    else if (tab === "assignment") setActiveTab("assignment");
     else setActiveTab("templates");
   }, [searchParams]);
 
@@ -63,6 +79,24 @@ export function WorkspaceView() {
         description: "Set up departments so the bot routes customers to the right team",
       };
     }
+    if (activeTab === "sla") {
+      return {
+        title: "SLA Policies",
+        description: "Set response and resolution targets for conversations handed to your team",
+      };
+    }
+    if (activeTab === "tags") {
+      return {
+        title: "Tags",
+        description: "Label conversations by topic so your team can filter and report on them",
+      };
+    }
+    if (activeTab === "assignment") {
+      return {
+        title: "Assignment",
+        description: "Choose how handed-off conversations are assigned to your agents",
+      };
+    }
     return {
       title: "Templates",
       description: "Create quick reply templates to speed up your support responses",
@@ -117,6 +151,12 @@ export function WorkspaceView() {
           />
         ) : activeTab === "departments" ? (
           <DepartmentsTab />
+        ) : activeTab === "sla" ? (
+          <SlaTab />
+        ) : activeTab === "tags" ? (
+          <TagsTab />
+        ) : activeTab === "assignment" ? (
+          <AssignmentTab />
         ) : (
           <TeamTab />
         )}
@@ -20,6 +20,7 @@ const PERSONALITIES = [
 const DEFAULT_TRIGGERS = [
   "customer_requests_human",
   "billing_questions",
+  "low_confidence",
 ];
 
 export default function SetupPage() {
@@ -47,6 +48,7 @@ export default function SetupPage() {
         aiResponseLength: "medium",
         aiSystemPrompt: "",
         aiHandoffTriggers: DEFAULT_TRIGGERS,
+        completedBy: userData?.user?._id as Id<"users"> | undefined,
       });
       router.push(`/experiences/${experienceId}`);
     } catch (e) {
@@ -0,0 +1,16 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Current time in ms, refreshed every `intervalMs`.
+ * For countdowns that need to re-render without new data.
+ */
+export function useNow(intervalMs = 30_000) {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
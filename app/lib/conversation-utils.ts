@@ -12,7 +12,14 @@ import type { Message } from "@/app/components/support/message-bubble";
 type BackendConversation = {
   _id: Id<"conversations">;
   customerId: Id<"users">;
-  status: "ai_handling" | "awaiting_department" | "available" | "support_staff_handling" | "resolved";
+  status:
+    | "ai_handling"
+    | "awaiting_department"
+    | "available"
+    | "support_staff_handling"
+    | "pending_customer"
+    | "snoozed"
+    | "resolved";
   messageCount: number;
   lastMessageAt: number;
   firstMessageAt: number;
@@ -21,6 +28,19 @@ type BackendConversation = {
   updatedAt: number;
   handoffTriggeredAt?: number;
   handoffReason?: string;
+  summary?: string;
+  lastSummaryAt?: number;
+  pendingApprovalCount?: number;
+  injectionFlag?: { score: number; signals: string[]; flaggedAt: number };
+  groundingFlag?: { flaggedAt: number };
+  priceFlag?: { flaggedAt: number };
+  priority?: ConversationPriority;
+  sla?: { breaches: SlaMetric[] };
+  slaDue?: { metric: SlaMetric; dueAt: number } | null;
+  tags?: ConversationTag[];
+  assignedAgent?: { id: Id<"users">; name: string } | null;
+  pendingAssignment?: { agentId: Id<"users">; reason: string; expiresAt: number };
+  wakeAt?: number;
   customer: {
     _id: Id<"users">;
     displayName: string;
@@ -51,8 +71,29 @@ type BackendConversation = {
 };
 
 // Frontend conversation type (for components)
-export type ConversationStatus = "ai" | "awaiting_department" | "available" | "support" | "resolved";
+export type ConversationStatus =
+  | "ai"
+  | "awaiting_department"
+  | "available"
+  | "support"
+  | "pending_customer"
+  | "snoozed"
+  | "resolved";
 export type DeliveryStatus = "sent" | "delivered" | "seen";
+export type ConversationPriority = "low" | "normal" | "high" | "urgent";
+export type SlaMetric = "first_response" | "next_response" | "resolution";
+
+export interface ConversationTag {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface PendingAssignment {
+  agentId: string;
+  reason: string;
+  expiresAt: number;
+}
 
 export interface Agent {
   id: string;
@@ -78,6 +119,19 @@ export interface Conversation {
   participatingAgents: Agent[];
   handoffReason?: string;
   departmentName?: string;
+  pendingApprovalCount?: number; // AI replies waiting for an agent to approve
+  injectionFlag?: { score: number; signals: string[]; flaggedAt: number };
+  groundingFlag?: { flaggedAt: number };
+  priceFlag?: { flaggedAt: number };
+  priority?: ConversationPriority;
+  slaDue?: { metric: SlaMetric; dueAt: number };
+  slaBreached?: boolean;
+  tags?: ConversationTag[];
+  assignedAgent?: { id: string; name: string };
+  pendingAssignment?: PendingAssignment;
+  wakeAt?: number;
+  summary?: string;
+  summaryUpdatedAt?: Date;
   createdAt: Date;
   messages?: Doc<"messages">[]; // Pre-fetched messages for instant display
 }
@@ -94,6 +148,8 @@ export function transformConversation(
     awaiting_department: "awaiting_department",
     available: "available",
     support_staff_handling: "support",
+    pending_customer: "pending_customer",
+    snoozed: "snoozed",
     resolved: "resolved",
   };
 
@@ -123,6 +179,30 @@ export function transformConversation(
       })),
     handoffReason: backendConv.handoffReason,
     departmentName: backendConv.departmentName || undefined,
+    pendingApprovalCount: backendConv.pendingApprovalCount || undefined,
+    injectionFlag: backendConv.injectionFlag,
+    groundingFlag: backendConv.groundingFlag,
+    priceFlag: backendConv.priceFlag,
+    priority: backendConv.priority,
+    slaDue: backendConv.slaDue || undefined,
+    slaBreached: (backendConv.sla?.breaches.length ?? 0) > 0,
+    tags: backendConv.tags?.length ? backendConv.tags : undefined,
+    assignedAgent: backendConv.assignedAgent || undefined,
+    pendingAssignment: backendConv.pendingAssignment
+      ? {
+          agentId: backendConv.pendingAssignment.agentId,
+          reason: backendConv.pendingAssignment.reason,
+          expiresAt: backendConv.pendingAssignment.expiresAt,
+        }
+      : undefined,
+    wakeAt:
+      backendConv.status === "pending_customer" || backendConv.status === "snoozed"
+        ? backendConv.wakeAt
+        : undefined,
+    summary: backendConv.summary,
+    summaryUpdatedAt: backendConv.lastSummaryAt
+      ? new Date(backendConv.lastSummaryAt)
+      : undefined,
     createdAt: new Date(backendConv.createdAt),
     messages: backendConv.messages, // Pass through pre-fetched messages
   };
@@ -197,6 +277,9 @@ export function getStatusBadgeClass(status: ConversationStatus): string {
       return "bg-orange/20 text-orange";
     case "support":
       return "bg-success/10 text-success";
+    case "pending_customer":
+    case "snoozed":
+      return "bg-blue-500/10 text-blue-600";
     default:
       return "bg-muted text-muted-foreground";
   }
@@ -10,12 +10,47 @@
 
 import type * as agentPhrases from "../agentPhrases.js";
 import type * as agentSettings from "../agentSettings.js";
+import type * as ai_approval from "../ai/approval.js";
 import type * as ai_assistants from "../ai/assistants.js";
 import type * as ai_buildSystemPrompt from "../ai/buildSystemPrompt.js";
 import type * as ai_chatCompletions from "../ai/chatCompletions.js";
-import type * as ai_debugVectorStore from "../ai/debugVectorStore.js";
+import type * as ai_citations from "../ai/citations.js";
+import type * as ai_configVersions from "../ai/configVersions.js";
+import type * as ai_copilot from "../ai/copilot.js";
+import type * as ai_departmentPersona from "../ai/departmentPersona.js";
+import type * as ai_evals from "../ai/evals.js";
+import type * as ai_experiments from "../ai/experiments.js";
+import type * as ai_failureLoop from "../ai/failureLoop.js";
 import type * as ai_generateResponse from "../ai/generateResponse.js";
+import type * as ai_handoff from "../ai/handoff.js";
+import type * as ai_injection from "../ai/injection.js";
+import type * as ai_knowledge from "../ai/knowledge.js";
+import type * as ai_priceGuard from "../ai/priceGuard.js";
+import type * as ai_pricing from "../ai/pricing.js";
+import type * as ai_productCatalog from "../ai/productCatalog.js";
+import type * as ai_providers_fake from "../ai/providers/fake.js";
+import type * as ai_providers_index from "../ai/providers/index.js";
+import type * as ai_providers_openai from "../ai/providers/openai.js";
+import type * as ai_providers_openaiCompatible from "../ai/providers/openaiCompatible.js";
+import type * as ai_providers_types from "../ai/providers/types.js";
+import type * as ai_redaction from "../ai/redaction.js";
+import type * as ai_replyChecks from "../ai/replyChecks.js";
+import type * as ai_retrieval from "../ai/retrieval.js";
+import type * as ai_rules from "../ai/rules.js";
+import type * as ai_summarization from "../ai/summarization.js";
+import type * as ai_summarize from "../ai/summarize.js";
+import type * as ai_supportPrompt from "../ai/supportPrompt.js";
 import type * as ai_testAI from "../ai/testAI.js";
+import type * as ai_topicPolicy from "../ai/topicPolicy.js";
+import type * as ai_vision from "../ai/vision.js";
+import type * as aiConfigVersions_mutations from "../aiConfigVersions/mutations.js";
+import type * as aiConfigVersions_queries from "../aiConfigVersions/queries.js";
+import type * as aiRules_actions from "../aiRules/actions.js";
+import type * as aiRules_mutations from "../aiRules/mutations.js";
+import type * as aiRules_queries from "../aiRules/queries.js";
+import type * as assignment_mutations from "../assignment/mutations.js";
+import type * as assignment_queries from "../assignment/queries.js";
+import type * as assignment_strategy from "../assignment/strategy.js";
 import type * as auth_verifyUsername from "../auth/verifyUsername.js";
 import type * as auth_whop from "../auth/whop.js";
 import type * as billing_actions from "../billing/actions.js";
@@ -27,15 +62,34 @@ import type * as companies_queries from "../companies/queries.js";
 import type * as conversations_autoResolve from "../conversations/autoResolve.js";
 import type * as conversations_export from "../conversations/export.js";
 import type * as conversations_mutations from "../conversations/mutations.js";
+import type * as conversations_parking from "../conversations/parking.js";
 import type * as conversations_queries from "../conversations/queries.js";
+import type * as copilot_actions from "../copilot/actions.js";
+import type * as copilot_mutations from "../copilot/mutations.js";
+import type * as copilot_queries from "../copilot/queries.js";
 import type * as crons from "../crons.js";
 import type * as departments_mutations from "../departments/mutations.js";
 import type * as departments_queries from "../departments/queries.js";
+import type * as evals_actions from "../evals/actions.js";
+import type * as evals_mutations from "../evals/mutations.js";
+import type * as evals_queries from "../evals/queries.js";
+import type * as experiments_mutations from "../experiments/mutations.js";
+import type * as experiments_queries from "../experiments/queries.js";
+import type * as files_actions from "../files/actions.js";
+import type * as files_mutations from "../files/mutations.js";
+import type * as files_queries from "../files/queries.js";
+import type * as injectionDetections_mutations from "../injectionDetections/mutations.js";
+import type * as injectionDetections_queries from "../injectionDetections/queries.js";
 import type * as internalNotes from "../internalNotes.js";
 import type * as lib_whop from "../lib/whop.js";
 import type * as messages_mutations from "../messages/mutations.js";
 import type * as messages_queries from "../messages/queries.js";
 import type * as migrations_addHasDepartments from "../migrations/addHasDepartments.js";
+import type * as migrations_addLowConfidenceTrigger from "../migrations/addLowConfidenceTrigger.js";
+import type * as migrations_migrateConversationTags from "../migrations/migrateConversationTags.js";
+import type * as migrations_migrateIfThenRules from "../migrations/migrateIfThenRules.js";
+import type * as modelPricing_mutations from "../modelPricing/mutations.js";
+import type * as modelPricing_queries from "../modelPricing/queries.js";
 import type * as notifications_whop from "../notifications/whop.js";
 import type * as onboarding_actions from "../onboarding/actions.js";
 import type * as plans_migrations from "../plans/migrations.js";
@@ -43,6 +97,8 @@ import type * as plans_queries from "../plans/queries.js";
 import type * as plans_updateModels from "../plans/updateModels.js";
 import type * as presence_mutations from "../presence/mutations.js";
 import type * as presence_queries from "../presence/queries.js";
+import type * as priceIncidents_mutations from "../priceIncidents/mutations.js";
+import type * as priceIncidents_queries from "../priceIncidents/queries.js";
 import type * as products_actions from "../products/actions.js";
 import type * as products_mutations from "../products/mutations.js";
 import type * as products_queries from "../products/queries.js";
@@ -50,6 +106,12 @@ import type * as rateLimiter from "../rateLimiter.js";
 import type * as seed from "../seed.js";
 import type * as seedchatdata from "../seedchatdata.js";
 import type * as simulate from "../simulate.js";
+import type * as sla_mutations from "../sla/mutations.js";
+import type * as sla_policy from "../sla/policy.js";
+import type * as sla_queries from "../sla/queries.js";
+import type * as tags_mutations from "../tags/mutations.js";
+import type * as tags_names from "../tags/names.js";
+import type * as tags_queries from "../tags/queries.js";
 import type * as templates_mutations from "../templates/mutations.js";
 import type * as templates_queries from "../templates/queries.js";
 import type * as templates_utils from "../templates/utils.js";
@@ -88,12 +150,47 @@ import type {
 declare const fullApi: ApiFromModules<{
   agentPhrases: typeof agentPhrases;
   agentSettings: typeof agentSettings;
+  "ai/approval": typeof ai_approval;
   "ai/assistants": typeof ai_assistants;
   "ai/buildSystemPrompt": typeof ai_buildSystemPrompt;
   "ai/chatCompletions": typeof ai_chatCompletions;
-  "ai/debugVectorStore": typeof ai_debugVectorStore;
+  "ai/citations": typeof ai_citations;
+  "ai/configVersions": typeof ai_configVersions;
+  "ai/copilot": typeof ai_copilot;
+  "ai/departmentPersona": typeof ai_departmentPersona;
+  "ai/evals": typeof ai_evals;
+  "ai/experiments": typeof ai_experiments;
+  "ai/failureLoop": typeof ai_failureLoop;
   "ai/generateResponse": typeof ai_generateResponse;
+  "ai/handoff": typeof ai_handoff;
+  "ai/injection": typeof ai_injection;
+  "ai/knowledge": typeof ai_knowledge;
+  "ai/priceGuard": typeof ai_priceGuard;
+  "ai/pricing": typeof ai_pricing;
+  "ai/productCatalog": typeof ai_productCatalog;
+  "ai/providers/fake": typeof ai_providers_fake;
+  "ai/providers/index": typeof ai_providers_index;
+  "ai/providers/openai": typeof ai_providers_openai;
+  "ai/providers/openaiCompatible": typeof ai_providers_openaiCompatible;
+  "ai/providers/types": typeof ai_providers_types;
+  "ai/redaction": typeof ai_redaction;
+  "ai/replyChecks": typeof ai_replyChecks;
+  "ai/retrieval": typeof ai_retrieval;
+  "ai/rules": typeof ai_rules;
+  "ai/summarization": typeof ai_summarization;
+  "ai/summarize": typeof ai_summarize;
+  "ai/supportPrompt": typeof ai_supportPrompt;
   "ai/testAI": typeof ai_testAI;
+  "ai/topicPolicy": typeof ai_topicPolicy;
+  "ai/vision": typeof ai_vision;
+  "aiConfigVersions/mutations": typeof aiConfigVersions_mutations;
+  "aiConfigVersions/queries": typeof aiConfigVersions_queries;
+  "aiRules/actions": typeof aiRules_actions;
+  "aiRules/mutations": typeof aiRules_mutations;
+  "aiRules/queries": typeof aiRules_queries;
+  "assignment/mutations": typeof assignment_mutations;
+  "assignment/queries": typeof assignment_queries;
+  "assignment/strategy": typeof assignment_strategy;
   "auth/verifyUsername": typeof auth_verifyUsername;
   "auth/whop": typeof auth_whop;
   "billing/actions": typeof billing_actions;
@@ -105,15 +202,34 @@ declare const fullApi: ApiFromModules<{
   "conversations/autoResolve": typeof conversations_autoResolve;
   "conversations/export": typeof conversations_export;
   "conversations/mutations": typeof conversations_mutations;
+  "conversations/parking": typeof conversations_parking;
   "conversations/queries": typeof conversations_queries;
+  "copilot/actions": typeof copilot_actions;
+  "copilot/mutations": typeof copilot_mutations;
+  "copilot/queries": typeof copilot_queries;
   crons: typeof crons;
   "departments/mutations": typeof departments_mutations;
   "departments/queries": typeof departments_queries;
+  "evals/actions": typeof evals_actions;
+  "evals/mutations": typeof evals_mutations;
+  "evals/queries": typeof evals_queries;
+  "experiments/mutations": typeof experiments_mutations;
+  "experiments/queries": typeof experiments_queries;
+  "files/actions": typeof files_actions;
+  "files/mutations": typeof files_mutations;
+  "files/queries": typeof files_queries;
+  "injectionDetections/mutations": typeof injectionDetections_mutations;
+  "injectionDetections/queries": typeof injectionDetections_queries;
   internalNotes: typeof internalNotes;
   "lib/whop": typeof lib_whop;
   "messages/mutations": typeof messages_mutations;
   "messages/queries": typeof messages_queries;
   "migrations/addHasDepartments": typeof migrations_addHasDepartments;
+  "migrations/addLowConfidenceTrigger": typeof migrations_addLowConfidenceTrigger;
+  "migrations/migrateConversationTags": typeof migrations_migrateConversationTags;
+  "migrations/migrateIfThenRules": typeof migrations_migrateIfThenRules;
+  "modelPricing/mutations": typeof modelPricing_mutations;
+  "modelPricing/queries": typeof modelPricing_queries;
   "notifications/whop": typeof notifications_whop;
   "onboarding/actions": typeof onboarding_actions;
   "plans/migrations": typeof plans_migrations;
@@ -121,6 +237,8 @@ declare const fullApi: ApiFromModules<{
   "plans/updateModels": typeof plans_updateModels;
   "presence/mutations": typeof presence_mutations;
   "presence/queries": typeof presence_queries;
+  "priceIncidents/mutations": typeof priceIncidents_mutations;
+  "priceIncidents/queries": typeof priceIncidents_queries;
   "products/actions": typeof products_actions;
   "products/mutations": typeof products_mutations;
   "products/queries": typeof products_queries;
@@ -128,6 +246,12 @@ declare const fullApi: ApiFromModules<{
   seed: typeof seed;
   seedchatdata: typeof seedchatdata;
   simulate: typeof simulate;
+  "sla/mutations": typeof sla_mutations;
+  "sla/policy": typeof sla_policy;
+  "sla/queries": typeof sla_queries;
+  "tags/mutations": typeof tags_mutations;
+  "tags/names": typeof tags_names;
+  "tags/queries": typeof tags_queries;
   "templates/mutations": typeof templates_mutations;
   "templates/queries": typeof templates_queries;
   "templates/utils": typeof templates_utils;
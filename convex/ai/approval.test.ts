@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import {
+  classifyReview,
+  computeReadiness,
+  isVisibleToCustomer,
+  requiresApproval,
+} from "./approval";
+
+describe("requiresApproval", () => {
+  it("lets departments override the company setting", () => {
+    expect(requiresApproval(true, undefined)).toBe(true);
+    expect(requiresApproval(true, "inherit")).toBe(true);
+    expect(requiresApproval(true, "autonomous")).toBe(false);
+    expect(requiresApproval(false, "required")).toBe(true);
+    expect(requiresApproval(undefined, undefined)).toBe(false);
+  });
+});
+
+describe("isVisibleToCustomer", () => {
+  it("hides pending and rejected replies", () => {
+    expect(isVisibleToCustomer({})).toBe(true);
+    expect(isVisibleToCustomer({ approvalStatus: "edited" })).toBe(true);
+    expect(isVisibleToCustomer({ approvalStatus: "pending" })).toBe(false);
+    expect(isVisibleToCustomer({ approvalStatus: "rejected" })).toBe(false);
+  });
+});
+
+describe("classifyReview", () => {
+  it("ignores whitespace-only changes", () => {
+    expect(classifyReview("Hi!\nHow can I help?", "Hi! How can I help? ")).toBe("approved");
+    expect(classifyReview("Hi!", "Hello!")).toBe("edited");
+  });
+});
+
+describe("computeReadiness", () => {
+  it("needs enough reviews before it is ready", () => {
+    expect(computeReadiness({ approved: 10, edited: 0, rejected: 0 })).toEqual({
+      score: 100,
+      reviewed: 10,
+      reviewsNeeded: 40,
+      ready: false,
+    });
+  });
+
+  it("counts edits as half an approval", () => {
+    const readiness = computeReadiness({ approved: 40, edited: 10, rejected: 0 });
+    expect(readiness.score).toBe(90);
+    expect(readiness.ready).toBe(true);
+
+    expect(computeReadiness({ approved: 40, edited: 5, rejected: 5 }).ready).toBe(false);
+  });
+
+  it("scores zero without reviews", () => {
+    expect(computeReadiness({ approved: 0, edited: 0, rejected: 0 }).score).toBe(0);
+  });
+});
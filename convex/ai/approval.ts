@@ -0,0 +1,87 @@
+/**
+ * AI REPLY APPROVAL
+ *
+ * In approval mode ("shadow mode") AI replies are stored as pending messages
+ * that only agents can see. An agent approves, edits or rejects each one
+ * before it reaches the customer, and those reviews add up to a readiness
+ * score for switching the company to autonomous replies.
+ */
+
+export type ApprovalStatus = "pending" | "approved" | "edited" | "rejected";
+
+// Departments can override the company setting either way
+export type DepartmentApprovalMode = "inherit" | "required" | "autonomous";
+
+// Reviews needed before the readiness score is trusted
+export const MIN_REVIEWS_FOR_READINESS = 50;
+
+// Score at which we suggest switching to autonomous replies
+export const READINESS_THRESHOLD = 90;
+
+// Only the most recent reviews count - older ones predate config changes
+export const READINESS_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function requiresApproval(
+  companyRequired: boolean | undefined,
+  departmentMode: DepartmentApprovalMode | undefined
+): boolean {
+  if (departmentMode === "required") return true;
+  if (departmentMode === "autonomous") return false;
+  return companyRequired === true;
+}
+
+/**
+ * Pending and rejected AI replies never reach the customer, and the AI
+ * shouldn't treat them as part of the conversation either
+ */
+export function isVisibleToCustomer(message: {
+  approvalStatus?: ApprovalStatus;
+}): boolean {
+  return (
+    message.approvalStatus !== "pending" &&
+    message.approvalStatus !== "rejected"
+  );
+}
+
+/**
+ * Whether the agent approved the AI text as written or changed it first.
+ * Whitespace-only differences don't count as edits.
+ */
+export function classifyReview(
+  original: string,
+  final: string
+): "approved" | "edited" {
+  const normalize = (text: string) => text.replace(/\s+/g, " ").trim();
+  return normalize(original) === normalize(final) ? "approved" : "edited";
+}
+
+export type ReviewCounts = {
+  approved: number;
+  edited: number;
+  rejected: number;
+};
+
+export type Readiness = {
+  score: number; // 0-100
+  reviewed: number;
+  reviewsNeeded: number; // Reviews still missing before the score counts
+  ready: boolean;
+};
+
+export function computeReadiness(counts: ReviewCounts): Readiness {
+  const reviewed = counts.approved + counts.edited + counts.rejected;
+
+  // Edits count half: the AI was on the right track but not send-ready
+  const score =
+    reviewed > 0
+      ? Math.round(((counts.approved + counts.edited * 0.5) / reviewed) * 100)
+      : 0;
+  const reviewsNeeded = Math.max(0, MIN_REVIEWS_FOR_READINESS - reviewed);
+
+  return {
+    score,
+    reviewed,
+    reviewsNeeded,
+    ready: reviewsNeeded === 0 && score >= READINESS_THRESHOLD,
+  };
+}
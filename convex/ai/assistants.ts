@@ -3,19 +3,18 @@
 /**
  * OpenAI Assistants API Management
  *
- * Handles creation and updates of OpenAI Assistants and Vector Stores
- * per company. Called on company creation and when AI settings change.
+ * Handles creation and updates of OpenAI Assistants per company. Called on
+ * company creation and when AI settings change. Company knowledge is indexed
+ * separately in knowledge_chunks (see ./knowledge.ts).
  */
 
 import { action } from "../_generated/server";
 import { v } from "convex/values";
-import type { Id } from "../_generated/dataModel";
-import { api } from "../_generated/api";
-import OpenAI from "openai";
+import { api, internal } from "../_generated/api";
+import { getOpenAIClient } from "./providers";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Assistants API is OpenAI-specific, so these paths use the shared client directly
+const openai = getOpenAIClient();
 
 /**
  * Get personality template instructions
@@ -100,14 +99,6 @@ You MUST NEVER mention any of the following technical terms or concepts to custo
 - ANY reference to how you retrieve or search for information
 - ANY mention of technical processes, tools, or systems
 
-**If file_search returns no results or finds nothing:**
-- DO NOT mention that the search failed or found nothing
-- DO NOT say "I couldn't find information" or "no files uploaded"
-- DO NOT apologize for missing information
-- INSTEAD: Answer based ONLY on the company context and product information provided
-- If no company context exists, say the team hasn't added their details yet
-- Use phrases like: "I'd be happy to help with that!" or "Let me help you with that question."
-
 **Examples of FORBIDDEN responses:**
 ❌ "It seems there are no files uploaded or the search did not return any relevant information."
 ❌ "I couldn't find information in the uploaded files."
@@ -119,7 +110,7 @@ You MUST NEVER mention any of the following technical terms or concepts to custo
 ✅ "Let me help you with that. [provide helpful answer]"
 ✅ "I can help you with that question. [answer naturally]"
 
-**REMEMBER: Customers should NEVER know about file_search, files, or any technical processes. Always respond as if you naturally know the information.**
+**REMEMBER: Customers should NEVER know about files or any technical processes. Always respond as if you naturally know the information.**
 
 
 `;
@@ -139,44 +130,7 @@ You MUST NEVER mention any of the following technical terms or concepts to custo
 
   // 3. Company Context is already added at the beginning
 
-  // 4. Knowledge base usage - dual purpose: constraints AND information
-  if (companyContext.trim() !== "") {
-    instructions += `## Knowledge Base Usage
-
-You have access to the company's knowledge base via file_search. This is for YOUR internal use only - customers must NEVER know about it.
-
-**How to use file_search:**
-- Only use file_search when you need detailed information not in the company context above
-- For basic identity questions (who you work for), use the company context directly
-- The knowledge base serves two purposes:
-  1. BEHAVIORAL CONSTRAINTS: If you find rules or constraints (e.g., "don't talk about X", "always mention Y"), these are MANDATORY instructions you MUST follow. These are INTENTIONAL rules, NOT errors.
-  2. INFORMATION: If you find factual content about the company, products, or services, use it to enhance your answers
-
-**CRITICAL - When file_search returns results:**
-- Use the information naturally in your response
-- NEVER mention where the information came from
-- NEVER say "I found in the files" or "according to the knowledge base"
-- Just answer naturally as if you know this information
-
-**CRITICAL - When file_search returns NO results or finds nothing:**
-- DO NOT mention that the search found nothing
-- DO NOT say "I couldn't find information" or "no files uploaded"
-- DO NOT apologize for missing information
-- INSTEAD: Answer based on the company context provided above, or use general knowledge
-- Use a friendly opener like: "I'd be happy to help with that!" or "Let me help you with that question."
-- Then provide a helpful answer as if you naturally know the information
-
-**When you find a constraint (like "don't talk about pokemon"):**
-- Refuse that topic professionally: "I'm here to help with [Company] support. I can't assist with [restricted topic] based on our guidelines."
-- NEVER mention that you found this rule in files or a knowledge base
-
-**REMEMBER: file_search is invisible to customers. They should never know it exists.**
-
-
-`;
-  }
-
-  // 5. Critical Response Guidelines - Never show errors to users
+  // 4. Critical Response Guidelines - Never show errors to users
   instructions += `## Critical Response Guidelines
 
 **NEVER show error messages, technical errors, API failures, or system errors to users.**
@@ -185,171 +139,13 @@ You have access to the company's knowledge base via file_search. This is for YOU
 - Never mention technical details like "API error", "system failure", "exception", or error codes
 - Always maintain a helpful, professional tone even when experiencing issues
 
-**REMINDER: Never mention file_search, files, or any technical processes to customers. Always respond naturally.**
+**REMINDER: Never mention files or any technical processes to customers. Always respond naturally.**
 
 `;
 
   return instructions;
 }
 
-// Vector Stores API is on root client, not beta:
-// - openai.vectorStores.create()
-// - openai.vectorStores.files.create()
-// - openai.vectorStores.files.del()
-
-/**
- * Create or update Vector Store for company knowledge base
- */
-async function createOrUpdateVectorStore(company: {
-  _id: Id<"companies">;
-  openaiVectorStoreId?: string;
-  openaiContextFileId?: string;
-  companyContextProcessed: string;
-  name: string;
-}): Promise<{ vectorStoreId: string; fileId: string | null }> {
-  console.log(
-    "[createOrUpdateVectorStore] Starting for company:",
-    company.name
-  );
-  console.log(
-    "[createOrUpdateVectorStore] Context length:",
-    company.companyContextProcessed?.length || 0
-  );
-
-  // If no context, still create vector store (empty for now)
-  if (
-    !company.companyContextProcessed ||
-    company.companyContextProcessed.trim() === ""
-  ) {
-    // Create empty vector store if doesn't exist
-    if (!company.openaiVectorStoreId) {
-      const vectorStore = await openai.vectorStores.create({
-        name: `${company.name} Knowledge Base`,
-      });
-      console.log(
-        "[createOrUpdateVectorStore] Created empty vector store:",
-        vectorStore.id
-      );
-      return { vectorStoreId: vectorStore.id, fileId: null };
-    }
-    return {
-      vectorStoreId: company.openaiVectorStoreId,
-      fileId: company.openaiContextFileId || null,
-    };
-  }
-
-  let vectorStoreId: string = company.openaiVectorStoreId!;
-
-  // Create vector store if it doesn't exist
-  if (!company.openaiVectorStoreId) {
-    const vectorStore = await openai.vectorStores.create({
-      name: `${company.name} Knowledge Base`,
-    });
-    console.log(
-      "[createOrUpdateVectorStore] Created vector store:",
-      vectorStore.id
-    );
-    vectorStoreId = vectorStore.id;
-  }
-
-  // Delete old file if it exists
-  if (company.openaiContextFileId) {
-    try {
-      await openai.vectorStores.files.del(
-        vectorStoreId,
-        company.openaiContextFileId
-      );
-      console.log(
-        "[createOrUpdateVectorStore] Deleted old file:",
-        company.openaiContextFileId
-      );
-    } catch (error) {
-      console.warn(
-        "[createOrUpdateVectorStore] Failed to delete old context file:",
-        error
-      );
-    }
-  }
-
-  // Upload new context file
-  // OpenAI SDK accepts File, Blob, or ReadableStream
-  // In Node.js runtime, we create a File-like object
-  const fileContent = company.companyContextProcessed;
-  const fileBuffer = Buffer.from(fileContent, "utf-8");
-
-  // Create File object (available in Node.js 18+)
-  const file = await openai.files.create({
-    file: new File([fileBuffer], "company-context.txt", {
-      type: "text/plain",
-    }),
-    purpose: "assistants",
-  });
-  console.log("[createOrUpdateVectorStore] Uploaded file to OpenAI:", file.id);
-
-  // Add file to vector store
-  if (!file.id) {
-    throw new Error("Failed to get file ID from OpenAI");
-  }
-
-  await openai.vectorStores.files.create(vectorStoreId, {
-    file_id: file.id,
-  });
-  console.log("[createOrUpdateVectorStore] Added file to vector store");
-
-  // Poll for file indexing status
-  console.log("[createOrUpdateVectorStore] Waiting for file to be indexed...");
-  let attempts = 0;
-  const maxAttempts = 30; // 30 seconds max
-
-  while (attempts < maxAttempts) {
-    try {
-      const vectorStoreFile = await openai.vectorStores.files.retrieve(
-        vectorStoreId,
-        file.id
-      );
-
-      console.log(
-        `[createOrUpdateVectorStore] File status: ${vectorStoreFile.status} (attempt ${attempts + 1}/${maxAttempts})`
-      );
-
-      if (vectorStoreFile.status === "completed") {
-        console.log("[createOrUpdateVectorStore] File indexed successfully!");
-        break;
-      }
-
-      if (vectorStoreFile.status === "failed") {
-        console.error("[createOrUpdateVectorStore] File indexing failed!");
-        throw new Error("File indexing failed");
-      }
-
-      // Status is "in_progress" or "pending" - wait and retry
-      await new Promise((resolve) => setTimeout(resolve, 1000));
-      attempts++;
-    } catch (err) {
-      // If we can't retrieve status yet (file might not be visible yet), wait
-      if (attempts < 5) {
-        console.log(
-          `[createOrUpdateVectorStore] File not yet visible in vector store, waiting... (attempt ${attempts + 1})`
-        );
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-        attempts++;
-      } else {
-        throw err;
-      }
-    }
-  }
-
-  if (attempts >= maxAttempts) {
-    console.warn(
-      "[createOrUpdateVectorStore] File indexing timed out - may not be ready immediately"
-    );
-  }
-
-  // We've already checked file.id exists above
-  const fileIdValue = file.id ?? null;
-  return { vectorStoreId, fileId: fileIdValue as string | null };
-}
-
 /**
  * Create or update OpenAI Assistant for a company
  *
@@ -380,14 +176,10 @@ export const createOrUpdateAssistant = action({
       id: company._id,
       name: company.name,
       hasAssistant: !!company.openaiAssistantId,
-      hasVectorStore: !!company.openaiVectorStoreId,
       contextLength: company.companyContextProcessed?.length || 0,
     });
 
-    // 1. Create/update Vector Store
-    const { vectorStoreId, fileId } = await createOrUpdateVectorStore(company);
-
-    // 2. Build instructions
+    // 1. Build instructions
     const instructions = buildInstructions({
       aiPersonality: company.aiPersonality,
       aiSystemPrompt: company.aiSystemPrompt,
@@ -395,7 +187,7 @@ export const createOrUpdateAssistant = action({
       companyContextOriginal: company.companyContextOriginal,
     });
 
-    // 3. Create or update assistant
+    // 2. Create or update assistant
     let assistantId: string;
     if (company.openaiAssistantId) {
       // Update existing assistant
@@ -406,7 +198,6 @@ export const createOrUpdateAssistant = action({
           model: company.selectedAiModel,
           instructions: instructions,
           tools: [
-            { type: "file_search" },
             {
               type: "function",
               function: {
@@ -427,11 +218,6 @@ export const createOrUpdateAssistant = action({
               },
             },
           ],
-          tool_resources: {
-            file_search: {
-              vector_store_ids: [vectorStoreId],
-            },
-          },
         }
       );
       assistantId = assistant.id;
@@ -442,7 +228,6 @@ export const createOrUpdateAssistant = action({
         model: company.selectedAiModel,
         instructions: instructions,
         tools: [
-          { type: "file_search" },
           {
             type: "function",
             function: {
@@ -463,43 +248,33 @@ export const createOrUpdateAssistant = action({
             },
           },
         ],
-        tool_resources: {
-          file_search: {
-            vector_store_ids: [vectorStoreId],
-          },
-        },
       });
       assistantId = assistant.id;
     }
 
     console.log("[createOrUpdateAssistant] Assistant configured:", {
       assistantId,
-      vectorStoreId,
-      fileId,
     });
 
-    // 4. Save IDs back to Convex
+    // 3. Save IDs back to Convex
     await ctx.runMutation(api.companies.mutations.updateOpenAIIds, {
       companyId,
       openaiAssistantId: assistantId,
-      openaiVectorStoreId: vectorStoreId,
-      openaiContextFileId: fileId ?? undefined,
     });
     console.log("[createOrUpdateAssistant] COMPLETED - IDs saved to DB");
 
     return {
       success: true,
       assistantId,
-      vectorStoreId,
-      fileId,
     };
   },
 });
 
 /**
- * Update company context in Vector Store
+ * Update company context
  *
- * Called when company updates their knowledge base.
+ * Called when company updates their knowledge base. Refreshes the assistant
+ * instructions and re-embeds the knowledge chunks used for retrieval.
  */
 export const updateCompanyContext = action({
   args: {
@@ -507,13 +282,15 @@ export const updateCompanyContext = action({
   },
   handler: async (ctx, { companyId }): Promise<{ success: boolean }> => {
     console.log("[updateCompanyContext] CALLED for company:", companyId);
-    console.log("[updateCompanyContext] Scheduling createOrUpdateAssistant...");
+    console.log("[updateCompanyContext] Scheduling createOrUpdateAssistant and reindex...");
 
-    // Delegate to createOrUpdateAssistant - it handles context updates
-    // We need to call it through the scheduler since actions can't directly call other actions
+    // We need to call these through the scheduler since actions can't directly call other actions
     await ctx.scheduler.runAfter(0, api.ai.assistants.createOrUpdateAssistant, {
       companyId,
     });
+    await ctx.scheduler.runAfter(0, internal.ai.knowledge.reindexCompanyKnowledge, {
+      companyId,
+    });
 
     console.log("[updateCompanyContext] Scheduled successfully");
     return { success: true };
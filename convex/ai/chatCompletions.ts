@@ -5,55 +5,39 @@
 
 import { v } from "convex/values";
 import { action } from "../_generated/server";
-import { api } from "../_generated/api";
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-type IfThenRule = {
-  condition: string;
-  response: string;
-};
-
-function extractIfThenRules(context: string): IfThenRule[] {
-  if (!context) return [];
-
-  const rules: IfThenRule[] = [];
-  const lines = context.split(/\r?\n/);
-  const rulePattern = /^\s*(?:[-*]\s*)?if\s+(.+?)\s*,?\s*then\s+(.+)\s*$/i;
-
-  for (const line of lines) {
-    const match = line.match(rulePattern);
-    if (!match) continue;
-
-    const condition = match[1].replace(/\s+/g, " ").trim();
-    const response = match[2].replace(/\s+/g, " ").trim();
-
-    if (condition.length < 3 || response.length === 0) continue;
-    rules.push({ condition, response });
-  }
-
-  return rules;
-}
-
-function findMatchingRule(rules: IfThenRule[], message: string): IfThenRule | null {
-  if (!message || rules.length === 0) return null;
-
-  const messageLower = message.toLowerCase();
-  const sorted = [...rules].sort(
-    (a, b) => b.condition.length - a.condition.length
-  );
-
-  for (const rule of sorted) {
-    if (messageLower.includes(rule.condition.toLowerCase())) {
-      return rule;
-    }
-  }
-
-  return null;
-}
+import { api, internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { pickModelSpec, resolveModel } from "./providers";
+import { RECENT_MESSAGE_WINDOW, formatSummaryForPrompt } from "./summarization";
+import { selectPromptKnowledge } from "./knowledge";
+import { buildChatMessages, buildSupportSystemMessage, getMaxTokens } from "./supportPrompt";
+import { matchCompanyRules } from "../aiRules/actions";
+import { analyzeMessageAttachment } from "../files/actions";
+import { formatImageAnalysisForPrompt, isAnalyzableImage } from "./vision";
+import { buildDepartmentInstructions, selectPersonaProducts } from "./departmentPersona";
+import { clampFailedAttemptsThreshold, detectFailureLoop } from "./failureLoop";
+import { buildSourceLegend, parseSourceRefs, resolveCitedSources } from "./citations";
+import { formatCatalogPrice } from "./priceGuard";
+import { DEFAULT_PII_REDACTION, createRedactor } from "./redaction";
+import {
+  SUSPICIOUS_THRESHOLD,
+  getQuarantineReply,
+  scoreInjection,
+  shouldQuarantine,
+  withoutQuarantined,
+} from "./injection";
+import {
+  FALLBACK_REPLY,
+  HANDOFF_DECISION_SCHEMA,
+  buildHandoffInstructions,
+  extractStreamingAnswer,
+  isStreamingHandoff,
+  parseHandoffDecision,
+} from "./handoff";
+import { DEFAULT_TOPIC_POLICY } from "./topicPolicy";
+import type { TopicPolicy } from "./topicPolicy";
+import { checkReply } from "./replyChecks";
+import { getRuleOutcome } from "./rules";
 
 /**
  * Generate AI response using Chat Completions API
@@ -72,6 +56,7 @@ export const generateChatResponse = action({
     // Store these outside try block so they're available in catch
     let aiMessageCreated = false;
     let conversation: any = null;
+    let streamMessageId: Id<"messages"> | null = null;
 
     try {
       // AUTHORIZATION: Verify the triggering message exists and is valid
@@ -185,6 +170,7 @@ export const generateChatResponse = action({
           await ctx.runMutation(api.conversations.mutations.triggerHandoff, {
             conversationId,
             reason: "AI usage limit reached for this company",
+            reasonCategory: "usage_limit",
           });
         } catch (handoffError) {
           console.warn("Failed to trigger handoff:", handoffError);
@@ -207,14 +193,29 @@ export const generateChatResponse = action({
       console.log("✅ Usage limit check passed. Usage:", usageCheck.currentUsage, "/", usageCheck.limit);
 
       console.log("\n📊 STEP 2: Fetching company data...");
-      const company = await ctx.runQuery(api.companies.queries.getCompanyById, {
+      const liveCompany = await ctx.runQuery(api.companies.queries.getCompanyById, {
         companyId: conversation.companyId,
       });
 
-      if (!company) {
+      if (!liveCompany) {
         console.error("❌ ERROR: Company not found for ID:", conversation.companyId);
         throw new Error("Company not found");
       }
+
+      // Conversations in a running A/B experiment use their variant's settings
+      const experimentVariant = await ctx.runQuery(
+        internal.experiments.queries.getConversationVariantConfig,
+        { conversationId }
+      );
+      const company = experimentVariant
+        ? { ...liveCompany, ...experimentVariant.snapshot }
+        : liveCompany;
+      if (experimentVariant) {
+        console.log("🧪 Experiment variant:", {
+          variant: experimentVariant.variant,
+          configVersion: experimentVariant.version,
+        });
+      }
       console.log("✅ Company found:", {
         id: company._id,
         name: company.name,
@@ -222,12 +223,89 @@ export const generateChatResponse = action({
         hasContext: !!company.companyContextOriginal
       });
 
-      // 2. Get conversation history (last 20 messages for context)
-      console.log("\n📊 STEP 3: Fetching conversation history...");
-      const messages = await ctx.runQuery(api.messages.queries.getMessages, {
-        conversationId,
-        limit: 20,
+      // Score the message for prompt injection before anything sees it.
+      // Quarantined messages never reach the model or the automation rules.
+      const injection = scoreInjection(triggeringMessage.content);
+      if (injection.score >= SUSPICIOUS_THRESHOLD) {
+        const quarantined = shouldQuarantine(injection);
+        console.warn("🛡️ Possible prompt injection:", { ...injection, quarantined });
+        await ctx.runMutation(internal.injectionDetections.mutations.recordDetection, {
+          conversationId,
+          messageId,
+          score: injection.score,
+          signals: injection.signals,
+          quarantined,
+        });
+
+        if (quarantined) {
+          const quarantineReply = getQuarantineReply(company.name);
+          const quarantineMessageId = await ctx.runMutation(
+            api.messages.mutations.createMessage,
+            {
+              conversationId,
+              content: quarantineReply,
+              role: "ai",
+              aiModel: "injection_guard",
+              tokensUsed: 0,
+              processingTime: 0,
+            }
+          );
+          aiMessageCreated = true;
+
+          try {
+            await ctx.runMutation(api.conversations.mutations.setAiProcessing, {
+              conversationId,
+              isProcessing: false,
+            });
+          } catch (flagError) {
+            console.warn("Failed to clear processing flag:", flagError);
+          }
+
+          return {
+            success: true,
+            response: quarantineReply,
+            messageId: quarantineMessageId,
+            shouldHandoff: false,
+            handoffReason: "",
+            quarantined: true,
+            usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          };
+        }
+      }
+
+      // Resolve the company's model (constrained by its plan) to a provider
+      const plan = await ctx.runQuery(api.plans.queries.getPlanById, {
+        planId: company.planId,
       });
+      const modelSpec = pickModelSpec(company.selectedAiModel, plan?.aiModels);
+      const { provider, model: modelToUse } = resolveModel(modelSpec);
+
+      // Customer PII is swapped for placeholders before anything reaches the provider
+      const redactor = createRedactor(liveCompany.piiRedaction ?? DEFAULT_PII_REDACTION);
+
+      // Read an attached screenshot before answering so the AI can see it
+      if (triggeringMessage.attachmentUrl && isAnalyzableImage(triggeringMessage.attachmentType)) {
+        await analyzeMessageAttachment(ctx, messageId, triggeringMessage.attachmentUrl);
+      }
+      const imageAnalyses = await ctx.runQuery(
+        internal.files.queries.getConversationImageAnalyses,
+        { conversationId }
+      );
+      const attachmentNotes = Object.fromEntries(
+        imageAnalyses.map((image) => [
+          image.fileUrl,
+          formatImageAnalysisForPrompt(image.fileName, image),
+        ])
+      );
+
+      // 2. Get conversation history (recent window; older messages come from the rolling summary)
+      console.log("\n📊 STEP 3: Fetching conversation history...");
+      const messages = withoutQuarantined(
+        await ctx.runQuery(api.messages.queries.getMessages, {
+          conversationId,
+          limit: RECENT_MESSAGE_WINDOW,
+        })
+      );
       console.log("💬 Messages fetched:", messages.length);
       console.log("💬 CRITICAL - Message order check:");
       console.log("  First message:", messages[0] ? {
@@ -243,10 +321,64 @@ export const generateChatResponse = action({
 
       // 3. Get canonical product catalog for AI context
       console.log("\n📊 STEP 3.5: Fetching company products...");
-      const products = await ctx.runQuery(api.products.queries.getVisibleProductCatalogForAI, {
+      const catalog = await ctx.runQuery(api.products.queries.getVisibleProductCatalogForAI, {
         companyId: conversation.companyId,
       });
-      console.log("🛍️ Products fetched:", products.length);
+      console.log("🛍️ Products fetched:", catalog.length);
+
+      // A department with its own persona narrows the knowledge and adds its
+      // instructions and handoff rules once the conversation is routed there
+      const department = conversation.departmentId
+        ? await ctx.runQuery(api.departments.queries.getDepartment, {
+            departmentId: conversation.departmentId,
+          })
+        : null;
+      const persona = department?.aiPersona?.enabled ? department.aiPersona : undefined;
+      const products = selectPersonaProducts(catalog, persona?.productIds);
+      const handoffTriggers = persona?.handoffTriggers ?? (company.aiHandoffTriggers || []);
+      if (persona) {
+        console.log("🎭 Department persona:", {
+          department: department!.name,
+          personality: persona.personality,
+          products: products.length,
+          topics: persona.knowledgeTopics?.length || 0,
+        });
+      }
+
+      // Hand off instead of answering again when the AI keeps failing
+      // (rephrased questions, thumbs down, "that didn't help")
+      if (handoffTriggers.includes("multiple_failed_attempts")) {
+        const loop = detectFailureLoop(
+          messages,
+          clampFailedAttemptsThreshold(company.aiFailedAttemptsThreshold)
+        );
+        if (loop) {
+          console.log("🔁 AI failure loop detected:", loop);
+          await ctx.runMutation(api.conversations.mutations.triggerHandoff, {
+            conversationId,
+            reason: loop.reason,
+            reasonCategory: "repeated_failures",
+          });
+          aiMessageCreated = true;
+
+          try {
+            await ctx.runMutation(api.conversations.mutations.setAiProcessing, {
+              conversationId,
+              isProcessing: false,
+            });
+          } catch (flagError) {
+            console.warn("Failed to clear processing flag:", flagError);
+          }
+
+          return {
+            success: true,
+            response: "",
+            shouldHandoff: true,
+            handoffReason: loop.reason,
+            usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          };
+        }
+      }
 
       // 4. Build the system message with company context
       console.log("\n📊 STEP 4: Building system message...");
@@ -271,257 +403,141 @@ export const generateChatResponse = action({
         });
       }
 
-      // Short-circuit: Apply IF/THEN rules from company context before calling OpenAI
-      const ifThenRules = extractIfThenRules(companyContext);
-      const matchedRule = findMatchingRule(
-        ifThenRules,
-        triggeringMessage.content
+      // Short-circuit: Apply automation rules before calling the LLM.
+      // IF/THEN lines written into the context are imported once, on first use.
+      if (!company.aiRulesMigratedAt) {
+        await ctx.runMutation(internal.aiRules.mutations.migrateCompanyIfThenRules, {
+          companyId: company._id,
+        });
+      }
+      const ruleMatch = await matchCompanyRules(
+        ctx,
+        company._id,
+        triggeringMessage.content,
+        redactor.redact
       );
 
-      if (matchedRule) {
-        console.log("✅ IF/THEN rule matched:", matchedRule.condition);
-
-        const ruleMessageId = await ctx.runMutation(
-          api.messages.mutations.createMessage,
-          {
-            conversationId,
-            content: matchedRule.response,
-            role: "ai",
-            aiModel: "if_then_rules",
-            tokensUsed: 0,
-            processingTime: 0,
-          }
-        );
+      if (ruleMatch) {
+        const { rule } = ruleMatch;
+        console.log("✅ Automation rule matched:", {
+          name: rule.name,
+          matchType: rule.matchType,
+          score: ruleMatch.score,
+        });
 
-        aiMessageCreated = true;
+        await ctx.runMutation(internal.aiRules.mutations.recordRuleHit, {
+          ruleId: rule._id,
+        });
 
-        // Clear AI processing flag
-        try {
-          await ctx.runMutation(api.conversations.mutations.setAiProcessing, {
+        if (rule.actions.tag) {
+          await ctx.runMutation(internal.aiRules.mutations.tagConversation, {
             conversationId,
-            isProcessing: false,
+            tag: rule.actions.tag,
           });
-        } catch (flagError) {
-          console.warn("Failed to clear processing flag:", flagError);
         }
 
-        return {
-          success: true,
-          response: matchedRule.response,
-          messageId: ruleMessageId,
-          shouldHandoff: false,
-          handoffReason: "",
-          ruleMatched: matchedRule.condition,
-          usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-        };
-      }
+        const outcome = getRuleOutcome(rule.actions);
+        const ruleHandsOff = outcome?.handoff === true;
+        let ruleMessageId: Id<"messages"> | undefined;
 
-      // Build products context with pricing from plans
-      let productsContext = "";
-      if (products.length > 0) {
-        console.log("✅ Building products context:", {
-          count: products.length,
-          productTitles: products.slice(0, 3).map((p: any) => p.title)
-        });
-
-        // Whop API returns prices in DOLLARS. Stored as rounded dollars.
-        const formatPrice = (priceInDollars: number | undefined, currency: string) => {
-          if (priceInDollars === undefined || priceInDollars === null) return null;
-          if (priceInDollars === 0) return "Free";
-          const price = priceInDollars.toFixed(2);
-          return `${currency.toUpperCase()} $${price}`;
-        };
+        if (outcome?.reply) {
+          ruleMessageId = await ctx.runMutation(
+            api.messages.mutations.createMessage,
+            {
+              conversationId,
+              content: outcome.reply,
+              role: "ai",
+              aiModel: "ai_rule",
+              aiRuleId: rule._id,
+              tokensUsed: 0,
+              processingTime: 0,
+            }
+          );
+        }
 
-        const getEffectivePlanPrice = (plan: any) => {
-          if (plan.planType === "renewal") {
-            return plan.renewalPrice ?? plan.initialPrice;
-          }
-          return plan.initialPrice ?? plan.renewalPrice;
-        };
+        if (ruleHandsOff) {
+          await ctx.runMutation(api.conversations.mutations.triggerHandoff, {
+            conversationId,
+            reason: `Matched automation rule "${rule.name}"`,
+            reasonCategory: "automation_rule",
+            departmentId: rule.actions.departmentId,
+          });
+        }
 
-        // Helper function to format billing period (days to readable)
-        const formatBillingPeriod = (days: number | undefined) => {
-          if (!days) return "";
-          if (days === 30 || days === 31) return "/month";
-          if (days === 365 || days === 366) return "/year";
-          if (days === 7) return "/week";
-          if (days === 1) return "/day";
-          return `/${days} days`;
-        };
+        // Tag-only rules fall through to a normal AI reply
+        if (outcome) {
+          aiMessageCreated = true;
 
-        productsContext = `\n\nCOMPANY PRODUCTS & SERVICES:
-${products.map((product: any) => {
-  let productInfo = `• ${product.title}`;
-  if (product.headline) {
-    productInfo += ` — "${product.headline}"`;
-  }
-
-  const productPlans = product.pricingOptions || [];
-
-  // Add pricing from plans
-  if (productPlans.length > 0) {
-    productInfo += `\n  Pricing Options:`;
-    for (const plan of productPlans) {
-      const price = formatPrice(getEffectivePlanPrice(plan), plan.currency);
-      // Always show the plan, even if FREE
-      if (price === "Free") {
-        productInfo += `\n    - ${plan.title}: Free`;
-      } else if (price) {
-        if (plan.planType === "one_time") {
-          productInfo += `\n    - ${plan.title}: ${price} (one-time purchase)`;
-        } else {
-          const period = formatBillingPeriod(plan.billingPeriod);
-          productInfo += `\n    - ${plan.title}: ${price}${period}`;
-          if (plan.trialPeriodDays) {
-            productInfo += ` (${plan.trialPeriodDays}-day free trial)`;
+          // Clear AI processing flag
+          try {
+            await ctx.runMutation(api.conversations.mutations.setAiProcessing, {
+              conversationId,
+              isProcessing: false,
+            });
+          } catch (flagError) {
+            console.warn("Failed to clear processing flag:", flagError);
           }
+
+          return {
+            success: true,
+            response: outcome.reply,
+            messageId: ruleMessageId,
+            shouldHandoff: ruleHandsOff,
+            handoffReason: ruleHandsOff ? `Matched automation rule "${rule.name}"` : "",
+            ruleMatched: rule.name,
+            usage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+          };
         }
       }
-    }
-  } else if (product.price && product.currency) {
-    // Fallback to product price if no plans (legacy)
-    // Note: Whop API returns prices in DOLLARS, not cents
-    const price = product.price.toFixed(2);
-    productInfo += ` - ${product.currency} $${price}`;
-
-    if (product.accessType === "subscription" && product.billingPeriod) {
-      productInfo += ` per ${product.billingPeriod.replace('ly', '')}`;
-    } else if (product.accessType === "lifetime") {
-      productInfo += ` (lifetime access)`;
-    }
-  }
-
-  // Include more of the description (increased from 200 to 500 chars)
-  if (product.description) {
-    productInfo += `\n  Description: ${product.description.substring(0, 500)}${product.description.length > 500 ? '...' : ''}`;
-  }
-
-  if (product.productType) {
-    productInfo += `\n  Type: ${product.productType.replace('_', ' ')}`;
-  }
-
-  // Include more features (increased from 3 to 5)
-  if (product.features && product.features.length > 0) {
-    productInfo += `\n  Key Features: ${product.features.slice(0, 5).join(', ')}`;
-    if (product.features.length > 5) {
-      productInfo += `, and ${product.features.length - 5} more`;
-    }
-  }
 
-  return productInfo;
-}).join('\n\n')}
+      // Pick the knowledge that goes into the prompt: everything for small
+      // knowledge bases, otherwise the chunks most relevant to this question
+      const { knowledgeContext, productsContext, sources } = await selectPromptKnowledge(ctx, {
+        companyId: conversation.companyId,
+        companyContext,
+        products,
+        customerMessages: messages
+          .filter((m: any) => m.role === "customer")
+          .map((m: any) => redactor.redact(m.content)),
+        contextTopics: persona?.knowledgeTopics,
+      });
 
-IMPORTANT: When customers ask about products, pricing, features, or subscriptions, refer to the exact information above. Always provide accurate pricing and billing information. If a product has multiple pricing options (monthly, yearly, lifetime, or free), explain all available options.`;
-      } else {
+      if (products.length === 0) {
         console.log("⚠️ No products found for this company");
-        productsContext = "";
       }
 
       // Build system message with explicit company identification
-      const WHOP_CONTEXT = `PLATFORM CONTEXT:
-You are operating on Whop (whop.com), the leading marketplace for digital products, memberships, and online communities. 
-
-IMPORTANT DISTINCTION:
-- "Whop" (the platform): The marketplace at whop.com where creators sell digital products
-- "This Whop" or "Our Whop": Refers to ${company.name || 'this specific creator\'s store/community'}
-
-ABOUT WHOP THE PLATFORM:
-Whop is a marketplace where creators and entrepreneurs can monetize their expertise. Anyone can create a Whop to sell:
-- Memberships & Subscriptions: Recurring access to exclusive content, communities, or services
-- Digital Products: One-time purchases for courses, templates, tools, software  
-- Communities: Private Discord servers, Telegram groups, and exclusive channels
-- Services: Coaching, consulting, signals, analysis, etc.
-
-HOW CREATORS MAKE MONEY ON WHOP:
-- Set up products with custom pricing (one-time or subscription)
-- Build communities around their expertise (trading, coding, fitness, etc.)
-- Use affiliate programs where members earn commissions for referrals
-- Leverage Whop's built-in payment processing and access management
-- Scale through Whop's marketplace discovery and search features
-- Many successful Whops make $10K-$1M+ per month
-
-KEY WHOP PLATFORM FEATURES:
-- Payment Processing: Built-in payments, multiple currencies, crypto support
-- Access Management: Automatic Discord/Telegram role assignment
-- Affiliate System: Built-in referral programs with tracking (up to 50% commissions)
-- Analytics Dashboard: Revenue tracking, member insights, conversion metrics
-- Whop Wheel: Loyalty and rewards system for members
-- Apps Marketplace: Integrate additional tools and features
-
-COMMON QUESTIONS YOU SHOULD ANSWER:
-- "What is Whop?" → Explain it's a marketplace for digital products and communities
-- "How do I make money on Whop?" → Explain creating products, building community, affiliate programs
-- "How does this Whop work?" → Explain THIS specific creator's offerings
-- Membership access issues (roles, expiration, renewal)
-- Payment and billing questions
-- How to join Discord/Telegram after purchase
-- Refund policies (set by each creator)
-- Upgrading or changing subscription tiers
-- Affiliate commission questions
-
-When users mention "the platform" they mean Whop.com. When they say "this Whop" they mean ${company.name || 'this specific store'}.`;
-      
-      const hasCompanyContext = companyContext && companyContext.trim().length > 0;
-      const systemMessage = `${WHOP_CONTEXT}
-
-${hasCompanyContext ? `COMPANY IDENTITY (INTERNAL KNOWLEDGE ONLY):
-${companyContext}` : `COMPANY CONTEXT STATUS: No company-specific information has been configured yet. If customers ask what this company sells, what it's about, or for specific details, respond with: "The team hasn't added their company details yet. For specific information about ${company.name || 'this business'}, I'd recommend reaching out directly or checking their Whop page." Do NOT guess or infer what the company does based on its name.`}${productsContext}
-
-🚨 CRITICAL SCOPE RESTRICTIONS 🚨
-YOU ARE A CUSTOMER SUPPORT AGENT - YOU MUST ONLY HELP WITH:
-✅ ALLOWED TOPICS:
-- Questions about THIS company's products, services, and features listed above
-- How Whop.com works as a platform (what it is, how to make money, how to create a Whop)
-- Whop platform features and capabilities (affiliates, payments, Discord integration)
-- Account and order inquiries for THIS specific business
-- Technical support for THIS company's offerings
-- Pricing, refunds, and subscription management
-- How to use or access purchased products
-- Troubleshooting access or payment issues
-- Questions directly related to content within purchased courses/products
-- Support for features included in their membership
-- Explaining the difference between Whop platform and this specific Whop
-
-❌ NOT ALLOWED - MUST DEFLECT:
-- General knowledge questions (history, science, math, etc.) UNLESS directly part of a course they purchased
-- Writing essays, paragraphs, or creative content unrelated to their purchase
-- Free tutoring or consulting beyond what they've paid for
-- Personal advice, health, legal guidance (unless that IS the product)
-- Questions about other companies or competitors
-- Providing services for free that the company charges for
-- Any request that circumvents the need to purchase the product
-
-WHEN RECEIVING OFF-TOPIC REQUESTS:
-Respond ONLY with: "I'm here to help with questions about ${company.name || 'our products'} and your Whop membership. For general questions or other topics, I'd recommend using a general-purpose AI assistant like ChatGPT or Claude. How can I help you with your account or our services today?"
-
-CRITICAL COMMUNICATION RULES:
-1. ALWAYS check if the question is support-related before answering
-2. NEVER provide information outside your support scope
-3. Be helpful but firm about staying on-topic
-4. Redirect off-topic requests immediately with the template above
-5. If unsure whether something is on-topic, err on the side of deflecting
-6. Keep responses brief and focused (max 2-3 sentences for most answers)
-
-Response style:
-- Short, direct answers (1-3 sentences when possible)
-- Only elaborate if troubleshooting requires multiple steps
-- Focus on solving the immediate support issue
-- Professional but friendly tone
-- Never mention being an AI
-
-${company.aiSystemPrompt || ""}`;
+      const hasCompanyContext = companyContext.trim().length > 0;
+      const topicPolicy: TopicPolicy = company.aiTopicPolicy || DEFAULT_TOPIC_POLICY;
+      const systemMessage = buildSupportSystemMessage({
+        companyName: company.name,
+        hasCompanyContext,
+        knowledgeContext,
+        productsContext,
+        sourceLegend: buildSourceLegend(sources),
+        topicPolicy,
+        responseInstructions: buildHandoffInstructions(handoffTriggers),
+        customInstructions: persona
+          ? [company.aiSystemPrompt, buildDepartmentInstructions(department!.name, persona)]
+              .filter(Boolean)
+              .join("\n\n")
+          : company.aiSystemPrompt,
+      });
 
       // 4. Build message history for API
-      const chatMessages: OpenAI.Chat.ChatCompletionMessageParam[] = [
-        {
-          role: "system",
-          content: systemMessage,
-        },
-      ];
+      // Rolling summary stands in for everything older than the recent window
+      const includeSummary =
+        !!conversation.summary && conversation.messageCount > RECENT_MESSAGE_WINDOW;
+      if (includeSummary) {
+        console.log("📝 Including conversation summary:", {
+          length: conversation.summary.length,
+          summarizedThrough: conversation.lastSummaryMessageCount,
+        });
+      }
 
       // Add conversation history (already in chronological order from query)
       // DO NOT REVERSE - messages are already oldest first from getMessages query
-      console.log("\n🔴 BUILDING CHAT MESSAGES FOR OPENAI:");
+      console.log("\n🔴 BUILDING CHAT MESSAGES FOR THE LLM:");
       
       // CRITICAL: Use the triggering message we already fetched for authorization
       console.log("🎯 TRIGGERING MESSAGE:", {
@@ -537,29 +553,13 @@ ${company.aiSystemPrompt || ""}`;
       const messagesToInclude = messageIndex >= 0 ? messages.slice(0, messageIndex + 1) : messages;
       
       console.log(`🔍 Including ${messagesToInclude.length} of ${messages.length} messages (up to trigger)`);
-      
-      messagesToInclude.forEach((msg: any, index: number) => {
-        console.log(`  Message ${index + 1}:`, {
-          id: msg._id,
-          role: msg.role,
-          content: msg.content.substring(0, 100),
-          timestamp: new Date(msg.timestamp).toISOString()
-        });
 
-        if (msg.role === "customer") {
-          // Sanitize user input to prevent prompt injection
-          const sanitizedContent = sanitizeUserInput(msg.content);
-          chatMessages.push({
-            role: "user",
-            content: sanitizedContent,
-          });
-        } else if (msg.role === "ai" || msg.role === "agent") {
-          chatMessages.push({
-            role: "assistant",
-            content: msg.content,
-          });
-        }
-        // Skip system messages as they're not part of the conversation flow
+      const chatMessages = buildChatMessages({
+        systemMessage,
+        summary: includeSummary ? formatSummaryForPrompt(conversation.summary) : undefined,
+        history: messagesToInclude,
+        redact: redactor.redact,
+        attachmentNotes,
       });
       
       console.log("\n🔴 FINAL CHAT MESSAGES TO SEND:");
@@ -568,13 +568,12 @@ ${company.aiSystemPrompt || ""}`;
       console.log("  System prompt length:", systemMessage.length);
 
       // 5. Generate response using Chat Completions
-      console.log("\n📊 STEP 5: Calling OpenAI API...");
+      console.log(`\n📊 STEP 5: Calling ${provider.name} provider...`);
       const startTime = Date.now();
       
       // Log the exact request being sent
-      // Use company's selected model with fallback to gpt-5.2 (400K context)
-      const modelToUse = company.selectedAiModel || "gpt-5.2";
-      console.log("🚀 OpenAI Request Details:", {
+      console.log("🚀 LLM Request Details:", {
+        provider: provider.name,
         model: modelToUse,
         systemMessageLength: systemMessage.length,
         systemMessagePreview: systemMessage.substring(0, 300),
@@ -582,224 +581,133 @@ ${company.aiSystemPrompt || ""}`;
         messages: chatMessages.map((m, i) => ({
           index: i,
           role: m.role,
-          contentPreview: (m.content as string).substring(0, 100) + "..."
+          contentPreview: m.content.substring(0, 100) + "..."
         }))
       });
       
-      const completion = await openai.chat.completions.create({
-        model: modelToUse,
-        messages: chatMessages,
-        temperature: 0.7,
-        max_completion_tokens: getMaxTokens(company.aiResponseLength || "medium"),
-        presence_penalty: 0.1,
-        frequency_penalty: 0.1,
-      });
+      // Create the AI message up front and patch it as tokens arrive
+      streamMessageId = await ctx.runMutation(
+        api.messages.mutations.startAIStreamMessage,
+        { conversationId, aiModel: modelSpec, aiConfigVersion: experimentVariant?.version }
+      );
+      const activeStreamMessageId = streamMessageId;
+
+      let lastFlushAt = 0;
+      let flushedLength = 0;
+      const completion = await provider.chatStream(
+        {
+          model: modelToUse,
+          messages: chatMessages,
+          temperature: 0.7,
+          maxTokens: getMaxTokens(company.aiResponseLength || "medium"),
+          presencePenalty: 0.1,
+          frequencyPenalty: 0.1,
+          jsonSchema: HANDOFF_DECISION_SCHEMA,
+        },
+        async (_delta, accumulated) => {
+          // Don't show an answer the model is about to hand off anyway
+          if (isStreamingHandoff(accumulated)) return;
+          const answerSoFar = redactor.restore(extractStreamingAnswer(accumulated), {
+            partial: true,
+          });
+          if (!answerSoFar || answerSoFar.length === flushedLength) return;
+
+          // Throttle writes - one mutation per interval, not per token
+          const now = Date.now();
+          if (now - lastFlushAt < STREAM_FLUSH_INTERVAL_MS) return;
+          lastFlushAt = now;
+          flushedLength = answerSoFar.length;
+          await ctx.runMutation(api.messages.mutations.updateAIStreamContent, {
+            messageId: activeStreamMessageId,
+            content: answerSoFar,
+          });
+        }
+      );
 
       const processingTime = Date.now() - startTime;
-      let response = completion.choices[0]?.message?.content || "";
-      const usage = completion.usage;
+      const decision = parseHandoffDecision(completion.content);
+      let response = redactor.restore(decision.answer);
+      const usage = { ...completion.usage };
+      let knowledgeSources = resolveCitedSources(sources, parseSourceRefs(completion.content));
 
-      console.log("\n📊 STEP 6: OpenAI Response Received");
+      console.log("\n📊 STEP 6: LLM Response Received");
       console.log("🎯 Response Details:", {
         processingTime: `${processingTime}ms`,
         responseLength: response.length,
         responsePreview: response.substring(0, 200) + "...",
         fullResponse: response,
         tokensUsed: {
-          input: usage?.prompt_tokens,
-          output: usage?.completion_tokens,
-          total: usage?.total_tokens
+          input: usage.promptTokens,
+          output: usage.completionTokens,
+          total: usage.totalTokens
         },
         model: completion.model,
-        finishReason: completion.choices[0]?.finish_reason
+        finishReason: completion.finishReason,
+        streamedChars: flushedLength,
+        decision: {
+          handoff: decision.handoff,
+          reasonCategory: decision.reasonCategory,
+          confidence: decision.confidence,
+        },
+        citedSources: knowledgeSources.map((source) => source.title),
       });
 
-      if (!response) {
-        console.error("❌ ERROR: No response generated from OpenAI!");
-        throw new Error("No response generated from OpenAI");
-      }
-
-      // RESPONSE VALIDATION: Check for off-topic responses
-      console.log("\n🔍 STEP 6.5: Validating response for off-topic content...");
-      
-      // Get the last user message to check what they asked
-      const lastUserMessage = messages[messages.length - 1]?.content?.toLowerCase() || "";
-      
-      // Check company context and products to understand what's relevant
-      const companyContextLower = (companyContext || "").toLowerCase();
-      const productTitlesLower = products.map((p: any) => (p.title || "").toLowerCase());
-      const productDescriptionsLower = products.map((p: any) => (p.description || "").toLowerCase()).join(" ");
-      const allCompanyContent = companyContextLower + " " + productTitlesLower.join(" ") + " " + productDescriptionsLower;
-      
-      // Determine if company is related to certain topics
-      const isCodeRelatedCompany = allCompanyContent.includes('coding') || 
-                                   allCompanyContent.includes('programming') || 
-                                   allCompanyContent.includes('developer') ||
-                                   allCompanyContent.includes('software') ||
-                                   allCompanyContent.includes('api') ||
-                                   allCompanyContent.includes('javascript') ||
-                                   allCompanyContent.includes('python');
-      
-      const isEducationalCompany = allCompanyContent.includes('course') ||
-                                   allCompanyContent.includes('tutorial') ||
-                                   allCompanyContent.includes('education') ||
-                                   allCompanyContent.includes('learning') ||
-                                   allCompanyContent.includes('training');
-      
-      const isFinanceCompany = allCompanyContent.includes('trading') ||
-                               allCompanyContent.includes('investment') ||
-                               allCompanyContent.includes('stocks') ||
-                               allCompanyContent.includes('crypto') ||
-                               allCompanyContent.includes('finance');
-      
-      // Build dynamic off-topic indicators based on what the company does
-      const offTopicIndicators = [
-        // Always off-topic (unless company specifically deals with these)
-        'martin luther king', 'mlk', 'abraham lincoln', 'george washington', 'world war',
-        'civil war', 'revolution', 'historical figures',
-        // Academic (unless educational company)
-        ...(isEducationalCompany ? [] : ['write an essay', 'write a paragraph about', 'explain the theory']),
-        // Creative writing (always off-topic for support)
-        'write a story', 'write a poem', 'creative writing', 'fiction',
-        // Programming (unless code-related company)
-        ...(isCodeRelatedCompany ? [] : ['write code for', 'python script', 'javascript function', 'debug my code']),
-        // Financial advice (unless finance company)
-        ...(isFinanceCompany ? [] : ['investment advice', 'stock tips', 'trading strategy']),
-        // Medical/Legal (always off-topic for support)
-        'medical advice', 'legal advice', 'health diagnosis',
-        // General knowledge (always off-topic)
-        'capital of', 'population of', 'who invented', 'when was the', 'how many countries'
-      ];
-      
-      // For code-related companies, only flag if they're asking for unrelated code
-      if (isCodeRelatedCompany && lastUserMessage.includes('code')) {
-        // Check if it's about their purchased product or general coding help
-        const isAboutProduct = lastUserMessage.includes('course') ||
-                              lastUserMessage.includes('access') ||
-                              lastUserMessage.includes('download') ||
-                              lastUserMessage.includes('lesson') ||
-                              lastUserMessage.includes('module') ||
-                              lastUserMessage.includes('purchase');
-        
-        // If asking for code help but NOT about their purchase, still flag it
-        if (!isAboutProduct && (lastUserMessage.includes('write code') || 
-                                lastUserMessage.includes('debug my') ||
-                                lastUserMessage.includes('fix my code'))) {
-          offTopicIndicators.push('requesting free coding help');
-        }
-      }
-      
-      // Check if user asked an off-topic question
-      // BUT exclude if they're asking about Whop platform itself
-      const isAskingAboutWhop = lastUserMessage.includes('what is whop') ||
-                                lastUserMessage.includes('how to make money') ||
-                                lastUserMessage.includes('how does whop work') ||
-                                lastUserMessage.includes('create a whop') ||
-                                lastUserMessage.includes('whop platform') ||
-                                lastUserMessage.includes('whop marketplace');
-      
-      const isOffTopicRequest = !isAskingAboutWhop && offTopicIndicators.some(indicator => 
-        lastUserMessage.includes(indicator)
-      );
-      
-      // Additional check: If response is too long and doesn't mention company/Whop/products
-      const responseCheck = response.toLowerCase();
-      const containsRelevantTerms = 
-        responseCheck.includes('whop') ||
-        responseCheck.includes('membership') ||
-        responseCheck.includes('subscription') ||
-        responseCheck.includes('billing') ||
-        responseCheck.includes('access') ||
-        responseCheck.includes('product') ||
-        responseCheck.includes('support') ||
-        responseCheck.includes('account') ||
-        responseCheck.includes('purchase') ||
-        responseCheck.includes('course') ||
-        (company.name && responseCheck.includes(company.name.toLowerCase())) ||
-        productTitlesLower.some((title: string) => title && responseCheck.includes(title));
-      
-      // If response is long (>500 chars) and doesn't contain relevant terms, it's likely off-topic
-      const suspiciouslyOffTopic = response.length > 500 && !containsRelevantTerms;
-      
-      // Log decision making
-      console.log("  - Company type detection:", {
-        isCodeRelated: isCodeRelatedCompany,
-        isEducational: isEducationalCompany,
-        isFinance: isFinanceCompany
+      // 6. Decide on handoff, then check the reply that actually gets sent:
+      // regenerate one whose handoff was cancelled, validate quoted prices
+      // against the catalog, classify it against the topic policy
+      console.log("\n🔍 STEP 6.5: Checking the reply...");
+      const checked = await checkReply(provider, modelToUse, {
+        decision,
+        content: completion.content,
+        chatMessages,
+        maxTokens: getMaxTokens(company.aiResponseLength || "medium"),
+        customerMessage: triggeringMessage.content,
+        enabledTriggers: handoffTriggers,
+        keywordOverride: company.aiHandoffKeywordOverride === true,
+        catalog,
+        productTitles: products.map((p: any) => p.title),
+        topicPolicy,
+        companyName: company.name,
+        companyContext,
+        redact: redactor.redact,
+        restore: redactor.restore,
       });
-      
-      if (isOffTopicRequest || suspiciouslyOffTopic) {
-        console.log("⚠️ Off-topic content detected! Replacing with redirect message.");
-        console.log("  - Off-topic request:", isOffTopicRequest);
-        console.log("  - Suspiciously off-topic response:", suspiciouslyOffTopic);
-        
-        // Replace with standard deflection message
-        response = `I'm here to help with questions about ${company.name || 'our products'} and your Whop membership. For general questions or other topics, I'd recommend using a general-purpose AI assistant like ChatGPT or Claude. How can I help you with your account or our services today?`;
+      response = checked.response;
+      usage.promptTokens += checked.usage.promptTokens;
+      usage.completionTokens += checked.usage.completionTokens;
+      usage.totalTokens += checked.usage.totalTokens;
+      const { handoff, priceIncident, topicVerdict } = checked;
+      const responseReplaced = checked.replaced;
+      if (checked.sourceContent !== completion.content) {
+        knowledgeSources = checked.sourceContent
+          ? resolveCitedSources(sources, parseSourceRefs(checked.sourceContent))
+          : [];
       }
 
-      // 6. Check for handoff triggers
-      let shouldHandoff = false;
-      let handoffReason = "";
-
-      const handoffTriggers = company.aiHandoffTriggers || [];
-      const lowerResponse = response.toLowerCase();
-      const lowerCustomerMessage = triggeringMessage.content.toLowerCase();
-
-      // Map trigger IDs to actual phrases to detect
-      const triggerPhraseMap: Record<string, string[]> = {
-        "customer_requests_human": [
-          "speak to a human", "talk to a human", "real person", "human agent",
-          "talk to someone", "speak to someone", "real agent", "live agent",
-          "customer service", "support agent", "talk to support", "speak to support",
-          "need a human", "want a human", "get me a human", "transfer me"
-        ],
-        "billing_questions": [
-          "billing", "payment", "refund", "charge", "invoice", "subscription",
-          "cancel my", "charged me", "money back", "pricing", "cost", "price",
-          "credit card", "debit card", "transaction"
-        ],
-        "negative_sentiment": [
-          "frustrated", "angry", "upset", "terrible", "awful", "horrible",
-          "worst", "hate", "useless", "waste of time", "ridiculous", "unacceptable",
-          "disappointed", "disgusted", "furious"
-        ],
-        "multiple_failed_attempts": [] // This is tracked separately by counting AI responses
-      };
-
-      // Check customer message for trigger phrases
-      for (const trigger of handoffTriggers) {
-        // Get phrases for this trigger (or use trigger itself as custom phrase)
-        const phrases = triggerPhraseMap[trigger] || [trigger];
-
-        for (const phrase of phrases) {
-          if (lowerCustomerMessage.includes(phrase.toLowerCase())) {
-            shouldHandoff = true;
-            handoffReason = `Customer message matched handoff trigger: "${phrase}"`;
-            break;
-          }
-        }
-        if (shouldHandoff) break;
+      const shouldHandoff = handoff.shouldHandoff;
+      const handoffReason = handoff.reason;
+      if (shouldHandoff) {
+        console.log("🤝 Handoff decided:", {
+          category: handoff.category,
+          reason: handoffReason,
+          confidence: decision.confidence,
+        });
       }
-
-      // Check if AI explicitly wants to escalate (in its response)
-      if (!shouldHandoff) {
-        if (lowerResponse.includes("escalate") ||
-            lowerResponse.includes("human agent") ||
-            lowerResponse.includes("transfer you") ||
-            lowerResponse.includes("connect you with") ||
-            lowerResponse.includes("let me get someone")) {
-          shouldHandoff = true;
-          handoffReason = "AI determined escalation needed";
-        }
+      if (priceIncident) {
+        console.log("💲 Price guard resolution:", priceIncident.resolution);
+      }
+      if (topicVerdict) {
+        console.log("  - Topic verdict:", topicVerdict);
       }
 
       // 7. Handle handoff FIRST — if triggered, skip the AI deflection response
-      let aiMessageId: string | undefined;
+      let aiMessageId: Id<"messages"> | undefined;
       if (shouldHandoff) {
         try {
           await ctx.runMutation(api.conversations.mutations.triggerHandoff, {
             conversationId,
             reason: handoffReason,
+            reasonCategory: handoff.category,
           });
           // Notify agents about the handoff
           try {
@@ -810,42 +718,77 @@ ${company.aiSystemPrompt || ""}`;
           } catch (notifError) {
             console.warn("Failed to send handoff notification:", notifError);
           }
-          // Handoff succeeded — don't send the AI response (the handoff system
-          // message is the only thing the customer should see)
+          // Handoff succeeded — retract the streamed AI response (the handoff
+          // system message is the only thing the customer should see)
+          await ctx.runMutation(api.messages.mutations.retractAIStreamMessage, {
+            messageId: activeStreamMessageId,
+          });
           aiMessageCreated = true;
         } catch (handoffError) {
           console.warn("Failed to trigger handoff:", handoffError);
-          // Handoff failed — fall through and send the AI response as fallback
-          aiMessageId = await ctx.runMutation(api.messages.mutations.createMessage, {
-            conversationId,
-            content: response,
-            role: "ai",
-            aiModel: company.selectedAiModel || "gpt-5.2",
+          // Handoff failed — fall through and keep the AI response as fallback
+          aiMessageId = await ctx.runMutation(api.messages.mutations.completeAIStreamMessage, {
+            messageId: activeStreamMessageId,
+            content: response || FALLBACK_REPLY,
+            replaced: responseReplaced,
             processingTime,
-            tokensUsed: usage?.total_tokens,
+            tokensUsed: usage.totalTokens,
+            aiConfidence: decision.confidence,
+            topicVerdict,
+            redactedCategories: redactor.redactedCategories(),
+            knowledgeSources,
           });
           aiMessageCreated = true;
         }
       } else {
-        // 8. No handoff — store the AI response normally
-        aiMessageId = await ctx.runMutation(api.messages.mutations.createMessage, {
-          conversationId,
+        // 8. No handoff — finalize the streamed AI response
+        aiMessageId = await ctx.runMutation(api.messages.mutations.completeAIStreamMessage, {
+          messageId: activeStreamMessageId,
           content: response,
-          role: "ai",
-          aiModel: company.selectedAiModel || "gpt-5.2",
+          replaced: responseReplaced,
           processingTime,
-          tokensUsed: usage?.total_tokens,
+          tokensUsed: usage.totalTokens,
+          aiConfidence: decision.confidence,
+          topicVerdict,
+          redactedCategories: redactor.redactedCategories(),
+          knowledgeSources,
+          // A deflection is canned text, not an answer that needs sources
+          ungrounded: knowledgeSources.length === 0 && !responseReplaced,
         });
         aiMessageCreated = true;
       }
 
+      // 8.5 Log the price guard incident against the reply it changed
+      if (priceIncident && aiMessageId) {
+        try {
+          await ctx.runMutation(internal.priceIncidents.mutations.recordIncident, {
+            conversationId,
+            messageId: aiMessageId,
+            mismatches: priceIncident.mismatches.map(({ mention, reason, correction }) => ({
+              quoted: mention.raw.trim(),
+              reason,
+              correctedTo:
+                priceIncident!.resolution === "corrected" && correction
+                  ? formatCatalogPrice(correction)
+                  : undefined,
+            })),
+            resolution: priceIncident.resolution,
+            originalReply: priceIncident.originalReply,
+          });
+        } catch (incidentError) {
+          console.warn("Failed to log price incident:", incidentError);
+        }
+      }
+
       // 9. Track usage
       try {
         await ctx.runMutation(api.usage.mutations.trackAIResponse, {
           conversationId,
-          tokensUsed: (usage?.total_tokens || 0),
-          aiModel: company.selectedAiModel || "gpt-5.2",
-          experienceId: "exp_unknown", // TODO: Get this from conversation or context
+          tokensUsed: usage.totalTokens,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          messageId: aiMessageId,
+          aiModel: modelSpec,
         });
       } catch (usageError) {
         console.warn("Failed to track usage:", usageError);
@@ -859,7 +802,7 @@ ${company.aiSystemPrompt || ""}`;
           identifier: conversation.companyId,
           metadata: {
             conversationId,
-            tokensUsed: usage?.total_tokens || 0,
+            tokensUsed: usage.totalTokens,
           },
         });
       } catch (rateLimitError) {
@@ -884,11 +827,8 @@ ${company.aiSystemPrompt || ""}`;
         messageId: aiMessageId,
         shouldHandoff,
         handoffReason,
-        usage: {
-          promptTokens: usage?.prompt_tokens || 0,
-          completionTokens: usage?.completion_tokens || 0,
-          totalTokens: usage?.total_tokens || 0,
-        },
+        handoffReasonCategory: handoff.category,
+        usage,
       };
     } catch (error) {
       console.error("❌ Chat Completions error:", error);
@@ -903,6 +843,17 @@ ${company.aiSystemPrompt || ""}`;
         console.error("Failed to clear processing flag:", clearError);
       }
 
+      // Remove a partially streamed reply so the customer doesn't see half an answer
+      if (streamMessageId && !aiMessageCreated) {
+        try {
+          await ctx.runMutation(api.messages.mutations.retractAIStreamMessage, {
+            messageId: streamMessageId,
+          });
+        } catch (retractError) {
+          console.error("Failed to retract streamed message:", retractError);
+        }
+      }
+
       // Only create error message if we haven't already created a successful AI response
       if (!aiMessageCreated) {
         try {
@@ -969,8 +920,15 @@ You are a customer support representative. Your responses should be:
 - Consistent with the company identity above
 - Never mention that you're an AI or created by OpenAI`;
 
-    const completion = await openai.chat.completions.create({
-      model: company.selectedAiModel || "gpt-5.2",
+    // Same model as live replies - the plan may not include the selected one
+    const plan = await ctx.runQuery(api.plans.queries.getPlanById, {
+      planId: company.planId,
+    });
+    const { provider, model } = resolveModel(
+      pickModelSpec(company.selectedAiModel, plan?.aiModels)
+    );
+    const completion = await provider.chat({
+      model,
       messages: [
         {
           role: "system",
@@ -982,88 +940,16 @@ You are a customer support representative. Your responses should be:
         },
       ],
       temperature: 0.7,
-      max_completion_tokens: 1000,
+      maxTokens: 1000,
     });
 
     return {
-      response: completion.choices[0]?.message?.content || "",
+      response: completion.content,
       model: completion.model,
       usage: completion.usage,
     };
   },
 });
 
-// Helper function to get max tokens based on response length setting
-// Matches schema: "brief" | "medium" | "detailed"
-// Note: GPT-5.2 uses reasoning tokens that count toward the limit, so we need higher values
-function getMaxTokens(responseLength: string): number {
-  switch (responseLength) {
-    case "brief":
-      return 500;
-    case "medium":
-      return 1000;
-    case "detailed":
-      return 2000;
-    default:
-      return 1000;
-  }
-}
-
-/**
- * Sanitize user input before sending to OpenAI
- * Prevents prompt injection attacks and removes potentially harmful content
- */
-function sanitizeUserInput(input: string): string {
-  if (!input || typeof input !== 'string') {
-    return '';
-  }
-
-  let sanitized = input;
-
-  // 1. Limit message length (10K chars max to prevent token abuse)
-  const MAX_LENGTH = 10000;
-  if (sanitized.length > MAX_LENGTH) {
-    sanitized = sanitized.substring(0, MAX_LENGTH) + '... [message truncated]';
-  }
-
-  // 2. Remove null bytes and other control characters (except newlines/tabs)
-  sanitized = sanitized.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
-
-  // 3. Detect and neutralize common prompt injection patterns
-  const injectionPatterns = [
-    // System prompt manipulation attempts
-    /\[SYSTEM\]/gi,
-    /\[INST\]/gi,
-    /<<SYS>>/gi,
-    /<\|system\|>/gi,
-    /<\|assistant\|>/gi,
-    /<\|user\|>/gi,
-    /###\s*(System|Assistant|Human|User)\s*:/gi,
-    // Instruction override attempts
-    /ignore\s+(all\s+)?(previous|above|prior)\s+(instructions?|prompts?|rules?)/gi,
-    /disregard\s+(all\s+)?(previous|above|prior)\s+(instructions?|prompts?|rules?)/gi,
-    /forget\s+(all\s+)?(previous|above|prior)\s+(instructions?|prompts?|rules?)/gi,
-    /new\s+instructions?:/gi,
-    /override\s+(system|instructions?|rules?)/gi,
-    // Role manipulation
-    /you\s+are\s+now\s+(a|an|the)\s+/gi,
-    /pretend\s+(to\s+be|you\s+are)/gi,
-    /act\s+as\s+(if\s+you\s+are|a|an)/gi,
-    /roleplay\s+as/gi,
-    // Jailbreak attempts
-    /\bDAN\b/g,  // "Do Anything Now" jailbreak
-    /developer\s+mode/gi,
-    /jailbreak/gi,
-  ];
-
-  for (const pattern of injectionPatterns) {
-    sanitized = sanitized.replace(pattern, '[FILTERED]');
-  }
-
-  // 4. Escape sequences that could be interpreted as special formatting
-  sanitized = sanitized
-    .replace(/```system/gi, '``` system')
-    .replace(/```assistant/gi, '``` assistant');
-
-  return sanitized.trim();
-}
+// Minimum time between streamed content writes to the AI message
+const STREAM_FLUSH_INTERVAL_MS = 250;
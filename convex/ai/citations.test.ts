@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildKnowledgeSources,
+  buildSourceLegend,
+  labelContextSections,
+  parseSourceRefs,
+  resolveCitedSources,
+} from "./citations";
+
+const products = [
+  {
+    _id: "prod_1",
+    title: "Pro Membership",
+    pricingOptions: [
+      { _id: "plan_1", title: "Monthly" },
+      { _id: "plan_2", title: "Yearly" },
+    ],
+  },
+];
+
+const sources = buildKnowledgeSources({
+  contextSections: [{ content: "# Refund policy\nRefunds within 7 days.", chunkIndex: 2 }],
+  products,
+});
+
+describe("buildKnowledgeSources", () => {
+  it("gives sections, products and plans their own IDs", () => {
+    expect(sources.map((source) => source.ref)).toEqual(["C1", "P1", "P1.1", "P1.2"]);
+    expect(sources[0]).toMatchObject({
+      type: "company_context",
+      sourceId: "3",
+      title: "Refund policy",
+    });
+    expect(sources[3]).toMatchObject({
+      type: "plan",
+      sourceId: "plan_2",
+      title: "Pro Membership – Yearly",
+    });
+  });
+});
+
+describe("prompt labels", () => {
+  it("labels context sections inline and lists the rest in the legend", () => {
+    expect(labelContextSections(["About us", "Refunds"])).toBe(
+      "[C1]\nAbout us\n\n---\n\n[C2]\nRefunds"
+    );
+    const legend = buildSourceLegend(sources);
+    expect(legend).toContain("[P1.2] Pricing plan: Pro Membership – Yearly");
+    expect(legend).not.toContain("[C1] ");
+    expect(buildSourceLegend([])).toBe("");
+  });
+});
+
+describe("citations from the reply", () => {
+  it("keeps known refs in prompt order and drops unknown ones", () => {
+    const refs = parseSourceRefs(JSON.stringify({ answer: "It's $99/year", sources: ["p1.2", "[C1]", "X9"] }));
+    expect(resolveCitedSources(sources, refs).map((source) => source.sourceId)).toEqual([
+      "3",
+      "plan_2",
+    ]);
+  });
+
+  it("treats plain-text or missing sources as no citations", () => {
+    expect(parseSourceRefs("Plain answer")).toEqual([]);
+    expect(parseSourceRefs(JSON.stringify({ answer: "Hi" }))).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * SOURCE CITATIONS
+ *
+ * Every piece of knowledge in the prompt gets a short ID: [C1], [C2] for
+ * company context sections, [P1] for products and [P1.2] for a product's
+ * pricing plans. The model lists the IDs its answer relies on, and we store
+ * the matching sources on the AI message so agents can check where a price
+ * or policy came from.
+ *
+ * An answer that cites nothing has no grounding in the company's knowledge
+ * and is flagged for an agent to review.
+ */
+
+import type { KnowledgeSourceType } from "./retrieval";
+
+export type CitationType = KnowledgeSourceType | "plan";
+
+export type KnowledgeSource = {
+  ref: string; // ID shown to the model, only meaningful within one prompt
+  type: CitationType;
+  sourceId?: string; // products/whopPlans id, or the context section number
+  title: string;
+  excerpt?: string;
+};
+
+// Stored on the message - the ref is dropped once the reply is parsed
+export type MessageSource = Omit<KnowledgeSource, "ref">;
+
+export const CITATION_TYPE_LABELS: Record<CitationType, string> = {
+  company_context: "Company context",
+  product: "Product",
+  plan: "Pricing plan",
+};
+
+const TITLE_MAX_CHARS = 60;
+const EXCERPT_MAX_CHARS = 300;
+
+function truncate(text: string, maxChars: number): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > maxChars ? `${singleLine.slice(0, maxChars - 1)}…` : singleLine;
+}
+
+// First line of a section, without markdown heading marks
+function sectionTitle(content: string, sectionNumber: number): string {
+  const firstLine = content.trim().split("\n")[0].replace(/^#+\s*/, "");
+  return truncate(firstLine, TITLE_MAX_CHARS) || `Section ${sectionNumber}`;
+}
+
+/**
+ * Sources for the knowledge going into one prompt. `contextSections` carry
+ * their position in the full company context so the same section keeps the
+ * same number whether it was retrieved or sent in full.
+ */
+export function buildKnowledgeSources(args: {
+  contextSections: Array<{ content: string; chunkIndex: number }>;
+  products: any[];
+}): KnowledgeSource[] {
+  const sources: KnowledgeSource[] = args.contextSections.map((section, i) => ({
+    ref: `C${i + 1}`,
+    type: "company_context",
+    sourceId: String(section.chunkIndex + 1),
+    title: sectionTitle(section.content, section.chunkIndex + 1),
+    excerpt: truncate(section.content, EXCERPT_MAX_CHARS),
+  }));
+
+  args.products.forEach((product, i) => {
+    const productRef = `P${i + 1}`;
+    sources.push({
+      ref: productRef,
+      type: "product",
+      sourceId: product._id ? String(product._id) : undefined,
+      title: product.title,
+      excerpt: product.headline ? truncate(product.headline, EXCERPT_MAX_CHARS) : undefined,
+    });
+
+    (product.pricingOptions || []).forEach((plan: any, j: number) => {
+      sources.push({
+        ref: `${productRef}.${j + 1}`,
+        type: "plan",
+        sourceId: plan._id ? String(plan._id) : undefined,
+        title: `${product.title} – ${plan.title}`,
+      });
+    });
+  });
+
+  return sources;
+}
+
+/**
+ * Company context with each section labelled by its source ID
+ */
+export function labelContextSections(sections: string[]): string {
+  return sections
+    .map((content, i) => `[C${i + 1}]\n${content}`)
+    .join("\n\n---\n\n");
+}
+
+/**
+ * System message section mapping source IDs to products and plans.
+ * Context sections are labelled inline, so they only need a mention here.
+ */
+export function buildSourceLegend(sources: KnowledgeSource[]): string {
+  if (sources.length === 0) return "";
+
+  const lines = sources
+    .filter((source) => source.type !== "company_context")
+    .map((source) => `[${source.ref}] ${CITATION_TYPE_LABELS[source.type]}: ${source.title}`);
+  const hasContext = sources.some((source) => source.type === "company_context");
+
+  return `SOURCE IDS:
+${hasContext ? "Company information sections are labelled [C1], [C2], ... above.\n" : ""}${lines.join("\n")}
+List the IDs of every source your answer relies on in "sources". Use the plan ID when quoting a price.`;
+}
+
+/**
+ * Source IDs from the model's JSON reply. Anything unparseable counts as
+ * no citations.
+ */
+export function parseSourceRefs(raw: string): string[] {
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed?.sources)) return [];
+    return parsed.sources
+      .filter((ref: unknown): ref is string => typeof ref === "string")
+      .map((ref: string) => ref.replace(/[[\]]/g, "").trim().toUpperCase());
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * The prompt's sources the model actually cited, in prompt order.
+ * Unknown IDs are dropped - the model can't cite what it wasn't given.
+ */
+export function resolveCitedSources(
+  sources: KnowledgeSource[],
+  refs: string[]
+): MessageSource[] {
+  const cited = new Set(refs);
+  return sources
+    .filter((source) => cited.has(source.ref))
+    .map(({ ref: _ref, ...source }) => source);
+}
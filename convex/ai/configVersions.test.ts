@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  changedConfigFields,
+  diffLines,
+  formatConfigValue,
+  toSideBySide,
+  type AiConfigSnapshot,
+} from "./configVersions";
+
+const snapshot: AiConfigSnapshot = {
+  selectedAiModel: "gpt-5.2",
+  aiPersonality: "friendly",
+  aiResponseLength: "medium",
+  aiSystemPrompt: "Be concise.",
+  aiHandoffTriggers: ["customer_requests_human"],
+  aiHandoffKeywordOverride: false,
+  companyContextOriginal: "We sell courses.",
+  companyContextProcessed: "We sell courses.",
+};
+
+describe("changedConfigFields", () => {
+  it("lists only the fields that changed", () => {
+    expect(
+      changedConfigFields(snapshot, {
+        ...snapshot,
+        aiSystemPrompt: "Be detailed.",
+        aiHandoffTriggers: ["customer_requests_human", "billing_questions"],
+      })
+    ).toEqual(["aiSystemPrompt", "aiHandoffTriggers"]);
+  });
+
+  it("treats a recreated but equal value as unchanged", () => {
+    expect(
+      changedConfigFields(snapshot, {
+        ...snapshot,
+        aiHandoffTriggers: [...snapshot.aiHandoffTriggers],
+      })
+    ).toEqual([]);
+  });
+
+  it("reports every field for the first version", () => {
+    expect(changedConfigFields(null, snapshot)).toHaveLength(11);
+  });
+});
+
+describe("formatConfigValue", () => {
+  it("renders the topic policy one rule per line", () => {
+    expect(
+      formatConfigValue("aiTopicPolicy", {
+        allowedTopics: ["billing"],
+        blockedTopics: ["crypto"],
+        strictness: "strict",
+      })
+    ).toBe("Strictness: strict\nAllowed: billing\nBlocked: crypto");
+  });
+});
+
+describe("diffLines", () => {
+  it("marks removed and added lines around unchanged ones", () => {
+    expect(diffLines("a\nb\nc", "a\nx\nc")).toEqual([
+      { type: "same", text: "a" },
+      { type: "removed", text: "b" },
+      { type: "added", text: "x" },
+      { type: "same", text: "c" },
+    ]);
+  });
+
+  it("handles empty sides", () => {
+    expect(diffLines("", "new")).toEqual([{ type: "added", text: "new" }]);
+    expect(diffLines("old", "")).toEqual([{ type: "removed", text: "old" }]);
+  });
+});
+
+describe("toSideBySide", () => {
+  it("lines up replaced lines and pads uneven blocks", () => {
+    const rows = toSideBySide(diffLines("a\nb\nc", "a\nx\ny\nc"));
+    expect(rows.map((row) => [row.left?.text ?? null, row.right?.text ?? null])).toEqual([
+      ["a", "a"],
+      ["b", "x"],
+      [null, "y"],
+      ["c", "c"],
+    ]);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * AI CONFIG VERSIONS
+ *
+ * Every save in AI Studio or the company context editor records a full
+ * snapshot of the settings that shape AI replies. Snapshots are compared
+ * field by field for the history panel and can be restored as a new version.
+ */
+
+export type AiConfigSnapshot = {
+  selectedAiModel: string;
+  aiPersonality: "professional" | "friendly" | "casual" | "technical";
+  aiResponseLength: "brief" | "medium" | "detailed";
+  aiSystemPrompt: string;
+  aiHandoffTriggers: string[];
+  aiHandoffKeywordOverride?: boolean;
+  aiFailedAttemptsThreshold?: number;
+  aiApprovalRequired?: boolean;
+  aiTopicPolicy?: {
+    allowedTopics: string[];
+    blockedTopics: string[];
+    deflectionMessage?: string;
+    strictness: "lenient" | "balanced" | "strict";
+  };
+  companyContextOriginal: string;
+  companyContextProcessed: string;
+};
+
+export type AiConfigField = keyof AiConfigSnapshot;
+
+// Display order in the history panel
+export const AI_CONFIG_FIELD_LABELS: Record<AiConfigField, string> = {
+  aiSystemPrompt: "Custom instructions",
+  companyContextOriginal: "Company context",
+  companyContextProcessed: "Processed company context",
+  aiPersonality: "Personality",
+  aiResponseLength: "Response length",
+  selectedAiModel: "Model",
+  aiHandoffTriggers: "Handoff triggers",
+  aiHandoffKeywordOverride: "Keyword override",
+  aiFailedAttemptsThreshold: "Failed attempts before handoff",
+  aiApprovalRequired: "Approval required",
+  aiTopicPolicy: "Topic policy",
+};
+
+const AI_CONFIG_FIELDS = Object.keys(AI_CONFIG_FIELD_LABELS) as AiConfigField[];
+
+/**
+ * Pick the versioned settings off a company document
+ */
+export function snapshotAiConfig(company: AiConfigSnapshot): AiConfigSnapshot {
+  return {
+    selectedAiModel: company.selectedAiModel,
+    aiPersonality: company.aiPersonality,
+    aiResponseLength: company.aiResponseLength,
+    aiSystemPrompt: company.aiSystemPrompt,
+    aiHandoffTriggers: company.aiHandoffTriggers,
+    aiHandoffKeywordOverride: company.aiHandoffKeywordOverride,
+    aiFailedAttemptsThreshold: company.aiFailedAttemptsThreshold,
+    aiApprovalRequired: company.aiApprovalRequired,
+    aiTopicPolicy: company.aiTopicPolicy,
+    companyContextOriginal: company.companyContextOriginal,
+    companyContextProcessed: company.companyContextProcessed,
+  };
+}
+
+/**
+ * Text shown for a field in the diff. Lists go one item per line so they
+ * diff line by line like the prompt and context.
+ */
+export function formatConfigValue(
+  field: AiConfigField,
+  value: AiConfigSnapshot[AiConfigField]
+): string {
+  if (value === undefined) return "";
+  if (typeof value === "boolean") return value ? "On" : "Off";
+  if (typeof value === "string") return value;
+  if (typeof value === "number") return String(value);
+  if (Array.isArray(value)) return value.join("\n");
+  if (field === "aiTopicPolicy") {
+    const policy = value as NonNullable<AiConfigSnapshot["aiTopicPolicy"]>;
+    return [
+      `Strictness: ${policy.strictness}`,
+      ...policy.allowedTopics.map((topic) => `Allowed: ${topic}`),
+      ...policy.blockedTopics.map((topic) => `Blocked: ${topic}`),
+      ...(policy.deflectionMessage ? [`Deflection: ${policy.deflectionMessage}`] : []),
+    ].join("\n");
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Fields whose value differs between two snapshots, in display order
+ */
+export function changedConfigFields(
+  before: AiConfigSnapshot | null,
+  after: AiConfigSnapshot
+): AiConfigField[] {
+  return AI_CONFIG_FIELDS.filter(
+    (field) =>
+      !before ||
+      formatConfigValue(field, before[field]) !== formatConfigValue(field, after[field])
+  );
+}
+
+export type DiffLine = {
+  type: "same" | "removed" | "added";
+  text: string;
+};
+
+// Above this many line pairs, show the whole field as replaced
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Line diff between two texts (longest common subsequence)
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text) => ({ type: "removed" as const, text })),
+      ...b.map((text) => ({ type: "added" as const, text })),
+    ];
+  }
+
+  // lcs[i][j] = common lines between a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0)
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+
+  return lines;
+}
+
+export type SideBySideRow = {
+  left: DiffLine | null;
+  right: DiffLine | null;
+};
+
+/**
+ * Pair a line diff into before/after columns. Removed lines sit next to
+ * the lines that replaced them.
+ */
+export function toSideBySide(lines: DiffLine[]): SideBySideRow[] {
+  const rows: SideBySideRow[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (lines[index].type === "same") {
+      rows.push({ left: lines[index], right: lines[index] });
+      index++;
+      continue;
+    }
+
+    const removed: DiffLine[] = [];
+    const added: DiffLine[] = [];
+    while (index < lines.length && lines[index].type === "removed") {
+      removed.push(lines[index++]);
+    }
+    while (index < lines.length && lines[index].type === "added") {
+      added.push(lines[index++]);
+    }
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+  }
+
+  return rows;
+}
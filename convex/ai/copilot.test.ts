@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCopilotInstructions,
+  classifyDraftOutcome,
+  getDraftLimit,
+} from "./copilot";
+
+describe("classifyDraftOutcome", () => {
+  it("ignores whitespace-only changes", () => {
+    expect(classifyDraftOutcome("Hi there!\n\nYour refund is on its way.", "  Hi there! Your refund is on its way. ")).toBe("sent");
+  });
+
+  it("treats any wording change as an edit", () => {
+    expect(classifyDraftOutcome("Your refund is on its way.", "Your refund was sent today.")).toBe("edited");
+  });
+});
+
+describe("getDraftLimit", () => {
+  it("falls back to the response allowance", () => {
+    expect(getDraftLimit({ aiResponsesPerMonth: 500 })).toBe(500);
+    expect(getDraftLimit({ aiDraftsPerMonth: 50, aiResponsesPerMonth: 500 })).toBe(50);
+  });
+});
+
+describe("buildCopilotInstructions", () => {
+  it("names the agent when known", () => {
+    expect(buildCopilotInstructions("Sam")).toContain("(Sam)");
+    expect(buildCopilotInstructions(undefined)).toContain("handed off to a human support agent.");
+  });
+});
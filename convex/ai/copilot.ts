@@ -0,0 +1,50 @@
+/**
+ * AGENT COPILOT
+ *
+ * Drafts replies for human agents once a conversation has been handed off.
+ * Drafts use the same knowledge and history as customer-facing replies but
+ * are never sent automatically; the agent sends, edits or discards them.
+ */
+
+export type DraftOutcome = "sent" | "edited" | "discarded";
+
+/**
+ * Output instructions for the draft. Replaces the handoff JSON format used
+ * for customer-facing replies - the customer is already with a human.
+ */
+export function buildCopilotInstructions(agentName: string | undefined): string {
+  return `DRAFTING FOR A SUPPORT AGENT:
+This conversation has been handed off to ${agentName ? `a human support agent (${agentName})` : "a human support agent"}. Write the next reply for the agent to review and send.
+- Write in first person as the agent; earlier assistant messages were written by the AI or by agents
+- Reply with the message text only: no JSON, no preamble, no notes to the agent
+- If you need information only the agent can check (account status, payments), say what you will check instead of guessing
+- Do not offer to connect the customer with a human - they are already talking to one`;
+}
+
+// Whitespace-only differences don't count as edits
+function normalizeDraftText(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Whether the agent sent the draft as written or changed it first
+ */
+export function classifyDraftOutcome(
+  draft: string,
+  sentContent: string
+): Exclude<DraftOutcome, "discarded"> {
+  return normalizeDraftText(draft) === normalizeDraftText(sentContent)
+    ? "sent"
+    : "edited";
+}
+
+/**
+ * Monthly draft allowance. Plans without their own limit share the number
+ * of customer-facing responses, but the two are counted separately.
+ */
+export function getDraftLimit(plan: {
+  aiDraftsPerMonth?: number;
+  aiResponsesPerMonth: number;
+}): number {
+  return plan.aiDraftsPerMonth ?? plan.aiResponsesPerMonth;
+}
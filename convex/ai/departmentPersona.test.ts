@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildDepartmentInstructions,
+  filterSectionsByTopics,
+  selectPersonaProducts,
+  shouldPersonaTakeOver,
+} from "./departmentPersona";
+
+describe("shouldPersonaTakeOver", () => {
+  it("takes over routed conversations unless the customer wants a person", () => {
+    const persona = { enabled: true };
+    expect(shouldPersonaTakeOver(persona, "billing")).toBe(true);
+    expect(shouldPersonaTakeOver(persona, undefined)).toBe(true);
+    expect(shouldPersonaTakeOver(persona, "customer_requested_human")).toBe(false);
+    expect(shouldPersonaTakeOver(persona, "usage_limit")).toBe(false);
+  });
+
+  it("does nothing for departments without an enabled persona", () => {
+    expect(shouldPersonaTakeOver(undefined, "billing")).toBe(false);
+    expect(shouldPersonaTakeOver({ enabled: false }, "billing")).toBe(false);
+  });
+});
+
+describe("buildDepartmentInstructions", () => {
+  it("includes the tone and department instructions", () => {
+    const text = buildDepartmentInstructions("Billing", {
+      enabled: true,
+      personality: "professional",
+      instructions: "  Refunds only within 14 days of purchase.  ",
+    });
+    expect(text).toContain("Billing team");
+    expect(text).toContain("Tone: Polite");
+    expect(text).toContain("take precedence");
+    expect(text).toContain("Refunds only within 14 days of purchase.");
+  });
+
+  it("leaves out sections that aren't set", () => {
+    const text = buildDepartmentInstructions("Tech Support", { enabled: true });
+    expect(text).not.toContain("Tone:");
+    expect(text).not.toContain("take precedence");
+  });
+});
+
+describe("selectPersonaProducts", () => {
+  const products = [{ _id: "p1" }, { _id: "p2" }];
+
+  it("keeps only the selected products", () => {
+    expect(selectPersonaProducts(products, ["p2"])).toEqual([{ _id: "p2" }]);
+  });
+
+  it("falls back to the whole catalog", () => {
+    expect(selectPersonaProducts(products, undefined)).toEqual(products);
+    expect(selectPersonaProducts(products, ["deleted"])).toEqual(products);
+  });
+});
+
+describe("filterSectionsByTopics", () => {
+  const sections = [
+    { content: "## Refund policy\nRefunds within 14 days" },
+    { content: "## Installing the bot\nInvite it to Discord" },
+  ];
+
+  it("keeps sections mentioning a topic, case-insensitively", () => {
+    expect(filterSectionsByTopics(sections, ["REFUND"])).toEqual([sections[0]]);
+  });
+
+  it("falls back to every section when nothing matches", () => {
+    expect(filterSectionsByTopics(sections, ["shipping"])).toEqual(sections);
+    expect(filterSectionsByTopics(sections, [])).toEqual(sections);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * DEPARTMENT PERSONAS
+ *
+ * A department can run its own AI persona: a tone, instructions that sit on
+ * top of the company's, a slice of the knowledge base and its own handoff
+ * triggers. Once a customer is routed to a department with a persona, that
+ * department's AI takes the conversation first and hands off to the
+ * department's agents when its own rules say so.
+ */
+
+export type PersonaPersonality = "professional" | "friendly" | "casual" | "technical";
+
+export type DepartmentPersona = {
+  enabled: boolean;
+  personality?: PersonaPersonality;
+  instructions?: string;
+  knowledgeTopics?: string[]; // Company context sections must mention one of these
+  productIds?: string[]; // products table ids the persona may talk about
+  handoffTriggers?: string[]; // Replaces the company's aiHandoffTriggers
+};
+
+export const PERSONA_PERSONALITY_LABELS: Record<PersonaPersonality, string> = {
+  professional: "Professional",
+  friendly: "Friendly",
+  casual: "Casual",
+  technical: "Technical",
+};
+
+const PERSONALITY_TONES: Record<PersonaPersonality, string> = {
+  professional: "Polite, clear and business-appropriate.",
+  friendly: "Warm, approachable and positive.",
+  casual: "Relaxed and informal, but still helpful.",
+  technical: "Precise and detail-oriented. Ask for versions, error messages and steps to reproduce when diagnosing a problem.",
+};
+
+// Routing reasons the customer expects a person for - the persona doesn't take these
+const HUMAN_ONLY_REASONS = ["customer_requested_human", "usage_limit", "repeated_failures"];
+
+/**
+ * Whether the department's AI should pick up a conversation routed to it
+ */
+export function shouldPersonaTakeOver(
+  persona: DepartmentPersona | undefined,
+  handoffReasonCategory: string | undefined
+): boolean {
+  if (!persona?.enabled) return false;
+  return !handoffReasonCategory || !HUMAN_ONLY_REASONS.includes(handoffReasonCategory);
+}
+
+/**
+ * Instructions appended after the company's custom instructions.
+ * Department rules win where the two disagree.
+ */
+export function buildDepartmentInstructions(
+  departmentName: string,
+  persona: DepartmentPersona
+): string {
+  const lines = [
+    `DEPARTMENT: You are answering for the ${departmentName} team. Stay within what this team handles.`,
+  ];
+  if (persona.personality) {
+    lines.push(`Tone: ${PERSONALITY_TONES[persona.personality]}`);
+  }
+  if (persona.instructions?.trim()) {
+    lines.push(
+      `${departmentName} instructions (these take precedence over earlier instructions):\n${persona.instructions.trim()}`
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Products the persona may use. An empty selection - or one that no longer
+ * matches any product - means the whole catalog.
+ */
+export function selectPersonaProducts<T extends { _id: unknown }>(
+  products: T[],
+  productIds: string[] | undefined
+): T[] {
+  if (!productIds || productIds.length === 0) return products;
+  const allowed = new Set(productIds);
+  const selected = products.filter((product) => allowed.has(String(product._id)));
+  return selected.length > 0 ? selected : products;
+}
+
+export function matchesKnowledgeTopics(content: string, topics: string[]): boolean {
+  const text = content.toLowerCase();
+  return topics.some((topic) => {
+    const needle = topic.trim().toLowerCase();
+    return needle.length > 0 && text.includes(needle);
+  });
+}
+
+/**
+ * Context sections within the persona's topics. Falls back to every section
+ * when no topics are set or none match, so the AI is never left without
+ * company context.
+ */
+export function filterSectionsByTopics<T extends { content: string }>(
+  sections: T[],
+  topics: string[] | undefined
+): T[] {
+  if (!topics || topics.length === 0) return sections;
+  const matching = sections.filter((section) => matchesKnowledgeTopics(section.content, topics));
+  return matching.length > 0 ? matching : sections;
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { compareEvalResults, gradeEvalAnswer, validateEvalCase } from "./evals";
+
+const refundCase = {
+  question: "Can I get a refund?",
+  expectedFacts: ["7 days", "$1,000"],
+  forbiddenPhrases: ["guaranteed"],
+  expectHandoff: false,
+};
+
+describe("gradeEvalAnswer", () => {
+  it("passes when every fact is present and nothing forbidden is said", () => {
+    const grade = gradeEvalAnswer(refundCase, {
+      answer: "Refunds are available within 7  Days on orders under $1000.",
+      handoff: false,
+    });
+    expect(grade.passed).toBe(true);
+    expect(grade.checks).toHaveLength(4);
+  });
+
+  it("reports each failing check", () => {
+    const grade = gradeEvalAnswer(refundCase, {
+      answer: "A refund is guaranteed.",
+      handoff: true,
+    });
+    expect(grade.passed).toBe(false);
+    expect(grade.checks.filter((c) => !c.passed).map((c) => c.kind)).toEqual([
+      "fact",
+      "fact",
+      "forbidden",
+      "handoff",
+    ]);
+  });
+
+  it("skips the handoff check when no expectation is set", () => {
+    const grade = gradeEvalAnswer(
+      { ...refundCase, expectedFacts: [], forbiddenPhrases: [], expectHandoff: undefined },
+      { answer: "", handoff: true }
+    );
+    expect(grade).toEqual({ passed: true, checks: [] });
+  });
+});
+
+describe("validateEvalCase", () => {
+  it("requires a question and at least one check", () => {
+    expect(validateEvalCase({ ...refundCase, question: " " })).toBe("Question is required");
+    expect(
+      validateEvalCase({ question: "Hi", expectedFacts: [" "], forbiddenPhrases: [] })
+    ).not.toBeNull();
+    expect(validateEvalCase(refundCase)).toBeNull();
+  });
+});
+
+describe("compareEvalResults", () => {
+  it("labels regressions and fixes against the previous run", () => {
+    const changes = compareEvalResults(
+      [
+        { caseId: "a", passed: true, answer: "old a" },
+        { caseId: "b", passed: false, answer: "old b" },
+        { caseId: "c", passed: true, answer: "old c" },
+      ],
+      [
+        { caseId: "a", passed: false, answer: "new a" },
+        { caseId: "b", passed: true, answer: "new b" },
+        { caseId: "c", passed: true, answer: "old c" },
+        { caseId: "d", passed: true, answer: "new d" },
+      ]
+    );
+    expect(changes).toEqual({
+      a: { change: "regressed", previousAnswer: "old a" },
+      b: { change: "fixed", previousAnswer: "old b" },
+      c: { change: "still_passing", previousAnswer: "old c" },
+      d: { change: "new" },
+    });
+  });
+});
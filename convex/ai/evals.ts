@@ -0,0 +1,120 @@
+/**
+ * GOLDEN-QUESTION EVALS
+ *
+ * Saved test cases per company: a customer question, facts the answer must
+ * mention, phrases it must never contain and whether it should hand off.
+ * A run replays every case against the AI config and grades the replies,
+ * so prompt, context and catalog edits can be checked before going live.
+ */
+
+// Keeps a single run within a few minutes of model calls
+export const MAX_EVAL_CASES = 50;
+
+export type EvalCase = {
+  question: string;
+  expectedFacts: string[];
+  forbiddenPhrases: string[];
+  expectHandoff?: boolean; // Unset = don't check
+};
+
+export type EvalCheck = {
+  kind: "fact" | "forbidden" | "handoff";
+  expected: string;
+  passed: boolean;
+};
+
+export type EvalGrade = {
+  passed: boolean;
+  checks: EvalCheck[];
+};
+
+// Case, whitespace and thousands separators shouldn't fail a fact
+function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(\d),(?=\d{3}\b)/g, "$1")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function gradeEvalAnswer(
+  testCase: EvalCase,
+  reply: { answer: string; handoff: boolean }
+): EvalGrade {
+  const answer = normalizeForMatch(reply.answer);
+  const checks: EvalCheck[] = [];
+
+  for (const fact of testCase.expectedFacts) {
+    checks.push({
+      kind: "fact",
+      expected: fact,
+      passed: answer.includes(normalizeForMatch(fact)),
+    });
+  }
+
+  for (const phrase of testCase.forbiddenPhrases) {
+    checks.push({
+      kind: "forbidden",
+      expected: phrase,
+      passed: !answer.includes(normalizeForMatch(phrase)),
+    });
+  }
+
+  if (testCase.expectHandoff !== undefined) {
+    checks.push({
+      kind: "handoff",
+      expected: testCase.expectHandoff ? "Hands off" : "Answers without handoff",
+      passed: reply.handoff === testCase.expectHandoff,
+    });
+  }
+
+  return {
+    passed: checks.every((check) => check.passed),
+    checks,
+  };
+}
+
+/**
+ * Error message for a case the admin is saving, or null when it's valid
+ */
+export function validateEvalCase(testCase: EvalCase): string | null {
+  if (!testCase.question.trim()) return "Question is required";
+  const hasCheck =
+    testCase.expectedFacts.some((f) => f.trim()) ||
+    testCase.forbiddenPhrases.some((p) => p.trim()) ||
+    testCase.expectHandoff !== undefined;
+  if (!hasCheck) {
+    return "Add an expected fact, a forbidden phrase or a handoff expectation";
+  }
+  return null;
+}
+
+export type EvalChange = "fixed" | "regressed" | "still_passing" | "still_failing" | "new";
+
+/**
+ * How each case moved compared with the previous run
+ */
+export function compareEvalResults(
+  previous: Array<{ caseId: string; passed: boolean; answer: string }>,
+  current: Array<{ caseId: string; passed: boolean; answer: string }>
+): Record<string, { change: EvalChange; previousAnswer?: string }> {
+  const previousByCase = new Map(previous.map((result) => [result.caseId, result]));
+  const changes: Record<string, { change: EvalChange; previousAnswer?: string }> = {};
+
+  for (const result of current) {
+    const before = previousByCase.get(result.caseId);
+    if (!before) {
+      changes[result.caseId] = { change: "new" };
+      continue;
+    }
+
+    let change: EvalChange;
+    if (before.passed && !result.passed) change = "regressed";
+    else if (!before.passed && result.passed) change = "fixed";
+    else change = result.passed ? "still_passing" : "still_failing";
+
+    changes[result.caseId] = { change, previousAnswer: before.answer };
+  }
+
+  return changes;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { assignVariant, summarizeVariant } from "./experiments";
+
+describe("assignVariant", () => {
+  it("gives the same seed the same variant", () => {
+    expect(assignVariant("conv_123", 50)).toBe(assignVariant("conv_123", 50));
+  });
+
+  it("respects 0% and 100% splits", () => {
+    expect(assignVariant("anything", 0)).toBe("a");
+    expect(assignVariant("anything", 100)).toBe("b");
+  });
+
+  it("roughly follows the split", () => {
+    const seeds = Array.from({ length: 2000 }, (_, i) => `customer_${i}`);
+    const toB = seeds.filter((seed) => assignVariant(seed, 20) === "b").length;
+    expect(toB / seeds.length).toBeGreaterThan(0.15);
+    expect(toB / seeds.length).toBeLessThan(0.25);
+  });
+});
+
+describe("summarizeVariant", () => {
+  it("computes rates from the variant's conversations", () => {
+    const stats = summarizeVariant(
+      [
+        { status: "resolved" },
+        { status: "resolved", handoffTriggeredAt: 1, csatRating: "negative" },
+        { status: "ai_handling", csatRating: "positive" },
+        { status: "resolved", csatRating: "positive" },
+      ],
+      { aiReplies: 8, tokensUsed: 4000 }
+    );
+    expect(stats).toEqual({
+      conversations: 4,
+      handoffRate: 25,
+      deflectionRate: 50,
+      csatScore: 66.7,
+      csatResponses: 3,
+      aiReplies: 8,
+      avgTokensPerReply: 500,
+    });
+  });
+
+  it("has no CSAT score until someone rates", () => {
+    expect(summarizeVariant([], { aiReplies: 0, tokensUsed: 0 }).csatScore).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * A/B EXPERIMENTS
+ *
+ * An experiment splits new conversations between two saved config versions
+ * (see configVersions.ts). Each conversation keeps its variant for life, so
+ * a customer never sees the AI change mid-conversation. Insights compare the
+ * variants and the admin promotes the winner to the live config.
+ *
+ * Variants swap the settings used to build the prompt. Knowledge retrieval
+ * for large knowledge bases still searches the live index, so context edits
+ * are only compared in full for companies small enough to send everything.
+ */
+
+export type ExperimentVariant = "a" | "b";
+
+// FNV-1a - stable across deploys, unlike Math.random
+function hashToBucket(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) % 100;
+}
+
+/**
+ * Variant for a new conversation. `splitToB` is the percentage of traffic
+ * that gets variant B.
+ */
+export function assignVariant(seed: string, splitToB: number): ExperimentVariant {
+  return hashToBucket(seed) < splitToB ? "b" : "a";
+}
+
+export type VariantConversation = {
+  status: string;
+  handoffTriggeredAt?: number;
+  csatRating?: "positive" | "negative";
+};
+
+export type VariantStats = {
+  conversations: number;
+  handoffRate: number; // 0-100
+  deflectionRate: number; // 0-100, resolved without a human
+  csatScore: number | null; // 0-100 positive, null until someone rates
+  csatResponses: number;
+  aiReplies: number;
+  avgTokensPerReply: number;
+};
+
+export function summarizeVariant(
+  conversations: VariantConversation[],
+  usage: { aiReplies: number; tokensUsed: number }
+): VariantStats {
+  const total = conversations.length;
+  const handedOff = conversations.filter((c) => c.handoffTriggeredAt !== undefined).length;
+  const deflected = conversations.filter(
+    (c) => c.status === "resolved" && c.handoffTriggeredAt === undefined
+  ).length;
+  const rated = conversations.filter((c) => c.csatRating !== undefined);
+  const positive = rated.filter((c) => c.csatRating === "positive").length;
+
+  const percent = (count: number, of: number) =>
+    of === 0 ? 0 : Math.round((count / of) * 1000) / 10;
+
+  return {
+    conversations: total,
+    handoffRate: percent(handedOff, total),
+    deflectionRate: percent(deflected, total),
+    csatScore: rated.length === 0 ? null : percent(positive, rated.length),
+    csatResponses: rated.length,
+    aiReplies: usage.aiReplies,
+    avgTokensPerReply:
+      usage.aiReplies === 0 ? 0 : Math.round(usage.tokensUsed / usage.aiReplies),
+  };
+}
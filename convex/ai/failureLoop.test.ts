@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import {
+  clampFailedAttemptsThreshold,
+  contentWords,
+  detectFailureLoop,
+  isBareFollowUp,
+  questionSimilarity,
+  saysNotResolved,
+  type LoopMessage,
+} from "./failureLoop";
+
+const customer = (content: string): LoopMessage => ({ role: "customer", content });
+const ai = (content: string, customerFeedback?: LoopMessage["customerFeedback"]): LoopMessage => ({
+  role: "ai",
+  content,
+  customerFeedback,
+});
+
+describe("questionSimilarity", () => {
+  it("matches a rephrased question", () => {
+    expect(
+      questionSimilarity(
+        contentWords("How do I cancel my subscription?"),
+        contentWords("cancel the subscriptions please")
+      )
+    ).toBe(1);
+  });
+
+  it("doesn't match different questions or one-word messages", () => {
+    expect(
+      questionSimilarity(
+        contentWords("How do I cancel my subscription?"),
+        contentWords("Where do I find the Discord invite link?")
+      )
+    ).toBe(0);
+    expect(questionSimilarity(contentWords("refund"), contentWords("refund please now"))).toBe(0);
+  });
+});
+
+describe("saysNotResolved", () => {
+  it("recognises customers saying the answer didn't help", () => {
+    expect(saysNotResolved("That didn't help at all")).toBe(true);
+    expect(saysNotResolved("It's still not working")).toBe(true);
+    expect(saysNotResolved("I already tried that")).toBe(true);
+    expect(saysNotResolved("Great, that worked!")).toBe(false);
+  });
+});
+
+describe("isBareFollowUp", () => {
+  it("matches follow-ups that neither accept the answer nor ask something new", () => {
+    expect(isBareFollowUp("where??")).toBe(true);
+    expect(isBareFollowUp("huh")).toBe(true);
+    expect(isBareFollowUp("Thanks!")).toBe(false);
+    expect(isBareFollowUp("ok got it")).toBe(false);
+    expect(isBareFollowUp("Where is the Discord invite link?")).toBe(false);
+  });
+});
+
+describe("detectFailureLoop", () => {
+  it("fires once failed attempts reach the threshold", () => {
+    const messages = [
+      customer("How do I cancel my subscription?"),
+      ai("Go to Settings > Billing."),
+      customer("I can't find where to cancel the subscription"),
+      ai("Open your Whop dashboard and pick Memberships."),
+      customer("That didn't help, there's no button"),
+      ai("Try the mobile app.", "not_helpful"),
+    ];
+
+    expect(detectFailureLoop(messages, 4)).toBeNull();
+    expect(detectFailureLoop(messages, 3)).toEqual({
+      failedAttempts: 3,
+      signals: { rephrased_question: 1, not_resolved: 1, negative_feedback: 1 },
+      reason:
+        "AI couldn't resolve the issue after 3 attempts (1× question asked again, 1× customer said it didn't help, 1× reply rated not helpful)",
+    });
+  });
+
+  it("doesn't count follow-up messages sent before the AI answered", () => {
+    const messages = [
+      customer("How do I cancel my subscription?"),
+      customer("cancel subscription"),
+      ai("Go to Settings > Billing."),
+      customer("Where is the Discord invite link?"),
+      ai("It's in the welcome email."),
+    ];
+    expect(detectFailureLoop(messages, 2)).toBeNull();
+  });
+
+  it("counts each AI reply once", () => {
+    const messages = [
+      customer("How do I cancel my subscription?"),
+      ai("Go to Settings > Billing.", "not_helpful"),
+      customer("That didn't help, how do I cancel my subscription"),
+    ];
+    expect(detectFailureLoop(messages, 2)).toBeNull();
+  });
+
+  it("counts replies the customer couldn't move on from", () => {
+    const messages = [
+      customer("How do I change my email address?"),
+      ai("You can do that from your account."),
+      customer("where"),
+      ai("In the settings area."),
+      customer("huh??"),
+      ai("Look for the profile section."),
+      customer("which one"),
+    ];
+
+    expect(detectFailureLoop(messages, 3)).toMatchObject({
+      failedAttempts: 3,
+      signals: { no_progress: 3 },
+    });
+  });
+
+  it("doesn't count thank-yous or short answers to the AI's questions", () => {
+    const messages = [
+      customer("How do I change my email address?"),
+      ai("Is it for your Whop login or for receipts?"),
+      customer("login"),
+      ai("Go to Settings > Account > Email."),
+      customer("thanks"),
+      ai("Anything else?"),
+      customer("nope"),
+    ];
+    expect(detectFailureLoop(messages, 2)).toBeNull();
+  });
+
+  it("starts over after a helpful reply or an agent message", () => {
+    const failing = [
+      customer("How do I cancel my subscription?"),
+      ai("Go to Settings > Billing.", "not_helpful"),
+      customer("Still not working"),
+      ai("Try again later.", "not_helpful"),
+    ];
+
+    expect(detectFailureLoop(failing, 2)).not.toBeNull();
+    expect(detectFailureLoop([...failing, ai("Here's the direct link.", "helpful")], 2)).toBeNull();
+    expect(
+      detectFailureLoop([...failing.slice(0, 2), { role: "agent", content: "Hi!" }, ...failing.slice(2)], 2)
+    ).toBeNull();
+  });
+});
+
+describe("clampFailedAttemptsThreshold", () => {
+  it("defaults and clamps the company setting", () => {
+    expect(clampFailedAttemptsThreshold(undefined)).toBe(3);
+    expect(clampFailedAttemptsThreshold(1)).toBe(2);
+    expect(clampFailedAttemptsThreshold(10)).toBe(6);
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * FAILURE LOOP DETECTION
+ *
+ * Powers the "multiple_failed_attempts" handoff trigger. An AI reply counts
+ * as a failed attempt when the customer:
+ * - rated it not helpful,
+ * - answered by asking the same question again in other words,
+ * - answered that it still doesn't work, or
+ * - answered without moving on: a bare follow-up like "where?" or "huh?",
+ *   rather than a thank-you or a new question. Short answers to a reply
+ *   that asked the customer something don't count.
+ *
+ * Once the failed attempts since the last sign of progress reach the
+ * company's threshold, the conversation goes to a human. A reply rated
+ * helpful counts as progress and clears the count, and so does an agent or
+ * system message (a handoff, a department switch) - the AI starts over.
+ */
+
+export type FailureSignal =
+  | "negative_feedback"
+  | "rephrased_question"
+  | "not_resolved"
+  | "no_progress";
+
+export const FAILURE_SIGNAL_LABELS: Record<FailureSignal, string> = {
+  negative_feedback: "reply rated not helpful",
+  rephrased_question: "question asked again",
+  not_resolved: "customer said it didn't help",
+  no_progress: "reply that didn't move things on",
+};
+
+export const DEFAULT_FAILED_ATTEMPTS_THRESHOLD = 3;
+export const MIN_FAILED_ATTEMPTS_THRESHOLD = 2;
+export const MAX_FAILED_ATTEMPTS_THRESHOLD = 6;
+
+// Share of content words two questions must have in common to count as a rephrase
+export const REPHRASE_SIMILARITY = 0.5;
+
+export type LoopMessage = {
+  role: "customer" | "ai" | "agent" | "system";
+  content: string;
+  customerFeedback?: "helpful" | "not_helpful";
+};
+
+export type FailureLoop = {
+  failedAttempts: number;
+  signals: Partial<Record<FailureSignal, number>>;
+  reason: string;
+};
+
+const STOPWORDS = new Set([
+  "a", "an", "the", "and", "or", "but", "to", "of", "in", "on", "for", "with",
+  "at", "by", "from", "is", "are", "was", "were", "be", "been", "am", "do",
+  "does", "did", "i", "me", "my", "you", "your", "it", "its", "this", "that",
+  "can", "could", "would", "should", "will", "how", "what", "why", "when",
+  "where", "which", "who", "please", "just", "so", "again", "still", "there",
+  "have", "has", "had", "get", "any", "some", "hi", "hey", "hello", "thanks",
+  "not", "no", "yes", "ok", "okay", "about", "im", "dont", "cant", "we", "our",
+]);
+
+const NOT_RESOLVED_PATTERNS = [
+  /\b(still|again)\b.{0,30}\b(not|n't|doesn't|does not|isn't|can't|cannot|won't|broken|failing|same)\b/i,
+  /\b(didn't|did not|doesn't|does not)\s+(help|work|answer|fix)\b/i,
+  /\bthat'?s?\s+not\s+(what i|my question|it|helpful|right)\b/i,
+  /\b(you('re| are)?\s+not\s+(understanding|listening|helping))\b/i,
+  /\b(same|that)\s+(answer|reply|response)\s+(again|as before)\b/i,
+  /\bi\s+(already|just)\s+(tried|did|said|told you)\b/i,
+];
+
+// "Thanks", "ok", "got it" - the customer accepted the answer
+const ACKNOWLEDGEMENT_PATTERN =
+  /\b(thanks|thank you|thx|ty|ok|okay|great|perfect|awesome|cool|nice|got it|works|worked|solved|fixed|sorted)\b/i;
+
+/**
+ * Lowercased content words, with a trailing "s" dropped so plurals match
+ */
+export function contentWords(text: string): Set<string> {
+  const words = text
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOPWORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith("s") ? word.slice(0, -1) : word));
+  return new Set(words);
+}
+
+/**
+ * Overlap of two word sets relative to the smaller one (0-1). Short
+ * follow-ups ("cancel subscription") still match the longer original.
+ */
+export function questionSimilarity(a: Set<string>, b: Set<string>): number {
+  const smaller = a.size <= b.size ? a : b;
+  const larger = smaller === a ? b : a;
+  if (smaller.size < 2) return 0;
+  let shared = 0;
+  for (const word of smaller) {
+    if (larger.has(word)) shared++;
+  }
+  return shared / smaller.size;
+}
+
+export function saysNotResolved(text: string): boolean {
+  return NOT_RESOLVED_PATTERNS.some((pattern) => pattern.test(text));
+}
+
+/**
+ * A follow-up that neither accepts the answer nor asks something new
+ * ("where?", "huh", "??")
+ */
+export function isBareFollowUp(text: string, words: Set<string> = contentWords(text)): boolean {
+  return words.size < 2 && !ACKNOWLEDGEMENT_PATTERN.test(text);
+}
+
+export function clampFailedAttemptsThreshold(threshold: number | undefined): number {
+  if (threshold === undefined || !Number.isFinite(threshold)) {
+    return DEFAULT_FAILED_ATTEMPTS_THRESHOLD;
+  }
+  return Math.min(
+    MAX_FAILED_ATTEMPTS_THRESHOLD,
+    Math.max(MIN_FAILED_ATTEMPTS_THRESHOLD, Math.round(threshold))
+  );
+}
+
+/**
+ * Failed AI attempts in a conversation's recent messages (oldest first).
+ * Returns null until they reach `threshold`.
+ */
+export function detectFailureLoop(
+  messages: LoopMessage[],
+  threshold: number
+): FailureLoop | null {
+  // AI reply index -> why it failed (each reply counts once)
+  let failed = new Map<number, FailureSignal>();
+  let questions: Array<{ words: Set<string>; answered: boolean }> = [];
+  let lastAiIndex: number | null = null;
+  let lastAiAsked = false;
+
+  messages.forEach((message, index) => {
+    if (message.role === "agent" || message.role === "system") {
+      failed = new Map();
+      questions = [];
+      lastAiIndex = null;
+      return;
+    }
+
+    if (message.role === "ai") {
+      questions.forEach((question) => (question.answered = true));
+      lastAiIndex = index;
+      lastAiAsked = message.content.trim().endsWith("?");
+      if (message.customerFeedback === "helpful") {
+        failed = new Map();
+      } else if (message.customerFeedback === "not_helpful") {
+        failed.set(index, "negative_feedback");
+      }
+      return;
+    }
+
+    const words = contentWords(message.content);
+    if (lastAiIndex !== null && !failed.has(lastAiIndex)) {
+      const repeatsAnsweredQuestion = questions.some(
+        (question) =>
+          question.answered && questionSimilarity(question.words, words) >= REPHRASE_SIMILARITY
+      );
+      if (repeatsAnsweredQuestion) {
+        failed.set(lastAiIndex, "rephrased_question");
+      } else if (saysNotResolved(message.content)) {
+        failed.set(lastAiIndex, "not_resolved");
+      } else if (!lastAiAsked && isBareFollowUp(message.content, words)) {
+        failed.set(lastAiIndex, "no_progress");
+      }
+    }
+    questions.push({ words, answered: false });
+  });
+
+  if (failed.size < threshold) return null;
+
+  const signals: Partial<Record<FailureSignal, number>> = {};
+  for (const signal of failed.values()) {
+    signals[signal] = (signals[signal] || 0) + 1;
+  }
+  const breakdown = (Object.keys(signals) as FailureSignal[])
+    .map((signal) => `${signals[signal]}× ${FAILURE_SIGNAL_LABELS[signal]}`)
+    .join(", ");
+
+  return {
+    failedAttempts: failed.size,
+    signals,
+    reason: `AI couldn't resolve the issue after ${failed.size} attempts (${breakdown})`,
+  };
+}
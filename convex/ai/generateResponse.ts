@@ -10,11 +10,11 @@
 import { v } from "convex/values";
 import { action } from "../_generated/server";
 import { api } from "../_generated/api";
-import OpenAI from "openai";
+import type OpenAI from "openai";
+import { getOpenAIClient } from "./providers";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Assistants API is OpenAI-specific, so these paths use the shared client directly
+const openai = getOpenAIClient();
 
 /**
  * Get token limit based on response length setting
@@ -1296,7 +1296,7 @@ export const generateAIResponse = action({
           const sanitizedResponse = sanitizeAIResponse(fullResponse);
           console.log("[AI] Sanitized response:", sanitizedResponse.substring(0, 200));
 
-          await ctx.runMutation(api.messages.mutations.createMessage, {
+          const aiMessageId = await ctx.runMutation(api.messages.mutations.createMessage, {
             conversationId,
             role: "ai",
             content: sanitizedResponse,
@@ -1310,6 +1310,9 @@ export const generateAIResponse = action({
             conversationId,
             aiModel: aiConfig.selectedAiModel,
             tokensUsed: usage?.total_tokens || 0,
+            promptTokens: usage?.prompt_tokens || 0,
+            completionTokens: usage?.completion_tokens || 0,
+            messageId: aiMessageId,
             experienceId,
           });
           
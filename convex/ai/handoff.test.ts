@@ -0,0 +1,164 @@
+import { describe, expect, it } from "vitest";
+import {
+  HANDOFF_DECISION_SCHEMA,
+  buildHandoffInstructions,
+  extractStreamingAnswer,
+  isStreamingHandoff,
+  parseHandoffDecision,
+  resolveHandoff,
+  type HandoffDecision,
+} from "./handoff";
+import { createFakeProvider } from "./providers/fake";
+
+const answered: HandoffDecision = {
+  answer: "The Pro plan is $29/month.",
+  handoff: false,
+  reasonCategory: "none",
+  reason: "",
+  confidence: 0.9,
+};
+
+describe("parseHandoffDecision", () => {
+  it("reads a structured reply and clamps confidence", () => {
+    expect(
+      parseHandoffDecision(
+        JSON.stringify({
+          handoff: true,
+          reasonCategory: "billing",
+          reason: "Refund request",
+          confidence: 1.4,
+          answer: "",
+        })
+      )
+    ).toEqual({
+      answer: "",
+      handoff: true,
+      reasonCategory: "billing",
+      reason: "Refund request",
+      confidence: 1,
+    });
+  });
+
+  it("treats non-JSON output as a plain answer", () => {
+    expect(parseHandoffDecision("Hello there")).toEqual({
+      answer: "Hello there",
+      handoff: false,
+      reasonCategory: "none",
+      reason: "",
+    });
+  });
+
+  it("parses the fake provider's schema-shaped reply", async () => {
+    const provider = createFakeProvider();
+    const result = await provider.chat({
+      model: "test",
+      messages: [{ role: "user", content: "How much is Pro?" }],
+      jsonSchema: HANDOFF_DECISION_SCHEMA,
+    });
+
+    const decision = parseHandoffDecision(result.content);
+    expect(decision.answer).toBe("[fake:test] How much is Pro?");
+    expect(decision.handoff).toBe(false);
+  });
+});
+
+describe("extractStreamingAnswer", () => {
+  it("returns the answer text decoded so far", () => {
+    const partial =
+      '{"handoff":false,"reasonCategory":"none","reason":"","confidence":0.8,"answer":"Line one\\nsays \\"hi\\" \\u00e9';
+    expect(extractStreamingAnswer(partial)).toBe('Line one\nsays "hi" é');
+    expect(extractStreamingAnswer('{"handoff":false,"confid')).toBe("");
+  });
+
+  it("drops an escape sequence split across chunks", () => {
+    expect(extractStreamingAnswer('{"answer":"Hi\\')).toBe("Hi");
+    expect(extractStreamingAnswer('{"answer":"Hi\\u00')).toBe("Hi");
+  });
+
+  it("passes plain-text streams through", () => {
+    expect(extractStreamingAnswer("Plain reply")).toBe("Plain reply");
+  });
+
+  it("spots a handoff before the answer streams", () => {
+    expect(isStreamingHandoff('{"handoff": true,"reasonCat')).toBe(true);
+    expect(isStreamingHandoff('{"handoff":false')).toBe(false);
+  });
+});
+
+describe("resolveHandoff", () => {
+  const enabledTriggers = ["customer_requests_human", "billing_questions"];
+
+  it("does not hand off a pricing question the AI answered", () => {
+    expect(
+      resolveHandoff({
+        decision: answered,
+        enabledTriggers,
+        keywordOverride: false,
+        customerMessage: "What's the price of Pro?",
+      }).shouldHandoff
+    ).toBe(false);
+  });
+
+  it("applies keyword triggers only when the override is on", () => {
+    expect(
+      resolveHandoff({
+        decision: answered,
+        enabledTriggers,
+        keywordOverride: true,
+        customerMessage: "What's the price of Pro?",
+      })
+    ).toEqual({
+      shouldHandoff: true,
+      category: "billing",
+      reason: 'Customer message matched handoff trigger: "price"',
+    });
+  });
+
+  it("follows the model's decision for enabled triggers only", () => {
+    const billingHandoff: HandoffDecision = {
+      ...answered,
+      handoff: true,
+      reasonCategory: "billing",
+      reason: "Disputed charge",
+    };
+    expect(
+      resolveHandoff({
+        decision: billingHandoff,
+        enabledTriggers,
+        keywordOverride: false,
+        customerMessage: "I was charged twice",
+      })
+    ).toEqual({ shouldHandoff: true, category: "billing", reason: "Disputed charge" });
+
+    expect(
+      resolveHandoff({
+        decision: billingHandoff,
+        enabledTriggers: ["customer_requests_human"],
+        keywordOverride: false,
+        customerMessage: "I was charged twice",
+      }).shouldHandoff
+    ).toBe(false);
+  });
+
+  it("hands off low-confidence answers when the trigger is on", () => {
+    const lowConfidence = {
+      decision: { ...answered, confidence: 0.1 },
+      keywordOverride: false,
+      customerMessage: "Can I transfer my license?",
+    };
+    expect(
+      resolveHandoff({ ...lowConfidence, enabledTriggers: [...enabledTriggers, "low_confidence"] })
+        .category
+    ).toBe("low_confidence");
+    expect(resolveHandoff({ ...lowConfidence, enabledTriggers }).shouldHandoff).toBe(false);
+  });
+});
+
+describe("buildHandoffInstructions", () => {
+  it("lists only enabled triggers plus custom ones", () => {
+    const instructions = buildHandoffInstructions(["billing_questions", "partnership requests"]);
+    expect(instructions).toContain("refunds, failed or disputed charges");
+    expect(instructions).toContain("- partnership requests");
+    expect(instructions).not.toContain("talk to a human");
+  });
+});
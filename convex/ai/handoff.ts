@@ -0,0 +1,320 @@
+/**
+ * HANDOFF DECISIONS
+ *
+ * The model returns a structured decision alongside every answer (handoff
+ * yes/no, reason category, confidence). Keyword triggers from AI Studio are
+ * only applied as a hard override when the company opts in. Answers below
+ * LOW_CONFIDENCE_THRESHOLD hand off only when the "low_confidence" trigger
+ * is on.
+ */
+
+import type { JsonSchemaFormat } from "./providers";
+
+// Every handoff is filed under one of these so insights can chart them
+export const HANDOFF_REASON_CATEGORIES = [
+  "customer_requested_human",
+  "billing",
+  "account_access",
+  "technical_issue",
+  "negative_sentiment",
+  "low_confidence",
+  "keyword_trigger",
+  "usage_limit",
+  "automation_rule",
+  "repeated_failures",
+  "other",
+] as const;
+
+export type HandoffReasonCategory = (typeof HANDOFF_REASON_CATEGORIES)[number];
+
+export const HANDOFF_REASON_LABELS: Record<HandoffReasonCategory, string> = {
+  customer_requested_human: "Customer requested a human",
+  billing: "Billing issue",
+  account_access: "Account or access issue",
+  technical_issue: "Technical issue",
+  negative_sentiment: "Frustrated customer",
+  low_confidence: "AI not confident",
+  keyword_trigger: "Keyword trigger",
+  usage_limit: "AI usage limit reached",
+  automation_rule: "Automation rule",
+  repeated_failures: "AI couldn't resolve it",
+  other: "Other",
+};
+
+// Categories the model may pick ("none" when it isn't handing off)
+const MODEL_REASON_CATEGORIES = [
+  "none",
+  "customer_requested_human",
+  "billing",
+  "account_access",
+  "technical_issue",
+  "negative_sentiment",
+  "other",
+] as const;
+
+// Below this the answer is treated as a guess and a human takes over
+export const LOW_CONFIDENCE_THRESHOLD = 0.3;
+
+/**
+ * Structured output requested from the model. The decision fields come
+ * before `answer` so a handoff is known before any answer text streams;
+ * `sources` (see citations.ts) comes after it.
+ */
+export const HANDOFF_DECISION_SCHEMA: JsonSchemaFormat = {
+  name: "support_reply",
+  schema: {
+    type: "object",
+    properties: {
+      handoff: { type: "boolean" },
+      reasonCategory: { type: "string", enum: [...MODEL_REASON_CATEGORIES] },
+      reason: { type: "string" },
+      confidence: { type: "number" },
+      answer: { type: "string" },
+      sources: { type: "array", items: { type: "string" } },
+    },
+    required: ["handoff", "reasonCategory", "reason", "confidence", "answer", "sources"],
+    additionalProperties: false,
+  },
+};
+
+export type HandoffDecision = {
+  answer: string;
+  handoff: boolean;
+  reasonCategory: HandoffReasonCategory | "none";
+  reason: string;
+  confidence?: number;
+};
+
+// Built-in AI Studio triggers and the category each one files under
+export const TRIGGER_CATEGORIES: Record<string, HandoffReasonCategory> = {
+  customer_requests_human: "customer_requested_human",
+  billing_questions: "billing",
+  negative_sentiment: "negative_sentiment",
+  multiple_failed_attempts: "repeated_failures",
+  low_confidence: "low_confidence",
+};
+
+// Keyword phrases used when the keyword override is enabled
+const TRIGGER_PHRASES: Record<string, string[]> = {
+  customer_requests_human: [
+    "speak to a human", "talk to a human", "real person", "human agent",
+    "talk to someone", "speak to someone", "real agent", "live agent",
+    "customer service", "support agent", "talk to support", "speak to support",
+    "need a human", "want a human", "get me a human", "transfer me"
+  ],
+  billing_questions: [
+    "billing", "payment", "refund", "charge", "invoice", "subscription",
+    "cancel my", "charged me", "money back", "pricing", "cost", "price",
+    "credit card", "debit card", "transaction"
+  ],
+  negative_sentiment: [
+    "frustrated", "angry", "upset", "terrible", "awful", "horrible",
+    "worst", "hate", "useless", "waste of time", "ridiculous", "unacceptable",
+    "disappointed", "disgusted", "furious"
+  ],
+  multiple_failed_attempts: [], // Detected from the conversation itself - see failureLoop.ts
+  low_confidence: [], // Read from the model's confidence
+};
+
+/**
+ * Prompt section describing the JSON reply and when to hand off,
+ * based on the triggers the company enabled in AI Studio.
+ */
+export function buildHandoffInstructions(enabledTriggers: string[]): string {
+  const rules: string[] = [];
+  if (enabledTriggers.includes("customer_requests_human")) {
+    rules.push("- The customer asks to talk to a human, agent, or real person");
+  }
+  if (enabledTriggers.includes("billing_questions")) {
+    rules.push(
+      "- A billing problem needs account access: refunds, failed or disputed charges, cancellations. General pricing questions you can answer from the product list are NOT a reason to hand off"
+    );
+  }
+  if (enabledTriggers.includes("negative_sentiment")) {
+    rules.push("- The customer is clearly frustrated or angry");
+  }
+  const customTriggers = enabledTriggers.filter(
+    (trigger) => !(trigger in TRIGGER_PHRASES)
+  );
+  for (const trigger of customTriggers) {
+    rules.push(`- ${trigger} (use reasonCategory "other")`);
+  }
+  rules.push("- You cannot answer from the information above and guessing would mislead the customer");
+
+  return `RESPONSE FORMAT:
+Reply with a JSON object:
+- "handoff": true only when a human support agent must take over
+- "reasonCategory": why you are handing off, or "none"
+- "reason": one short sentence for the support team (empty when not handing off)
+- "confidence": 0 to 1, how sure you are that your answer is correct and based on the information above
+- "answer": the message shown to the customer
+- "sources": the source IDs your answer relies on, e.g. ["C2", "P1.1"]; [] if it relies on none
+
+Hand off when:
+${rules.join("\n")}
+
+Do not hand off just because a topic is mentioned - answer whatever you can.`;
+}
+
+// Sent when a reply can't be produced and there's no handoff to fall back on
+export const FALLBACK_REPLY =
+  "I'm sorry, I couldn't help with that just now. Could you tell me a bit more about what you need?";
+
+/**
+ * Extra system message for a second attempt when the model wanted to hand off
+ * but the company has that trigger switched off (or it left the answer empty)
+ */
+export function buildNoHandoffHint(): string {
+  return `Handing this conversation to a human is not available for this request. Answer the customer's last message yourself from the information above. Do not say you are transferring them or that someone will get back to them. If you can't fully help, say what you can and ask a clarifying question. Reply with "handoff": false.`;
+}
+
+/**
+ * Parse the model's JSON reply. Output that isn't valid JSON (e.g. a
+ * provider that ignores the schema) is treated as a plain answer.
+ */
+export function parseHandoffDecision(raw: string): HandoffDecision {
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === "object" && typeof parsed.answer === "string") {
+      const category = (MODEL_REASON_CATEGORIES as readonly string[]).includes(
+        parsed.reasonCategory
+      )
+        ? (parsed.reasonCategory as HandoffDecision["reasonCategory"])
+        : "other";
+      return {
+        answer: parsed.answer,
+        handoff: parsed.handoff === true,
+        reasonCategory: parsed.handoff === true ? category : "none",
+        reason: typeof parsed.reason === "string" ? parsed.reason : "",
+        confidence:
+          typeof parsed.confidence === "number"
+            ? Math.min(1, Math.max(0, parsed.confidence))
+            : undefined,
+      };
+    }
+  } catch {
+    // Fall through to plain text
+  }
+  return { answer: raw, handoff: false, reasonCategory: "none", reason: "" };
+}
+
+/**
+ * Customer-visible answer text from a partially streamed JSON reply.
+ * Returns "" until the answer field starts; plain-text replies pass through.
+ */
+export function extractStreamingAnswer(partial: string): string {
+  const trimmed = partial.trimStart();
+  if (!trimmed.startsWith("{")) return partial;
+
+  const match = /"answer"\s*:\s*"/.exec(trimmed);
+  if (!match) return "";
+
+  let answer = "";
+  for (let i = match.index + match[0].length; i < trimmed.length; i++) {
+    const char = trimmed[i];
+    if (char === '"') break;
+    if (char !== "\\") {
+      answer += char;
+      continue;
+    }
+
+    const next = trimmed[i + 1];
+    if (next === undefined) break; // Escape split across chunks
+    if (next === "u") {
+      const hex = trimmed.slice(i + 2, i + 6);
+      if (!/^[0-9a-fA-F]{4}$/.test(hex)) break;
+      answer += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+      continue;
+    }
+    const escapes: Record<string, string> = { n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" };
+    answer += escapes[next] ?? next;
+    i++;
+  }
+  return answer;
+}
+
+/**
+ * Whether a partially streamed reply has already decided to hand off
+ */
+export function isStreamingHandoff(partial: string): boolean {
+  return /"handoff"\s*:\s*true/.test(partial);
+}
+
+/**
+ * Keyword override: first enabled trigger whose phrase appears in the message
+ */
+export function matchKeywordTrigger(
+  enabledTriggers: string[],
+  message: string
+): { phrase: string; category: HandoffReasonCategory } | null {
+  const lowerMessage = message.toLowerCase();
+  for (const trigger of enabledTriggers) {
+    // Get phrases for this trigger (or use trigger itself as custom phrase)
+    const phrases = TRIGGER_PHRASES[trigger] || [trigger];
+    for (const phrase of phrases) {
+      if (lowerMessage.includes(phrase.toLowerCase())) {
+        return { phrase, category: TRIGGER_CATEGORIES[trigger] || "keyword_trigger" };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Final handoff outcome for a reply
+ */
+export function resolveHandoff(args: {
+  decision: HandoffDecision;
+  enabledTriggers: string[];
+  keywordOverride: boolean;
+  customerMessage: string;
+}): {
+  shouldHandoff: boolean;
+  category?: HandoffReasonCategory;
+  reason: string;
+} {
+  const { decision, enabledTriggers, keywordOverride, customerMessage } = args;
+
+  if (keywordOverride) {
+    const match = matchKeywordTrigger(enabledTriggers, customerMessage);
+    if (match) {
+      return {
+        shouldHandoff: true,
+        category: match.category,
+        reason: `Customer message matched handoff trigger: "${match.phrase}"`,
+      };
+    }
+  }
+
+  if (decision.handoff) {
+    const category =
+      decision.reasonCategory === "none" ? "other" : decision.reasonCategory;
+
+    // Respect triggers the company switched off in AI Studio
+    const governingTrigger = Object.keys(TRIGGER_CATEGORIES).find(
+      (trigger) => TRIGGER_CATEGORIES[trigger] === category
+    );
+    if (!governingTrigger || enabledTriggers.includes(governingTrigger)) {
+      return {
+        shouldHandoff: true,
+        category,
+        reason: decision.reason || HANDOFF_REASON_LABELS[category],
+      };
+    }
+  }
+
+  if (
+    enabledTriggers.includes("low_confidence") &&
+    decision.confidence !== undefined &&
+    decision.confidence < LOW_CONFIDENCE_THRESHOLD
+  ) {
+    return {
+      shouldHandoff: true,
+      category: "low_confidence",
+      reason: HANDOFF_REASON_LABELS.low_confidence,
+    };
+  }
+
+  return { shouldHandoff: false, reason: "" };
+}
@@ -0,0 +1,165 @@
+/**
+ * PROMPT INJECTION DETECTION
+ *
+ * Scores each customer message for attempts to take over the model:
+ * overriding instructions, extracting the system prompt, role-play and
+ * jailbreak exploits, and spoofed chat delimiters. Each signal has a weight;
+ * the score is their sum, capped at 100.
+ *
+ * At QUARANTINE_THRESHOLD the message never reaches the model - the customer
+ * gets a canned reply and the conversation is flagged for an agent. The score
+ * is stamped on the message, so later turns, summaries and copilot drafts
+ * leave it out too (withoutQuarantined). Scores
+ * from SUSPICIOUS_THRESHOLD up are logged for trend reporting.
+ *
+ * Generic phrasings that also turn up in ordinary support questions ("show me
+ * the rules for refunds", "I got a system message") are weak matches: they
+ * only score as suspicious, so it takes a second signal to quarantine.
+ *
+ * sanitizeUserInput (supportPrompt.ts) still filters what does get through.
+ */
+
+export type InjectionSignal =
+  | "instruction_override"
+  | "prompt_extraction"
+  | "jailbreak"
+  | "delimiter_spoofing"
+  | "role_play"
+  | "encoded_payload";
+
+export const INJECTION_SIGNAL_LABELS: Record<InjectionSignal, string> = {
+  instruction_override: "Override instructions",
+  prompt_extraction: "Extract system prompt",
+  jailbreak: "Jailbreak",
+  delimiter_spoofing: "Spoofed system/role markers",
+  role_play: "Role-play exploit",
+  encoded_payload: "Encoded payload",
+};
+
+export const QUARANTINE_THRESHOLD = 70;
+export const SUSPICIOUS_THRESHOLD = 35;
+
+// Weight of a weak match - suspicious on its own, quarantined with any other signal
+const WEAK_MATCH_WEIGHT = SUSPICIOUS_THRESHOLD;
+
+const SIGNALS: Array<{
+  signal: InjectionSignal;
+  weight: number;
+  patterns: RegExp[];
+  weakPatterns?: RegExp[];
+}> = [
+  {
+    signal: "instruction_override",
+    weight: 70,
+    patterns: [
+      /\b(ignore|disregard|forget|skip|override)\b.{0,30}\b(previous|prior|above|earlier|preceding|your|system|original)\b.{0,20}\b(instructions?|prompts?|rules?|guidelines|directions|context)\b/i,
+      /\bnew\s+(instructions?|rules?|system\s+prompt)\s*:/i,
+      /\bfrom\s+now\s+on\b.{0,40}\b(ignore|no\s+longer|you\s+(will|must|are))\b/i,
+    ],
+    weakPatterns: [
+      /\b(ignore|disregard|forget|skip|override)\b.{0,30}\ball\b.{0,20}\b(instructions?|prompts?|rules?|guidelines|directions|context)\b/i,
+    ],
+  },
+  {
+    signal: "prompt_extraction",
+    weight: 70,
+    patterns: [
+      /\bsystem\s+prompt\b/i,
+      /\b(your|the\s+(assistant|bot|ai)'?s?)\s+system\s+(message|instructions?)\b/i,
+      /\b(hidden|secret|developer)\s+(prompt|instructions?)\b/i,
+      /\byour\s+(initial|original|full)\s+(prompt|instructions?)\b/i,
+      /\b(repeat|print|output|reveal|dump|show\s+me|leak|copy)\b.{0,20}\b(your|the\s+(assistant|bot|ai)'?s?)\s+(instructions?|prompt|rules|configuration)\b/i,
+      /\b(text|words|everything|content)\s+(above|before)\s+(this|my)\b/i,
+    ],
+    weakPatterns: [
+      /\bsystem\s+(message|instructions?)\b/i,
+      /\b(initial|original|full)\s+(prompt|instructions?)\b/i,
+      /\b(repeat|print|output|reveal|dump|show\s+me|leak|copy)\b.{0,20}\bthe\s+(instructions?|prompt|rules|configuration)\b/i,
+    ],
+  },
+  {
+    signal: "jailbreak",
+    weight: 60,
+    patterns: [
+      /\bDAN\b/,
+      /\bdo\s+anything\s+now\b/i,
+      /\b(developer|god|sudo|admin|debug)\s+mode\b/i,
+      /\bjailbr(ea|o)k/i,
+      /\b(without|no|remove|bypass|disable)\s+(any\s+)?(restrictions|filters|limits|limitations|guardrails|safety|censorship)\b/i,
+      /\bunfiltered\b/i,
+    ],
+  },
+  {
+    signal: "delimiter_spoofing",
+    weight: 50,
+    patterns: [
+      /\[\s*(SYSTEM|INST|\/INST)\s*\]/i,
+      /<<\s*SYS\s*>>/i,
+      /<\|\s*(im_start|im_end|system|assistant|user|endoftext)\s*\|>/i,
+      /^\s*#{1,6}\s*(system|assistant|instruction)s?\s*:/im,
+      /<\/?\s*system\s*>/i,
+      /```\s*system\b/i,
+    ],
+  },
+  {
+    signal: "role_play",
+    weight: 35,
+    patterns: [
+      /\byou\s+are\s+(now|no\s+longer)\b/i,
+      /\bpretend\s+(to\s+be|you\s+are|you're)\b/i,
+      /\b(act|behave|respond)\s+as\s+(if\s+you\s+(are|were)|an?\s+(unrestricted|evil|different))\b/i,
+      /\brole-?\s?play\s+as\b/i,
+      /\bstay\s+in\s+character\b/i,
+    ],
+  },
+  {
+    signal: "encoded_payload",
+    weight: 20,
+    patterns: [
+      /[A-Za-z0-9+/]{80,}={0,2}/,
+      /\b(decode|base64|rot13)\b.{0,30}\b(and|then)\s+(follow|execute|run|do)\b/i,
+    ],
+  },
+];
+
+export type InjectionScore = {
+  score: number; // 0-100
+  signals: InjectionSignal[];
+};
+
+export function scoreInjection(text: string): InjectionScore {
+  const signals: InjectionSignal[] = [];
+  let score = 0;
+  for (const { signal, weight, patterns, weakPatterns = [] } of SIGNALS) {
+    if (patterns.some((pattern) => pattern.test(text))) {
+      signals.push(signal);
+      score += weight;
+    } else if (weakPatterns.some((pattern) => pattern.test(text))) {
+      signals.push(signal);
+      score += Math.min(weight, WEAK_MATCH_WEIGHT);
+    }
+  }
+  return { score: Math.min(100, score), signals };
+}
+
+export function shouldQuarantine(result: InjectionScore): boolean {
+  return result.score >= QUARANTINE_THRESHOLD;
+}
+
+/**
+ * Drop messages that were quarantined when they arrived, so they stay out of
+ * every later prompt
+ */
+export function withoutQuarantined<T extends { injectionScore?: number }>(messages: T[]): T[] {
+  return messages.filter(
+    (message) => message.injectionScore === undefined || message.injectionScore < QUARANTINE_THRESHOLD
+  );
+}
+
+/**
+ * Reply sent instead of an AI answer when a message is quarantined. Doesn't
+ * say why, so the customer can't tune the attack against it.
+ */
+export function getQuarantineReply(companyName: string | undefined): string {
+  return `I can only help with questions about ${companyName || "our products"} and your account. What can I help you with today?`;
+}
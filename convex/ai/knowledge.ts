@@ -0,0 +1,312 @@
+/**
+ * COMPANY KNOWLEDGE INDEX
+ *
+ * Embeds the company context and product catalog into knowledge_chunks and
+ * retrieves the chunks most relevant to a customer question. Reindexing is
+ * scheduled whenever the context changes or products are synced.
+ */
+
+import { v } from "convex/values";
+import {
+  internalAction,
+  internalMutation,
+  internalQuery,
+  type ActionCtx,
+} from "../_generated/server";
+import { api, internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+import { DEFAULT_EMBEDDING_MODEL, resolveModel } from "./providers";
+import {
+  EMBEDDING_BATCH_SIZE,
+  RETRIEVAL_TOP_K,
+  buildKnowledgeChunks,
+  buildRetrievalQuery,
+  shouldUseFullText,
+  splitIntoChunks,
+} from "./retrieval";
+import { buildProductsContext, formatProductForAI } from "./productCatalog";
+import { buildKnowledgeSources, labelContextSections, type KnowledgeSource } from "./citations";
+import { filterSectionsByTopics } from "./departmentPersona";
+
+// Must match the dimensions of knowledge_chunks.by_embedding
+const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * Rebuild a company's knowledge chunks from its current context and catalog
+ */
+export const reindexCompanyKnowledge = internalAction({
+  args: {
+    companyId: v.id("companies"),
+  },
+  handler: async (
+    ctx,
+    { companyId }
+  ): Promise<{ success: boolean; error?: string; chunkCount?: number }> => {
+    const company = await ctx.runQuery(api.companies.queries.getCompanyById, {
+      companyId,
+    });
+    if (!company) {
+      return { success: false, error: "Company not found" };
+    }
+
+    const products = await ctx.runQuery(
+      api.products.queries.getVisibleProductCatalogForAI,
+      { companyId }
+    );
+
+    const companyContext =
+      company.companyContextOriginal || company.companyContextProcessed || "";
+    const chunks = buildKnowledgeChunks(companyContext, products);
+    const indexedAt = Date.now();
+
+    try {
+      const { provider, model, spec } = resolveModel(DEFAULT_EMBEDDING_MODEL);
+      let promptTokens = 0;
+
+      for (let i = 0; i < chunks.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = chunks.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const result = await provider.embed({
+          model,
+          input: batch.map((chunk) => chunk.content),
+        });
+        promptTokens += result.usage.promptTokens;
+
+        if (result.embeddings.some((e) => e.length !== EMBEDDING_DIMENSIONS)) {
+          throw new Error(
+            `Embedding model ${spec} must return ${EMBEDDING_DIMENSIONS} dimensions`
+          );
+        }
+
+        await ctx.runMutation(internal.ai.knowledge.insertKnowledgeChunks, {
+          companyId,
+          indexedAt,
+          chunks: batch.map((chunk, index) => ({
+            ...chunk,
+            embedding: result.embeddings[index],
+            embeddingModel: spec,
+          })),
+        });
+      }
+
+      // Swap in the new index only once every batch is written
+      await ctx.runMutation(internal.ai.knowledge.deleteStaleKnowledgeChunks, {
+        companyId,
+        indexedAt,
+      });
+
+      if (promptTokens > 0) {
+        await ctx.runMutation(internal.usage.mutations.trackModelUsage, {
+          companyId,
+          aiModel: spec,
+          promptTokens,
+        });
+      }
+
+      console.log(
+        `📚 Indexed ${chunks.length} knowledge chunks for company ${companyId}`
+      );
+      return { success: true, chunkCount: chunks.length };
+    } catch (error) {
+      console.error("Failed to reindex company knowledge:", error);
+      return { success: false, error: "Reindex failed" };
+    }
+  },
+});
+
+export const insertKnowledgeChunks = internalMutation({
+  args: {
+    companyId: v.id("companies"),
+    indexedAt: v.number(),
+    chunks: v.array(
+      v.object({
+        sourceType: v.union(v.literal("company_context"), v.literal("product")),
+        sourceId: v.optional(v.string()),
+        title: v.optional(v.string()),
+        chunkIndex: v.number(),
+        content: v.string(),
+        embedding: v.array(v.float64()),
+        embeddingModel: v.string(),
+      })
+    ),
+  },
+  handler: async (ctx, { companyId, indexedAt, chunks }) => {
+    for (const chunk of chunks) {
+      await ctx.db.insert("knowledge_chunks", {
+        companyId,
+        ...chunk,
+        createdAt: indexedAt,
+      });
+    }
+  },
+});
+
+/**
+ * Remove chunks written by earlier reindex runs
+ */
+export const deleteStaleKnowledgeChunks = internalMutation({
+  args: {
+    companyId: v.id("companies"),
+    indexedAt: v.number(),
+  },
+  handler: async (ctx, { companyId, indexedAt }) => {
+    const existing = await ctx.db
+      .query("knowledge_chunks")
+      .withIndex("by_company", (q) => q.eq("companyId", companyId))
+      .collect();
+
+    let deleted = 0;
+    for (const chunk of existing) {
+      if (chunk.createdAt < indexedAt) {
+        await ctx.db.delete(chunk._id);
+        deleted++;
+      }
+    }
+    return deleted;
+  },
+});
+
+export const getKnowledgeChunksByIds = internalQuery({
+  args: {
+    chunkIds: v.array(v.id("knowledge_chunks")),
+  },
+  handler: async (ctx, { chunkIds }) => {
+    const chunks = await Promise.all(chunkIds.map((id) => ctx.db.get(id)));
+    return chunks.filter((chunk): chunk is Doc<"knowledge_chunks"> => chunk !== null);
+  },
+});
+
+/**
+ * Top-k chunks for a question, best match first.
+ * Returns an empty list when the company has nothing indexed.
+ */
+export async function retrieveKnowledgeChunks(
+  ctx: ActionCtx,
+  companyId: Id<"companies">,
+  query: string,
+  limit: number = RETRIEVAL_TOP_K
+): Promise<Array<Doc<"knowledge_chunks"> & { score: number }>> {
+  if (!query.trim()) return [];
+
+  const { provider, model, spec } = resolveModel(DEFAULT_EMBEDDING_MODEL);
+  const { embeddings, usage } = await provider.embed({ model, input: [query] });
+  try {
+    await ctx.runMutation(internal.usage.mutations.trackModelUsage, {
+      companyId,
+      aiModel: spec,
+      promptTokens: usage.promptTokens,
+    });
+  } catch (usageError) {
+    console.warn("Failed to track usage:", usageError);
+  }
+
+  const results = await ctx.vectorSearch("knowledge_chunks", "by_embedding", {
+    vector: embeddings[0],
+    limit,
+    filter: (q) => q.eq("companyId", companyId),
+  });
+  if (results.length === 0) return [];
+
+  const chunks = await ctx.runQuery(internal.ai.knowledge.getKnowledgeChunksByIds, {
+    chunkIds: results.map((result) => result._id),
+  });
+  const scores = new Map(results.map((result) => [result._id, result._score]));
+
+  return chunks.map((chunk) => ({ ...chunk, score: scores.get(chunk._id) ?? 0 }));
+}
+
+/**
+ * Company context and product text for the system message: everything for
+ * small knowledge bases, otherwise the chunks most relevant to the customer's
+ * recent messages. Falls back to the full text if retrieval fails.
+ *
+ * Context sections are labelled with source IDs, and `sources` lists every
+ * section, product and plan that went into the prompt for citations.
+ * `contextTopics` narrows the context to a department persona's topics;
+ * retrieved product chunks are limited to `products`. `fullText` skips
+ * retrieval, e.g. for unsaved context that hasn't been indexed.
+ */
+export async function selectPromptKnowledge(
+  ctx: ActionCtx,
+  args: {
+    companyId: Id<"companies">;
+    companyContext: string;
+    products: any[];
+    customerMessages: string[];
+    contextTopics?: string[];
+    fullText?: boolean;
+  }
+): Promise<{ knowledgeContext: string; productsContext: string; sources: KnowledgeSource[] }> {
+  const { companyId, companyContext, products, customerMessages, contextTopics } = args;
+  const formattedProducts = products.map((product) => formatProductForAI(product));
+  const contextSections = splitIntoChunks(companyContext);
+  const topicSections = filterSectionsByTopics(
+    contextSections.map((content, chunkIndex) => ({ content, chunkIndex })),
+    contextTopics
+  );
+  const fullText = {
+    knowledgeContext: labelContextSections(topicSections.map((section) => section.content)),
+    productsContext: buildProductsContext(formattedProducts),
+    sources: buildKnowledgeSources({
+      contextSections: topicSections,
+      products,
+    }),
+  };
+
+  if (args.fullText || shouldUseFullText(companyContext, formattedProducts)) {
+    return fullText;
+  }
+
+  try {
+    const chunks = await retrieveKnowledgeChunks(
+      ctx,
+      companyId,
+      buildRetrievalQuery(customerMessages)
+    );
+    if (chunks.length === 0) {
+      console.log("⚠️ No knowledge chunks indexed yet, using full context");
+      return fullText;
+    }
+
+    const productIds = new Set(products.map((p) => String(p._id)));
+    const contextChunks = chunks.filter((c) => c.sourceType === "company_context");
+    const productChunks = chunks.filter(
+      (c) => c.sourceType === "product" && !!c.sourceId && productIds.has(c.sourceId)
+    );
+
+    console.log("✅ Retrieved knowledge chunks:", {
+      total: chunks.length,
+      context: contextChunks.length,
+      products: productChunks.length,
+      topScore: chunks[0].score,
+    });
+
+    // Keep the opening of the context (company identity) when no passage matched
+    const promptSections =
+      contextChunks.length > 0
+        ? filterSectionsByTopics(
+            contextChunks.map((c) => ({ content: c.content, chunkIndex: c.chunkIndex })),
+            contextTopics
+          )
+        : topicSections.slice(0, 1);
+
+    return {
+      knowledgeContext: promptSections.length > 0
+        ? labelContextSections(promptSections.map((section) => section.content))
+        : companyContext,
+      productsContext: buildProductsContext(
+        productChunks.map((c) => c.content),
+        products.map((p) => p.title)
+      ),
+      sources: buildKnowledgeSources({
+        contextSections: promptSections,
+        // Same order as the product chunks in the prompt
+        products: productChunks
+          .map((c) => products.find((p) => String(p._id) === c.sourceId))
+          .filter(Boolean),
+      }),
+    };
+  } catch (retrievalError) {
+    console.warn("Knowledge retrieval failed, using full context:", retrievalError);
+    return fullText;
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyPriceCorrections,
+  buildPriceCatalog,
+  extractPriceMentions,
+  validatePrices,
+} from "./priceGuard";
+
+const catalog = buildPriceCatalog([
+  {
+    title: "Pro",
+    pricingOptions: [
+      { _id: "plan_m", title: "Monthly", planType: "renewal", initialPrice: 29.99, renewalPrice: 29.99, billingPeriod: 30, currency: "usd" },
+      { _id: "plan_y", title: "Yearly", planType: "renewal", initialPrice: 299, renewalPrice: 299, billingPeriod: 365, currency: "usd" },
+    ],
+  },
+  {
+    title: "Course",
+    pricingOptions: [
+      { _id: "plan_c", title: "Lifetime", planType: "one_time", initialPrice: 149, currency: "usd" },
+    ],
+  },
+]);
+
+describe("extractPriceMentions", () => {
+  it("reads amounts, currencies and billing periods", () => {
+    const mentions = extractPriceMentions("Pro is $29.99/month or USD $1,299 per year, 15 EUR once.");
+    expect(mentions.map((m) => [m.amount, m.period])).toEqual([
+      [29.99, "month"],
+      [1299, "year"],
+      [15, "one_time"],
+    ]);
+    expect(mentions[1].currencies).toEqual(["usd"]);
+  });
+
+  it("ignores revenue figures like $10K", () => {
+    expect(extractPriceMentions("Many Whops make $10K-$1M per month")).toEqual([]);
+  });
+});
+
+describe("validatePrices", () => {
+  it("accepts prices that match a plan", () => {
+    expect(validatePrices("Pro is $29.99 a month, or $299/year. The course is $149 one-time.", catalog)).toEqual([]);
+  });
+
+  it("corrects a rounded price to the only close plan", () => {
+    const reply = "Pro costs $30/month.";
+    const mismatches = validatePrices(reply, catalog);
+    expect(mismatches).toHaveLength(1);
+    expect(mismatches[0].reason).toBe("unknown_amount");
+    expect(applyPriceCorrections(reply, mismatches)).toBe("Pro costs $29.99/month.");
+  });
+
+  it("corrects a wrong billing period", () => {
+    const reply = "It's $299 per month.";
+    const mismatches = validatePrices(reply, catalog);
+    expect(mismatches[0].reason).toBe("wrong_period");
+    expect(applyPriceCorrections(reply, mismatches)).toBe("It's $299/year.");
+  });
+
+  it("can't correct an invented price", () => {
+    const mismatches = validatePrices("Pro is $19 per month.", catalog);
+    expect(mismatches).toHaveLength(1);
+    expect(mismatches[0].correction).toBeUndefined();
+    expect(applyPriceCorrections("Pro is $19 per month.", mismatches)).toBeNull();
+  });
+
+  it("leaves amounts the customer quoted alone", () => {
+    expect(validatePrices("I see a $12 charge from May.", catalog, "Why was I charged $12?")).toEqual([]);
+  });
+
+  it("accepts amounts worked out from the catalog", () => {
+    expect(
+      validatePrices("Twelve months of Monthly comes to $359.88, so Yearly is $60.88 cheaper.", catalog)
+    ).toEqual([]);
+    expect(validatePrices("Over a year that's about $360, or $359.88 a year.", catalog)).toEqual([]);
+    expect(validatePrices("Pro and the course together are $448.", catalog)).toEqual([]);
+  });
+
+  it("accepts refunds, credits and savings", () => {
+    expect(validatePrices("Switching to Yearly saves you $40.", catalog)).toEqual([]);
+    expect(validatePrices("You'll get a prorated refund of about $10.", catalog)).toEqual([]);
+    expect(validatePrices("We've credited your account with $5.", catalog)).toEqual([]);
+  });
+
+  it("still flags invented prices with no period", () => {
+    expect(validatePrices("The Pro plan is $45. Yearly saves you money.", catalog)).toHaveLength(1);
+  });
+
+  it("skips companies without priced plans", () => {
+    expect(validatePrices("It's $5", [])).toEqual([]);
+  });
+});
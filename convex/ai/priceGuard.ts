@@ -0,0 +1,393 @@
+/**
+ * PRICE GUARD
+ *
+ * Checks every price in an AI reply against the company's visible plans
+ * before the customer keeps it. Each monetary amount (and the billing period
+ * written next to it) must match a plan in the synced catalog.
+ *
+ * A rounded price that is close to exactly one plan ($29 for $29.99) is
+ * corrected in place. Anything else gets the reply regenerated with a hint
+ * listing the real prices; if that still fails, the reply is kept and
+ * flagged for an agent. Amounts the customer quoted are left alone - "I was
+ * charged $12" isn't a claim about the catalog.
+ *
+ * Amounts worked out from the catalog aren't plan prices either: totals over
+ * several periods ("over a year that's $240"), sums and differences of plans
+ * ("saves you $40"), and amounts introduced as a refund, credit or saving
+ * ("a prorated refund of about $10") are accepted.
+ */
+
+export type BillingPeriod = "day" | "week" | "month" | "year" | "one_time";
+
+export type CatalogPrice = {
+  planId?: string;
+  productTitle: string;
+  planTitle: string;
+  amount: number; // Dollars, as in getVisibleProductCatalogForAI
+  currency: string; // Lowercase code, e.g. "usd"
+  period?: BillingPeriod; // undefined for unusual intervals or a first payment
+  intervalDays?: number;
+};
+
+export type PriceMention = {
+  raw: string;
+  index: number;
+  amount: number;
+  currencies: string[]; // Codes the symbol could stand for, [] when unknown
+  period?: BillingPeriod;
+};
+
+export type PriceMismatch = {
+  mention: PriceMention;
+  reason: "unknown_amount" | "wrong_period";
+  correction?: CatalogPrice; // Set when exactly one plan is a safe fix
+};
+
+export type PriceResolution = "corrected" | "regenerated" | "flagged";
+
+const CURRENCY_SYMBOLS: Record<string, string[]> = {
+  $: ["usd", "cad", "aud", "nzd", "sgd", "hkd"],
+  "€": ["eur"],
+  "£": ["gbp"],
+};
+
+const CURRENCY_CODES = ["usd", "eur", "gbp", "cad", "aud", "nzd", "sgd", "hkd"];
+
+// Up to 1 unit or 2% off counts as rounding rather than a made-up price
+const ROUNDING_TOLERANCE_ABSOLUTE = 1;
+const ROUNDING_TOLERANCE_RELATIVE = 0.02;
+
+// "$29", "$29.99", "USD $1,299", "€19", "US$ 5" - not "$10K" or "$2M"
+const SYMBOL_PRICE =
+  /(?:\b(usd|eur|gbp|cad|aud|nzd|sgd|hkd|us)\s?)?([$€£])\s?(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?(?![\d.,]*\s?(?:k|m|mm|bn|b)\b)/gi;
+// "29.99 USD", "29 dollars"
+const CODE_PRICE = /\b(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d{1,2}))?\s?(usd|eur|gbp|cad|aud|nzd|sgd|hkd|dollars|euros|pounds)\b/gi;
+
+// Billing periods a recurring price is multiplied over ("3 months is $89.97")
+const MAX_PERIOD_MULTIPLE = 12;
+const PERIODS_PER_YEAR: Partial<Record<BillingPeriod, number>> = { day: 365, week: 52, month: 12 };
+
+// Words that introduce an amount worked out for this customer, not a plan price
+const DERIVED_AMOUNT_CONTEXT =
+  /\b(?:sav(?:e|es|ed|ing|ings)|refund(?:s|ed)?|prorat\w*|credit(?:s|ed)?|discount(?:s|ed)?|difference|remaining|balance)\b[^.!?\n]{0,30}$/i;
+
+const PERIOD_PATTERNS: Array<{ period: BillingPeriod; regex: RegExp }> = [
+  { period: "month", regex: /^\s*(?:\/\s*|(?:per|a|every|each)\s+)(?:month|mo)\b|^\s*(?:monthly|a month)\b/i },
+  { period: "year", regex: /^\s*(?:\/\s*|(?:per|a|every|each)\s+)(?:year|yr|annum)\b|^\s*(?:yearly|annually|a year)\b/i },
+  { period: "week", regex: /^\s*(?:\/\s*|(?:per|a|every|each)\s+)(?:week|wk)\b|^\s*weekly\b/i },
+  { period: "day", regex: /^\s*(?:\/\s*|(?:per|a|every|each)\s+)day\b|^\s*daily\b/i },
+  { period: "one_time", regex: /^\s*(?:\(?\s*)?(?:one[- ]time|once|lifetime|one[- ]off)\b/i },
+];
+
+const PERIOD_LABELS: Record<BillingPeriod, string> = {
+  day: "/day",
+  week: "/week",
+  month: "/month",
+  year: "/year",
+  one_time: " one-time",
+};
+
+function periodFromDays(days: number | undefined): BillingPeriod | undefined {
+  if (days === 1) return "day";
+  if (days === 7) return "week";
+  if (days === 30 || days === 31) return "month";
+  if (days === 365 || days === 366) return "year";
+  return undefined;
+}
+
+function parseAmount(whole: string, cents: string | undefined): number {
+  return Number(`${whole.replace(/,/g, "")}.${cents ?? "0"}`);
+}
+
+function sameAmount(a: number, b: number): boolean {
+  return Math.abs(a - b) < 0.005;
+}
+
+/**
+ * Every price a customer could be quoted from the visible catalog
+ */
+export function buildPriceCatalog(products: any[]): CatalogPrice[] {
+  const prices: CatalogPrice[] = [];
+
+  for (const product of products) {
+    const plans = product.pricingOptions || [];
+    for (const plan of plans) {
+      const base = {
+        planId: plan._id ? String(plan._id) : undefined,
+        productTitle: product.title,
+        planTitle: plan.title,
+        currency: (plan.currency || "usd").toLowerCase(),
+      };
+
+      if (plan.planType === "one_time") {
+        const amount = plan.initialPrice ?? plan.renewalPrice;
+        if (amount !== undefined) prices.push({ ...base, amount, period: "one_time" });
+        continue;
+      }
+
+      if (plan.renewalPrice !== undefined) {
+        prices.push({
+          ...base,
+          amount: plan.renewalPrice,
+          period: periodFromDays(plan.billingPeriod),
+          intervalDays: plan.billingPeriod,
+        });
+      }
+      // A different first payment is quoted without a period ("$1 for the first month")
+      if (
+        plan.initialPrice !== undefined &&
+        (plan.renewalPrice === undefined || !sameAmount(plan.initialPrice, plan.renewalPrice))
+      ) {
+        prices.push({ ...base, amount: plan.initialPrice });
+      }
+    }
+
+    // Legacy products priced without plans
+    if (plans.length === 0 && typeof product.price === "number" && product.price > 0) {
+      prices.push({
+        productTitle: product.title,
+        planTitle: product.title,
+        amount: product.price,
+        currency: (product.currency || "usd").toLowerCase(),
+        period:
+          product.accessType === "lifetime"
+            ? "one_time"
+            : (({ monthly: "month", yearly: "year", weekly: "week", daily: "day" } as Record<
+                string,
+                BillingPeriod
+              >)[product.billingPeriod] ?? undefined),
+      });
+    }
+  }
+
+  return prices;
+}
+
+function readPeriod(text: string, from: number): { period: BillingPeriod; length: number } | null {
+  const after = text.slice(from, from + 24);
+  for (const { period, regex } of PERIOD_PATTERNS) {
+    const match = regex.exec(after);
+    if (match) return { period, length: match[0].length };
+  }
+  return null;
+}
+
+/**
+ * Monetary amounts in a reply, with the billing period written right after
+ * them (if any). `raw` covers the amount and the period.
+ */
+export function extractPriceMentions(text: string): PriceMention[] {
+  const mentions: PriceMention[] = [];
+
+  const add = (index: number, length: number, amount: number, currencies: string[]) => {
+    if (mentions.some((m) => index < m.index + m.raw.length && m.index < index + length)) return;
+    const period = readPeriod(text, index + length);
+    const end = index + length + (period?.length ?? 0);
+    mentions.push({
+      raw: text.slice(index, end),
+      index,
+      amount,
+      currencies,
+      period: period?.period,
+    });
+  };
+
+  for (const match of text.matchAll(SYMBOL_PRICE)) {
+    const code = match[1]?.toLowerCase();
+    const currencies =
+      code && CURRENCY_CODES.includes(code) ? [code] : code === "us" ? ["usd"] : CURRENCY_SYMBOLS[match[2]];
+    add(match.index!, match[0].length, parseAmount(match[3], match[4]), currencies);
+  }
+
+  for (const match of text.matchAll(CODE_PRICE)) {
+    const unit = match[3].toLowerCase();
+    const currencies =
+      unit === "dollars" ? CURRENCY_SYMBOLS.$ : unit === "euros" ? ["eur"] : unit === "pounds" ? ["gbp"] : [unit];
+    add(match.index!, match[0].length, parseAmount(match[1], match[2]), currencies);
+  }
+
+  return mentions.sort((a, b) => a.index - b.index);
+}
+
+function currencyMatches(mention: PriceMention, price: CatalogPrice): boolean {
+  return mention.currencies.length === 0 || mention.currencies.includes(price.currency);
+}
+
+function periodMatches(mention: PriceMention, price: CatalogPrice): boolean {
+  return !mention.period || !price.period || mention.period === price.period;
+}
+
+function isRounding(quoted: number, actual: number): boolean {
+  const diff = Math.abs(quoted - actual);
+  return diff <= ROUNDING_TOLERANCE_ABSOLUTE || diff <= actual * ROUNDING_TOLERANCE_RELATIVE;
+}
+
+// The one catalog price a mention could safely be corrected to, if any
+function findCorrection(
+  candidates: CatalogPrice[]
+): CatalogPrice | undefined {
+  const distinct = candidates.filter(
+    (price, i) =>
+      candidates.findIndex(
+        (other) => sameAmount(other.amount, price.amount) && other.period === price.period
+      ) === i
+  );
+  return distinct.length === 1 ? distinct[0] : undefined;
+}
+
+// Totals of a recurring price over several periods, and over a year
+function periodTotals(prices: CatalogPrice[]): number[] {
+  const totals: number[] = [];
+  for (const price of prices) {
+    if (!price.period || price.period === "one_time" || price.period === "year") continue;
+    for (let count = 2; count <= MAX_PERIOD_MULTIPLE; count++) totals.push(price.amount * count);
+    totals.push(price.amount * PERIODS_PER_YEAR[price.period]!);
+  }
+  return totals;
+}
+
+function matchesDerived(amount: number, derived: number): boolean {
+  // Worked-out amounts are often rounded to whole units ("about $61")
+  return sameAmount(amount, derived) || (Number.isInteger(amount) && Math.round(derived) === amount);
+}
+
+/**
+ * Whether an amount can be worked out from the catalog: a total over several
+ * periods, or the sum or difference of two prices or totals
+ */
+function isDerivedAmount(mention: PriceMention, prices: CatalogPrice[]): boolean {
+  const totals = periodTotals(prices);
+  if (mention.period) {
+    // "$240 a year" for a $20/month plan
+    return (
+      mention.period === "year" &&
+      prices.some(
+        (price) =>
+          price.period &&
+          PERIODS_PER_YEAR[price.period] !== undefined &&
+          matchesDerived(mention.amount, price.amount * PERIODS_PER_YEAR[price.period]!)
+      )
+    );
+  }
+
+  const amounts = [...prices.map((price) => price.amount), ...totals];
+  if (totals.some((total) => matchesDerived(mention.amount, total))) return true;
+  return amounts.some((a, i) =>
+    amounts.some(
+      (b, j) =>
+        i !== j && (matchesDerived(mention.amount, a + b) || matchesDerived(mention.amount, Math.abs(a - b)))
+    )
+  );
+}
+
+/**
+ * Prices in the reply that don't match the catalog. Returns [] when the
+ * company has no priced plans - there's nothing to check against.
+ */
+export function validatePrices(
+  reply: string,
+  catalog: CatalogPrice[],
+  customerText: string = ""
+): PriceMismatch[] {
+  if (catalog.length === 0) return [];
+
+  const quotedByCustomer = extractPriceMentions(customerText).map((m) => m.amount);
+  const mismatches: PriceMismatch[] = [];
+
+  for (const mention of extractPriceMentions(reply)) {
+    if (mention.amount === 0) continue; // "$0" / free plans are checked as text elsewhere
+    if (quotedByCustomer.some((amount) => sameAmount(amount, mention.amount))) continue;
+    if (!mention.period && DERIVED_AMOUNT_CONTEXT.test(reply.slice(0, mention.index))) continue;
+
+    const inCurrency = catalog.filter((price) => currencyMatches(mention, price));
+    const sameAmountPrices = inCurrency.filter((price) => sameAmount(price.amount, mention.amount));
+
+    if (sameAmountPrices.some((price) => periodMatches(mention, price))) continue;
+
+    if (sameAmountPrices.length > 0) {
+      mismatches.push({
+        mention,
+        reason: "wrong_period",
+        correction: findCorrection(sameAmountPrices.filter((price) => price.period)),
+      });
+      continue;
+    }
+
+    if (isDerivedAmount(mention, inCurrency)) continue;
+
+    mismatches.push({
+      mention,
+      reason: "unknown_amount",
+      correction: findCorrection(
+        inCurrency.filter(
+          (price) => isRounding(mention.amount, price.amount) && periodMatches(mention, price)
+        )
+      ),
+    });
+  }
+
+  return mismatches;
+}
+
+export function formatCatalogPrice(price: { amount: number; currency: string }): string {
+  const amount = Number.isInteger(price.amount) ? String(price.amount) : price.amount.toFixed(2);
+  switch (price.currency) {
+    case "usd":
+      return `$${amount}`;
+    case "eur":
+      return `€${amount}`;
+    case "gbp":
+      return `£${amount}`;
+    default:
+      return `${price.currency.toUpperCase()} $${amount}`;
+  }
+}
+
+function describePrice(price: CatalogPrice): string {
+  const period = price.period
+    ? PERIOD_LABELS[price.period]
+    : price.intervalDays
+      ? ` every ${price.intervalDays} days`
+      : " first payment";
+  return `${formatCatalogPrice(price)}${period}`;
+}
+
+/**
+ * The reply with every mismatch replaced by its correction, or null when
+ * some mismatch has no safe correction.
+ */
+export function applyPriceCorrections(reply: string, mismatches: PriceMismatch[]): string | null {
+  if (mismatches.some((mismatch) => !mismatch.correction)) return null;
+
+  let corrected = reply;
+  // Back to front so earlier indexes stay valid
+  for (const { mention, correction } of [...mismatches].sort((a, b) => b.mention.index - a.mention.index)) {
+    const replacement = mention.period
+      ? describePrice(correction!).replace(/ first payment$/, "")
+      : formatCatalogPrice(correction!);
+    corrected =
+      corrected.slice(0, mention.index) + replacement + corrected.slice(mention.index + mention.raw.length);
+  }
+  return corrected;
+}
+
+/**
+ * The real price list, for the correction hint
+ */
+export function formatPriceList(catalog: CatalogPrice[]): string {
+  return catalog
+    .map((price) => `- ${price.productTitle} – ${price.planTitle}: ${describePrice(price)}`)
+    .join("\n");
+}
+
+/**
+ * System message asking the model to rewrite a reply with wrong prices
+ */
+export function buildPriceCorrectionHint(mismatches: PriceMismatch[], catalog: CatalogPrice[]): string {
+  return `PRICE CORRECTION: Your previous reply quoted prices that are not in the catalog: ${mismatches
+    .map((mismatch) => `"${mismatch.mention.raw.trim()}"`)
+    .join(", ")}.
+Write the reply again using only these exact prices and billing periods, copied as written:
+${formatPriceList(catalog)}
+Never round, estimate or convert a price. If the customer asks about a price that isn't listed, say you'll check with the team.`;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { computeCostUsd, mergeModelCosts, pricingKey } from "./pricing";
+
+describe("pricingKey", () => {
+  it("drops the provider prefix", () => {
+    expect(pricingKey("openai:gpt-5-nano")).toBe("gpt-5-nano");
+    expect(pricingKey("gpt-5-nano")).toBe("gpt-5-nano");
+  });
+});
+
+describe("computeCostUsd", () => {
+  const price = { model: "gpt-5-nano", inputPerMillion: 0.05, outputPerMillion: 0.4 };
+
+  it("prices prompt and completion tokens separately", () => {
+    expect(computeCostUsd(price, 1_000_000, 0)).toBeCloseTo(0.05);
+    expect(computeCostUsd(price, 2000, 500)).toBeCloseTo(0.0003);
+  });
+
+  it("costs nothing when the model has no price", () => {
+    expect(computeCostUsd(null, 5000, 5000)).toBe(0);
+  });
+});
+
+describe("mergeModelCosts", () => {
+  it("sums entries for the same model and sorts by cost", () => {
+    const merged = mergeModelCosts(
+      [{ model: "gpt-5-nano", responses: 1, promptTokens: 100, completionTokens: 50, costUsd: 0.1 }],
+      [
+        { model: "gpt-5", responses: 1, promptTokens: 100, completionTokens: 50, costUsd: 0.5 },
+        { model: "gpt-5-nano", responses: 2, promptTokens: 200, completionTokens: 100, costUsd: 0.2 },
+      ]
+    );
+    expect(merged.map((entry) => entry.model)).toEqual(["gpt-5", "gpt-5-nano"]);
+    expect(merged[1]).toMatchObject({ responses: 3, promptTokens: 300, completionTokens: 150 });
+    expect(merged[1].costUsd).toBeCloseTo(0.3);
+  });
+});
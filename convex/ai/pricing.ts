@@ -0,0 +1,88 @@
+/**
+ * MODEL PRICING
+ *
+ * Prices live in the model_pricing table so they can change without a
+ * deploy. Rows are keyed by model name without the provider prefix, so
+ * "gpt-5-nano" and "openai:gpt-5-nano" share a price.
+ *
+ * Cost is computed when a reply - or any other model call, like an embedding
+ * or a summary - is tracked and stored with it, so a price change only
+ * affects calls made afterwards.
+ */
+
+import { parseModelSpec } from "./providers";
+
+export type ModelPrice = {
+  model: string;
+  inputPerMillion: number; // USD per 1M prompt tokens
+  outputPerMillion: number; // USD per 1M completion tokens
+};
+
+// Seeded into model_pricing when the table is empty (list prices, Dec 2025)
+export const DEFAULT_MODEL_PRICING: ModelPrice[] = [
+  { model: "gpt-5-nano", inputPerMillion: 0.05, outputPerMillion: 0.4 },
+  { model: "gpt-5-mini", inputPerMillion: 0.25, outputPerMillion: 2 },
+  { model: "gpt-5", inputPerMillion: 1.25, outputPerMillion: 10 },
+  { model: "gpt-5.2", inputPerMillion: 1.75, outputPerMillion: 14 },
+  { model: "gpt-4o-mini", inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  { model: "gpt-4o", inputPerMillion: 2.5, outputPerMillion: 10 },
+  { model: "gpt-4", inputPerMillion: 30, outputPerMillion: 60 },
+  { model: "text-embedding-3-small", inputPerMillion: 0.02, outputPerMillion: 0 },
+];
+
+/**
+ * Key a model spec is priced under
+ */
+export function pricingKey(modelSpec: string): string {
+  return parseModelSpec(modelSpec).model;
+}
+
+/**
+ * USD cost of one reply. Unpriced models cost 0 so tracking never fails.
+ */
+export function computeCostUsd(
+  price: ModelPrice | null | undefined,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  if (!price) return 0;
+  return (
+    (promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) /
+    1_000_000
+  );
+}
+
+export type ModelCost = {
+  model: string;
+  responses: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+};
+
+/**
+ * Add a reply (or a whole breakdown) to a per-model breakdown.
+ * Returns a new array sorted by cost, highest first.
+ */
+export function mergeModelCosts(
+  existing: ModelCost[] | undefined,
+  additions: ModelCost[]
+): ModelCost[] {
+  const byModel = new Map<string, ModelCost>();
+  for (const entry of [...(existing ?? []), ...additions]) {
+    const current = byModel.get(entry.model);
+    byModel.set(
+      entry.model,
+      current
+        ? {
+            model: entry.model,
+            responses: current.responses + entry.responses,
+            promptTokens: current.promptTokens + entry.promptTokens,
+            completionTokens: current.completionTokens + entry.completionTokens,
+            costUsd: current.costUsd + entry.costUsd,
+          }
+        : { ...entry }
+    );
+  }
+  return [...byModel.values()].sort((a, b) => b.costUsd - a.costUsd);
+}
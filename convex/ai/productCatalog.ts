@@ -0,0 +1,122 @@
+/**
+ * PRODUCT CATALOG FORMATTING
+ *
+ * Renders the canonical product catalog (products.queries.getVisibleProductCatalogForAI)
+ * as plain text for AI prompts and knowledge chunks.
+ */
+
+// Whop API returns prices in DOLLARS. Stored as rounded dollars.
+function formatPrice(priceInDollars: number | undefined, currency: string) {
+  if (priceInDollars === undefined || priceInDollars === null) return null;
+  if (priceInDollars === 0) return "Free";
+  const price = priceInDollars.toFixed(2);
+  return `${currency.toUpperCase()} $${price}`;
+}
+
+function getEffectivePlanPrice(plan: any) {
+  if (plan.planType === "renewal") {
+    return plan.renewalPrice ?? plan.initialPrice;
+  }
+  return plan.initialPrice ?? plan.renewalPrice;
+}
+
+// Helper function to format billing period (days to readable)
+function formatBillingPeriod(days: number | undefined) {
+  if (!days) return "";
+  if (days === 30 || days === 31) return "/month";
+  if (days === 365 || days === 366) return "/year";
+  if (days === 7) return "/week";
+  if (days === 1) return "/day";
+  return `/${days} days`;
+}
+
+/**
+ * Format a single catalog product with its pricing options
+ */
+export function formatProductForAI(product: any): string {
+  let productInfo = `• ${product.title}`;
+  if (product.headline) {
+    productInfo += ` — "${product.headline}"`;
+  }
+
+  const productPlans = product.pricingOptions || [];
+
+  // Add pricing from plans
+  if (productPlans.length > 0) {
+    productInfo += `\n  Pricing Options:`;
+    for (const plan of productPlans) {
+      const price = formatPrice(getEffectivePlanPrice(plan), plan.currency);
+      // Always show the plan, even if FREE
+      if (price === "Free") {
+        productInfo += `\n    - ${plan.title}: Free`;
+      } else if (price) {
+        if (plan.planType === "one_time") {
+          productInfo += `\n    - ${plan.title}: ${price} (one-time purchase)`;
+        } else {
+          const period = formatBillingPeriod(plan.billingPeriod);
+          productInfo += `\n    - ${plan.title}: ${price}${period}`;
+          if (plan.trialPeriodDays) {
+            productInfo += ` (${plan.trialPeriodDays}-day free trial)`;
+          }
+        }
+      }
+    }
+  } else if (product.price && product.currency) {
+    // Fallback to product price if no plans (legacy)
+    // Note: Whop API returns prices in DOLLARS, not cents
+    const price = product.price.toFixed(2);
+    productInfo += ` - ${product.currency} $${price}`;
+
+    if (product.accessType === "subscription" && product.billingPeriod) {
+      productInfo += ` per ${product.billingPeriod.replace('ly', '')}`;
+    } else if (product.accessType === "lifetime") {
+      productInfo += ` (lifetime access)`;
+    }
+  }
+
+  // Include more of the description (increased from 200 to 500 chars)
+  if (product.description) {
+    productInfo += `\n  Description: ${product.description.substring(0, 500)}${product.description.length > 500 ? '...' : ''}`;
+  }
+
+  if (product.productType) {
+    productInfo += `\n  Type: ${product.productType.replace('_', ' ')}`;
+  }
+
+  // Include more features (increased from 3 to 5)
+  if (product.features && product.features.length > 0) {
+    productInfo += `\n  Key Features: ${product.features.slice(0, 5).join(', ')}`;
+    if (product.features.length > 5) {
+      productInfo += `, and ${product.features.length - 5} more`;
+    }
+  }
+
+  return productInfo;
+}
+
+/**
+ * Build the products section of the system message
+ *
+ * `allProductTitles` is passed when `formattedProducts` is only a relevant
+ * subset, so the AI still knows what else the company sells.
+ */
+export function buildProductsContext(
+  formattedProducts: string[],
+  allProductTitles?: string[]
+): string {
+  if (formattedProducts.length === 0 && !allProductTitles?.length) return "";
+
+  const isSubset =
+    !!allProductTitles && allProductTitles.length > formattedProducts.length;
+
+  let productsContext = `\n\nCOMPANY PRODUCTS & SERVICES${isSubset ? " (most relevant to this conversation)" : ""}:
+${formattedProducts.join('\n\n')}`;
+
+  if (isSubset) {
+    productsContext += `\n\nALL PRODUCTS OFFERED: ${allProductTitles!.join(', ')}`;
+  }
+
+  productsContext += `\n\nIMPORTANT: When customers ask about products, pricing, features, or subscriptions, refer to the exact information above. Always provide accurate pricing and billing information. If a product has multiple pricing options (monthly, yearly, lifetime, or free), explain all available options.`;
+
+  return productsContext;
+}
@@ -0,0 +1,180 @@
+/**
+ * FAKE PROVIDER
+ *
+ * Deterministic in-process provider for tests and offline CI runs.
+ * Same input always produces the same output - no network, no API key.
+ */
+
+import type {
+  ChatRequest,
+  ChatResult,
+  ChatStreamHandler,
+  EmbeddingRequest,
+  EmbeddingResult,
+  LLMProvider,
+  ModerationRequest,
+  ModerationResult,
+} from "./types";
+
+// Matches text-embedding-3-small so fake vectors fit the same indexes
+export const FAKE_EMBEDDING_DIMENSIONS = 1536;
+
+// Words that make the fake moderation endpoint flag an input
+const FAKE_FLAGGED_TERMS: Record<string, string> = {
+  "[flag:harassment]": "harassment",
+  "[flag:violence]": "violence",
+  "[flag:self-harm]": "self-harm",
+};
+
+export interface FakeProviderOptions {
+  // Override the reply for a request (defaults to echoing the last user message)
+  respond?: (request: ChatRequest) => string;
+}
+
+/**
+ * Rough token estimate: one token per whitespace-separated word
+ */
+export function countFakeTokens(text: string): number {
+  const trimmed = text.trim();
+  return trimmed ? trimmed.split(/\s+/).length : 0;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashed bag-of-words embedding, L2-normalized.
+ * Texts sharing words end up with a positive cosine similarity.
+ */
+export function fakeEmbedding(
+  text: string,
+  dimensions: number = FAKE_EMBEDDING_DIMENSIONS
+): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) || [];
+
+  for (const word of words) {
+    vector[hashString(word) % dimensions] += 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm === 0 ? vector : vector.map((x) => x / norm);
+}
+
+/**
+ * Fill a JSON schema with placeholder values: the echo text for strings,
+ * the first option for enums, false for booleans and 1 for numbers.
+ */
+function fillSchema(schema: Record<string, unknown>, text: string): unknown {
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+
+  switch (schema.type) {
+    case "object": {
+      const properties = (schema.properties || {}) as Record<string, Record<string, unknown>>;
+      return Object.fromEntries(
+        Object.entries(properties).map(([key, value]) => [key, fillSchema(value, text)])
+      );
+    }
+    case "array":
+      return [];
+    case "boolean":
+      return false;
+    case "number":
+    case "integer":
+      return 1;
+    default:
+      return text;
+  }
+}
+
+function defaultRespond(request: ChatRequest): string {
+  const lastUser = [...request.messages]
+    .reverse()
+    .find((m) => m.role === "user");
+  const text = `[fake:${request.model}] ${lastUser?.content ?? ""}`.trim();
+
+  if (request.jsonSchema) {
+    return JSON.stringify(fillSchema(request.jsonSchema.schema, text));
+  }
+  return text;
+}
+
+export function createFakeProvider(
+  options: FakeProviderOptions = {}
+): LLMProvider {
+  const respond = options.respond ?? defaultRespond;
+
+  const chat = async (request: ChatRequest): Promise<ChatResult> => {
+    const content = respond(request);
+    const promptTokens = request.messages.reduce(
+      (sum, m) => sum + countFakeTokens(m.content),
+      0
+    );
+    const completionTokens = countFakeTokens(content);
+
+    return {
+      content,
+      model: request.model,
+      finishReason: "stop",
+      usage: {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+      },
+    };
+  };
+
+  return {
+    name: "fake",
+
+    chat,
+
+    // Streams the same reply as chat(), one word (plus trailing space) per chunk
+    async chatStream(
+      request: ChatRequest,
+      onDelta: ChatStreamHandler
+    ): Promise<ChatResult> {
+      const result = await chat(request);
+      const chunks = result.content.match(/\S+\s*/g) || [];
+
+      let accumulated = "";
+      for (const chunk of chunks) {
+        accumulated += chunk;
+        await onDelta(chunk, accumulated);
+      }
+
+      return result;
+    },
+
+    async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+      const promptTokens = request.input.reduce(
+        (sum, text) => sum + countFakeTokens(text),
+        0
+      );
+
+      return {
+        embeddings: request.input.map((text) => fakeEmbedding(text)),
+        model: request.model,
+        usage: { promptTokens, totalTokens: promptTokens },
+      };
+    },
+
+    async moderate(request: ModerationRequest): Promise<ModerationResult> {
+      const lower = request.input.toLowerCase();
+      const categories = Object.entries(FAKE_FLAGGED_TERMS)
+        .filter(([term]) => lower.includes(term))
+        .map(([, category]) => category);
+
+      return { flagged: categories.length > 0, categories };
+    },
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * LLM PROVIDER REGISTRY
+ *
+ * Resolves a model spec string to a provider plus the model name to call it with.
+ *
+ * Spec format (used in companies.selectedAiModel and plans.aiModels):
+ * - "gpt-5.2"                          → OpenAI (bare names default to OpenAI)
+ * - "openai:gpt-5.2"                   → OpenAI
+ * - "openai_compatible:llama-3.1-70b"  → Self-hosted OpenAI-compatible endpoint
+ * - "fake:any-name"                    → Deterministic in-process fake
+ *
+ * Setting AI_PROVIDER_OVERRIDE=fake routes every spec to the fake provider,
+ * which lets the whole AI pipeline run offline in CI.
+ *
+ * AI_VISION_MODEL picks the model that reads image attachments, e.g. an
+ * OCR service behind an OpenAI-compatible endpoint.
+ */
+
+import { createFakeProvider } from "./fake";
+import { createOpenAIProvider, getOpenAIClient } from "./openai";
+import { createOpenAICompatibleProvider } from "./openaiCompatible";
+import type { LLMProvider, ProviderName, ResolvedModel } from "./types";
+
+export type * from "./types";
+export { getOpenAIClient } from "./openai";
+
+export const DEFAULT_CHAT_MODEL = "gpt-5.2";
+export const DEFAULT_EMBEDDING_MODEL = "openai:text-embedding-3-small";
+export const DEFAULT_MODERATION_MODEL = "openai:omni-moderation-latest";
+export const DEFAULT_VISION_MODEL = "openai:gpt-5-mini";
+
+const PROVIDER_NAMES: ProviderName[] = ["openai", "openai_compatible", "fake"];
+
+/**
+ * Split a model spec into provider name and model name (pure, no env access)
+ */
+export function parseModelSpec(spec: string): {
+  providerName: ProviderName;
+  model: string;
+} {
+  const trimmed = (spec || "").trim();
+  const separatorIndex = trimmed.indexOf(":");
+
+  if (separatorIndex > 0) {
+    const prefix = trimmed.slice(0, separatorIndex) as ProviderName;
+    if (PROVIDER_NAMES.includes(prefix)) {
+      return {
+        providerName: prefix,
+        model: trimmed.slice(separatorIndex + 1) || DEFAULT_CHAT_MODEL,
+      };
+    }
+  }
+
+  return { providerName: "openai", model: trimmed || DEFAULT_CHAT_MODEL };
+}
+
+/**
+ * Pick the model spec a company should use, constrained by its plan.
+ * Falls back to the plan's first model, then the global default.
+ */
+export function pickModelSpec(
+  selectedAiModel: string | undefined,
+  planModels?: string[]
+): string {
+  if (!planModels || planModels.length === 0) {
+    return selectedAiModel || DEFAULT_CHAT_MODEL;
+  }
+  if (selectedAiModel && planModels.includes(selectedAiModel)) {
+    return selectedAiModel;
+  }
+  return planModels[0];
+}
+
+const providerCache: Partial<Record<ProviderName, LLMProvider>> = {};
+
+export function getProvider(name: ProviderName): LLMProvider {
+  const cached = providerCache[name];
+  if (cached) return cached;
+
+  let provider: LLMProvider;
+  switch (name) {
+    case "openai_compatible":
+      provider = createOpenAICompatibleProvider();
+      break;
+    case "fake":
+      provider = createFakeProvider();
+      break;
+    case "openai":
+    default:
+      provider = createOpenAIProvider(getOpenAIClient());
+      break;
+  }
+
+  providerCache[name] = provider;
+  return provider;
+}
+
+/**
+ * Resolve a model spec to a ready-to-call provider
+ */
+export function resolveModel(spec: string | undefined): ResolvedModel {
+  const effectiveSpec = spec || DEFAULT_CHAT_MODEL;
+  const { providerName, model } = parseModelSpec(effectiveSpec);
+
+  const override = process.env.AI_PROVIDER_OVERRIDE as ProviderName | undefined;
+  const providerToUse =
+    override && PROVIDER_NAMES.includes(override) ? override : providerName;
+
+  return {
+    provider: getProvider(providerToUse),
+    model,
+    spec: effectiveSpec,
+  };
+}
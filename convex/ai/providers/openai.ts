@@ -0,0 +1,190 @@
+/**
+ * OPENAI PROVIDER
+ *
+ * Chat Completions, Embeddings and Moderation via the official OpenAI SDK.
+ * Also exposes the shared client for the Assistants API code paths, which
+ * have no vendor-neutral equivalent.
+ */
+
+import OpenAI from "openai";
+import type {
+  ChatMessage,
+  ChatRequest,
+  ChatResult,
+  ChatStreamHandler,
+  EmbeddingRequest,
+  EmbeddingResult,
+  LLMProvider,
+  ModerationRequest,
+  ModerationResult,
+  ProviderName,
+} from "./types";
+
+let sharedClient: OpenAI | null = null;
+
+/**
+ * Map a JSON schema constraint to OpenAI structured outputs
+ */
+function toResponseFormat(request: ChatRequest) {
+  if (!request.jsonSchema) return undefined;
+  return {
+    type: "json_schema" as const,
+    json_schema: {
+      name: request.jsonSchema.name,
+      schema: request.jsonSchema.schema,
+      strict: true,
+    },
+  };
+}
+
+/**
+ * Map messages to the wire format; images become image_url content parts
+ */
+function toOpenAIMessages(messages: ChatMessage[]): OpenAI.Chat.ChatCompletionMessageParam[] {
+  return messages.map((message) => {
+    if (message.role === "user" && message.images?.length) {
+      return {
+        role: "user",
+        content: [
+          { type: "text", text: message.content },
+          ...message.images.map((url) => ({
+            type: "image_url" as const,
+            image_url: { url },
+          })),
+        ],
+      };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+/**
+ * Get the shared OpenAI client (created lazily on first use)
+ */
+export function getOpenAIClient(): OpenAI {
+  if (!sharedClient) {
+    sharedClient = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+    });
+  }
+  return sharedClient;
+}
+
+/**
+ * Build a provider on top of any client that speaks the OpenAI wire format
+ */
+export function createOpenAIProvider(
+  client: OpenAI,
+  name: ProviderName = "openai"
+): LLMProvider {
+  return {
+    name,
+
+    async chat(request: ChatRequest): Promise<ChatResult> {
+      const completion = await client.chat.completions.create({
+        model: request.model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature,
+        max_completion_tokens: request.maxTokens,
+        presence_penalty: request.presencePenalty,
+        frequency_penalty: request.frequencyPenalty,
+        response_format: toResponseFormat(request),
+      });
+
+      return {
+        content: completion.choices[0]?.message?.content || "",
+        model: completion.model,
+        finishReason: completion.choices[0]?.finish_reason || undefined,
+        usage: {
+          promptTokens: completion.usage?.prompt_tokens || 0,
+          completionTokens: completion.usage?.completion_tokens || 0,
+          totalTokens: completion.usage?.total_tokens || 0,
+        },
+      };
+    },
+
+    async chatStream(
+      request: ChatRequest,
+      onDelta: ChatStreamHandler
+    ): Promise<ChatResult> {
+      const stream = await client.chat.completions.create({
+        model: request.model,
+        messages: toOpenAIMessages(request.messages),
+        temperature: request.temperature,
+        max_completion_tokens: request.maxTokens,
+        presence_penalty: request.presencePenalty,
+        frequency_penalty: request.frequencyPenalty,
+        response_format: toResponseFormat(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+      let content = "";
+      let model = request.model;
+      let finishReason: string | undefined;
+      let usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+
+        // Final chunk carries usage and no choices
+        if (chunk.usage) {
+          usage = {
+            promptTokens: chunk.usage.prompt_tokens || 0,
+            completionTokens: chunk.usage.completion_tokens || 0,
+            totalTokens: chunk.usage.total_tokens || 0,
+          };
+        }
+
+        const choice = chunk.choices[0];
+        if (!choice) continue;
+        if (choice.finish_reason) finishReason = choice.finish_reason;
+
+        const delta = choice.delta?.content;
+        if (delta) {
+          content += delta;
+          await onDelta(delta, content);
+        }
+      }
+
+      return { content, model, finishReason, usage };
+    },
+
+    async embed(request: EmbeddingRequest): Promise<EmbeddingResult> {
+      const response = await client.embeddings.create({
+        model: request.model,
+        input: request.input,
+      });
+
+      return {
+        embeddings: response.data
+          .sort((a, b) => a.index - b.index)
+          .map((item) => item.embedding),
+        model: response.model,
+        usage: {
+          promptTokens: response.usage?.prompt_tokens || 0,
+          totalTokens: response.usage?.total_tokens || 0,
+        },
+      };
+    },
+
+    async moderate(request: ModerationRequest): Promise<ModerationResult> {
+      const response = await client.moderations.create({
+        input: request.input,
+        ...(request.model ? { model: request.model } : {}),
+      });
+
+      const result = response.results[0];
+      const categories = result
+        ? Object.entries(result.categories)
+            .filter(([, flagged]) => flagged)
+            .map(([category]) => category)
+        : [];
+
+      return {
+        flagged: result?.flagged ?? false,
+        categories,
+      };
+    },
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * OPENAI-COMPATIBLE PROVIDER
+ *
+ * For self-hosted models behind an OpenAI-compatible endpoint
+ * (vLLM, Ollama, LM Studio, LiteLLM, etc.).
+ *
+ * Configured via environment variables:
+ * - OPENAI_COMPATIBLE_BASE_URL (required, e.g. http://localhost:11434/v1)
+ * - OPENAI_COMPATIBLE_API_KEY (optional, many local servers ignore it)
+ */
+
+import OpenAI from "openai";
+import { createOpenAIProvider } from "./openai";
+import type { LLMProvider } from "./types";
+
+let compatibleClient: OpenAI | null = null;
+
+export function createOpenAICompatibleProvider(): LLMProvider {
+  const baseURL = process.env.OPENAI_COMPATIBLE_BASE_URL;
+  if (!baseURL) {
+    throw new Error(
+      "OPENAI_COMPATIBLE_BASE_URL is not set - cannot use openai_compatible models"
+    );
+  }
+
+  if (!compatibleClient) {
+    compatibleClient = new OpenAI({
+      baseURL,
+      apiKey: process.env.OPENAI_COMPATIBLE_API_KEY || "not-needed",
+    });
+  }
+
+  return createOpenAIProvider(compatibleClient, "openai_compatible");
+}
@@ -0,0 +1,151 @@
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  DEFAULT_CHAT_MODEL,
+  parseModelSpec,
+  pickModelSpec,
+  resolveModel,
+} from "./index";
+import { createFakeProvider, fakeEmbedding } from "./fake";
+
+function cosine(a: number[], b: number[]): number {
+  return a.reduce((sum, x, i) => sum + x * b[i], 0);
+}
+
+describe("parseModelSpec", () => {
+  it("defaults bare model names to OpenAI", () => {
+    expect(parseModelSpec("gpt-5.2")).toEqual({
+      providerName: "openai",
+      model: "gpt-5.2",
+    });
+  });
+
+  it("splits provider-prefixed specs", () => {
+    expect(parseModelSpec("openai_compatible:llama-3.1-70b")).toEqual({
+      providerName: "openai_compatible",
+      model: "llama-3.1-70b",
+    });
+    expect(parseModelSpec("fake:echo")).toEqual({
+      providerName: "fake",
+      model: "echo",
+    });
+  });
+
+  it("treats unknown prefixes as part of an OpenAI model name", () => {
+    expect(parseModelSpec("ft:gpt-4o:acme")).toEqual({
+      providerName: "openai",
+      model: "ft:gpt-4o:acme",
+    });
+  });
+
+  it("falls back to the default model for empty specs", () => {
+    expect(parseModelSpec("").model).toBe(DEFAULT_CHAT_MODEL);
+  });
+});
+
+describe("pickModelSpec", () => {
+  it("uses the selected model when the plan allows it", () => {
+    expect(pickModelSpec("gpt-4o", ["gpt-4o-mini", "gpt-4o"])).toBe("gpt-4o");
+  });
+
+  it("falls back to the plan's first model when the selection is not allowed", () => {
+    expect(pickModelSpec("gpt-4o", ["gpt-4o-mini"])).toBe("gpt-4o-mini");
+  });
+
+  it("uses the selection or default when no plan models are known", () => {
+    expect(pickModelSpec("gpt-4o", undefined)).toBe("gpt-4o");
+    expect(pickModelSpec(undefined, [])).toBe(DEFAULT_CHAT_MODEL);
+  });
+});
+
+describe("resolveModel", () => {
+  afterEach(() => {
+    delete process.env.AI_PROVIDER_OVERRIDE;
+  });
+
+  it("resolves fake specs without any API key", () => {
+    const resolved = resolveModel("fake:echo");
+    expect(resolved.provider.name).toBe("fake");
+    expect(resolved.model).toBe("echo");
+  });
+
+  it("routes every spec to the override provider when set", () => {
+    process.env.AI_PROVIDER_OVERRIDE = "fake";
+    const resolved = resolveModel("gpt-5.2");
+    expect(resolved.provider.name).toBe("fake");
+    expect(resolved.model).toBe("gpt-5.2");
+  });
+});
+
+describe("fake provider", () => {
+  it("returns the same reply for the same request", async () => {
+    const provider = createFakeProvider();
+    const request = {
+      model: "echo",
+      messages: [
+        { role: "system" as const, content: "You are support." },
+        { role: "user" as const, content: "Where is my invoice?" },
+      ],
+    };
+
+    const first = await provider.chat(request);
+    const second = await provider.chat(request);
+
+    expect(first).toEqual(second);
+    expect(first.content).toBe("[fake:echo] Where is my invoice?");
+    expect(first.usage.totalTokens).toBe(
+      first.usage.promptTokens + first.usage.completionTokens
+    );
+  });
+
+  it("streams the same reply chunk by chunk", async () => {
+    const provider = createFakeProvider({
+      respond: () => "Your refund was issued today.",
+    });
+    const request = { model: "echo", messages: [] };
+    const seen: string[] = [];
+
+    const result = await provider.chatStream(request, (_delta, accumulated) => {
+      seen.push(accumulated);
+    });
+
+    expect(seen).toEqual([
+      "Your ",
+      "Your refund ",
+      "Your refund was ",
+      "Your refund was issued ",
+      "Your refund was issued today.",
+    ]);
+    expect(result).toEqual(await provider.chat(request));
+  });
+
+  it("supports scripted replies", async () => {
+    const provider = createFakeProvider({ respond: () => "scripted" });
+    const result = await provider.chat({ model: "x", messages: [] });
+    expect(result.content).toBe("scripted");
+  });
+
+  it("produces normalized embeddings where related texts score higher", async () => {
+    const provider = createFakeProvider();
+    const { embeddings } = await provider.embed({
+      model: "fake",
+      input: ["refund policy for courses", "course refund", "discord roles"],
+    });
+
+    expect(cosine(embeddings[0], embeddings[0])).toBeCloseTo(1);
+    expect(cosine(embeddings[0], embeddings[1])).toBeGreaterThan(
+      cosine(embeddings[0], embeddings[2])
+    );
+    expect(fakeEmbedding("same text")).toEqual(fakeEmbedding("same text"));
+  });
+
+  it("flags moderation inputs containing marker terms", async () => {
+    const provider = createFakeProvider();
+    expect(await provider.moderate({ input: "hello" })).toEqual({
+      flagged: false,
+      categories: [],
+    });
+    expect(
+      await provider.moderate({ input: "this is [flag:harassment]" })
+    ).toEqual({ flagged: true, categories: ["harassment"] });
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * LLM PROVIDER TYPES
+ *
+ * Vendor-neutral shapes shared by every provider implementation.
+ * Actions talk to these types only, never to a vendor SDK directly.
+ */
+
+export type ProviderName = "openai" | "openai_compatible" | "fake";
+
+export type ChatRole = "system" | "user" | "assistant";
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  images?: string[]; // Image URLs sent with a user message (vision-capable models only)
+}
+
+/**
+ * Constrains a chat reply to a JSON object matching `schema`
+ */
+export interface JsonSchemaFormat {
+  name: string;
+  schema: Record<string, unknown>;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+  jsonSchema?: JsonSchemaFormat;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatResult {
+  content: string;
+  model: string;
+  finishReason?: string;
+  usage: TokenUsage;
+}
+
+/**
+ * Called for each streamed chunk with the new text and everything received so far
+ */
+export type ChatStreamHandler = (
+  delta: string,
+  accumulated: string
+) => void | Promise<void>;
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+}
+
+export interface EmbeddingResult {
+  embeddings: number[][];
+  model: string;
+  usage: { promptTokens: number; totalTokens: number };
+}
+
+export interface ModerationRequest {
+  input: string;
+  model?: string;
+}
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: string[]; // Names of the categories that were flagged
+}
+
+/**
+ * A chat/embedding/moderation backend
+ */
+export interface LLMProvider {
+  name: ProviderName;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  chatStream(
+    request: ChatRequest,
+    onDelta: ChatStreamHandler
+  ): Promise<ChatResult>;
+  embed(request: EmbeddingRequest): Promise<EmbeddingResult>;
+  moderate(request: ModerationRequest): Promise<ModerationResult>;
+}
+
+/**
+ * A provider paired with the model name it should be called with
+ */
+export interface ResolvedModel {
+  provider: LLMProvider;
+  model: string;
+  spec: string; // Original spec string (e.g. "openai_compatible:llama-3.1-70b")
+}
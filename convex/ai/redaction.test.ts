@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_PII_REDACTION,
+  createRedactor,
+  validateCustomPiiPattern,
+} from "./redaction";
+
+describe("createRedactor", () => {
+  it("replaces built-in PII with placeholders", () => {
+    const redactor = createRedactor(DEFAULT_PII_REDACTION);
+    const redacted = redactor.redact(
+      "I'm jane@example.com, card 4242 4242 4242 4242, call +1 415-555-0132, key ABCD-1234-EFGH-5678"
+    );
+    expect(redacted).not.toMatch(/jane@example\.com|4242 4242|555-0132|ABCD-1234/);
+    expect(redacted).toMatch(/\[EMAIL_[0-9A-F]{6}\]/);
+    expect(redactor.redactedCategories().sort()).toEqual([
+      "card",
+      "email",
+      "license_key",
+      "phone",
+    ]);
+  });
+
+  it("gives the same value the same placeholder on every call", () => {
+    const first = createRedactor(DEFAULT_PII_REDACTION).redact("jane@example.com");
+    const second = createRedactor(DEFAULT_PII_REDACTION).redact("Email: jane@example.com");
+    expect(second).toBe(`Email: ${first}`);
+  });
+
+  it("puts values back in replies but masks card numbers", () => {
+    const redactor = createRedactor(DEFAULT_PII_REDACTION);
+    const redacted = redactor.redact("jane@example.com / 4242424242424242");
+    const [email, card] = redacted.split(" / ");
+    expect(redactor.restore(`Sent to ${email}, card ${card}`)).toBe(
+      "Sent to jane@example.com, card •••• 4242"
+    );
+  });
+
+  it("hides a placeholder that is still streaming", () => {
+    const redactor = createRedactor(DEFAULT_PII_REDACTION);
+    redactor.redact("jane@example.com");
+    expect(redactor.restore("We emailed [EMA", { partial: true })).toBe("We emailed ");
+  });
+
+  it("leaves order dates and short numbers alone", () => {
+    const redactor = createRedactor(DEFAULT_PII_REDACTION);
+    const text = "Order 58213 placed 2024-01-15 for $49";
+    expect(redactor.redact(text)).toBe(text);
+  });
+
+  it("applies custom patterns and honours reinsert", () => {
+    const redactor = createRedactor({
+      ...DEFAULT_PII_REDACTION,
+      customPatterns: [{ label: "Account ID", pattern: "ACC-\\d{6}", reinsert: false }],
+    });
+    const redacted = redactor.redact("My account is ACC-123456");
+    expect(redacted).toMatch(/\[ACCOUNT_ID_[0-9A-F]{6}\]/);
+    expect(redactor.restore(redacted)).toBe("My account is ••••");
+    expect(redactor.redactedCategories()).toEqual(["Account ID"]);
+  });
+
+  it("does nothing when disabled", () => {
+    const redactor = createRedactor({ ...DEFAULT_PII_REDACTION, enabled: false });
+    expect(redactor.redact("jane@example.com")).toBe("jane@example.com");
+  });
+});
+
+describe("validateCustomPiiPattern", () => {
+  it("rejects invalid and empty-matching patterns", () => {
+    expect(validateCustomPiiPattern({ label: "Bad", pattern: "([", reinsert: true })).toMatch(
+      /not a valid/
+    );
+    expect(validateCustomPiiPattern({ label: "Any", pattern: "\\d*", reinsert: true })).toMatch(
+      /empty text/
+    );
+    expect(validateCustomPiiPattern({ label: "Ok", pattern: "ACC-\\d+", reinsert: true })).toBeNull();
+  });
+});
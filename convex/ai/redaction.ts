@@ -0,0 +1,183 @@
+/**
+ * PII REDACTION
+ *
+ * Customer text is redacted before it's sent to a model provider: emails,
+ * phone numbers, card numbers, license keys and any patterns the company
+ * adds are swapped for placeholders like [EMAIL_3F9A1C]. The model answers
+ * with the placeholders and we put the values back before the customer sees
+ * the reply. Card numbers and non-reinsertable custom patterns come back
+ * masked instead.
+ *
+ * Placeholders are derived from the value, not its position, so the same
+ * email gets the same placeholder on every call - in the history, in the
+ * rolling summary and in replies. Stored messages are never changed; agents
+ * always see the original text.
+ */
+
+export type PiiCategory = "email" | "phone" | "card" | "license_key";
+
+export type CustomPiiPattern = {
+  label: string; // Shown to admins and stored on AI messages
+  pattern: string; // Regular expression source, matched case-insensitively
+  reinsert: boolean; // Put the value back in replies, or mask it
+};
+
+export type PiiRedactionSettings = {
+  enabled: boolean;
+  categories: PiiCategory[];
+  customPatterns: CustomPiiPattern[];
+};
+
+export const PII_CATEGORY_LABELS: Record<PiiCategory, string> = {
+  email: "Email addresses",
+  phone: "Phone numbers",
+  card: "Card numbers",
+  license_key: "License keys",
+};
+
+// Applied when a company hasn't changed its settings
+export const DEFAULT_PII_REDACTION: PiiRedactionSettings = {
+  enabled: true,
+  categories: ["email", "phone", "card", "license_key"],
+  customPatterns: [],
+};
+
+export const MAX_CUSTOM_PII_PATTERNS = 20;
+
+// Order matters: card numbers are long digit runs that also look like phones
+const BUILT_IN_PATTERNS: Array<{ category: PiiCategory; regex: RegExp }> = [
+  { category: "email", regex: /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi },
+  { category: "card", regex: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g },
+  {
+    category: "license_key",
+    regex: /(?<![\w-])(?=[A-Z0-9-]*\d)[A-Z0-9]{4,12}(?:-[A-Z0-9]{4,12}){2,}(?![\w-])/gi,
+  },
+  {
+    category: "phone",
+    regex: /(?<![\w+])(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}(?!\w)/g,
+  },
+];
+
+const MASK = "••••";
+const PLACEHOLDER_SPLIT = /(\[[A-Z0-9_]+\])/;
+
+/**
+ * Error message for a custom pattern, or null when it's usable
+ */
+export function validateCustomPiiPattern(pattern: CustomPiiPattern): string | null {
+  if (!pattern.label.trim()) return "Pattern name is required";
+  if (!pattern.pattern.trim()) return "Pattern is required";
+  try {
+    const regex = new RegExp(pattern.pattern, "gi");
+    if (regex.test("")) return `"${pattern.label}" matches empty text`;
+  } catch {
+    return `"${pattern.label}" is not a valid regular expression`;
+  }
+  return null;
+}
+
+// FNV-1a, hex - short and stable across calls
+function hashValue(value: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0").slice(0, 6).toUpperCase();
+}
+
+function placeholderTag(label: string): string {
+  return label.toUpperCase().replace(/[^A-Z0-9]+/g, "_").replace(/^_|_$/g, "") || "PII";
+}
+
+export type Redactor = {
+  /** Replace PII in text sent to the model */
+  redact: (text: string) => string;
+  /**
+   * Put values back into model output. `partial` hides a placeholder that
+   * is still being streamed.
+   */
+  restore: (text: string, options?: { partial?: boolean }) => string;
+  /** Categories (or custom pattern labels) redacted so far */
+  redactedCategories: () => string[];
+};
+
+export function createRedactor(settings: PiiRedactionSettings): Redactor {
+  const patterns: Array<{ category: string; tag: string; regex: RegExp; reinsert: boolean }> = [];
+  if (settings.enabled) {
+    for (const { category, regex } of BUILT_IN_PATTERNS) {
+      if (!settings.categories.includes(category)) continue;
+      patterns.push({ category, tag: placeholderTag(category), regex, reinsert: category !== "card" });
+    }
+    for (const custom of settings.customPatterns) {
+      if (validateCustomPiiPattern(custom)) continue;
+      patterns.push({
+        category: custom.label,
+        tag: placeholderTag(custom.label),
+        regex: new RegExp(custom.pattern, "gi"),
+        reinsert: custom.reinsert,
+      });
+    }
+  }
+
+  // placeholder -> what goes back into replies
+  const replacements = new Map<string, string>();
+  const byValue = new Map<string, string>();
+  const categories = new Set<string>();
+
+  const placeholderFor = (
+    value: string,
+    pattern: { category: string; tag: string; reinsert: boolean }
+  ): string => {
+    const existing = byValue.get(value);
+    if (existing) return existing;
+
+    let placeholder = `[${pattern.tag}_${hashValue(value)}]`;
+    // Two values with the same hash - vanishingly rare, but never mix them up
+    for (let n = 2; replacements.has(placeholder); n++) {
+      placeholder = `[${pattern.tag}_${hashValue(value)}${n}]`;
+    }
+
+    const digits = value.replace(/\D/g, "");
+    const masked = pattern.category === "card" ? `${MASK} ${digits.slice(-4)}` : MASK;
+    replacements.set(placeholder, pattern.reinsert ? value : masked);
+    byValue.set(value, placeholder);
+    return placeholder;
+  };
+
+  return {
+    redact(text) {
+      let redacted = text;
+      for (const pattern of patterns) {
+        // Leave placeholders from earlier patterns alone
+        redacted = redacted
+          .split(PLACEHOLDER_SPLIT)
+          .map((segment, i) =>
+            i % 2 === 1
+              ? segment
+              : segment.replace(pattern.regex, (match) => {
+                  categories.add(pattern.category);
+                  return placeholderFor(match, pattern);
+                })
+          )
+          .join("");
+      }
+      return redacted;
+    },
+
+    restore(text, options) {
+      if (replacements.size === 0) return text;
+      let restored = text.replace(/\[[A-Z0-9_]+\]/g, (placeholder) =>
+        replacements.get(placeholder) ?? placeholder
+      );
+      if (options?.partial) {
+        restored = restored.replace(/\[[A-Z0-9_]*$/, "");
+      }
+      return restored;
+    },
+
+    redactedCategories() {
+      return [...categories];
+    },
+  };
+}
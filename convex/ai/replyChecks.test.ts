@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { checkReply } from "./replyChecks";
+import { FALLBACK_REPLY, type HandoffDecision } from "./handoff";
+import { DEFAULT_TOPIC_POLICY } from "./topicPolicy";
+import { createFakeProvider } from "./providers/fake";
+import type { ChatRequest } from "./providers";
+
+const catalog = [
+  {
+    title: "Pro",
+    pricingOptions: [
+      { _id: "plan_m", title: "Monthly", planType: "renewal", initialPrice: 29.99, renewalPrice: 29.99, billingPeriod: 30, currency: "usd" },
+    ],
+  },
+];
+
+const reply = (answer: string, handoff = false) =>
+  JSON.stringify({ handoff, reasonCategory: handoff ? "billing" : "none", reason: "", confidence: 0.9, answer, sources: [] });
+
+// Replies with `retryAnswer` to the model and allows every topic
+const providerAnswering = (retryAnswer: string, retryHandoff = false) => {
+  const requests: ChatRequest[] = [];
+  const provider = createFakeProvider({
+    respond: (request) => {
+      requests.push(request);
+      if (request.jsonSchema?.name === "topic_verdict") {
+        return JSON.stringify({ verdict: "allowed", matchedTopic: "", reason: "", confidence: 0.9 });
+      }
+      return reply(retryAnswer, retryHandoff);
+    },
+  });
+  return { provider, requests };
+};
+
+const check = (provider: ReturnType<typeof createFakeProvider>, decision: HandoffDecision, enabledTriggers: string[] = []) =>
+  checkReply(provider, "test", {
+    decision,
+    content: reply(decision.answer, decision.handoff),
+    chatMessages: [{ role: "user", content: "How much is Pro?" }],
+    maxTokens: 500,
+    customerMessage: "How much is Pro?",
+    enabledTriggers,
+    keywordOverride: false,
+    catalog,
+    productTitles: ["Pro"],
+    topicPolicy: DEFAULT_TOPIC_POLICY,
+    companyName: "Acme",
+    companyContext: "",
+  });
+
+const billingHandoff: HandoffDecision = {
+  answer: "Let me connect you with our billing team.",
+  handoff: true,
+  reasonCategory: "billing",
+  reason: "Pricing question",
+  confidence: 0.9,
+};
+
+describe("checkReply", () => {
+  it("skips the checks when the handoff goes ahead", async () => {
+    const { provider, requests } = providerAnswering("unused");
+    const checked = await check(provider, billingHandoff, ["billing_questions"]);
+    expect(checked.handoff.shouldHandoff).toBe(true);
+    expect(requests).toHaveLength(0);
+  });
+
+  it("regenerates an answer whose handoff trigger is switched off, then checks its prices", async () => {
+    const { provider } = providerAnswering("Pro costs $30/month.");
+    const checked = await check(provider, billingHandoff);
+    expect(checked.handoff.shouldHandoff).toBe(false);
+    expect(checked.response).toBe("Pro costs $29.99/month.");
+    expect(checked.priceIncident?.resolution).toBe("corrected");
+    expect(checked.replaced).toBe(true);
+    expect(checked.usage.totalTokens).toBeGreaterThan(0);
+  });
+
+  it("falls back to a canned reply when the model still wants to hand off", async () => {
+    const { provider } = providerAnswering("Transferring you now.", true);
+    const checked = await check(provider, billingHandoff);
+    expect(checked.response).toBe(FALLBACK_REPLY);
+    expect(checked.sourceContent).toBeNull();
+  });
+
+  it("keeps a clean answer as it is", async () => {
+    const { provider } = providerAnswering("unused");
+    const decision: HandoffDecision = { answer: "Pro is $29.99/month.", handoff: false, reasonCategory: "none", reason: "" };
+    const checked = await check(provider, decision);
+    expect(checked.response).toBe("Pro is $29.99/month.");
+    expect(checked.replaced).toBe(false);
+    expect(checked.topicVerdict?.verdict).toBe("allowed");
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * REPLY CHECKS
+ *
+ * What happens to the model's answer before it goes out. Shared by live
+ * replies (generateChatResponse) and eval runs, so a test run grades the
+ * reply a customer would actually get:
+ *
+ * 1. Decide the handoff (resolveHandoff).
+ * 2. An answer left without a handoff - its trigger is switched off, or the
+ *    answer is empty - is regenerated once, else replaced by FALLBACK_REPLY.
+ * 3. Quoted prices are checked against the catalog: corrected in place,
+ *    else regenerated once, else kept and flagged for an agent.
+ * 4. The reply is classified against the topic policy and deflected when
+ *    it's off topic.
+ *
+ * Text sent to the provider goes through `redact`, answers come back through
+ * `restore` (both default to no-ops).
+ */
+
+import type { ChatMessage, LLMProvider, TokenUsage } from "./providers";
+import {
+  FALLBACK_REPLY,
+  HANDOFF_DECISION_SCHEMA,
+  buildNoHandoffHint,
+  parseHandoffDecision,
+  resolveHandoff,
+  type HandoffDecision,
+} from "./handoff";
+import {
+  applyPriceCorrections,
+  buildPriceCatalog,
+  buildPriceCorrectionHint,
+  validatePrices,
+  type PriceMismatch,
+  type PriceResolution,
+} from "./priceGuard";
+import {
+  classifyTopic,
+  getDeflectionMessage,
+  shouldDeflect,
+  type TopicPolicy,
+  type TopicStrictness,
+  type TopicVerdict,
+} from "./topicPolicy";
+
+export type PriceIncident = {
+  mismatches: PriceMismatch[];
+  resolution: PriceResolution;
+  originalReply: string;
+};
+
+export type CheckedReply = {
+  response: string;
+  handoff: ReturnType<typeof resolveHandoff>;
+  replaced: boolean; // No longer the model's first answer
+  sourceContent: string | null; // Model output the reply came from, for citations; null for canned text
+  priceIncident?: PriceIncident;
+  topicVerdict?: TopicVerdict & { strictness: TopicStrictness; deflected: boolean };
+  usage: TokenUsage; // Tokens spent by the retries and the classifier
+};
+
+const identity = (text: string) => text;
+
+export async function checkReply(
+  provider: LLMProvider,
+  model: string,
+  args: {
+    decision: HandoffDecision;
+    content: string; // Raw model output the decision was parsed from
+    chatMessages: ChatMessage[]; // The request that produced it, reused for retries
+    maxTokens: number;
+    customerMessage: string;
+    enabledTriggers: string[];
+    keywordOverride: boolean;
+    catalog: any[]; // Visible products, for the price guard
+    productTitles: string[];
+    topicPolicy: TopicPolicy;
+    companyName: string;
+    companyContext: string;
+    redact?: (text: string) => string;
+    restore?: (text: string) => string;
+  }
+): Promise<CheckedReply> {
+  const { decision, chatMessages, maxTokens, customerMessage } = args;
+  const redact = args.redact ?? identity;
+  const restore = args.restore ?? identity;
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  const addUsage = (extra: TokenUsage) => {
+    usage.promptTokens += extra.promptTokens;
+    usage.completionTokens += extra.completionTokens;
+    usage.totalTokens += extra.totalTokens;
+  };
+
+  const handoff = resolveHandoff({
+    decision,
+    enabledTriggers: args.enabledTriggers,
+    keywordOverride: args.keywordOverride,
+    customerMessage,
+  });
+  let response = restore(decision.answer);
+  let sourceContent: string | null = args.content;
+  let replaced = false;
+
+  if (handoff.shouldHandoff) {
+    return { response, handoff, replaced, sourceContent, usage };
+  }
+
+  // A handoff cancelled by a switched-off trigger leaves an answer written
+  // for a handoff (often empty, or "let me connect you")
+  if (decision.handoff || !response) {
+    let regenerated = "";
+    try {
+      const retry = await provider.chat({
+        model,
+        messages: [...chatMessages, { role: "system", content: buildNoHandoffHint() }],
+        temperature: 0.7,
+        maxTokens,
+        jsonSchema: HANDOFF_DECISION_SCHEMA,
+      });
+      addUsage(retry.usage);
+
+      const retryDecision = parseHandoffDecision(retry.content);
+      if (!retryDecision.handoff) {
+        regenerated = restore(retryDecision.answer);
+        sourceContent = retry.content;
+      }
+    } catch (retryError) {
+      console.warn("No-handoff retry failed:", retryError);
+    }
+    if (!regenerated) sourceContent = null;
+    response = regenerated || FALLBACK_REPLY;
+    replaced = true;
+  }
+
+  // Every quoted price must match a visible plan
+  let priceIncident: PriceIncident | undefined;
+  const priceCatalog = buildPriceCatalog(args.catalog);
+  const mismatches = validatePrices(response, priceCatalog, customerMessage);
+  if (mismatches.length > 0) {
+    const originalReply = response;
+    let resolution: PriceResolution = "flagged";
+
+    const corrected = applyPriceCorrections(response, mismatches);
+    if (corrected) {
+      response = corrected;
+      resolution = "corrected";
+    } else {
+      try {
+        const retry = await provider.chat({
+          model,
+          messages: [
+            ...chatMessages,
+            { role: "system", content: buildPriceCorrectionHint(mismatches, priceCatalog) },
+          ],
+          temperature: 0.3,
+          maxTokens,
+          jsonSchema: HANDOFF_DECISION_SCHEMA,
+        });
+        addUsage(retry.usage);
+
+        const retryAnswer = restore(parseHandoffDecision(retry.content).answer);
+        if (retryAnswer && validatePrices(retryAnswer, priceCatalog, customerMessage).length === 0) {
+          response = retryAnswer;
+          resolution = "regenerated";
+        }
+      } catch (retryError) {
+        console.warn("Price correction retry failed:", retryError);
+      }
+      // Still unverified - keep the reply and let an agent check it
+    }
+
+    if (resolution !== "flagged") replaced = true;
+    priceIncident = { mismatches, resolution, originalReply };
+  }
+
+  // Classify the exchange against the company's topic policy
+  let topicVerdict: CheckedReply["topicVerdict"];
+  const { verdict, usage: classifierUsage } = await classifyTopic(provider, model, {
+    policy: args.topicPolicy,
+    companyName: args.companyName,
+    companyContext: args.companyContext,
+    productTitles: args.productTitles,
+    customerMessage: redact(customerMessage),
+    draftAnswer: redact(response),
+  });
+  if (classifierUsage) addUsage(classifierUsage);
+  if (verdict) {
+    const deflected = shouldDeflect(verdict, args.topicPolicy.strictness);
+    topicVerdict = { ...verdict, strictness: args.topicPolicy.strictness, deflected };
+    if (deflected) {
+      response = getDeflectionMessage(args.topicPolicy, args.companyName);
+      replaced = true;
+      sourceContent = null;
+    }
+  }
+
+  return { response, handoff, replaced, sourceContent, priceIncident, topicVerdict, usage };
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildKnowledgeChunks,
+  buildRetrievalQuery,
+  shouldUseFullText,
+  splitIntoChunks,
+} from "./retrieval";
+
+describe("splitIntoChunks", () => {
+  it("keeps short text in a single chunk", () => {
+    expect(splitIntoChunks("  We sell trading signals.  ")).toEqual([
+      "We sell trading signals.",
+    ]);
+    expect(splitIntoChunks("   ")).toEqual([]);
+  });
+
+  it("respects the size limit and overlaps neighbouring chunks", () => {
+    const paragraphs = Array.from(
+      { length: 8 },
+      (_, i) => `Paragraph ${i} talks about refunds. It has a second sentence number ${i}.`
+    );
+    const chunks = splitIntoChunks(paragraphs.join("\n\n"), 200, 60);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(200);
+    }
+    expect(chunks[1]).toContain("second sentence number");
+    expect(chunks[1].startsWith("It has a second sentence")).toBe(true);
+  });
+
+  it("starts a new chunk at markdown headings without overlap", () => {
+    const text = `${"Intro text. ".repeat(10)}\n\n## Refunds\n\nRefunds within 7 days.`;
+    const chunks = splitIntoChunks(text, 150, 50);
+
+    expect(chunks[chunks.length - 1]).toBe("## Refunds\n\nRefunds within 7 days.");
+  });
+
+  it("hard-splits a single oversized sentence", () => {
+    const chunks = splitIntoChunks("x".repeat(450), 200, 0);
+    expect(chunks.map((c) => c.length)).toEqual([200, 200, 50]);
+  });
+});
+
+describe("buildKnowledgeChunks", () => {
+  it("emits context passages followed by one chunk per product", () => {
+    const chunks = buildKnowledgeChunks("About us.", [
+      { _id: "prod_1", title: "Pro Signals", pricingOptions: [] },
+    ]);
+
+    expect(chunks).toEqual([
+      { sourceType: "company_context", chunkIndex: 0, content: "About us." },
+      {
+        sourceType: "product",
+        sourceId: "prod_1",
+        title: "Pro Signals",
+        chunkIndex: 0,
+        content: "• Pro Signals",
+      },
+    ]);
+  });
+});
+
+describe("shouldUseFullText", () => {
+  it("sends small knowledge bases in full", () => {
+    expect(shouldUseFullText("short", ["• Product"])).toBe(true);
+    expect(shouldUseFullText("x".repeat(7000), [])).toBe(false);
+  });
+});
+
+describe("buildRetrievalQuery", () => {
+  it("adds the previous customer turn to short follow-ups", () => {
+    expect(buildRetrievalQuery(["Tell me about Pro Signals", "how much?"])).toBe(
+      "Tell me about Pro Signals\nhow much?"
+    );
+    expect(buildRetrievalQuery(["", "   "])).toBe("");
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * KNOWLEDGE RETRIEVAL HELPERS
+ *
+ * Pure helpers for chunked retrieval over company knowledge. The company
+ * context and product catalog are split into knowledge_chunks, embedded, and
+ * only the top-k chunks for the current question go into the AI prompt.
+ * Small knowledge bases skip retrieval and are sent in full.
+ */
+
+import { formatProductForAI } from "./productCatalog";
+
+// Target size of a single chunk (characters)
+export const CHUNK_MAX_CHARS = 1200;
+
+// Text carried over from the previous chunk so ideas aren't cut in half
+export const CHUNK_OVERLAP_CHARS = 200;
+
+// Knowledge bases up to this size are sent in full instead of retrieved
+export const FULL_TEXT_THRESHOLD_CHARS = 6000;
+
+// Chunks retrieved per AI response
+export const RETRIEVAL_TOP_K = 6;
+
+// Texts embedded per provider call
+export const EMBEDDING_BATCH_SIZE = 64;
+
+export type KnowledgeSourceType = "company_context" | "product";
+
+export type KnowledgeChunkInput = {
+  sourceType: KnowledgeSourceType;
+  sourceId?: string;
+  title?: string;
+  chunkIndex: number;
+  content: string;
+};
+
+/**
+ * Trailing text of a chunk to repeat at the start of the next one,
+ * trimmed forward to a sentence (or at least word) boundary.
+ */
+function overlapTail(text: string, overlapChars: number): string {
+  if (overlapChars <= 0 || text.length <= overlapChars) return "";
+
+  const slice = text.slice(-overlapChars);
+  const sentenceBreak = slice.search(/[.!?]\s/);
+  if (sentenceBreak !== -1) {
+    return slice.slice(sentenceBreak + 1).trim();
+  }
+  const wordBreak = slice.search(/\s/);
+  return wordBreak === -1 ? "" : slice.slice(wordBreak).trim();
+}
+
+/**
+ * Break a single oversized paragraph on sentence boundaries, hard-splitting
+ * any sentence that is still too long on its own.
+ */
+function splitLongParagraph(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) return [paragraph];
+
+  const pieces: string[] = [];
+  let current = "";
+  for (const sentence of paragraph.split(/(?<=[.!?])\s+/)) {
+    if (sentence.length > maxChars) {
+      if (current) pieces.push(current);
+      current = "";
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        pieces.push(sentence.slice(i, i + maxChars));
+      }
+      continue;
+    }
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      pieces.push(current);
+      current = sentence;
+    } else {
+      current = current ? `${current} ${sentence}` : sentence;
+    }
+  }
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Split free-form text into overlapping chunks of roughly `maxChars`.
+ * Paragraphs are kept together where possible and markdown headings always
+ * start a new chunk.
+ */
+export function splitIntoChunks(
+  text: string,
+  maxChars: number = CHUNK_MAX_CHARS,
+  overlapChars: number = CHUNK_OVERLAP_CHARS
+): string[] {
+  const normalized = text.replace(/\r\n/g, "\n").trim();
+  if (!normalized) return [];
+  if (normalized.length <= maxChars) return [normalized];
+
+  const pieces = normalized
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter((paragraph) => paragraph.length > 0)
+    .flatMap((paragraph) => splitLongParagraph(paragraph, maxChars));
+
+  const chunks: string[] = [];
+  let current = "";
+  for (const piece of pieces) {
+    const isHeading = /^#{1,6}\s/.test(piece);
+    if (current && (isHeading || current.length + piece.length + 2 > maxChars)) {
+      chunks.push(current);
+      const tail = isHeading ? "" : overlapTail(current, overlapChars);
+      current =
+        tail && tail.length + piece.length + 2 <= maxChars
+          ? `${tail}\n\n${piece}`
+          : piece;
+      continue;
+    }
+    current = current ? `${current}\n\n${piece}` : piece;
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * Build every chunk for a company: the company context split into passages,
+ * plus one chunk per product.
+ */
+export function buildKnowledgeChunks(
+  companyContext: string,
+  products: any[]
+): KnowledgeChunkInput[] {
+  const contextChunks: KnowledgeChunkInput[] = splitIntoChunks(companyContext).map(
+    (content, chunkIndex) => ({
+      sourceType: "company_context",
+      chunkIndex,
+      content,
+    })
+  );
+
+  const productChunks: KnowledgeChunkInput[] = products.map((product) => ({
+    sourceType: "product",
+    sourceId: product._id ? String(product._id) : undefined,
+    title: product.title,
+    chunkIndex: 0,
+    content: formatProductForAI(product),
+  }));
+
+  return [...contextChunks, ...productChunks];
+}
+
+/**
+ * Whether the company's knowledge is small enough to send in full
+ */
+export function shouldUseFullText(
+  companyContext: string,
+  formattedProducts: string[]
+): boolean {
+  const totalChars =
+    companyContext.length +
+    formattedProducts.reduce((sum, product) => sum + product.length, 0);
+  return totalChars <= FULL_TEXT_THRESHOLD_CHARS;
+}
+
+/**
+ * Text used to query the index: the latest customer message, with the
+ * previous customer turn for short follow-ups like "how much is it?"
+ */
+export function buildRetrievalQuery(customerMessages: string[]): string {
+  const recent = customerMessages
+    .map((message) => message.trim())
+    .filter((message) => message.length > 0);
+  if (recent.length === 0) return "";
+
+  const latest = recent[recent.length - 1];
+  if (latest.length >= 80 || recent.length === 1) return latest;
+  return `${recent[recent.length - 2]}\n${latest}`;
+}
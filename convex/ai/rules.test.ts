@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMigratedRules,
+  findMatchingRule,
+  getRuleOutcome,
+  matchRule,
+  needsMessageEmbedding,
+  validateRuleActions,
+  validateRulePattern,
+  type MatchableRule,
+} from "./rules";
+import { DEFAULT_PII_REDACTION, createRedactor } from "./redaction";
+
+const rule = (overrides: Partial<MatchableRule> & { id?: string }) => ({
+  id: "rule",
+  matchType: "contains" as const,
+  pattern: "refund",
+  priority: 1,
+  enabled: true,
+  ...overrides,
+});
+
+describe("buildMigratedRules", () => {
+  it("imports IF/THEN lines with longer conditions first", () => {
+    const context = [
+      "We sell trading courses.",
+      "- If refund then Refunds are handled within 7 days.",
+      "If refund policy, then See our refund policy at example.com/refunds",
+      "if ok then too short",
+    ].join("\n");
+
+    expect(buildMigratedRules(context)).toEqual([
+      {
+        name: "If refund policy",
+        pattern: "refund policy",
+        priority: 1,
+        reply: "See our refund policy at example.com/refunds",
+      },
+      {
+        name: "If refund",
+        pattern: "refund",
+        priority: 2,
+        reply: "Refunds are handled within 7 days.",
+      },
+    ]);
+  });
+});
+
+describe("validation", () => {
+  it("rejects invalid regex and empty patterns", () => {
+    expect(validateRulePattern("regex", "(unclosed")).toBe(
+      "Pattern is not a valid regular expression"
+    );
+    expect(validateRulePattern("contains", "  ")).toBe("Pattern is required");
+    expect(validateRulePattern("regex", "\\bcancel\\b")).toBeNull();
+  });
+
+  it("requires at least one action", () => {
+    expect(validateRuleActions({ reply: "  " })).toBe("Rule needs at least one action");
+    expect(validateRuleActions({ tag: "vip" })).toBeNull();
+    expect(validateRuleActions({ tag: "x".repeat(41) })).toContain("at most 40");
+  });
+});
+
+describe("matchRule", () => {
+  it("matches contains and regex case-insensitively", () => {
+    expect(matchRule(rule({}), "Can I get a REFUND?").matched).toBe(true);
+    expect(
+      matchRule(rule({ matchType: "regex", pattern: "^cancel\\b" }), "Cancel my plan").matched
+    ).toBe(true);
+  });
+
+  it("scores semantic rules by cosine similarity", () => {
+    const semantic = rule({ matchType: "semantic", embedding: [1, 0], semanticThreshold: 0.9 });
+    expect(matchRule(semantic, "money back", [0.99, 0.1])).toEqual({
+      matched: true,
+      score: expect.closeTo(0.995, 3),
+    });
+    expect(matchRule(semantic, "hello", [0, 1]).matched).toBe(false);
+    expect(matchRule(semantic, "money back").matched).toBe(false);
+  });
+
+  it("needs the raw message for rules on emails and order numbers", () => {
+    const message = "My order 4111 2222 3333 4444 under jane@example.com never arrived";
+    const redacted = createRedactor(DEFAULT_PII_REDACTION).redact(message);
+    const emailRule = rule({ pattern: "@example.com" });
+    const digitsRule = rule({ matchType: "regex", pattern: "\\d{4} \\d{4}" });
+
+    expect(matchRule(emailRule, message).matched).toBe(true);
+    expect(matchRule(digitsRule, message).matched).toBe(true);
+    expect(matchRule(emailRule, redacted).matched).toBe(false);
+    expect(matchRule(digitsRule, redacted).matched).toBe(false);
+  });
+});
+
+describe("findMatchingRule", () => {
+  it("returns the first enabled match by priority", () => {
+    const rules = [
+      rule({ id: "late", priority: 3 }),
+      rule({ id: "disabled", priority: 1, enabled: false }),
+      rule({ id: "early", priority: 2, pattern: "get a refund" }),
+    ];
+    expect(findMatchingRule(rules, "how do I get a refund")?.rule.id).toBe("early");
+    expect(findMatchingRule(rules, "hello")).toBeNull();
+  });
+
+  it("only embeds messages when an enabled semantic rule is ready", () => {
+    expect(needsMessageEmbedding([rule({ matchType: "semantic" })])).toBe(false);
+    expect(
+      needsMessageEmbedding([rule({ matchType: "semantic", embedding: [1] })])
+    ).toBe(true);
+  });
+});
+
+describe("getRuleOutcome", () => {
+  it("answers or hands off instead of the AI, except for tag-only rules", () => {
+    expect(getRuleOutcome({ reply: "See our refund page" })).toEqual({ reply: "See our refund page", handoff: false });
+    expect(getRuleOutcome({ departmentId: "dept" })).toEqual({ reply: "", handoff: true });
+    expect(getRuleOutcome({ tag: "refunds" })).toBeNull();
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * AUTOMATION RULES
+ *
+ * Matching logic for the ai_rules table. Rules are checked in priority order
+ * before the LLM is called; the first enabled rule that matches wins.
+ * Semantic rules compare the customer message embedding to the rule's.
+ */
+
+import { MAX_TAG_NAME_LENGTH } from "../tags/names";
+
+export type RuleMatchType = "contains" | "regex" | "semantic";
+
+export type RuleActions = {
+  reply?: string;
+  handoff?: boolean;
+  departmentId?: string;
+  tag?: string;
+};
+
+export type MatchableRule = {
+  matchType: RuleMatchType;
+  pattern: string;
+  priority: number;
+  enabled: boolean;
+  semanticThreshold?: number;
+  embedding?: number[];
+};
+
+export type RuleMatch<T extends MatchableRule> = {
+  rule: T;
+  score?: number; // Similarity, semantic rules only
+};
+
+// Cosine similarity a semantic rule needs unless it sets its own threshold
+export const DEFAULT_SEMANTIC_THRESHOLD = 0.8;
+
+export const MAX_RULE_PATTERN_LENGTH = 500;
+
+type IfThenRule = {
+  condition: string;
+  response: string;
+};
+
+/**
+ * Legacy "if X then Y" lines from free-form company context.
+ * Only used to migrate them into ai_rules.
+ */
+export function extractIfThenRules(context: string): IfThenRule[] {
+  if (!context) return [];
+
+  const rules: IfThenRule[] = [];
+  const lines = context.split(/\r?\n/);
+  const rulePattern = /^\s*(?:[-*]\s*)?if\s+(.+?)\s*,?\s*then\s+(.+)\s*$/i;
+
+  for (const line of lines) {
+    const match = line.match(rulePattern);
+    if (!match) continue;
+
+    const condition = match[1].replace(/\s+/g, " ").trim();
+    const response = match[2].replace(/\s+/g, " ").trim();
+
+    if (condition.length < 3 || response.length === 0) continue;
+    rules.push({ condition, response });
+  }
+
+  return rules;
+}
+
+/**
+ * Rows to insert for a company's legacy IF/THEN lines. Longer conditions
+ * get higher priority, matching how the old substring matcher ordered them.
+ */
+export function buildMigratedRules(context: string): Array<{
+  name: string;
+  pattern: string;
+  priority: number;
+  reply: string;
+}> {
+  return extractIfThenRules(context)
+    .sort((a, b) => b.condition.length - a.condition.length)
+    .map((rule, index) => ({
+      name: `If ${rule.condition}`.slice(0, 80),
+      pattern: rule.condition,
+      priority: index + 1,
+      reply: rule.response,
+    }));
+}
+
+/**
+ * Validation error for a rule pattern, or null when it is usable
+ */
+export function validateRulePattern(
+  matchType: RuleMatchType,
+  pattern: string
+): string | null {
+  const trimmed = pattern.trim();
+  if (!trimmed) return "Pattern is required";
+  if (trimmed.length > MAX_RULE_PATTERN_LENGTH) {
+    return `Pattern must be ${MAX_RULE_PATTERN_LENGTH} characters or fewer`;
+  }
+  if (matchType === "contains" && trimmed.length < 3) {
+    return "Pattern must be at least 3 characters";
+  }
+  if (matchType === "regex") {
+    try {
+      new RegExp(trimmed, "i");
+    } catch {
+      return "Pattern is not a valid regular expression";
+    }
+  }
+  return null;
+}
+
+/**
+ * Validation error for a rule's actions, or null when they are usable
+ */
+export function validateRuleActions(actions: RuleActions): string | null {
+  const hasAction =
+    !!actions.reply?.trim() ||
+    actions.handoff === true ||
+    !!actions.departmentId ||
+    !!actions.tag?.trim();
+  if (!hasAction) return "Rule needs at least one action";
+  if (actions.tag && actions.tag.trim().length > MAX_TAG_NAME_LENGTH) {
+    return `Tag names can be at most ${MAX_TAG_NAME_LENGTH} characters`;
+  }
+  return null;
+}
+
+/**
+ * What a matched rule does instead of an AI reply: its canned reply and
+ * whether it hands off. Null for tag-only rules, which let the AI answer.
+ */
+export function getRuleOutcome(actions: RuleActions): { reply: string; handoff: boolean } | null {
+  const handoff = actions.handoff === true || !!actions.departmentId;
+  if (!actions.reply && !handoff) return null;
+  return { reply: actions.reply || "", handoff };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return 0;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Whether a single rule matches the message. Semantic rules only match
+ * when a message embedding is supplied.
+ */
+export function matchRule(
+  rule: MatchableRule,
+  message: string,
+  messageEmbedding?: number[]
+): { matched: boolean; score?: number } {
+  switch (rule.matchType) {
+    case "contains":
+      return {
+        matched: message.toLowerCase().includes(rule.pattern.trim().toLowerCase()),
+      };
+    case "regex":
+      try {
+        return { matched: new RegExp(rule.pattern.trim(), "i").test(message) };
+      } catch {
+        return { matched: false };
+      }
+    case "semantic": {
+      if (!messageEmbedding || !rule.embedding) return { matched: false };
+      const score = cosineSimilarity(messageEmbedding, rule.embedding);
+      return {
+        matched: score >= (rule.semanticThreshold ?? DEFAULT_SEMANTIC_THRESHOLD),
+        score,
+      };
+    }
+  }
+}
+
+/**
+ * Enabled rules in the order they are checked (lowest priority number first)
+ */
+export function sortRulesForMatching<T extends MatchableRule>(rules: T[]): T[] {
+  return rules
+    .filter((rule) => rule.enabled)
+    .sort((a, b) => a.priority - b.priority);
+}
+
+/**
+ * Whether matching needs the message embedded (any enabled semantic rule)
+ */
+export function needsMessageEmbedding(rules: MatchableRule[]): boolean {
+  return rules.some(
+    (rule) => rule.enabled && rule.matchType === "semantic" && !!rule.embedding
+  );
+}
+
+/**
+ * First enabled rule that matches the message, or null
+ */
+export function findMatchingRule<T extends MatchableRule>(
+  rules: T[],
+  message: string,
+  messageEmbedding?: number[]
+): RuleMatch<T> | null {
+  if (!message) return null;
+
+  for (const rule of sortRulesForMatching(rules)) {
+    const result = matchRule(rule, message, messageEmbedding);
+    if (result.matched) {
+      return { rule, score: result.score };
+    }
+  }
+  return null;
+}
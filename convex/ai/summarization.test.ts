@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  RECENT_MESSAGE_WINDOW,
+  SUMMARY_INTERVAL,
+  buildTranscript,
+  isSummaryDue,
+} from "./summarization";
+
+describe("isSummaryDue", () => {
+  it("never fires while the thread fits in the recent window", () => {
+    for (let count = 1; count <= RECENT_MESSAGE_WINDOW; count++) {
+      expect(isSummaryDue(count - 1, count, undefined)).toBe(false);
+    }
+  });
+
+  it("fires once per interval after the window is exceeded", () => {
+    const fired: number[] = [];
+    for (let count = 1; count <= 60; count++) {
+      if (isSummaryDue(count - 1, count, undefined)) fired.push(count);
+    }
+    expect(fired).toEqual([30, 40, 50, 60]);
+  });
+
+  it("counts intervals from the last summary", () => {
+    expect(isSummaryDue(34, 35, 25)).toBe(true);
+    expect(isSummaryDue(35, 36, 25)).toBe(false);
+  });
+
+  it("fires when a multi-message write jumps across the boundary", () => {
+    expect(isSummaryDue(29, 31, undefined)).toBe(true);
+    expect(SUMMARY_INTERVAL).toBe(10);
+  });
+});
+
+describe("buildTranscript", () => {
+  it("labels speakers and skips empty messages", () => {
+    expect(
+      buildTranscript([
+        { role: "customer", content: "My access expired" },
+        { role: "ai", content: "" },
+        { role: "agent", content: "Renewed it", agentName: "Sam" },
+        { role: "system", content: "Sam has joined" },
+      ])
+    ).toBe(
+      "Customer: My access expired\nAgent (Sam): Renewed it\nSystem: Sam has joined"
+    );
+  });
+});
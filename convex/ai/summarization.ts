@@ -0,0 +1,89 @@
+/**
+ * CONVERSATION SUMMARIZATION HELPERS
+ *
+ * Pure helpers for rolling summaries. The AI prompt only carries the last
+ * RECENT_MESSAGE_WINDOW messages verbatim - everything older is represented
+ * by conversations.summary, refreshed every SUMMARY_INTERVAL messages.
+ */
+
+// Messages sent verbatim to the model on every AI response
+export const RECENT_MESSAGE_WINDOW = 20;
+
+// Refresh the summary every N new messages
+export const SUMMARY_INTERVAL = 10;
+
+// Upper bound on messages fed to the summarizer in one pass
+export const MAX_MESSAGES_TO_SUMMARIZE = 200;
+
+type SummarizableMessage = {
+  role: "customer" | "ai" | "agent" | "system";
+  content: string;
+  agentName?: string;
+};
+
+/**
+ * Whether a conversation going from `previousCount` to `newCount` messages is
+ * due for a summary refresh. Fires once each time another SUMMARY_INTERVAL
+ * messages pile up, and only once the thread outgrows the recent window.
+ */
+export function isSummaryDue(
+  previousCount: number,
+  newCount: number,
+  lastSummaryMessageCount: number | undefined
+): boolean {
+  if (newCount <= RECENT_MESSAGE_WINDOW) return false;
+
+  const base = lastSummaryMessageCount || 0;
+  const intervalsBefore = Math.floor(Math.max(0, previousCount - base) / SUMMARY_INTERVAL);
+  const intervalsAfter = Math.floor(Math.max(0, newCount - base) / SUMMARY_INTERVAL);
+  return intervalsAfter > intervalsBefore;
+}
+
+/**
+ * Format messages as a plain transcript for the summarizer
+ */
+export function buildTranscript(messages: SummarizableMessage[]): string {
+  return messages
+    .filter((m) => m.content && m.content.trim().length > 0)
+    .map((m) => {
+      const speaker =
+        m.role === "customer"
+          ? "Customer"
+          : m.role === "ai"
+            ? "AI"
+            : m.role === "agent"
+              ? `Agent${m.agentName ? ` (${m.agentName})` : ""}`
+              : "System";
+      return `${speaker}: ${m.content.trim()}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Instructions for the summarizer model
+ */
+export function buildSummaryPrompt(previousSummary: string | undefined): string {
+  return `You summarize customer support conversations for the next person who picks them up.
+
+Write a concise summary (max 8 bullet points) covering:
+- What the customer wants and any account/order details they gave
+- What has already been tried or answered
+- Any promises made to the customer
+- What is still unresolved
+
+Do not invent details. Do not address the customer.${
+    previousSummary
+      ? `\n\nAn earlier summary of the start of this conversation is below. Fold it into your new summary:\n${previousSummary}`
+      : ""
+  }`;
+}
+
+/**
+ * System message injected ahead of the recent window in AI responses
+ */
+export function formatSummaryForPrompt(summary: string): string {
+  return `CONVERSATION SUMMARY (earlier messages not shown below):
+${summary}
+
+Use this summary for context. The most recent messages follow.`;
+}
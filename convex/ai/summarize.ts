@@ -0,0 +1,125 @@
+/**
+ * ROLLING CONVERSATION SUMMARIES
+ *
+ * Summarizes everything older than the recent message window into
+ * conversations.summary. Scheduled from the message mutations every
+ * SUMMARY_INTERVAL messages (see isSummaryDue).
+ */
+
+import { v } from "convex/values";
+import { internalAction } from "../_generated/server";
+import { api, internal } from "../_generated/api";
+import { pickModelSpec, resolveModel } from "./providers";
+import { DEFAULT_PII_REDACTION, createRedactor } from "./redaction";
+import { withoutQuarantined } from "./injection";
+import {
+  MAX_MESSAGES_TO_SUMMARIZE,
+  RECENT_MESSAGE_WINDOW,
+  buildSummaryPrompt,
+  buildTranscript,
+} from "./summarization";
+
+export const summarizeConversation = internalAction({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (
+    ctx,
+    { conversationId }
+  ): Promise<{ success: boolean; error?: string; summarizedMessages?: number }> => {
+    const conversation = await ctx.runQuery(
+      api.conversations.queries.getConversation,
+      { conversationId }
+    );
+    if (!conversation) {
+      return { success: false, error: "Conversation not found" };
+    }
+
+    const messages = await ctx.runQuery(api.messages.queries.getMessages, {
+      conversationId,
+      limit: MAX_MESSAGES_TO_SUMMARIZE + RECENT_MESSAGE_WINDOW,
+    });
+
+    // Only summarize what falls outside the recent window
+    const olderMessages = messages.slice(0, -RECENT_MESSAGE_WINDOW);
+    if (olderMessages.length === 0) {
+      return { success: false, error: "Nothing to summarize yet" };
+    }
+
+    // When the thread is longer than we can fetch, carry the previous summary forward
+    const isTruncated =
+      messages.length >= MAX_MESSAGES_TO_SUMMARIZE + RECENT_MESSAGE_WINDOW;
+
+    const company = await ctx.runQuery(api.companies.queries.getCompanyById, {
+      companyId: conversation.companyId,
+    });
+    if (!company) {
+      return { success: false, error: "Company not found" };
+    }
+
+    const plan = await ctx.runQuery(api.plans.queries.getPlanById, {
+      planId: company.planId,
+    });
+    const modelSpec = pickModelSpec(company.selectedAiModel, plan?.aiModels);
+    const { provider, model } = resolveModel(modelSpec);
+    const redactor = createRedactor(company.piiRedaction ?? DEFAULT_PII_REDACTION);
+
+    try {
+      const result = await provider.chat({
+        model,
+        messages: [
+          {
+            role: "system",
+            content: buildSummaryPrompt(
+              isTruncated && conversation.summary
+                ? redactor.redact(conversation.summary)
+                : undefined
+            ),
+          },
+          {
+            role: "user",
+            content: redactor.redact(buildTranscript(withoutQuarantined(olderMessages))),
+          },
+        ],
+        temperature: 0.2,
+        maxTokens: 800,
+      });
+
+      try {
+        await ctx.runMutation(internal.usage.mutations.trackModelUsage, {
+          companyId: conversation.companyId,
+          conversationId,
+          aiModel: modelSpec,
+          promptTokens: result.usage.promptTokens,
+          completionTokens: result.usage.completionTokens,
+        });
+      } catch (usageError) {
+        console.warn("Failed to track usage:", usageError);
+      }
+
+      // Agents read the summary, so it's stored with the values put back
+      const summary = redactor.restore(result.content.trim());
+      if (!summary) {
+        return { success: false, error: "Empty summary" };
+      }
+
+      await ctx.runMutation(
+        api.conversations.mutations.updateConversationSummary,
+        {
+          conversationId,
+          summary,
+          messageCount: conversation.messageCount,
+        }
+      );
+
+      console.log(
+        `📝 Summarized ${olderMessages.length} messages for conversation ${conversationId}`
+      );
+
+      return { success: true, summarizedMessages: olderMessages.length };
+    } catch (error) {
+      console.error("Failed to summarize conversation:", error);
+      return { success: false, error: "Summarization failed" };
+    }
+  },
+});
@@ -0,0 +1,250 @@
+/**
+ * SUPPORT PROMPT
+ *
+ * System message and chat history shared by customer-facing replies and
+ * agent drafts, so both see the same company knowledge, products and rules.
+ */
+
+import type { ChatMessage } from "./providers";
+import { buildTopicPolicyPrompt, getDeflectionMessage } from "./topicPolicy";
+import type { TopicPolicy } from "./topicPolicy";
+
+/**
+ * What the model should know about Whop and how this company sits on it
+ */
+export function buildWhopPlatformContext(companyName: string | undefined): string {
+  return `PLATFORM CONTEXT:
+You are operating on Whop (whop.com), the leading marketplace for digital products, memberships, and online communities. 
+
+IMPORTANT DISTINCTION:
+- "Whop" (the platform): The marketplace at whop.com where creators sell digital products
+- "This Whop" or "Our Whop": Refers to ${companyName || 'this specific creator\'s store/community'}
+
+ABOUT WHOP THE PLATFORM:
+Whop is a marketplace where creators and entrepreneurs can monetize their expertise. Anyone can create a Whop to sell:
+- Memberships & Subscriptions: Recurring access to exclusive content, communities, or services
+- Digital Products: One-time purchases for courses, templates, tools, software  
+- Communities: Private Discord servers, Telegram groups, and exclusive channels
+- Services: Coaching, consulting, signals, analysis, etc.
+
+HOW CREATORS MAKE MONEY ON WHOP:
+- Set up products with custom pricing (one-time or subscription)
+- Build communities around their expertise (trading, coding, fitness, etc.)
+- Use affiliate programs where members earn commissions for referrals
+- Leverage Whop's built-in payment processing and access management
+- Scale through Whop's marketplace discovery and search features
+- Many successful Whops make $10K-$1M+ per month
+
+KEY WHOP PLATFORM FEATURES:
+- Payment Processing: Built-in payments, multiple currencies, crypto support
+- Access Management: Automatic Discord/Telegram role assignment
+- Affiliate System: Built-in referral programs with tracking (up to 50% commissions)
+- Analytics Dashboard: Revenue tracking, member insights, conversion metrics
+- Whop Wheel: Loyalty and rewards system for members
+- Apps Marketplace: Integrate additional tools and features
+
+COMMON QUESTIONS YOU SHOULD ANSWER:
+- "What is Whop?" → Explain it's a marketplace for digital products and communities
+- "How do I make money on Whop?" → Explain creating products, building community, affiliate programs
+- "How does this Whop work?" → Explain THIS specific creator's offerings
+- Membership access issues (roles, expiration, renewal)
+- Payment and billing questions
+- How to join Discord/Telegram after purchase
+- Refund policies (set by each creator)
+- Upgrading or changing subscription tiers
+- Affiliate commission questions
+
+When users mention "the platform" they mean Whop.com. When they say "this Whop" they mean ${companyName || 'this specific store'}.`;
+}
+
+/**
+ * Full system message. `responseInstructions` describes the expected
+ * output (e.g. the handoff JSON for customer replies).
+ */
+export function buildSupportSystemMessage(args: {
+  companyName: string | undefined;
+  hasCompanyContext: boolean;
+  knowledgeContext: string;
+  productsContext: string;
+  sourceLegend?: string; // Source IDs to cite (customer replies only)
+  topicPolicy: TopicPolicy;
+  responseInstructions: string;
+  customInstructions?: string;
+}): string {
+  const {
+    companyName,
+    hasCompanyContext,
+    knowledgeContext,
+    productsContext,
+    sourceLegend,
+    topicPolicy,
+    responseInstructions,
+    customInstructions,
+  } = args;
+
+  return `${buildWhopPlatformContext(companyName)}
+
+${hasCompanyContext ? `COMPANY IDENTITY (INTERNAL KNOWLEDGE ONLY):
+${knowledgeContext}` : `COMPANY CONTEXT STATUS: No company-specific information has been configured yet. If customers ask what this company sells, what it's about, or for specific details, respond with: "The team hasn't added their company details yet. For specific information about ${companyName || 'this business'}, I'd recommend reaching out directly or checking their Whop page." Do NOT guess or infer what the company does based on its name.`}${productsContext}${sourceLegend ? `\n\n${sourceLegend}` : ""}
+
+🚨 CRITICAL SCOPE RESTRICTIONS 🚨
+YOU ARE A CUSTOMER SUPPORT AGENT - YOU MUST ONLY HELP WITH:
+✅ ALLOWED TOPICS:
+- Questions about THIS company's products, services, and features listed above
+- How Whop.com works as a platform (what it is, how to make money, how to create a Whop)
+- Whop platform features and capabilities (affiliates, payments, Discord integration)
+- Account and order inquiries for THIS specific business
+- Technical support for THIS company's offerings
+- Pricing, refunds, and subscription management
+- How to use or access purchased products
+- Troubleshooting access or payment issues
+- Questions directly related to content within purchased courses/products
+- Support for features included in their membership
+- Explaining the difference between Whop platform and this specific Whop
+
+❌ NOT ALLOWED - MUST DEFLECT:
+- General knowledge questions (history, science, math, etc.) UNLESS directly part of a course they purchased
+- Writing essays, paragraphs, or creative content unrelated to their purchase
+- Free tutoring or consulting beyond what they've paid for
+- Personal advice, health, legal guidance (unless that IS the product)
+- Questions about other companies or competitors
+- Providing services for free that the company charges for
+- Any request that circumvents the need to purchase the product
+
+${buildTopicPolicyPrompt(topicPolicy)}
+
+WHEN RECEIVING OFF-TOPIC REQUESTS:
+Respond ONLY with: "${getDeflectionMessage(topicPolicy, companyName)}"
+
+CRITICAL COMMUNICATION RULES:
+1. ALWAYS check if the question is support-related before answering
+2. NEVER provide information outside your support scope
+3. Be helpful but firm about staying on-topic
+4. Redirect off-topic requests immediately with the template above
+5. If unsure whether something is on-topic, err on the side of deflecting
+6. Keep responses brief and focused (max 2-3 sentences for most answers)
+
+Response style:
+- Short, direct answers (1-3 sentences when possible)
+- Only elaborate if troubleshooting requires multiple steps
+- Focus on solving the immediate support issue
+- Professional but friendly tone
+- Never mention being an AI
+
+${responseInstructions}
+
+${customInstructions || ""}`;
+}
+
+// Helper function to get max tokens based on response length setting
+// Matches schema: "brief" | "medium" | "detailed"
+// Note: GPT-5.2 uses reasoning tokens that count toward the limit, so we need higher values
+export function getMaxTokens(responseLength: string): number {
+  switch (responseLength) {
+    case "brief":
+      return 500;
+    case "medium":
+      return 1000;
+    case "detailed":
+      return 2000;
+    default:
+      return 1000;
+  }
+}
+
+/**
+ * Chat messages for the LLM: system message, rolling summary (if any) and
+ * the recent history. System messages in the history are skipped.
+ *
+ * `redact` is applied to the summary and every history message - replies
+ * can repeat what the customer shared.
+ */
+export function buildChatMessages(args: {
+  systemMessage: string;
+  summary?: string;
+  history: Array<{ role: string; content: string; attachmentUrl?: string }>;
+  redact?: (text: string) => string;
+  // Image analyses keyed by attachment URL, appended to the customer's message
+  attachmentNotes?: Record<string, string>;
+}): ChatMessage[] {
+  const redact = args.redact ?? ((text: string) => text);
+  const chatMessages: ChatMessage[] = [
+    { role: "system", content: args.systemMessage },
+  ];
+
+  if (args.summary) {
+    chatMessages.push({ role: "system", content: redact(args.summary) });
+  }
+
+  for (const msg of args.history) {
+    if (msg.role === "customer") {
+      const note = msg.attachmentUrl ? args.attachmentNotes?.[msg.attachmentUrl] : undefined;
+      const content = note ? `${msg.content}\n\n${note}` : msg.content;
+      // Sanitize user input to prevent prompt injection
+      chatMessages.push({ role: "user", content: sanitizeUserInput(redact(content)) });
+    } else if (msg.role === "ai" || msg.role === "agent") {
+      chatMessages.push({ role: "assistant", content: redact(msg.content) });
+    }
+  }
+
+  return chatMessages;
+}
+
+/**
+ * Sanitize user input before sending to the LLM
+ * Prevents prompt injection attacks and removes potentially harmful content
+ */
+export function sanitizeUserInput(input: string): string {
+  if (!input || typeof input !== 'string') {
+    return '';
+  }
+
+  let sanitized = input;
+
+  // 1. Limit message length (10K chars max to prevent token abuse)
+  const MAX_LENGTH = 10000;
+  if (sanitized.length > MAX_LENGTH) {
+    sanitized = sanitized.substring(0, MAX_LENGTH) + '... [message truncated]';
+  }
+
+  // 2. Remove null bytes and other control characters (except newlines/tabs)
+  sanitized = sanitized.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+
+  // 3. Detect and neutralize common prompt injection patterns
+  const injectionPatterns = [
+    // System prompt manipulation attempts
+    /\[SYSTEM\]/gi,
+    /\[INST\]/gi,
+    /<<SYS>>/gi,
+    /<\|system\|>/gi,
+    /<\|assistant\|>/gi,
+    /<\|user\|>/gi,
+    /###\s*(System|Assistant|Human|User)\s*:/gi,
+    // Instruction override attempts
+    /ignore\s+(all\s+)?(previous|above|prior)\s+(instructions?|prompts?|rules?)/gi,
+    /disregard\s+(all\s+)?(previous|above|prior)\s+(instructions?|prompts?|rules?)/gi,
+    /forget\s+(all\s+)?(previous|above|prior)\s+(instructions?|prompts?|rules?)/gi,
+    /new\s+instructions?:/gi,
+    /override\s+(system|instructions?|rules?)/gi,
+    // Role manipulation
+    /you\s+are\s+now\s+(a|an|the)\s+/gi,
+    /pretend\s+(to\s+be|you\s+are)/gi,
+    /act\s+as\s+(if\s+you\s+are|a|an)/gi,
+    /roleplay\s+as/gi,
+    // Jailbreak attempts
+    /\bDAN\b/g,  // "Do Anything Now" jailbreak
+    /developer\s+mode/gi,
+    /jailbreak/gi,
+  ];
+
+  for (const pattern of injectionPatterns) {
+    sanitized = sanitized.replace(pattern, '[FILTERED]');
+  }
+
+  // 4. Escape sequences that could be interpreted as special formatting
+  sanitized = sanitized
+    .replace(/```system/gi, '``` system')
+    .replace(/```assistant/gi, '``` assistant');
+
+  return sanitized.trim();
+}
@@ -3,11 +3,10 @@
 import { v } from "convex/values";
 import { action } from "../_generated/server";
 import { api } from "../_generated/api";
-import OpenAI from "openai";
+import { getOpenAIClient } from "./providers";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Assistants API is OpenAI-specific, so these paths use the shared client directly
+const openai = getOpenAIClient();
 
 /**
  * Get personality template instructions (reused from assistants.ts pattern)
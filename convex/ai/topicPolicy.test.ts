@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import {
+  DEFAULT_TOPIC_POLICY,
+  buildTopicClassifierMessages,
+  classifyTopic,
+  getDeflectionMessage,
+  parseTopicVerdict,
+  shouldDeflect,
+  type TopicVerdict,
+} from "./topicPolicy";
+import { createFakeProvider } from "./providers/fake";
+
+const offTopic = (confidence: number): TopicVerdict => ({
+  verdict: "off_topic",
+  matchedTopic: "",
+  reason: "General history question",
+  confidence,
+});
+
+describe("shouldDeflect", () => {
+  it("scales the confidence bar with strictness", () => {
+    expect(shouldDeflect(offTopic(0.8), "lenient")).toBe(false);
+    expect(shouldDeflect(offTopic(0.8), "balanced")).toBe(true);
+    expect(shouldDeflect(offTopic(0.6), "balanced")).toBe(false);
+    expect(shouldDeflect(offTopic(0.6), "strict")).toBe(true);
+  });
+
+  it("deflects blocked topics regardless of strictness", () => {
+    expect(
+      shouldDeflect({ ...offTopic(0.6), verdict: "blocked" }, "lenient")
+    ).toBe(true);
+  });
+
+  it("never deflects allowed replies", () => {
+    expect(shouldDeflect({ ...offTopic(1), verdict: "allowed" }, "strict")).toBe(false);
+  });
+});
+
+describe("getDeflectionMessage", () => {
+  it("prefers the company's custom message", () => {
+    expect(
+      getDeflectionMessage({ ...DEFAULT_TOPIC_POLICY, deflectionMessage: "  Ask us about signals!  " }, "Acme")
+    ).toBe("Ask us about signals!");
+    expect(getDeflectionMessage(DEFAULT_TOPIC_POLICY, "Acme")).toContain("questions about Acme");
+  });
+});
+
+describe("buildTopicClassifierMessages", () => {
+  it("includes company topics and the draft reply", () => {
+    const [system, user] = buildTopicClassifierMessages({
+      policy: { allowedTopics: ["Chart reading"], blockedTopics: ["Tax advice"], strictness: "strict" },
+      companyName: "Acme",
+      companyContext: "We sell trading courses.",
+      productTitles: ["Pro Course"],
+      customerMessage: "How do I file taxes?",
+      draftAnswer: "You should...",
+    });
+
+    expect(system.content).toContain("ALSO ALLOWED: Chart reading");
+    expect(system.content).toContain("Tax advice");
+    expect(system.content).toContain("Pro Course");
+    expect(user.content).toBe("CUSTOMER: How do I file taxes?\n\nDRAFT REPLY: You should...");
+  });
+});
+
+describe("parseTopicVerdict", () => {
+  it("rejects unknown verdicts", () => {
+    expect(parseTopicVerdict('{"verdict":"maybe"}')).toBeNull();
+    expect(parseTopicVerdict("not json")).toBeNull();
+  });
+
+  it("classifies through a provider", async () => {
+    const { verdict, usage } = await classifyTopic(createFakeProvider(), "test", {
+      policy: DEFAULT_TOPIC_POLICY,
+      companyName: "Acme",
+      companyContext: "",
+      productTitles: [],
+      customerMessage: "Where is my invoice?",
+    });
+    expect(verdict?.verdict).toBe("allowed");
+    expect(usage?.totalTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * TOPIC POLICY
+ *
+ * Per-company rules for what the AI may talk about. A dedicated classifier
+ * call judges each exchange against the policy; its verdict is stored on
+ * the AI message so false deflections can be audited.
+ */
+
+import type { ChatMessage, JsonSchemaFormat, LLMProvider, TokenUsage } from "./providers";
+
+export type TopicStrictness = "lenient" | "balanced" | "strict";
+
+export type TopicPolicy = {
+  allowedTopics: string[];
+  blockedTopics: string[];
+  deflectionMessage?: string;
+  strictness: TopicStrictness;
+};
+
+export const DEFAULT_TOPIC_POLICY: TopicPolicy = {
+  allowedTopics: [],
+  blockedTopics: [],
+  strictness: "balanced",
+};
+
+export type TopicVerdict = {
+  verdict: "allowed" | "off_topic" | "blocked";
+  matchedTopic: string;
+  reason: string;
+  confidence: number;
+};
+
+// Minimum classifier confidence before an off-topic reply is deflected
+const DEFLECTION_CONFIDENCE: Record<TopicStrictness, number> = {
+  lenient: 0.9,
+  balanced: 0.7,
+  strict: 0.5,
+};
+
+// Blocked topics are explicit company rules, so they need less certainty
+const BLOCKED_CONFIDENCE = 0.5;
+
+// How much of the company context the classifier sees
+const CLASSIFIER_CONTEXT_CHARS = 1500;
+
+const STRICTNESS_GUIDANCE: Record<TopicStrictness, string> = {
+  lenient:
+    "Only mark requests off_topic when they are clearly unrelated to the business. Give the customer the benefit of the doubt.",
+  balanced:
+    "Mark requests off_topic when they are unrelated to the business, its products, the customer's account, or the Whop platform.",
+  strict:
+    "Mark anything off_topic that is not directly about the business, its products, the customer's account, or the Whop platform.",
+};
+
+export const TOPIC_VERDICT_SCHEMA: JsonSchemaFormat = {
+  name: "topic_verdict",
+  schema: {
+    type: "object",
+    properties: {
+      verdict: { type: "string", enum: ["allowed", "off_topic", "blocked"] },
+      matchedTopic: { type: "string" },
+      reason: { type: "string" },
+      confidence: { type: "number" },
+    },
+    required: ["verdict", "matchedTopic", "reason", "confidence"],
+    additionalProperties: false,
+  },
+};
+
+/**
+ * Canned reply used when a response is deflected
+ */
+export function getDeflectionMessage(
+  policy: TopicPolicy,
+  companyName: string | undefined
+): string {
+  const custom = policy.deflectionMessage?.trim();
+  if (custom) return custom;
+  return `I'm here to help with questions about ${companyName || 'our products'} and your Whop membership. For general questions or other topics, I'd recommend using a general-purpose AI assistant like ChatGPT or Claude. How can I help you with your account or our services today?`;
+}
+
+/**
+ * Company-specific topic rules for the main system message
+ */
+export function buildTopicPolicyPrompt(policy: TopicPolicy): string {
+  const lines: string[] = [];
+  if (policy.allowedTopics.length > 0) {
+    lines.push(`ALSO ALLOWED FOR THIS COMPANY: ${policy.allowedTopics.join("; ")}`);
+  }
+  if (policy.blockedTopics.length > 0) {
+    lines.push(`NEVER DISCUSS (company rule): ${policy.blockedTopics.join("; ")}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Messages for the classifier call
+ */
+export function buildTopicClassifierMessages(args: {
+  policy: TopicPolicy;
+  companyName: string | undefined;
+  companyContext: string;
+  productTitles: string[];
+  customerMessage: string;
+  draftAnswer?: string;
+}): ChatMessage[] {
+  const { policy, companyName, companyContext, productTitles, customerMessage, draftAnswer } = args;
+
+  const system = `You check whether a customer support exchange stays within a company's topic policy.
+
+COMPANY: ${companyName || "Unknown"}
+ABOUT THE COMPANY:
+${companyContext.slice(0, CLASSIFIER_CONTEXT_CHARS) || "(not provided)"}
+PRODUCTS: ${productTitles.length > 0 ? productTitles.join(", ") : "(none listed)"}
+
+ALWAYS ALLOWED: questions about the company, its products and pricing, the customer's account, orders, billing and access, and how the Whop platform works.
+${policy.allowedTopics.length > 0 ? `ALSO ALLOWED: ${policy.allowedTopics.join("; ")}\n` : ""}${policy.blockedTopics.length > 0 ? `BLOCKED (company rule, always "blocked"): ${policy.blockedTopics.join("; ")}\n` : ""}
+${STRICTNESS_GUIDANCE[policy.strictness]}
+
+Return:
+- "verdict": "allowed", "off_topic", or "blocked"
+- "matchedTopic": the allowed or blocked topic that applies, or ""
+- "reason": one short sentence
+- "confidence": 0 to 1`;
+
+  const exchange = draftAnswer
+    ? `CUSTOMER: ${customerMessage}\n\nDRAFT REPLY: ${draftAnswer}`
+    : `CUSTOMER: ${customerMessage}`;
+
+  return [
+    { role: "system", content: system },
+    { role: "user", content: exchange },
+  ];
+}
+
+export function parseTopicVerdict(raw: string): TopicVerdict | null {
+  try {
+    const parsed = JSON.parse(raw);
+    if (!["allowed", "off_topic", "blocked"].includes(parsed?.verdict)) {
+      return null;
+    }
+    return {
+      verdict: parsed.verdict,
+      matchedTopic: typeof parsed.matchedTopic === "string" ? parsed.matchedTopic : "",
+      reason: typeof parsed.reason === "string" ? parsed.reason : "",
+      confidence:
+        typeof parsed.confidence === "number"
+          ? Math.min(1, Math.max(0, parsed.confidence))
+          : 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a verdict should replace the reply with the deflection message
+ */
+export function shouldDeflect(
+  verdict: TopicVerdict,
+  strictness: TopicStrictness
+): boolean {
+  if (verdict.verdict === "blocked") {
+    return verdict.confidence >= BLOCKED_CONFIDENCE;
+  }
+  if (verdict.verdict === "off_topic") {
+    return verdict.confidence >= DEFLECTION_CONFIDENCE[strictness];
+  }
+  return false;
+}
+
+/**
+ * Run the classifier. The verdict is null when it fails so callers can fail
+ * open; usage is null when the model wasn't reached.
+ */
+export async function classifyTopic(
+  provider: LLMProvider,
+  model: string,
+  args: Parameters<typeof buildTopicClassifierMessages>[0]
+): Promise<{ verdict: TopicVerdict | null; usage: TokenUsage | null }> {
+  try {
+    const result = await provider.chat({
+      model,
+      messages: buildTopicClassifierMessages(args),
+      temperature: 0,
+      maxTokens: 1000, // Leaves room for reasoning tokens
+      jsonSchema: TOPIC_VERDICT_SCHEMA,
+    });
+    return { verdict: parseTopicVerdict(result.content), usage: result.usage };
+  } catch (error) {
+    console.warn("Topic classifier failed:", error);
+    return { verdict: null, usage: null };
+  }
+}
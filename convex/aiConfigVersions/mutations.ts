@@ -0,0 +1,167 @@
+/**
+ * AI Config Version Mutations
+ *
+ * Records a snapshot whenever the AI settings or company context change,
+ * and restores old snapshots as a new version.
+ */
+
+import { mutation, type MutationCtx } from "../_generated/server";
+import { api, internal } from "../_generated/api";
+import { v } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  changedConfigFields,
+  snapshotAiConfig,
+  type AiConfigSnapshot,
+} from "../ai/configVersions";
+
+type VersionSource = "ai_studio" | "company_context" | "onboarding" | "rollback" | "experiment";
+
+/**
+ * Record the company's current settings as a new version
+ *
+ * Call after patching the company, with the snapshot taken before the
+ * patch. Saves that change nothing don't create a version. The first
+ * recorded save also stores the settings it replaced, so it can be undone.
+ */
+export async function recordAiConfigVersion(
+  ctx: MutationCtx,
+  companyId: Id<"companies">,
+  previous: AiConfigSnapshot,
+  options: {
+    source: VersionSource;
+    createdBy?: Id<"users">;
+    restoredFromVersion?: number;
+  }
+): Promise<number | null> {
+  const company = await ctx.db.get(companyId);
+  if (!company) return null;
+
+  const snapshot = snapshotAiConfig(company);
+  const latest = await ctx.db
+    .query("ai_config_versions")
+    .withIndex("by_company_version", (q) => q.eq("companyId", companyId))
+    .order("desc")
+    .first();
+
+  const changedFields = changedConfigFields(latest?.snapshot ?? previous, snapshot);
+  if (changedFields.length === 0) return null;
+
+  const now = Date.now();
+  let version = latest?.version ?? 0;
+
+  if (!latest) {
+    version += 1;
+    await ctx.db.insert("ai_config_versions", {
+      companyId,
+      version,
+      snapshot: previous,
+      changedFields: [],
+      source: "baseline",
+      createdAt: now,
+    });
+  }
+
+  version += 1;
+  await ctx.db.insert("ai_config_versions", {
+    companyId,
+    version,
+    snapshot,
+    changedFields,
+    source: options.source,
+    restoredFromVersion: options.restoredFromVersion,
+    createdBy: options.createdBy,
+    createdAt: now,
+  });
+
+  await ctx.db.patch(companyId, { aiConfigVersion: version });
+
+  return version;
+}
+
+/**
+ * Make a saved version's settings live again, recorded as a new version
+ *
+ * Shared by rollback and by promoting an experiment's winning variant
+ * (`source: "experiment"`).
+ */
+export async function applyAiConfigVersion(
+  ctx: MutationCtx,
+  target: Doc<"ai_config_versions">,
+  appliedBy: Id<"users"> | undefined,
+  source: "rollback" | "experiment" = "rollback"
+): Promise<number | null> {
+  const company = await ctx.db.get(target.companyId);
+  if (!company) {
+    throw new Error("Company not found");
+  }
+
+  const previous = snapshotAiConfig(company);
+  const changedFields = changedConfigFields(previous, target.snapshot);
+  if (changedFields.length === 0) return null;
+
+  const now = Date.now();
+  const contextChanged =
+    changedFields.includes("companyContextOriginal") ||
+    changedFields.includes("companyContextProcessed");
+
+  await ctx.db.patch(company._id, {
+    ...target.snapshot,
+    // The uploaded file no longer matches the restored text
+    ...(contextChanged && {
+      companyContextFileId: undefined,
+      companyContextLastUpdated: now,
+    }),
+    updatedAt: now,
+  });
+
+  const version = await recordAiConfigVersion(ctx, company._id, previous, {
+    source,
+    createdBy: appliedBy,
+    restoredFromVersion: target.version,
+  });
+
+  // Same follow-up work as the editors that normally change these fields
+  if (
+    contextChanged ||
+    changedFields.includes("selectedAiModel") ||
+    changedFields.includes("aiPersonality") ||
+    changedFields.includes("aiSystemPrompt")
+  ) {
+    await ctx.scheduler.runAfter(0, api.ai.assistants.createOrUpdateAssistant, {
+      companyId: company._id,
+    });
+  }
+  if (contextChanged) {
+    await ctx.scheduler.runAfter(0, internal.ai.knowledge.reindexCompanyKnowledge, {
+      companyId: company._id,
+    });
+  }
+
+  return version;
+}
+
+/**
+ * Restore a version's settings
+ *
+ * Recorded as a new version, so a rollback can itself be undone.
+ */
+export const restoreAiConfigVersion = mutation({
+  args: {
+    versionId: v.id("ai_config_versions"),
+    restoredBy: v.optional(v.id("users")),
+  },
+  handler: async (ctx, { versionId, restoredBy }) => {
+    const target = await ctx.db.get(versionId);
+    if (!target) {
+      throw new Error("Version not found");
+    }
+
+    const version = await applyAiConfigVersion(ctx, target, restoredBy);
+    if (version === null) {
+      throw new Error("These settings are already live");
+    }
+
+    return { version };
+  },
+});
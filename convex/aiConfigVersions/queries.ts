@@ -0,0 +1,99 @@
+/**
+ * AI Config Version Queries
+ *
+ * Read-only operations for the AI Studio history panel.
+ */
+
+import { query } from "../_generated/server";
+import { v } from "convex/values";
+import {
+  AI_CONFIG_FIELD_LABELS,
+  changedConfigFields,
+  diffLines,
+  formatConfigValue,
+  snapshotAiConfig,
+  toSideBySide,
+  type AiConfigField,
+} from "../ai/configVersions";
+
+// Versions shown in the history panel
+const HISTORY_LIMIT = 50;
+
+/**
+ * Most recent versions, newest first. Snapshots are left out.
+ */
+export const listVersions = query({
+  args: {
+    companyId: v.id("companies"),
+  },
+  handler: async (ctx, { companyId }) => {
+    const company = await ctx.db.get(companyId);
+    const versions = await ctx.db
+      .query("ai_config_versions")
+      .withIndex("by_company_version", (q) => q.eq("companyId", companyId))
+      .order("desc")
+      .take(HISTORY_LIMIT);
+
+    return await Promise.all(
+      versions.map(async ({ snapshot, ...version }) => {
+        const author = version.createdBy ? await ctx.db.get(version.createdBy) : null;
+        return {
+          ...version,
+          authorName: author?.displayName,
+          isLive: version.version === company?.aiConfigVersion,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Side-by-side diff of a version against the version before it, or
+ * against the live settings
+ */
+export const getVersionDiff = query({
+  args: {
+    versionId: v.id("ai_config_versions"),
+    against: v.union(v.literal("previous"), v.literal("live")),
+  },
+  handler: async (ctx, { versionId, against }) => {
+    const version = await ctx.db.get(versionId);
+    if (!version) return null;
+
+    let before = null;
+    let after = version.snapshot;
+    if (against === "previous") {
+      const previous = await ctx.db
+        .query("ai_config_versions")
+        .withIndex("by_company_version", (q) =>
+          q.eq("companyId", version.companyId).lt("version", version.version)
+        )
+        .order("desc")
+        .first();
+      before = previous?.snapshot ?? null;
+    } else {
+      // What restoring this version would change
+      const company = await ctx.db.get(version.companyId);
+      if (!company) return null;
+      before = snapshotAiConfig(company);
+      after = version.snapshot;
+    }
+
+    // The baseline has nothing before it to compare with
+    const fields: AiConfigField[] = before ? changedConfigFields(before, after) : [];
+
+    return {
+      version: version.version,
+      fields: fields.map((field) => ({
+        field,
+        label: AI_CONFIG_FIELD_LABELS[field],
+        rows: toSideBySide(
+          diffLines(
+            formatConfigValue(field, before?.[field]),
+            formatConfigValue(field, after[field])
+          )
+        ),
+      })),
+    };
+  },
+});
@@ -0,0 +1,141 @@
+/**
+ * AI Rule Actions
+ *
+ * Embedding and matching for automation rules. Semantic rules need the
+ * customer message embedded, which can only happen inside an action.
+ */
+
+import { v } from "convex/values";
+import { action, internalAction, type ActionCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
+import { DEFAULT_EMBEDDING_MODEL, resolveModel } from "../ai/providers";
+import {
+  findMatchingRule,
+  matchRule,
+  needsMessageEmbedding,
+  type RuleMatch,
+} from "../ai/rules";
+
+/**
+ * Embed a semantic rule's pattern
+ */
+export const embedRulePattern = internalAction({
+  args: {
+    ruleId: v.id("ai_rules"),
+  },
+  handler: async (ctx, { ruleId }): Promise<{ success: boolean }> => {
+    const rule = await ctx.runQuery(internal.aiRules.queries.getRuleById, { ruleId });
+    if (!rule || rule.matchType !== "semantic") {
+      return { success: false };
+    }
+
+    try {
+      const { provider, model, spec } = resolveModel(DEFAULT_EMBEDDING_MODEL);
+      const { embeddings, usage } = await provider.embed({ model, input: [rule.pattern] });
+
+      await ctx.runMutation(internal.aiRules.mutations.setRuleEmbedding, {
+        ruleId,
+        pattern: rule.pattern,
+        embedding: embeddings[0],
+        embeddingModel: spec,
+      });
+      await ctx.runMutation(internal.usage.mutations.trackModelUsage, {
+        companyId: rule.companyId,
+        aiModel: spec,
+        promptTokens: usage.promptTokens,
+      });
+      return { success: true };
+    } catch (error) {
+      console.error("Failed to embed rule pattern:", error);
+      return { success: false };
+    }
+  },
+});
+
+async function embedMessage(
+  ctx: ActionCtx,
+  companyId: Id<"companies">,
+  message: string
+): Promise<number[]> {
+  const { provider, model, spec } = resolveModel(DEFAULT_EMBEDDING_MODEL);
+  const { embeddings, usage } = await provider.embed({ model, input: [message] });
+  try {
+    await ctx.runMutation(internal.usage.mutations.trackModelUsage, {
+      companyId,
+      aiModel: spec,
+      promptTokens: usage.promptTokens,
+    });
+  } catch (usageError) {
+    console.warn("Failed to track usage:", usageError);
+  }
+  return embeddings[0];
+}
+
+/**
+ * First enabled rule of the company that matches the message, or null.
+ * Semantic rules are skipped if the message can't be embedded.
+ *
+ * Contains/regex rules match the raw message, so rules on emails or order
+ * numbers still work; `redact` only applies to the text sent for embedding.
+ */
+export async function matchCompanyRules(
+  ctx: ActionCtx,
+  companyId: Id<"companies">,
+  message: string,
+  redact: (text: string) => string = (text) => text
+): Promise<RuleMatch<Doc<"ai_rules">> | null> {
+  const rules = await ctx.runQuery(internal.aiRules.queries.getRulesForMatching, {
+    companyId,
+  });
+  if (rules.length === 0) return null;
+
+  let messageEmbedding: number[] | undefined;
+  if (needsMessageEmbedding(rules)) {
+    try {
+      messageEmbedding = await embedMessage(ctx, companyId, redact(message));
+    } catch (error) {
+      console.warn("Failed to embed message for semantic rules:", error);
+    }
+  }
+
+  return findMatchingRule(rules, message, messageEmbedding);
+}
+
+/**
+ * Check a sample message against every rule
+ *
+ * Used by the "test this message" box in the rules editor.
+ * Does not record hits.
+ */
+export const testRules = action({
+  args: {
+    companyId: v.id("companies"),
+    message: v.string(),
+  },
+  handler: async (
+    ctx,
+    { companyId, message }
+  ): Promise<{
+    matchedRuleId: Id<"ai_rules"> | null;
+    results: Array<{ ruleId: Id<"ai_rules">; matched: boolean; score?: number }>;
+  }> => {
+    const rules = await ctx.runQuery(internal.aiRules.queries.getRulesForMatching, {
+      companyId,
+    });
+
+    let messageEmbedding: number[] | undefined;
+    if (rules.some((rule) => rule.matchType === "semantic" && !!rule.embedding)) {
+      messageEmbedding = await embedMessage(ctx, companyId, message);
+    }
+
+    const match = findMatchingRule(rules, message, messageEmbedding);
+    return {
+      matchedRuleId: match?.rule._id ?? null,
+      results: rules.map((rule) => ({
+        ruleId: rule._id,
+        ...matchRule(rule, message, messageEmbedding),
+      })),
+    };
+  },
+});
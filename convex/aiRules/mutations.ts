@@ -0,0 +1,290 @@
+/**
+ * AI Rule Mutations
+ *
+ * Operations for creating, ordering, and tracking automation rules.
+ */
+
+import { mutation, internalMutation } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { v } from "convex/values";
+import {
+  buildMigratedRules,
+  validateRuleActions,
+  validateRulePattern,
+} from "../ai/rules";
+import { addConversationTag, findOrCreateTag } from "../tags/mutations";
+
+/**
+ * Create a new rule
+ *
+ * New rules are checked after existing ones.
+ */
+export const createRule = mutation({
+  args: {
+    companyId: v.id("companies"),
+    createdBy: v.optional(v.id("users")),
+    name: v.string(),
+    matchType: v.union(
+      v.literal("contains"),
+      v.literal("regex"),
+      v.literal("semantic")
+    ),
+    pattern: v.string(),
+    semanticThreshold: v.optional(v.number()),
+    actions: v.object({
+      reply: v.optional(v.string()),
+      handoff: v.optional(v.boolean()),
+      departmentId: v.optional(v.id("departments")),
+      tag: v.optional(v.string()),
+    }),
+  },
+  handler: async (ctx, { companyId, createdBy, name, matchType, pattern, semanticThreshold, actions }) => {
+    const patternError = validateRulePattern(matchType, pattern);
+    if (patternError) throw new Error(patternError);
+    const actionsError = validateRuleActions(actions);
+    if (actionsError) throw new Error(actionsError);
+
+    const last = await ctx.db
+      .query("ai_rules")
+      .withIndex("by_company_priority", (q) => q.eq("companyId", companyId))
+      .order("desc")
+      .first();
+
+    const now = Date.now();
+    const ruleId = await ctx.db.insert("ai_rules", {
+      companyId,
+      name: name.trim() || pattern.trim().slice(0, 80),
+      matchType,
+      pattern: pattern.trim(),
+      semanticThreshold,
+      priority: (last?.priority ?? 0) + 1,
+      enabled: true,
+      actions,
+      hitCount: 0,
+      source: "manual",
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    if (matchType === "semantic") {
+      await ctx.scheduler.runAfter(0, internal.aiRules.actions.embedRulePattern, {
+        ruleId,
+      });
+    }
+
+    return ruleId;
+  },
+});
+
+/**
+ * Update an existing rule
+ *
+ * Changing the pattern of a semantic rule re-embeds it.
+ */
+export const updateRule = mutation({
+  args: {
+    ruleId: v.id("ai_rules"),
+    name: v.optional(v.string()),
+    matchType: v.optional(
+      v.union(
+        v.literal("contains"),
+        v.literal("regex"),
+        v.literal("semantic")
+      )
+    ),
+    pattern: v.optional(v.string()),
+    semanticThreshold: v.optional(v.number()),
+    actions: v.optional(
+      v.object({
+        reply: v.optional(v.string()),
+        handoff: v.optional(v.boolean()),
+        departmentId: v.optional(v.id("departments")),
+        tag: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, { ruleId, name, matchType, pattern, semanticThreshold, actions }) => {
+    const rule = await ctx.db.get(ruleId);
+    if (!rule) throw new Error("Rule not found");
+
+    const nextMatchType = matchType ?? rule.matchType;
+    const nextPattern = pattern !== undefined ? pattern.trim() : rule.pattern;
+
+    const patternError = validateRulePattern(nextMatchType, nextPattern);
+    if (patternError) throw new Error(patternError);
+    if (actions !== undefined) {
+      const actionsError = validateRuleActions(actions);
+      if (actionsError) throw new Error(actionsError);
+    }
+
+    const updates: any = {
+      updatedAt: Date.now(),
+    };
+
+    if (name !== undefined) updates.name = name.trim() || nextPattern.slice(0, 80);
+    if (matchType !== undefined) updates.matchType = matchType;
+    if (pattern !== undefined) updates.pattern = nextPattern;
+    if (semanticThreshold !== undefined) updates.semanticThreshold = semanticThreshold;
+    if (actions !== undefined) updates.actions = actions;
+
+    const needsEmbedding =
+      nextMatchType === "semantic" &&
+      (nextPattern !== rule.pattern || !rule.embedding);
+    if (needsEmbedding || nextMatchType !== "semantic") {
+      updates.embedding = undefined;
+      updates.embeddingModel = undefined;
+    }
+
+    await ctx.db.patch(ruleId, updates);
+
+    if (needsEmbedding) {
+      await ctx.scheduler.runAfter(0, internal.aiRules.actions.embedRulePattern, {
+        ruleId,
+      });
+    }
+  },
+});
+
+/**
+ * Enable or disable a rule
+ */
+export const setRuleEnabled = mutation({
+  args: {
+    ruleId: v.id("ai_rules"),
+    enabled: v.boolean(),
+  },
+  handler: async (ctx, { ruleId, enabled }) => {
+    await ctx.db.patch(ruleId, { enabled, updatedAt: Date.now() });
+  },
+});
+
+/**
+ * Save a new rule order (first ID is checked first)
+ */
+export const reorderRules = mutation({
+  args: {
+    companyId: v.id("companies"),
+    ruleIds: v.array(v.id("ai_rules")),
+  },
+  handler: async (ctx, { companyId, ruleIds }) => {
+    const now = Date.now();
+    for (let i = 0; i < ruleIds.length; i++) {
+      const rule = await ctx.db.get(ruleIds[i]);
+      if (!rule || rule.companyId !== companyId) {
+        throw new Error("Rule not found");
+      }
+      await ctx.db.patch(rule._id, { priority: i + 1, updatedAt: now });
+    }
+  },
+});
+
+/**
+ * Delete a rule
+ */
+export const deleteRule = mutation({
+  args: {
+    ruleId: v.id("ai_rules"),
+  },
+  handler: async (ctx, { ruleId }) => {
+    await ctx.db.delete(ruleId);
+  },
+});
+
+/**
+ * Store a semantic rule's embedding, unless the pattern changed meanwhile
+ */
+export const setRuleEmbedding = internalMutation({
+  args: {
+    ruleId: v.id("ai_rules"),
+    pattern: v.string(),
+    embedding: v.array(v.float64()),
+    embeddingModel: v.string(),
+  },
+  handler: async (ctx, { ruleId, pattern, embedding, embeddingModel }) => {
+    const rule = await ctx.db.get(ruleId);
+    if (!rule || rule.pattern !== pattern || rule.matchType !== "semantic") {
+      return;
+    }
+    await ctx.db.patch(ruleId, { embedding, embeddingModel });
+  },
+});
+
+export const recordRuleHit = internalMutation({
+  args: {
+    ruleId: v.id("ai_rules"),
+  },
+  handler: async (ctx, { ruleId }) => {
+    const rule = await ctx.db.get(ruleId);
+    if (!rule) return;
+    await ctx.db.patch(ruleId, {
+      hitCount: rule.hitCount + 1,
+      lastHitAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Add a rule's tag to a conversation
+ */
+export const tagConversation = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    tag: v.string(),
+  },
+  handler: async (ctx, { conversationId, tag }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) return;
+
+    const tagId = await findOrCreateTag(ctx, conversation.companyId, tag);
+    await addConversationTag(ctx, conversation, tagId, "ai_rule");
+  },
+});
+
+/**
+ * Import "if X then Y" lines from the company context as contains rules.
+ * Runs once per company; later context edits are not re-imported.
+ */
+export const migrateCompanyIfThenRules = internalMutation({
+  args: {
+    companyId: v.id("companies"),
+  },
+  handler: async (ctx, { companyId }) => {
+    const company = await ctx.db.get(companyId);
+    if (!company || company.aiRulesMigratedAt) return { imported: 0 };
+
+    const context =
+      company.companyContextOriginal || company.companyContextProcessed || "";
+    const migrated = buildMigratedRules(context);
+
+    const existing = await ctx.db
+      .query("ai_rules")
+      .withIndex("by_company_priority", (q) => q.eq("companyId", companyId))
+      .collect();
+    const basePriority = existing.length > 0 ? existing[existing.length - 1].priority : 0;
+
+    const now = Date.now();
+    for (const rule of migrated) {
+      await ctx.db.insert("ai_rules", {
+        companyId,
+        name: rule.name,
+        matchType: "contains",
+        pattern: rule.pattern,
+        priority: basePriority + rule.priority,
+        enabled: true,
+        actions: { reply: rule.reply },
+        hitCount: 0,
+        source: "context_migration",
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await ctx.db.patch(companyId, { aiRulesMigratedAt: now });
+
+    if (migrated.length > 0) {
+      console.log(`📋 Migrated ${migrated.length} IF/THEN rules for company ${companyId}`);
+    }
+    return { imported: migrated.length };
+  },
+});
@@ -0,0 +1,54 @@
+/**
+ * AI Rule Queries
+ *
+ * Read-only operations for automation rules.
+ */
+
+import { query, internalQuery } from "../_generated/server";
+import { v } from "convex/values";
+
+/**
+ * List a company's rules in the order they are checked
+ *
+ * Used by the rules editor in AI Studio. Embeddings are left out.
+ */
+export const listRulesByCompany = query({
+  args: {
+    companyId: v.id("companies"),
+  },
+  handler: async (ctx, { companyId }) => {
+    const rules = await ctx.db
+      .query("ai_rules")
+      .withIndex("by_company_priority", (q) => q.eq("companyId", companyId))
+      .collect();
+
+    return rules.map(({ embedding, ...rule }) => ({
+      ...rule,
+      hasEmbedding: !!embedding,
+    }));
+  },
+});
+
+/**
+ * Rules with embeddings, for matching inside actions
+ */
+export const getRulesForMatching = internalQuery({
+  args: {
+    companyId: v.id("companies"),
+  },
+  handler: async (ctx, { companyId }) => {
+    return await ctx.db
+      .query("ai_rules")
+      .withIndex("by_company_priority", (q) => q.eq("companyId", companyId))
+      .collect();
+  },
+});
+
+export const getRuleById = internalQuery({
+  args: {
+    ruleId: v.id("ai_rules"),
+  },
+  handler: async (ctx, { ruleId }) => {
+    return await ctx.db.get(ruleId);
+  },
+});
@@ -0,0 +1,403 @@
+/**
+ * Assignment Mutations
+ *
+ * Offer conversations that reach the team to one agent at a time. The
+ * offer stands until the agent takes over, declines or the timeout passes;
+ * then the next eligible agent is tried. When nobody is left the
+ * conversation falls back to the open queue and every agent is notified.
+ */
+
+import { mutation, internalMutation, type MutationCtx } from "../_generated/server";
+import { api, internal } from "../_generated/api";
+import { v } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import { HANDOFF_REASON_LABELS } from "../ai/handoff";
+import {
+  DEFAULT_ACCEPT_TIMEOUT_MINUTES,
+  eligibleCandidates,
+  pickAgent,
+  resolveAssignmentStrategy,
+  type AssignmentCandidate,
+} from "./strategy";
+
+type AssignmentOutcome = Doc<"conversation_assignments">["outcome"];
+
+const strategyValidator = v.union(
+  v.literal("manual"),
+  v.literal("round_robin"),
+  v.literal("least_busy"),
+  v.literal("skills")
+);
+
+async function countOpenConversations(ctx: MutationCtx, agentId: Id<"users">) {
+  let count = 0;
+  for (const status of ["available", "support_staff_handling"] as const) {
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_assigned_agent_status", (q) =>
+        q.eq("assignedAgentId", agentId).eq("status", status)
+      )
+      .collect();
+    count += conversations.length;
+  }
+  return count;
+}
+
+async function loadCandidates(
+  ctx: MutationCtx,
+  company: Doc<"companies">
+): Promise<AssignmentCandidate[]> {
+  const members = await ctx.db
+    .query("user_companies")
+    .withIndex("by_company_role", (q) => q.eq("companyId", company._id))
+    .filter((q) => q.or(q.eq(q.field("role"), "admin"), q.eq(q.field("role"), "support")))
+    .collect();
+
+  const candidates = await Promise.all(
+    members.map(async (member) => {
+      const user = await ctx.db.get(member.userId);
+      if (!user) return null;
+      return {
+        userId: member.userId as string,
+        availability: user.availabilityStatus ?? "available",
+        departmentIds: (member.departmentIds ?? []) as string[],
+        openConversations: await countOpenConversations(ctx, member.userId),
+        maxConcurrent:
+          member.maxConcurrentConversations ?? company.assignment?.maxConcurrentConversations,
+        skills: member.skills ?? [],
+        lastAssignedAt: member.lastAssignedAt,
+      };
+    })
+  );
+  return candidates.filter((candidate) => candidate !== null);
+}
+
+/**
+ * What the conversation is about, for skills matching: its tag names and
+ * handoff category
+ */
+async function conversationTopics(ctx: MutationCtx, conversation: Doc<"conversations">) {
+  const links = await ctx.db
+    .query("conversation_tags")
+    .withIndex("by_conversation_tag", (q) => q.eq("conversationId", conversation._id))
+    .collect();
+  const tags = await Promise.all(links.map((link) => ctx.db.get(link.tagId)));
+  const topics = tags.flatMap((tag) => (tag ? [tag.name] : []));
+  if (conversation.handoffReasonCategory) {
+    topics.push(
+      conversation.handoffReasonCategory,
+      HANDOFF_REASON_LABELS[conversation.handoffReasonCategory]
+    );
+  }
+  return topics;
+}
+
+/**
+ * Close the conversation's open offer with an outcome and cancel its timeout
+ */
+async function closePendingAssignment(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+  outcome: AssignmentOutcome
+) {
+  if (!conversation.pendingAssignment) return;
+
+  const now = Date.now();
+  await ctx.db.patch(conversation.pendingAssignment.assignmentId, {
+    outcome,
+    respondedAt: now,
+  });
+  if (conversation.assignmentTimeoutJobId) {
+    try {
+      await ctx.scheduler.cancel(conversation.assignmentTimeoutJobId);
+    } catch (error) {
+      // Already ran
+    }
+  }
+  await ctx.db.patch(conversation._id, {
+    pendingAssignment: undefined,
+    assignmentTimeoutJobId: undefined,
+  });
+}
+
+/**
+ * Offer the conversation to the next eligible agent. Agents who already
+ * declined, let an offer time out or transferred the conversation away
+ * since the handoff are skipped.
+ * Returns the picked agent, or null when the conversation stays in the
+ * open queue.
+ */
+async function offerToNextAgent(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">
+): Promise<Id<"users"> | null> {
+  const company = await ctx.db.get(conversation.companyId);
+  if (!company) return null;
+
+  const department = conversation.departmentId
+    ? await ctx.db.get(conversation.departmentId)
+    : null;
+  const strategy = resolveAssignmentStrategy(
+    company.assignment?.strategy,
+    department?.assignmentStrategy
+  );
+  if (strategy === "manual") return null;
+
+  const previousOffers = await ctx.db
+    .query("conversation_assignments")
+    .withIndex("by_conversation", (q) =>
+      q.eq("conversationId", conversation._id).gte("assignedAt", conversation.handoffTriggeredAt ?? 0)
+    )
+    .collect();
+  const transfers = await ctx.db
+    .query("conversation_transfers")
+    .withIndex("by_conversation", (q) =>
+      q.eq("conversationId", conversation._id).gte("createdAt", conversation.handoffTriggeredAt ?? 0)
+    )
+    .collect();
+  const excludeUserIds = [
+    ...previousOffers
+      .filter((offer) => offer.outcome === "declined" || offer.outcome === "timed_out")
+      .map((offer) => offer.agentId as string),
+    ...transfers.map((transfer) => transfer.fromAgentId as string),
+  ];
+
+  const eligible = eligibleCandidates(await loadCandidates(ctx, company), {
+    departmentId: conversation.departmentId,
+    excludeUserIds,
+  });
+  const pick = pickAgent(strategy, eligible, await conversationTopics(ctx, conversation));
+  if (!pick) return null;
+
+  const agentId = pick.userId as Id<"users">;
+  const now = Date.now();
+  const expiresAt =
+    now + (company.assignment?.acceptTimeoutMinutes ?? DEFAULT_ACCEPT_TIMEOUT_MINUTES) * 60 * 1000;
+
+  const assignmentId = await ctx.db.insert("conversation_assignments", {
+    companyId: conversation.companyId,
+    conversationId: conversation._id,
+    agentId,
+    departmentId: conversation.departmentId,
+    strategy,
+    reason: pick.reason,
+    outcome: "pending",
+    assignedAt: now,
+  });
+  const assignmentTimeoutJobId = await ctx.scheduler.runAt(
+    expiresAt,
+    internal.assignment.mutations.expireAssignment,
+    { conversationId: conversation._id, assignmentId }
+  );
+  await ctx.db.patch(conversation._id, {
+    assignedAgentId: agentId,
+    pendingAssignment: { assignmentId, agentId, reason: pick.reason, expiresAt },
+    assignmentTimeoutJobId,
+  });
+
+  const membership = await ctx.db
+    .query("user_companies")
+    .withIndex("by_user_company", (q) =>
+      q.eq("userId", agentId).eq("companyId", conversation.companyId)
+    )
+    .first();
+  if (membership) {
+    await ctx.db.patch(membership._id, { lastAssignedAt: now });
+  }
+
+  return agentId;
+}
+
+/**
+ * Assign a conversation that was just handed to the team. Call after the
+ * handoff patch, so the department is current. Any earlier offer is
+ * cancelled. The handoff notification then goes only to the picked agent.
+ */
+export async function autoAssignConversation(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">
+) {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation || conversation.status !== "available") return null;
+
+  await closePendingAssignment(ctx, conversation, "cancelled");
+  await ctx.db.patch(conversationId, { assignedAgentId: undefined });
+  const current = await ctx.db.get(conversationId);
+  return current ? await offerToNextAgent(ctx, current) : null;
+}
+
+/**
+ * Record an agent taking over. Accepts their own offer, or closes another
+ * agent's offer as taken over. The first agent to take a conversation
+ * from the queue owns it.
+ */
+export async function recordAssignmentTakeover(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+  agentId: Id<"users">
+) {
+  if (conversation.pendingAssignment) {
+    await closePendingAssignment(
+      ctx,
+      conversation,
+      conversation.pendingAssignment.agentId === agentId ? "accepted" : "taken_over"
+    );
+  }
+  if (conversation.status === "available" || !conversation.assignedAgentId) {
+    await ctx.db.patch(conversation._id, { assignedAgentId: agentId });
+  }
+}
+
+/**
+ * Withdraw the open offer when the conversation leaves the queue without
+ * an agent (resolved, or handed back to the AI)
+ */
+export async function cancelConversationAssignment(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">,
+  options: { unassign?: boolean } = {}
+) {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation) return;
+  await closePendingAssignment(ctx, conversation, "cancelled");
+  if (options.unassign && conversation.assignedAgentId) {
+    await ctx.db.patch(conversationId, { assignedAgentId: undefined });
+  }
+}
+
+/**
+ * Move an offer on after its timeout, or fall back to the open queue
+ */
+async function moveOffer(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+  outcome: "declined" | "timed_out"
+) {
+  const agentName = conversation.pendingAssignment
+    ? (await ctx.db.get(conversation.pendingAssignment.agentId))?.displayName
+    : undefined;
+  await closePendingAssignment(ctx, conversation, outcome);
+  await ctx.db.patch(conversation._id, { assignedAgentId: undefined });
+
+  const current = await ctx.db.get(conversation._id);
+  if (!current) return null;
+  const nextAgentId = await offerToNextAgent(ctx, current);
+
+  const what = outcome === "declined" ? "declined" : "didn't respond";
+  await ctx.scheduler.runAfter(0, api.notifications.whop.sendHandoffRequestNotification, {
+    conversationId: conversation._id,
+    reason: nextAgentId
+      ? `${agentName ?? "The assigned agent"} ${what}, reassigned to you`
+      : `${agentName ?? "The assigned agent"} ${what} and no one else is free - take it from the queue`,
+    departmentId: conversation.departmentId,
+  });
+  return nextAgentId;
+}
+
+export const expireAssignment = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    assignmentId: v.id("conversation_assignments"),
+  },
+  handler: async (ctx, { conversationId, assignmentId }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (conversation?.pendingAssignment?.assignmentId !== assignmentId) return;
+    if (conversation.status !== "available") {
+      await closePendingAssignment(ctx, { ...conversation, assignmentTimeoutJobId: undefined }, "cancelled");
+      return;
+    }
+
+    // This is the timeout job, so there's nothing to cancel
+    const reassignedTo = await moveOffer(
+      ctx,
+      { ...conversation, assignmentTimeoutJobId: undefined },
+      "timed_out"
+    );
+    return { reassignedTo };
+  },
+});
+
+export const declineAssignment = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    agentId: v.id("users"),
+  },
+  handler: async (ctx, { conversationId, agentId }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) throw new Error("Conversation not found");
+    if (conversation.pendingAssignment?.agentId !== agentId) {
+      throw new Error("This conversation isn't assigned to you");
+    }
+
+    const reassignedTo = await moveOffer(ctx, conversation, "declined");
+    return { success: true, reassignedTo };
+  },
+});
+
+export const updateAssignmentSettings = mutation({
+  args: {
+    companyId: v.id("companies"),
+    strategy: strategyValidator,
+    acceptTimeoutMinutes: v.number(),
+    maxConcurrentConversations: v.optional(v.number()),
+  },
+  handler: async (ctx, { companyId, strategy, acceptTimeoutMinutes, maxConcurrentConversations }) => {
+    if (!Number.isFinite(acceptTimeoutMinutes) || acceptTimeoutMinutes < 1) {
+      throw new Error("The accept timeout must be at least 1 minute");
+    }
+    if (
+      maxConcurrentConversations !== undefined &&
+      (!Number.isInteger(maxConcurrentConversations) || maxConcurrentConversations < 1)
+    ) {
+      throw new Error("The conversation cap must be a whole number of at least 1");
+    }
+
+    await ctx.db.patch(companyId, {
+      assignment: { strategy, acceptTimeoutMinutes, maxConcurrentConversations },
+      updatedAt: Date.now(),
+    });
+    return { success: true };
+  },
+});
+
+/**
+ * Set an agent's concurrency cap and skills. A null cap falls back to the
+ * company default.
+ */
+export const updateAgentAssignmentSettings = mutation({
+  args: {
+    userId: v.id("users"),
+    companyId: v.id("companies"),
+    maxConcurrentConversations: v.optional(v.union(v.number(), v.null())),
+    skills: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, { userId, companyId, maxConcurrentConversations, skills }) => {
+    const membership = await ctx.db
+      .query("user_companies")
+      .withIndex("by_user_company", (q) => q.eq("userId", userId).eq("companyId", companyId))
+      .first();
+    if (!membership) throw new Error("User not found in company");
+
+    const patch: any = { updatedAt: Date.now() };
+    if (maxConcurrentConversations !== undefined) {
+      if (
+        maxConcurrentConversations !== null &&
+        (!Number.isInteger(maxConcurrentConversations) || maxConcurrentConversations < 1)
+      ) {
+        throw new Error("The conversation cap must be a whole number of at least 1");
+      }
+      patch.maxConcurrentConversations = maxConcurrentConversations ?? undefined;
+    }
+    if (skills !== undefined) {
+      const unique = new Map<string, string>();
+      for (const skill of skills) {
+        const trimmed = skill.trim();
+        if (trimmed) unique.set(trimmed.toLowerCase(), trimmed);
+      }
+      patch.skills = [...unique.values()];
+    }
+
+    await ctx.db.patch(membership._id, patch);
+    return { success: true };
+  },
+});
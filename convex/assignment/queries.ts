@@ -0,0 +1,35 @@
+/**
+ * Assignment Queries
+ *
+ * Recent automatic assignments with their reasons, for the settings page.
+ */
+
+import { v } from "convex/values";
+import { query } from "../_generated/server";
+
+export const listRecentAssignments = query({
+  args: {
+    companyId: v.id("companies"),
+    limit: v.optional(v.number()),
+  },
+  handler: async (ctx, { companyId, limit }) => {
+    const assignments = await ctx.db
+      .query("conversation_assignments")
+      .withIndex("by_company_assigned", (q) => q.eq("companyId", companyId))
+      .order("desc")
+      .take(limit ?? 20);
+
+    return await Promise.all(
+      assignments.map(async (assignment) => {
+        const agent = await ctx.db.get(assignment.agentId);
+        const conversation = await ctx.db.get(assignment.conversationId);
+        const customer = conversation ? await ctx.db.get(conversation.customerId) : null;
+        return {
+          ...assignment,
+          agentName: agent?.displayName ?? "Unknown agent",
+          customerName: customer?.displayName ?? "Unknown customer",
+        };
+      })
+    );
+  },
+});
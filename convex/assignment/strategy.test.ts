@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  eligibleCandidates,
+  matchingSkills,
+  pickAgent,
+  resolveAssignmentStrategy,
+  type AssignmentCandidate,
+} from "./strategy";
+
+const agent = (overrides: Partial<AssignmentCandidate> & { userId: string }): AssignmentCandidate => ({
+  availability: "available",
+  departmentIds: [],
+  openConversations: 0,
+  skills: [],
+  ...overrides,
+});
+
+describe("resolveAssignmentStrategy", () => {
+  it("prefers the department's strategy unless it inherits", () => {
+    expect(resolveAssignmentStrategy("round_robin", "least_busy")).toBe("least_busy");
+    expect(resolveAssignmentStrategy("round_robin", "inherit")).toBe("round_robin");
+    expect(resolveAssignmentStrategy(undefined, undefined)).toBe("manual");
+  });
+});
+
+describe("eligibleCandidates", () => {
+  const agents = [
+    agent({ userId: "a" }),
+    agent({ userId: "busy", availability: "busy" }),
+    agent({ userId: "full", openConversations: 3, maxConcurrent: 3 }),
+    agent({ userId: "billing", departmentIds: ["billing"] }),
+  ];
+
+  it("skips unavailable agents and agents at their cap", () => {
+    expect(eligibleCandidates(agents, {}).map((c) => c.userId)).toEqual(["a", "billing"]);
+  });
+
+  it("keeps to the department and drops excluded agents", () => {
+    expect(eligibleCandidates(agents, { departmentId: "billing" }).map((c) => c.userId)).toEqual([
+      "billing",
+    ]);
+    expect(eligibleCandidates(agents, { excludeUserIds: ["a"] }).map((c) => c.userId)).toEqual([
+      "billing",
+    ]);
+  });
+});
+
+describe("matchingSkills", () => {
+  it("compares case-insensitively", () => {
+    expect(matchingSkills(["Billing", "Refunds"], ["billing", "vip"])).toEqual(["Billing"]);
+  });
+});
+
+describe("pickAgent", () => {
+  it("assigns nobody for manual or an empty pool", () => {
+    expect(pickAgent("manual", [agent({ userId: "a" })])).toBeNull();
+    expect(pickAgent("round_robin", [])).toBeNull();
+  });
+
+  it("round-robin picks the least recently assigned, never-assigned first", () => {
+    const pick = pickAgent("round_robin", [
+      agent({ userId: "a", lastAssignedAt: 200 }),
+      agent({ userId: "b", lastAssignedAt: 100 }),
+      agent({ userId: "c" }),
+    ]);
+    expect(pick?.userId).toBe("c");
+    expect(pick?.reason).toContain("3 available agents");
+  });
+
+  it("least busy picks the fewest open conversations", () => {
+    const pick = pickAgent("least_busy", [
+      agent({ userId: "a", openConversations: 4 }),
+      agent({ userId: "b", openConversations: 1 }),
+    ]);
+    expect(pick).toEqual({
+      userId: "b",
+      reason: "Least busy: 1 open conversation among 2 available agents",
+    });
+  });
+
+  it("skills picks the best match, then the least busy", () => {
+    const agents = [
+      agent({ userId: "a", skills: ["billing"], openConversations: 5 }),
+      agent({ userId: "b", skills: ["technical_issue"], openConversations: 0 }),
+      agent({ userId: "c", skills: [], openConversations: 1 }),
+    ];
+    expect(pickAgent("skills", agents, ["Billing"])).toEqual({
+      userId: "a",
+      reason: "Skills: matches billing",
+    });
+    expect(pickAgent("skills", agents, ["vip"])?.userId).toBe("b");
+  });
+});
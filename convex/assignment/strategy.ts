@@ -0,0 +1,135 @@
+/**
+ * AGENT ASSIGNMENT
+ *
+ * Picks an agent for a conversation that was just handed to the team.
+ * Strategies:
+ * - manual: nobody is picked; every agent is notified and the first to
+ *   take over wins,
+ * - round_robin: the agent who was assigned least recently,
+ * - least_busy: the agent with the fewest open conversations,
+ * - skills: the agent whose skills best match the conversation's tags and
+ *   handoff category, then the least busy.
+ *
+ * Only agents who are available, belong to the conversation's department
+ * (when it has one) and are under their concurrency cap are considered.
+ * A department's strategy wins over the company's.
+ *
+ * Everything here is pure - the mutations load the candidates, store the
+ * pick on the conversation and schedule the acceptance timeout.
+ */
+
+export type AssignmentStrategy = "manual" | "round_robin" | "least_busy" | "skills";
+
+export const DEFAULT_ASSIGNMENT_STRATEGY: AssignmentStrategy = "manual";
+
+// How long an assigned agent has to take over before the next one is tried
+export const DEFAULT_ACCEPT_TIMEOUT_MINUTES = 5;
+
+export const ASSIGNMENT_STRATEGY_LABELS: Record<AssignmentStrategy, string> = {
+  manual: "Manual",
+  round_robin: "Round-robin",
+  least_busy: "Least busy",
+  skills: "Skills-based",
+};
+
+export type AssignmentCandidate = {
+  userId: string;
+  availability: "available" | "busy" | "offline";
+  departmentIds: string[];
+  openConversations: number;
+  maxConcurrent?: number; // Unset means no cap
+  skills: string[];
+  lastAssignedAt?: number;
+};
+
+export type AssignmentPick = {
+  userId: string;
+  reason: string;
+};
+
+/**
+ * Department strategy when set (and not "inherit"), else the company's
+ */
+export function resolveAssignmentStrategy(
+  companyStrategy: AssignmentStrategy | undefined,
+  departmentStrategy: AssignmentStrategy | "inherit" | undefined
+): AssignmentStrategy {
+  if (departmentStrategy && departmentStrategy !== "inherit") return departmentStrategy;
+  return companyStrategy ?? DEFAULT_ASSIGNMENT_STRATEGY;
+}
+
+/**
+ * Agents who can take the conversation right now
+ */
+export function eligibleCandidates(
+  candidates: AssignmentCandidate[],
+  options: { departmentId?: string; excludeUserIds?: string[] }
+): AssignmentCandidate[] {
+  return candidates.filter(
+    (candidate) =>
+      candidate.availability === "available" &&
+      (!options.departmentId || candidate.departmentIds.includes(options.departmentId)) &&
+      (candidate.maxConcurrent === undefined ||
+        candidate.openConversations < candidate.maxConcurrent) &&
+      !options.excludeUserIds?.includes(candidate.userId)
+  );
+}
+
+/**
+ * Skills that match the conversation, compared case-insensitively
+ */
+export function matchingSkills(skills: string[], topics: string[]): string[] {
+  const wanted = new Set(topics.map((topic) => topic.trim().toLowerCase()));
+  return skills.filter((skill) => wanted.has(skill.trim().toLowerCase()));
+}
+
+// Never-assigned agents go first, then the longest since their last assignment
+const byLastAssigned = (a: AssignmentCandidate, b: AssignmentCandidate) =>
+  (a.lastAssignedAt ?? 0) - (b.lastAssignedAt ?? 0) || a.userId.localeCompare(b.userId);
+
+const byLoad = (a: AssignmentCandidate, b: AssignmentCandidate) =>
+  a.openConversations - b.openConversations || byLastAssigned(a, b);
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? "" : "s"}`;
+
+/**
+ * The agent to assign, with a reason agents can read. null for manual
+ * assignment or when nobody is eligible.
+ *
+ * `topics` are what the conversation is about (tag names, handoff category)
+ * and only matter to the skills strategy.
+ */
+export function pickAgent(
+  strategy: AssignmentStrategy,
+  eligible: AssignmentCandidate[],
+  topics: string[] = []
+): AssignmentPick | null {
+  if (strategy === "manual" || eligible.length === 0) return null;
+  const pool = plural(eligible.length, "available agent");
+
+  if (strategy === "round_robin") {
+    const [next] = [...eligible].sort(byLastAssigned);
+    return { userId: next.userId, reason: `Round-robin: next in rotation of ${pool}` };
+  }
+
+  if (strategy === "least_busy") {
+    const [next] = [...eligible].sort(byLoad);
+    return {
+      userId: next.userId,
+      reason: `Least busy: ${plural(next.openConversations, "open conversation")} among ${pool}`,
+    };
+  }
+
+  const scored = eligible.map((candidate) => ({
+    candidate,
+    matches: matchingSkills(candidate.skills, topics),
+  }));
+  scored.sort((a, b) => b.matches.length - a.matches.length || byLoad(a.candidate, b.candidate));
+  const [best] = scored;
+  return {
+    userId: best.candidate.userId,
+    reason: best.matches.length
+      ? `Skills: matches ${best.matches.join(", ")}`
+      : `Skills: no skill match, least busy of ${pool}`,
+  };
+}
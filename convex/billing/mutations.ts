@@ -72,6 +72,7 @@ export const updateCompanyPlan = mutation({
 
       // Always reset usage (renewal OR new subscription)
       aiResponsesThisMonth: 0,
+      aiDraftsThisMonth: 0,
       aiResponsesResetAt: periodEnd,
       usageWarningSent: false, // Reset warning flag for new billing cycle
 
@@ -136,6 +137,7 @@ export const executeScheduledPlanChange = mutation({
 
       // Reset usage counters
       aiResponsesThisMonth: 0,
+      aiDraftsThisMonth: 0,
       aiResponsesResetAt: now + 30 * 24 * 60 * 60 * 1000,
       usageWarningSent: false, // Reset warning flag for new billing cycle
     });
@@ -200,6 +202,7 @@ export const directActivatePlan = mutation({
 
       // Reset usage for new billing cycle
       aiResponsesThisMonth: 0,
+      aiDraftsThisMonth: 0,
       aiResponsesResetAt: periodEnd,
       usageWarningSent: false,
 
@@ -320,6 +323,7 @@ export const activateSubscription = mutation({
         currentPeriodStart: now,
         currentPeriodEnd: periodEnd,
         aiResponsesThisMonth: 0,
+        aiDraftsThisMonth: 0,
         aiResponsesResetAt: periodEnd,
         usageWarningSent: false,
         scheduledPlanChangeAt: undefined,
@@ -366,6 +370,7 @@ export const deactivateSubscription = mutation({
         planId: freePlan._id,
         billingStatus: "canceled",
         aiResponsesThisMonth: 0,
+        aiDraftsThisMonth: 0,
         aiResponsesResetAt: periodEnd,
         currentPeriodStart: now,
         currentPeriodEnd: periodEnd,
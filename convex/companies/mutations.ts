@@ -7,6 +7,10 @@
 import { mutation } from "../_generated/server";
 import { v } from "convex/values";
 import { api } from "../_generated/api";
+import { snapshotAiConfig } from "../ai/configVersions";
+import { clampFailedAttemptsThreshold } from "../ai/failureLoop";
+import { recordAiConfigVersion } from "../aiConfigVersions/mutations";
+import { MAX_CUSTOM_PII_PATTERNS, validateCustomPiiPattern } from "../ai/redaction";
 
 /**
  * Update company name
@@ -164,6 +168,7 @@ export const createCompany = mutation({
       // Usage tracking
       aiResponsesThisMonth: 0,
       aiResponsesResetAt: now + 30 * 24 * 60 * 60 * 1000,
+      aiDraftsThisMonth: 0,
 
       // Settings
       timezone: "America/New_York", // Default timezone
@@ -234,6 +239,7 @@ export const completeOnboarding = mutation({
     ),
     aiSystemPrompt: v.string(),
     aiHandoffTriggers: v.array(v.string()),
+    completedBy: v.optional(v.id("users")),
   },
   handler: async (
     ctx,
@@ -246,10 +252,17 @@ export const completeOnboarding = mutation({
       aiResponseLength,
       aiSystemPrompt,
       aiHandoffTriggers,
+      completedBy,
     }
   ) => {
     const now = Date.now();
 
+    const company = await ctx.db.get(companyId);
+    if (!company) {
+      throw new Error("Company not found");
+    }
+    const previousConfig = snapshotAiConfig(company);
+
     await ctx.db.patch(companyId, {
       // AI Configuration
       aiPersonality,
@@ -270,17 +283,24 @@ export const completeOnboarding = mutation({
       // Metadata
       updatedAt: now,
     });
+
+    await recordAiConfigVersion(ctx, companyId, previousConfig, {
+      source: "onboarding",
+      createdBy: completedBy,
+    });
   },
 });
 
 /**
  * Update AI configuration (from AI Studio tab)
  *
- * Allows admins to update AI settings after initial setup.
+ * Allows admins to update AI settings after initial setup. Each save that
+ * changes something is recorded in ai_config_versions.
  */
 export const updateAiConfig = mutation({
   args: {
     companyId: v.id("companies"),
+    updatedBy: v.optional(v.id("users")),
     selectedAiModel: v.optional(v.string()),
     aiPersonality: v.optional(
       v.union(
@@ -295,6 +315,21 @@ export const updateAiConfig = mutation({
     ),
     aiSystemPrompt: v.optional(v.string()),
     aiHandoffTriggers: v.optional(v.array(v.string())),
+    aiHandoffKeywordOverride: v.optional(v.boolean()),
+    aiFailedAttemptsThreshold: v.optional(v.number()),
+    aiApprovalRequired: v.optional(v.boolean()),
+    aiTopicPolicy: v.optional(
+      v.object({
+        allowedTopics: v.array(v.string()),
+        blockedTopics: v.array(v.string()),
+        deflectionMessage: v.optional(v.string()),
+        strictness: v.union(
+          v.literal("lenient"),
+          v.literal("balanced"),
+          v.literal("strict")
+        ),
+      })
+    ),
   },
   handler: async (
     ctx,
@@ -305,19 +340,25 @@ export const updateAiConfig = mutation({
       aiResponseLength,
       aiSystemPrompt,
       aiHandoffTriggers,
+      aiHandoffKeywordOverride,
+      aiFailedAttemptsThreshold,
+      aiApprovalRequired,
+      aiTopicPolicy,
+      updatedBy,
     }
   ) => {
     const updates: any = {
       updatedAt: Date.now(),
     };
 
+    const company = await ctx.db.get(companyId);
+    if (!company) {
+      throw new Error("Company not found");
+    }
+    const previousConfig = snapshotAiConfig(company);
+
     if (selectedAiModel !== undefined) {
       // Verify the model is available in their plan
-      const company = await ctx.db.get(companyId);
-      if (!company) {
-        throw new Error("Company not found");
-      }
-
       const plan = await ctx.db.get(company.planId);
       if (!plan) {
         throw new Error("Plan not found");
@@ -336,9 +377,27 @@ export const updateAiConfig = mutation({
     if (aiSystemPrompt !== undefined) updates.aiSystemPrompt = aiSystemPrompt;
     if (aiHandoffTriggers !== undefined)
       updates.aiHandoffTriggers = aiHandoffTriggers;
+    if (aiHandoffKeywordOverride !== undefined)
+      updates.aiHandoffKeywordOverride = aiHandoffKeywordOverride;
+    if (aiFailedAttemptsThreshold !== undefined)
+      updates.aiFailedAttemptsThreshold = clampFailedAttemptsThreshold(aiFailedAttemptsThreshold);
+    if (aiApprovalRequired !== undefined)
+      updates.aiApprovalRequired = aiApprovalRequired;
+    if (aiTopicPolicy !== undefined) {
+      updates.aiTopicPolicy = {
+        ...aiTopicPolicy,
+        allowedTopics: aiTopicPolicy.allowedTopics.map((t) => t.trim()).filter(Boolean),
+        blockedTopics: aiTopicPolicy.blockedTopics.map((t) => t.trim()).filter(Boolean),
+      };
+    }
 
     await ctx.db.patch(companyId, updates);
 
+    await recordAiConfigVersion(ctx, companyId, previousConfig, {
+      source: "ai_studio",
+      createdBy: updatedBy,
+    });
+
     // If AI settings changed, update assistant
     if (
       selectedAiModel !== undefined ||
@@ -356,6 +415,58 @@ export const updateAiConfig = mutation({
   },
 });
 
+/**
+ * Update which PII is redacted before customer text is sent to the model
+ */
+export const updatePiiRedaction = mutation({
+  args: {
+    companyId: v.id("companies"),
+    enabled: v.boolean(),
+    categories: v.array(
+      v.union(
+        v.literal("email"),
+        v.literal("phone"),
+        v.literal("card"),
+        v.literal("license_key")
+      )
+    ),
+    customPatterns: v.array(
+      v.object({
+        label: v.string(),
+        pattern: v.string(),
+        reinsert: v.boolean(),
+      })
+    ),
+  },
+  handler: async (ctx, { companyId, enabled, categories, customPatterns }) => {
+    if (customPatterns.length > MAX_CUSTOM_PII_PATTERNS) {
+      throw new Error(`Up to ${MAX_CUSTOM_PII_PATTERNS} custom patterns are allowed`);
+    }
+    const patterns = customPatterns.map((pattern) => ({
+      ...pattern,
+      label: pattern.label.trim(),
+      pattern: pattern.pattern.trim(),
+    }));
+    for (const pattern of patterns) {
+      const error = validateCustomPiiPattern(pattern);
+      if (error) {
+        throw new Error(error);
+      }
+    }
+
+    await ctx.db.patch(companyId, {
+      piiRedaction: {
+        enabled,
+        categories: [...new Set(categories)],
+        customPatterns: patterns,
+      },
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
 /**
  * Update OpenAI IDs (internal use by assistant actions)
  */
@@ -363,17 +474,10 @@ export const updateOpenAIIds = mutation({
   args: {
     companyId: v.id("companies"),
     openaiAssistantId: v.string(),
-    openaiVectorStoreId: v.string(),
-    openaiContextFileId: v.optional(v.string()),
   },
-  handler: async (
-    ctx,
-    { companyId, openaiAssistantId, openaiVectorStoreId, openaiContextFileId }
-  ) => {
+  handler: async (ctx, { companyId, openaiAssistantId }) => {
     await ctx.db.patch(companyId, {
       openaiAssistantId,
-      openaiVectorStoreId,
-      openaiContextFileId,
       updatedAt: Date.now(),
     });
   },
@@ -398,7 +502,8 @@ export const updateTestAssistantId = mutation({
 /**
  * Update company context (from Workspace tab)
  *
- * Replaces existing company context (no versioning).
+ * Replaces existing company context. The previous text stays restorable
+ * from ai_config_versions.
  */
 export const updateCompanyContext = mutation({
   args: {
@@ -406,6 +511,7 @@ export const updateCompanyContext = mutation({
     companyContextOriginal: v.string(),
     companyContextProcessed: v.string(),
     companyContextFileId: v.optional(v.id("company_context_files")),
+    updatedBy: v.optional(v.id("users")),
   },
   handler: async (
     ctx,
@@ -414,10 +520,17 @@ export const updateCompanyContext = mutation({
       companyContextOriginal,
       companyContextProcessed,
       companyContextFileId,
+      updatedBy,
     }
   ) => {
     const now = Date.now();
 
+    const company = await ctx.db.get(companyId);
+    if (!company) {
+      throw new Error("Company not found");
+    }
+    const previousConfig = snapshotAiConfig(company);
+
     await ctx.db.patch(companyId, {
       companyContextOriginal,
       companyContextProcessed,
@@ -425,6 +538,11 @@ export const updateCompanyContext = mutation({
       companyContextLastUpdated: now,
       updatedAt: now,
     });
+
+    await recordAiConfigVersion(ctx, companyId, previousConfig, {
+      source: "company_context",
+      createdBy: updatedBy,
+    });
   },
 });
 
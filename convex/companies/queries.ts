@@ -1,5 +1,7 @@
 import { v } from "convex/values";
 import { query } from "../_generated/server";
+import { DEFAULT_PII_REDACTION } from "../ai/redaction";
+import { DEFAULT_FAILED_ATTEMPTS_THRESHOLD } from "../ai/failureLoop";
 
 /**
  * COMPANIES QUERIES
@@ -196,7 +198,13 @@ export const getFullCompanyConfig = query({
       aiResponseLength: company.aiResponseLength,
       aiSystemPrompt: company.aiSystemPrompt,
       aiHandoffTriggers: company.aiHandoffTriggers,
+      aiHandoffKeywordOverride: company.aiHandoffKeywordOverride ?? false,
+      aiFailedAttemptsThreshold:
+        company.aiFailedAttemptsThreshold ?? DEFAULT_FAILED_ATTEMPTS_THRESHOLD,
+      aiApprovalRequired: company.aiApprovalRequired ?? false,
+      aiTopicPolicy: company.aiTopicPolicy,
       selectedAiModel: company.selectedAiModel,
+      piiRedaction: company.piiRedaction ?? DEFAULT_PII_REDACTION,
 
       // Company Context
       companyContextOriginal: company.companyContextOriginal,
@@ -1,4 +1,8 @@
 import { internalMutation } from "../_generated/server";
+import { closeSla } from "../sla/policy";
+import { updateConversationSla } from "../sla/mutations";
+import { cancelConversationAssignment } from "../assignment/mutations";
+import { isStaleConversation } from "./parking";
 
 const STALE_THRESHOLD_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
 
@@ -20,10 +24,16 @@ export const autoResolveStaleConversations = internalMutation({
 
     let resolvedCount = 0;
     for (const conv of staleConversations) {
+      // Snoozed conversations wait for their wake-up; a pending_customer
+      // conversation's quiet period starts when it was parked
+      if (!isStaleConversation(conv, now, STALE_THRESHOLD_MS)) continue;
+
       await ctx.db.patch(conv._id, {
         status: "resolved",
         updatedAt: now,
       });
+      await updateConversationSla(ctx, conv._id, (sla, at) => closeSla(sla, at, true));
+      await cancelConversationAssignment(ctx, conv._id);
 
       await ctx.db.insert("messages", {
         conversationId: conv._id,
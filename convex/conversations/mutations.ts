@@ -1,6 +1,16 @@
 import { v } from "convex/values";
-import { mutation } from "../_generated/server";
-import { api } from "../_generated/api";
+import { mutation, internalMutation, type MutationCtx } from "../_generated/server";
+import { api, internal } from "../_generated/api";
+import type { Doc } from "../_generated/dataModel";
+import { assignExperimentVariant } from "../experiments/mutations";
+import { closeSla, pauseSla, reprioritizeSla, resumeSla } from "../sla/policy";
+import { startConversationSla, updateConversationSla } from "../sla/mutations";
+import {
+  autoAssignConversation,
+  cancelConversationAssignment,
+  recordAssignmentTakeover,
+} from "../assignment/mutations";
+import { isParkedStatus, wakeUpTimeError } from "./parking";
 
 /**
  * CONVERSATIONS MUTATIONS
@@ -129,12 +139,19 @@ export const createCustomerConversation = mutation({
     }
 
     const now = Date.now();
+
+    // Sticky A/B assignment; test customers stay on the live config so
+    // previews don't skew experiment results
+    const experiment = isTestCustomer
+      ? {}
+      : await assignExperimentVariant(ctx, companyId, customerId);
     
     console.log("🆕 Creating new conversation...");
     const newConvId = await ctx.db.insert("conversations", {
       companyId,
       customerId,
       status: "ai_handling",
+      ...experiment,
       messageCount: 0,
       lastMessageAt: now,
       firstMessageAt: now,
@@ -185,6 +202,7 @@ export const requestHumanSupport = mutation({
           status: "awaiting_department",
           handoffTriggeredAt: now,
           handoffReason: "Customer requested human support",
+          handoffReasonCategory: "customer_requested_human",
           updatedAt: now,
         });
 
@@ -220,8 +238,11 @@ export const requestHumanSupport = mutation({
       status: "available",
       handoffTriggeredAt: now,
       handoffReason: "Customer requested human support",
+      handoffReasonCategory: "customer_requested_human",
       updatedAt: now,
     });
+    await startConversationSla(ctx, conversationId);
+    await autoAssignConversation(ctx, conversationId);
 
     await ctx.db.insert("messages", {
       conversationId,
@@ -343,6 +364,29 @@ export const updateStatus = mutation({
     // Update conversation
     await ctx.db.patch(conversationId, updates);
 
+    // The SLA clock runs while the conversation is with agents
+    if (
+      status === "available" &&
+      conversation.status !== "available" &&
+      conversation.status !== "support_staff_handling" &&
+      !isParkedStatus(conversation.status)
+    ) {
+      await startConversationSla(ctx, conversationId);
+    } else if (status === "ai_handling") {
+      await updateConversationSla(ctx, conversationId, (sla, at) => closeSla(sla, at, false));
+    }
+
+    // Offer queued conversations to an agent; whoever takes one over owns it
+    if (status === "available" && conversation.status !== "available") {
+      await autoAssignConversation(ctx, conversationId);
+    } else if (status === "support_staff_handling" && agentId) {
+      await recordAssignmentTakeover(ctx, conversation, agentId);
+    } else if (status !== "available" && status !== "support_staff_handling") {
+      await cancelConversationAssignment(ctx, conversationId, {
+        unassign: status === "ai_handling",
+      });
+    }
+
     // Create system message if needed
     if (systemMessageContent && systemMessageType) {
       await ctx.db.insert("messages", {
@@ -369,13 +413,33 @@ export const triggerHandoff = mutation({
   args: {
     conversationId: v.id("conversations"),
     reason: v.optional(v.string()),
+    reasonCategory: v.optional(
+      v.union(
+        v.literal("customer_requested_human"),
+        v.literal("billing"),
+        v.literal("account_access"),
+        v.literal("technical_issue"),
+        v.literal("negative_sentiment"),
+        v.literal("low_confidence"),
+        v.literal("keyword_trigger"),
+        v.literal("usage_limit"),
+        v.literal("automation_rule"),
+        v.literal("repeated_failures"),
+        v.literal("other")
+      )
+    ),
+    // Route straight to this department instead of asking the customer
+    departmentId: v.optional(v.id("departments")),
   },
-  handler: async (ctx, { conversationId, reason }) => {
+  handler: async (ctx, { conversationId, reason, reasonCategory, departmentId: requestedDepartmentId }) => {
     const conversation = await ctx.db.get(conversationId);
     if (!conversation) {
       throw new Error("Conversation not found");
     }
 
+    // Conversations already routed (e.g. to a department AI persona) stay in that department
+    const departmentId = requestedDepartmentId ?? conversation.departmentId;
+
     const company = await ctx.db.get(conversation.companyId);
     if (!company) {
       throw new Error("Company not found");
@@ -383,6 +447,47 @@ export const triggerHandoff = mutation({
 
     const now = Date.now();
 
+    if (departmentId) {
+      const department = await ctx.db.get(departmentId);
+      if (
+        department &&
+        department.isActive &&
+        department.companyId === conversation.companyId
+      ) {
+        await ctx.db.patch(conversationId, {
+          status: "available",
+          departmentId,
+          handoffTriggeredAt: now,
+          handoffReason: reason,
+          handoffReasonCategory: reasonCategory,
+          updatedAt: now,
+        });
+        await startConversationSla(ctx, conversationId);
+        await autoAssignConversation(ctx, conversationId);
+
+        await ctx.db.insert("messages", {
+          conversationId,
+          companyId: conversation.companyId,
+          role: "system",
+          content: `Routed to ${department.name}. A support agent will be with you shortly.`,
+          timestamp: now,
+          systemMessageType: "department_selected",
+        });
+
+        await ctx.scheduler.runAfter(
+          0,
+          api.notifications.whop.sendHandoffRequestNotification,
+          {
+            conversationId,
+            reason: reason || "Handoff triggered",
+            departmentId,
+          }
+        );
+
+        return { success: true, handoffAt: now, awaitingDepartment: false };
+      }
+    }
+
     // Check if departments are enabled and active departments exist
     if (company.departmentsEnabled) {
       const activeDepts = await ctx.db
@@ -398,6 +503,7 @@ export const triggerHandoff = mutation({
           status: "awaiting_department",
           handoffTriggeredAt: now,
           handoffReason: reason,
+          handoffReasonCategory: reasonCategory,
           updatedAt: now,
         });
 
@@ -433,8 +539,11 @@ export const triggerHandoff = mutation({
       status: "available",
       handoffTriggeredAt: now,
       handoffReason: reason,
+      handoffReasonCategory: reasonCategory,
       updatedAt: now,
     });
+    await startConversationSla(ctx, conversationId);
+    await autoAssignConversation(ctx, conversationId);
 
     await ctx.db.insert("messages", {
       conversationId,
@@ -522,6 +631,7 @@ export const supportTakeover = mutation({
     }
 
     await ctx.db.patch(conversationId, updates);
+    await recordAssignmentTakeover(ctx, conversation, agentId);
 
     // Notify customer that an agent has joined
     if (!isAlreadyParticipating) {
@@ -547,6 +657,309 @@ export const supportTakeover = mutation({
   },
 });
 
+// ============================================================================
+// TRANSFER CONVERSATION
+// ============================================================================
+
+const MAX_HANDOVER_NOTE_LENGTH = 2000;
+
+/**
+ * Hand a conversation to another agent, or to a department's queue. The
+ * transferring agent leaves the conversation; a handover note is kept on
+ * the transfer for agents only.
+ */
+export const transferConversation = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    fromAgentId: v.id("users"),
+    toAgentId: v.optional(v.id("users")),
+    toDepartmentId: v.optional(v.id("departments")),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, { conversationId, fromAgentId, toAgentId, toDepartmentId, note }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+    if (
+      conversation.status !== "available" &&
+      conversation.status !== "support_staff_handling"
+    ) {
+      throw new Error("Only conversations with your team can be transferred");
+    }
+    if (!toAgentId && !toDepartmentId) {
+      throw new Error("Choose an agent or a department to transfer to");
+    }
+    if (toAgentId === fromAgentId) {
+      throw new Error("You can't transfer a conversation to yourself");
+    }
+
+    const fromAgent = await ctx.db.get(fromAgentId);
+    if (!fromAgent) {
+      throw new Error("Agent not found");
+    }
+
+    const toAgent = toAgentId ? await ctx.db.get(toAgentId) : null;
+    if (toAgentId) {
+      const membership = await ctx.db
+        .query("user_companies")
+        .withIndex("by_user_company", (q) =>
+          q.eq("userId", toAgentId).eq("companyId", conversation.companyId)
+        )
+        .first();
+      if (!toAgent || (membership?.role !== "admin" && membership?.role !== "support")) {
+        throw new Error("That agent isn't on this team");
+      }
+    }
+
+    const toDepartment = toDepartmentId ? await ctx.db.get(toDepartmentId) : null;
+    if (
+      toDepartmentId &&
+      (!toDepartment || !toDepartment.isActive || toDepartment.companyId !== conversation.companyId)
+    ) {
+      throw new Error("Department not found");
+    }
+
+    const handoverNote = note?.trim() || undefined;
+    if (handoverNote && handoverNote.length > MAX_HANDOVER_NOTE_LENGTH) {
+      throw new Error(`Handover note too long. Maximum ${MAX_HANDOVER_NOTE_LENGTH} characters allowed.`);
+    }
+
+    const now = Date.now();
+
+    // Withdraw any automatic offer - this transfer decides who's next
+    await cancelConversationAssignment(ctx, conversationId);
+
+    const participatingAgents = conversation.participatingAgents.filter(
+      (agentId) => agentId !== fromAgentId
+    );
+    if (toAgentId && !participatingAgents.includes(toAgentId)) {
+      participatingAgents.push(toAgentId);
+    }
+
+    // A named agent owns it straight away; a department's queue goes
+    // through automatic assignment
+    await ctx.db.patch(conversationId, {
+      status: toAgentId ? "support_staff_handling" : "available",
+      departmentId: toDepartmentId ?? conversation.departmentId,
+      participatingAgents,
+      assignedAgentId: toAgentId,
+      updatedAt: now,
+    });
+
+    // Recorded before assigning, so the transferring agent isn't offered it back
+    await ctx.db.insert("conversation_transfers", {
+      companyId: conversation.companyId,
+      conversationId,
+      fromAgentId,
+      toAgentId,
+      fromDepartmentId: conversation.departmentId,
+      toDepartmentId,
+      note: handoverNote,
+      createdAt: now,
+    });
+
+    // The receiving department's SLA policy applies from now
+    if (toDepartmentId && toDepartmentId !== conversation.departmentId) {
+      await startConversationSla(ctx, conversationId);
+    }
+    if (!toAgentId) {
+      await autoAssignConversation(ctx, conversationId);
+    }
+
+    const target = toAgent
+      ? `${toAgent.displayName.split(" ")[0]}${toDepartment ? ` (${toDepartment.name})` : ""}`
+      : toDepartment!.name;
+    await ctx.db.insert("messages", {
+      conversationId,
+      companyId: conversation.companyId,
+      role: "system",
+      content: toAgent
+        ? `Conversation transferred to ${target}.`
+        : `Conversation transferred to ${target}. A support agent will be with you shortly.`,
+      timestamp: now,
+      systemMessageType: "transferred",
+      agentId: fromAgentId,
+      agentName: fromAgent.displayName,
+    });
+
+    // Notify the receiving agent, or the department's agents
+    if (toAgentId) {
+      await ctx.scheduler.runAfter(0, api.notifications.whop.sendTransferNotification, {
+        conversationId,
+        toAgentId,
+        fromAgentName: fromAgent.displayName,
+        note: handoverNote,
+      });
+    } else {
+      await ctx.scheduler.runAfter(
+        0,
+        api.notifications.whop.sendHandoffRequestNotification,
+        {
+          conversationId,
+          reason: handoverNote
+            ? `Transferred by ${fromAgent.displayName}: ${handoverNote}`
+            : `Transferred by ${fromAgent.displayName}`,
+          departmentId: toDepartmentId,
+        }
+      );
+    }
+
+    return { success: true, transferredAt: now };
+  },
+});
+
+// ============================================================================
+// PARK CONVERSATION (pending customer / snoozed)
+// ============================================================================
+
+/**
+ * Park a conversation until the customer replies or the wake-up time
+ * passes. Re-parking replaces the previous wake-up.
+ */
+export const parkConversation = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    agentId: v.id("users"),
+    status: v.union(v.literal("pending_customer"), v.literal("snoozed")),
+    wakeAt: v.optional(v.number()),
+  },
+  handler: async (ctx, { conversationId, agentId, status, wakeAt }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+    if (
+      conversation.status !== "available" &&
+      conversation.status !== "support_staff_handling" &&
+      !isParkedStatus(conversation.status)
+    ) {
+      throw new Error("Only conversations with your team can be parked");
+    }
+
+    const now = Date.now();
+    const wakeUpError = wakeUpTimeError(status, wakeAt, now);
+    if (wakeUpError) {
+      throw new Error(wakeUpError);
+    }
+
+    if (conversation.wakeJobId) {
+      try {
+        await ctx.scheduler.cancel(conversation.wakeJobId);
+      } catch (error) {
+        // Already ran
+      }
+    }
+    await cancelConversationAssignment(ctx, conversationId);
+
+    const wakeJobId =
+      wakeAt !== undefined
+        ? await ctx.scheduler.runAt(wakeAt, internal.conversations.mutations.wakeUpConversation, {
+            conversationId,
+            wakeAt,
+          })
+        : undefined;
+
+    await ctx.db.patch(conversationId, {
+      status,
+      parkedAt: now,
+      parkedBy: agentId,
+      wakeAt,
+      wakeJobId,
+      updatedAt: now,
+    });
+    // No SLA target runs while the conversation is parked
+    await updateConversationSla(ctx, conversationId, pauseSla);
+
+    return { success: true, parkedAt: now };
+  },
+});
+
+/**
+ * Send a parked conversation back to the agent queue. Returns false when
+ * the conversation isn't parked.
+ */
+export async function wakeParkedConversation(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+  reason: string
+) {
+  if (!isParkedStatus(conversation.status)) return false;
+
+  if (conversation.wakeJobId) {
+    try {
+      await ctx.scheduler.cancel(conversation.wakeJobId);
+    } catch (error) {
+      // Already ran
+    }
+  }
+
+  await ctx.db.patch(conversation._id, {
+    status: "available",
+    parkedAt: undefined,
+    parkedBy: undefined,
+    wakeAt: undefined,
+    wakeJobId: undefined,
+    updatedAt: Date.now(),
+  });
+  await updateConversationSla(ctx, conversation._id, resumeSla);
+  await autoAssignConversation(ctx, conversation._id);
+
+  await ctx.scheduler.runAfter(0, api.notifications.whop.sendHandoffRequestNotification, {
+    conversationId: conversation._id,
+    reason,
+    departmentId: conversation.departmentId,
+  });
+  return true;
+}
+
+export const wakeUpConversation = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    wakeAt: v.number(),
+  },
+  handler: async (ctx, { conversationId, wakeAt }) => {
+    const conversation = await ctx.db.get(conversationId);
+    // Re-parked, woken early or moved on since this job was scheduled
+    if (!conversation || conversation.wakeAt !== wakeAt) return { woken: false };
+
+    // This is the wake-up job, so there's nothing to cancel
+    const woken = await wakeParkedConversation(
+      ctx,
+      { ...conversation, wakeJobId: undefined },
+      conversation.status === "snoozed" ? "Snooze ended" : "Still no reply from the customer"
+    );
+    return { woken };
+  },
+});
+
+/**
+ * An agent brings a parked conversation back early
+ */
+export const unparkConversation = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    agentId: v.id("users"),
+  },
+  handler: async (ctx, { conversationId, agentId }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+    const agent = await ctx.db.get(agentId);
+
+    const woken = await wakeParkedConversation(
+      ctx,
+      conversation,
+      `Woken up by ${agent?.displayName ?? "an agent"}`
+    );
+    if (!woken) {
+      throw new Error("This conversation isn't parked");
+    }
+    return { success: true };
+  },
+});
+
 // ============================================================================
 // SET AI PROCESSING STATE
 // ============================================================================
@@ -612,6 +1025,8 @@ export const markIssueResolved = mutation({
       status: "resolved",
       updatedAt: now,
     });
+    await updateConversationSla(ctx, conversationId, (sla, at) => closeSla(sla, at, true));
+    await cancelConversationAssignment(ctx, conversationId);
 
     // Notify customer that issue is resolved
     const customer = await ctx.db.get(conversation.customerId);
@@ -660,6 +1075,72 @@ export const submitCSATRating = mutation({
   },
 });
 
+// ============================================================================
+// CLEAR GROUNDING FLAG (agent checked an unsourced AI answer)
+// ============================================================================
+
+export const clearGroundingFlag = mutation({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, { conversationId }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) throw new Error("Conversation not found");
+
+    await ctx.db.patch(conversationId, {
+      groundingFlag: undefined,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// CLEAR PRICE FLAG (agent checked prices the price guard couldn't verify)
+// ============================================================================
+
+export const clearPriceFlag = mutation({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, { conversationId }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) throw new Error("Conversation not found");
+
+    await ctx.db.patch(conversationId, {
+      priceFlag: undefined,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// SET PRIORITY (rescales a running SLA)
+// ============================================================================
+
+export const setConversationPriority = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    priority: v.union(
+      v.literal("low"),
+      v.literal("normal"),
+      v.literal("high"),
+      v.literal("urgent")
+    ),
+  },
+  handler: async (ctx, { conversationId, priority }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) throw new Error("Conversation not found");
+
+    await ctx.db.patch(conversationId, {
+      priority,
+      updatedAt: Date.now(),
+    });
+    await updateConversationSla(ctx, conversationId, (sla) => reprioritizeSla(sla, priority));
+
+    return { success: true };
+  },
+});
+
 // ============================================================================
 // CLEAR PENDING AI JOB
 // ============================================================================
@@ -739,6 +1220,26 @@ export const deleteConversation = mutation({
       await ctx.db.delete(message._id);
     }
 
+    // Remove its tags
+    const tagLinks = await ctx.db
+      .query("conversation_tags")
+      .withIndex("by_conversation_tag", (q) => q.eq("conversationId", conversationId))
+      .collect();
+
+    for (const link of tagLinks) {
+      await ctx.db.delete(link._id);
+    }
+
+    // And its transfer history
+    const transfers = await ctx.db
+      .query("conversation_transfers")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+      .collect();
+
+    for (const transfer of transfers) {
+      await ctx.db.delete(transfer._id);
+    }
+
     // Delete the conversation itself
     await ctx.db.delete(conversationId);
 
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { MAX_PARK_MS, isParkedStatus, isStaleConversation, wakeUpTimeError } from "./parking";
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = 100 * DAY;
+
+describe("isParkedStatus", () => {
+  it("only matches the parked statuses", () => {
+    expect(isParkedStatus("pending_customer")).toBe(true);
+    expect(isParkedStatus("snoozed")).toBe(true);
+    expect(isParkedStatus("available")).toBe(false);
+  });
+});
+
+describe("wakeUpTimeError", () => {
+  it("requires a wake-up time to snooze", () => {
+    expect(wakeUpTimeError("snoozed", undefined, now)).toMatch(/wake up/);
+    expect(wakeUpTimeError("pending_customer", undefined, now)).toBeNull();
+  });
+
+  it("rejects times in the past or too far ahead", () => {
+    expect(wakeUpTimeError("snoozed", now, now)).toMatch(/future/);
+    expect(wakeUpTimeError("snoozed", now + MAX_PARK_MS + 1, now)).toMatch(/30 days/);
+    expect(wakeUpTimeError("snoozed", now + DAY, now)).toBeNull();
+  });
+});
+
+describe("isStaleConversation", () => {
+  const threshold = 7 * DAY;
+
+  it("resolves open conversations quiet for longer than the threshold", () => {
+    expect(isStaleConversation({ status: "available", lastMessageAt: now - 8 * DAY }, now, threshold)).toBe(true);
+    expect(isStaleConversation({ status: "available", lastMessageAt: now - 6 * DAY }, now, threshold)).toBe(false);
+    expect(isStaleConversation({ status: "resolved", lastMessageAt: 0 }, now, threshold)).toBe(false);
+  });
+
+  it("leaves snoozed and scheduled conversations to their wake-up", () => {
+    expect(
+      isStaleConversation({ status: "snoozed", lastMessageAt: 0, wakeAt: now + DAY }, now, threshold)
+    ).toBe(false);
+    expect(
+      isStaleConversation(
+        { status: "pending_customer", lastMessageAt: 0, wakeAt: now + DAY },
+        now,
+        threshold
+      )
+    ).toBe(false);
+  });
+
+  it("counts a pending_customer conversation's quiet period from when it was parked", () => {
+    const base = { status: "pending_customer", lastMessageAt: now - 20 * DAY };
+    expect(isStaleConversation({ ...base, parkedAt: now - 3 * DAY }, now, threshold)).toBe(false);
+    expect(isStaleConversation({ ...base, parkedAt: now - 8 * DAY }, now, threshold)).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * PARKED CONVERSATIONS
+ *
+ * Agents can park a conversation they can't move forward yet:
+ * - pending_customer: waiting on the customer's answer,
+ * - snoozed: waiting on something else (a refund, a third party) until a
+ *   set time.
+ *
+ * A parked conversation goes back to the agent queue when its wake-up time
+ * passes or when the customer replies. Snoozing needs a wake-up time;
+ * pending_customer can wait without one, and is then auto-resolved like any
+ * other conversation once it goes stale.
+ *
+ * Everything here is pure - the mutations store the wake-up time on the
+ * conversation and schedule the wake-up job.
+ */
+
+export type ParkedStatus = "pending_customer" | "snoozed";
+
+export const PARKED_STATUS_LABELS: Record<ParkedStatus, string> = {
+  pending_customer: "Pending customer",
+  snoozed: "Snoozed",
+};
+
+// Longest a conversation can be parked for
+export const MAX_PARK_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function isParkedStatus(status: string): status is ParkedStatus {
+  return status === "pending_customer" || status === "snoozed";
+}
+
+/**
+ * Why a wake-up time can't be used, or null when it's fine
+ */
+export function wakeUpTimeError(
+  status: ParkedStatus,
+  wakeAt: number | undefined,
+  now: number
+): string | null {
+  if (wakeAt === undefined) {
+    return status === "snoozed" ? "Choose when the conversation should wake up" : null;
+  }
+  if (!Number.isFinite(wakeAt) || wakeAt <= now) {
+    return "The wake-up time must be in the future";
+  }
+  if (wakeAt - now > MAX_PARK_MS) {
+    return "Conversations can be parked for up to 30 days";
+  }
+  return null;
+}
+
+/**
+ * Whether a conversation has gone quiet long enough to auto-resolve. Parked
+ * conversations with a wake-up time are left for their wake-up job, and the
+ * quiet period of a pending_customer conversation starts when it was parked.
+ */
+export function isStaleConversation(
+  conversation: {
+    status: string;
+    lastMessageAt: number;
+    parkedAt?: number;
+    wakeAt?: number;
+  },
+  now: number,
+  thresholdMs: number
+): boolean {
+  if (conversation.status === "resolved") return false;
+  if (isParkedStatus(conversation.status)) {
+    if (conversation.status === "snoozed" || conversation.wakeAt !== undefined) return false;
+    return Math.max(conversation.lastMessageAt, conversation.parkedAt ?? 0) < now - thresholdMs;
+  }
+  return conversation.lastMessageAt < now - thresholdMs;
+}
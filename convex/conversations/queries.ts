@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { query } from "../_generated/server";
+import { pendingSlaTargets } from "../sla/policy";
 
 /**
  * CONVERSATIONS QUERIES
@@ -76,13 +77,19 @@ export const getCustomerConversation = query({
 
     if (!conversation) return null;
 
-    // Get last 50 messages
+    // Get last 50 messages (AI replies awaiting approval stay hidden)
     const messages = await ctx.db
       .query("messages")
       .withIndex("by_conversation", (q) =>
         q.eq("conversationId", conversation._id)
       )
       .order("desc")
+      .filter((q) =>
+        q.and(
+          q.neq(q.field("approvalStatus"), "pending"),
+          q.neq(q.field("approvalStatus"), "rejected")
+        )
+      )
       .take(50);
 
     return {
@@ -100,32 +107,47 @@ export const listConversationsForAgents = query({
         v.literal("ai_handling"),
         v.literal("awaiting_department"),
         v.literal("available"),
-        v.literal("support_staff_handling")
+        v.literal("support_staff_handling"),
+        v.literal("pending_customer"),
+        v.literal("snoozed")
       )
     ),
+    tagId: v.optional(v.id("tags")),
     limit: v.optional(v.number()),
   },
-  handler: async (ctx, { companyId, status, limit = 50 }) => {
-    let conversationsQuery;
-
-    if (status) {
+  handler: async (ctx, { companyId, status, tagId, limit = 50 }) => {
+    let conversations;
+
+    if (tagId) {
+      // Conversations with this tag, most recently updated first
+      const links = await ctx.db
+        .query("conversation_tags")
+        .withIndex("by_tag", (q) => q.eq("tagId", tagId))
+        .collect();
+      const tagged = await Promise.all(links.map((link) => ctx.db.get(link.conversationId)));
+      conversations = tagged
+        .filter((c): c is NonNullable<typeof c> => !!c)
+        .filter((c) => c.companyId === companyId && (!status || c.status === status))
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .slice(0, limit);
+    } else if (status) {
       // Filter by status
-      conversationsQuery = ctx.db
+      conversations = await ctx.db
         .query("conversations")
         .withIndex("by_company_status", (q) =>
           q.eq("companyId", companyId).eq("status", status)
         )
-        .order("desc"); // Most recent first
+        .order("desc") // Most recent first
+        .take(limit);
     } else {
       // All conversations
-      conversationsQuery = ctx.db
+      conversations = await ctx.db
         .query("conversations")
         .withIndex("by_company_updated", (q) => q.eq("companyId", companyId))
-        .order("desc");
+        .order("desc")
+        .take(limit);
     }
 
-    const conversations = await conversationsQuery.take(limit);
-
     // OPTIMIZATION: Batch load all customers upfront to avoid N+1 queries
     const customerIds = [...new Set(conversations.map((c) => c.customerId))];
     const customersArray = await Promise.all(
@@ -266,6 +288,20 @@ export const listConversationsForAgents = query({
           ? await ctx.db.get(conversation.departmentId)
           : null;
 
+        const tagLinks = await ctx.db
+          .query("conversation_tags")
+          .withIndex("by_conversation_tag", (q) =>
+            q.eq("conversationId", conversation._id)
+          )
+          .collect();
+        const tags = (await Promise.all(tagLinks.map((link) => ctx.db.get(link.tagId))))
+          .filter((tag): tag is NonNullable<typeof tag> => !!tag)
+          .map((tag) => ({ id: tag._id, name: tag.name, color: tag.color }));
+
+        const assignedAgent = conversation.assignedAgentId
+          ? await ctx.db.get(conversation.assignedAgentId)
+          : null;
+
         return {
           ...conversation,
           customer: customer
@@ -286,6 +322,11 @@ export const listConversationsForAgents = query({
           participatingAgentsEnriched,
           handoffReason: conversation.handoffReason,
           departmentName: department?.name || null,
+          slaDue: conversation.sla ? pendingSlaTargets(conversation.sla)[0] ?? null : null, // Earliest running SLA target
+          tags,
+          assignedAgent: assignedAgent
+            ? { id: assignedAgent._id, name: assignedAgent.displayName }
+            : null,
         };
       })
     );
@@ -294,6 +335,38 @@ export const listConversationsForAgents = query({
   },
 });
 
+// ============================================================================
+// LIST CONVERSATION TRANSFERS (handover history, agents only)
+// ============================================================================
+
+export const listConversationTransfers = query({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, { conversationId }) => {
+    const transfers = await ctx.db
+      .query("conversation_transfers")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+      .collect();
+
+    return await Promise.all(
+      transfers.map(async (transfer) => {
+        const fromAgent = await ctx.db.get(transfer.fromAgentId);
+        const toAgent = transfer.toAgentId ? await ctx.db.get(transfer.toAgentId) : null;
+        const toDepartment = transfer.toDepartmentId
+          ? await ctx.db.get(transfer.toDepartmentId)
+          : null;
+        return {
+          ...transfer,
+          fromAgentName: fromAgent?.displayName ?? "Unknown agent",
+          toAgentName: toAgent?.displayName ?? null,
+          toDepartmentName: toDepartment?.name ?? null,
+        };
+      })
+    );
+  },
+});
+
 // ============================================================================
 // GET AVAILABLE CONVERSATIONS (for agent assignment)
 // ============================================================================
@@ -475,6 +548,8 @@ export const getConversationCountByStatus = query({
       awaiting_department: 0,
       available: 0,
       support_staff_handling: 0,
+      pending_customer: 0,
+      snoozed: 0,
       resolved: 0,
       total: allConversations.length,
     };
@@ -488,3 +563,44 @@ export const getConversationCountByStatus = query({
     return counts;
   },
 });
+
+// ============================================================================
+// GET HANDOFF REASON BREAKDOWN (for Insights)
+// ============================================================================
+
+export const getHandoffReasonBreakdown = query({
+  args: {
+    companyId: v.id("companies"),
+    period: v.union(
+      v.literal("3days"),
+      v.literal("week"),
+      v.literal("month"),
+      v.literal("3months")
+    ),
+  },
+  handler: async (ctx, { companyId, period }) => {
+    const days = { "3days": 3, week: 7, month: 30, "3months": 90 }[period];
+    const startTime = Date.now() - days * 24 * 60 * 60 * 1000;
+
+    const handedOff = await ctx.db
+      .query("conversations")
+      .withIndex("by_company_handoff", (q) =>
+        q.eq("companyId", companyId).gte("handoffTriggeredAt", startTime)
+      )
+      .collect();
+
+    // Handoffs from before categories existed are counted as "other"
+    const counts: Record<string, number> = {};
+    for (const conversation of handedOff) {
+      const category = conversation.handoffReasonCategory || "other";
+      counts[category] = (counts[category] || 0) + 1;
+    }
+
+    return {
+      total: handedOff.length,
+      reasons: Object.entries(counts)
+        .map(([category, count]) => ({ category, count }))
+        .sort((a, b) => b.count - a.count),
+    };
+  },
+});
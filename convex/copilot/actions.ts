@@ -0,0 +1,153 @@
+/**
+ * Copilot Actions
+ *
+ * Drafts a reply for the agent handling a conversation. The draft is
+ * returned to the composer and never sent to the customer directly.
+ */
+
+import { v } from "convex/values";
+import { action } from "../_generated/server";
+import { api, internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { pickModelSpec, resolveModel } from "../ai/providers";
+import { RECENT_MESSAGE_WINDOW, formatSummaryForPrompt } from "../ai/summarization";
+import { selectPromptKnowledge } from "../ai/knowledge";
+import { DEFAULT_PII_REDACTION, createRedactor } from "../ai/redaction";
+import { withoutQuarantined } from "../ai/injection";
+import { buildChatMessages, buildSupportSystemMessage } from "../ai/supportPrompt";
+import { DEFAULT_TOPIC_POLICY } from "../ai/topicPolicy";
+import { buildCopilotInstructions } from "../ai/copilot";
+
+/**
+ * Generate a draft reply for an agent
+ *
+ * Uses the same company context, products and history as
+ * generateChatResponse. Counts against the draft meter, not AI responses.
+ */
+export const generateDraftReply = action({
+  args: {
+    conversationId: v.id("conversations"),
+    agentId: v.id("users"),
+  },
+  handler: async (
+    ctx,
+    { conversationId, agentId }
+  ): Promise<{ draftId: Id<"ai_drafts">; content: string }> => {
+    const conversation = await ctx.runQuery(
+      api.conversations.queries.getConversation,
+      { conversationId }
+    );
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+    if (conversation.status === "resolved") {
+      throw new Error("Conversation is resolved");
+    }
+
+    const usageCheck = await ctx.runQuery(api.usage.queries.checkDraftUsageLimit, {
+      companyId: conversation.companyId,
+    });
+    if (usageCheck.hasReachedLimit) {
+      throw new Error(
+        `Monthly draft limit (${usageCheck.limit}) reached. Drafts reset with your billing cycle.`
+      );
+    }
+
+    const company = await ctx.runQuery(api.companies.queries.getCompanyById, {
+      companyId: conversation.companyId,
+    });
+    if (!company) {
+      throw new Error("Company not found");
+    }
+
+    const agent = await ctx.runQuery(api.users.queries.getUserById, {
+      userId: agentId,
+    });
+
+    const plan = await ctx.runQuery(api.plans.queries.getPlanById, {
+      planId: company.planId,
+    });
+    const modelSpec = pickModelSpec(company.selectedAiModel, plan?.aiModels);
+    const { provider, model } = resolveModel(modelSpec);
+    const redactor = createRedactor(company.piiRedaction ?? DEFAULT_PII_REDACTION);
+
+    const messages = withoutQuarantined(
+      await ctx.runQuery(api.messages.queries.getMessages, {
+        conversationId,
+        limit: RECENT_MESSAGE_WINDOW,
+      })
+    );
+    if (!messages.some((m: any) => m.role === "customer")) {
+      throw new Error("Nothing to reply to yet");
+    }
+
+    const products = await ctx.runQuery(
+      api.products.queries.getVisibleProductCatalogForAI,
+      { companyId: conversation.companyId }
+    );
+
+    const companyContext =
+      company.companyContextOriginal || company.companyContextProcessed || "";
+    const { knowledgeContext, productsContext } = await selectPromptKnowledge(ctx, {
+      companyId: conversation.companyId,
+      companyContext,
+      products,
+      customerMessages: messages
+        .filter((m: any) => m.role === "customer")
+        .map((m: any) => redactor.redact(m.content)),
+    });
+
+    const systemMessage = buildSupportSystemMessage({
+      companyName: company.name,
+      hasCompanyContext: companyContext.trim().length > 0,
+      knowledgeContext,
+      productsContext,
+      topicPolicy: company.aiTopicPolicy || DEFAULT_TOPIC_POLICY,
+      responseInstructions: buildCopilotInstructions(agent?.displayName),
+      customInstructions: company.aiSystemPrompt,
+    });
+
+    const includeSummary =
+      !!conversation.summary && conversation.messageCount > RECENT_MESSAGE_WINDOW;
+
+    const startTime = Date.now();
+    const completion = await provider.chat({
+      model,
+      messages: buildChatMessages({
+        systemMessage,
+        summary: includeSummary ? formatSummaryForPrompt(conversation.summary!) : undefined,
+        history: messages,
+        redact: redactor.redact,
+      }),
+      temperature: 0.7,
+      maxTokens: 1000, // Leaves room for reasoning tokens
+    });
+    const processingTime = Date.now() - startTime;
+
+    const content = redactor.restore(completion.content.trim());
+    if (!content) {
+      throw new Error("No draft generated");
+    }
+
+    const draftId = await ctx.runMutation(internal.copilot.mutations.recordDraft, {
+      companyId: conversation.companyId,
+      conversationId,
+      agentId,
+      content,
+      aiModel: modelSpec,
+      tokensUsed: completion.usage.totalTokens,
+      promptTokens: completion.usage.promptTokens,
+      completionTokens: completion.usage.completionTokens,
+      processingTime,
+    });
+
+    console.log("✍️ Draft generated for agent:", {
+      conversationId,
+      draftId,
+      processingTime,
+      tokensUsed: completion.usage.totalTokens,
+    });
+
+    return { draftId, content };
+  },
+});
@@ -0,0 +1,144 @@
+/**
+ * Copilot Mutations
+ *
+ * Records agent drafts, meters them, and tracks what agents did with them.
+ */
+
+import { v } from "convex/values";
+import { mutation, internalMutation } from "../_generated/server";
+import { classifyDraftOutcome } from "../ai/copilot";
+import { recordModelUsage } from "../usage/mutations";
+
+/**
+ * Store a generated draft, count it against the draft meter and add its
+ * cost to the company's AI spend
+ *
+ * An agent's older pending draft in the same conversation is discarded -
+ * only one draft sits in the composer at a time.
+ */
+export const recordDraft = internalMutation({
+  args: {
+    companyId: v.id("companies"),
+    conversationId: v.id("conversations"),
+    agentId: v.id("users"),
+    content: v.string(),
+    aiModel: v.string(),
+    tokensUsed: v.number(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+    processingTime: v.number(),
+  },
+  handler: async (ctx, { promptTokens, completionTokens, ...args }) => {
+    const now = Date.now();
+
+    const previousDrafts = await ctx.db
+      .query("ai_drafts")
+      .withIndex("by_conversation", (q) =>
+        q.eq("conversationId", args.conversationId)
+      )
+      .filter((q) =>
+        q.and(
+          q.eq(q.field("agentId"), args.agentId),
+          q.eq(q.field("status"), "pending")
+        )
+      )
+      .collect();
+    for (const draft of previousDrafts) {
+      await ctx.db.patch(draft._id, { status: "discarded", resolvedAt: now });
+    }
+
+    const draftId = await ctx.db.insert("ai_drafts", {
+      ...args,
+      status: "pending",
+      createdAt: now,
+    });
+
+    // Draft meter (separate from aiResponsesThisMonth)
+    const company = await ctx.db.get(args.companyId);
+    if (company) {
+      await ctx.db.patch(args.companyId, {
+        aiDraftsThisMonth: (company.aiDraftsThisMonth ?? 0) + 1,
+        updatedAt: now,
+      });
+    }
+
+    // Hourly record for daily aggregation
+    const startOfHour = new Date(now);
+    startOfHour.setMinutes(0, 0, 0);
+    const endOfHour = new Date(startOfHour.getTime() + 60 * 60 * 1000 - 1);
+
+    const hourlyRecord = await ctx.db
+      .query("usage_records")
+      .withIndex("by_company_period", (q) =>
+        q
+          .eq("companyId", args.companyId)
+          .eq("period", "hourly")
+          .eq("periodStart", startOfHour.getTime())
+      )
+      .first();
+
+    if (hourlyRecord) {
+      await ctx.db.patch(hourlyRecord._id, {
+        aiDraftCount: (hourlyRecord.aiDraftCount ?? 0) + 1,
+        updatedAt: now,
+      });
+    } else {
+      await ctx.db.insert("usage_records", {
+        companyId: args.companyId,
+        period: "hourly",
+        periodStart: startOfHour.getTime(),
+        periodEnd: endOfHour.getTime(),
+        aiResponseCount: 0,
+        customerMessageCount: 0,
+        agentMessageCount: 0,
+        conversationCount: 0,
+        handoffCount: 0,
+        aiDraftCount: 1,
+        createdAt: now,
+        updatedAt: now,
+      });
+    }
+
+    await recordModelUsage(ctx, {
+      companyId: args.companyId,
+      conversationId: args.conversationId,
+      aiModel: args.aiModel,
+      promptTokens,
+      completionTokens,
+    });
+
+    return draftId;
+  },
+});
+
+/**
+ * Record what the agent did with a draft
+ *
+ * Pass `sentContent` when the agent sent a message based on the draft;
+ * omit it when they discarded the draft.
+ */
+export const resolveDraft = mutation({
+  args: {
+    draftId: v.id("ai_drafts"),
+    sentContent: v.optional(v.string()),
+    sentMessageId: v.optional(v.id("messages")),
+  },
+  handler: async (ctx, { draftId, sentContent, sentMessageId }) => {
+    const draft = await ctx.db.get(draftId);
+    if (!draft) throw new Error("Draft not found");
+    if (draft.status !== "pending") return { status: draft.status };
+
+    const status =
+      sentContent !== undefined
+        ? classifyDraftOutcome(draft.content, sentContent)
+        : "discarded";
+
+    await ctx.db.patch(draftId, {
+      status,
+      sentMessageId,
+      resolvedAt: Date.now(),
+    });
+
+    return { status };
+  },
+});
@@ -0,0 +1,40 @@
+/**
+ * Copilot Queries
+ */
+
+import { v } from "convex/values";
+import { query } from "../_generated/server";
+
+/**
+ * How agents used their drafts since a point in time
+ *
+ * Used by the Usage page next to the draft meter.
+ */
+export const getDraftOutcomeStats = query({
+  args: {
+    companyId: v.id("companies"),
+    since: v.number(),
+  },
+  handler: async (ctx, { companyId, since }) => {
+    const drafts = await ctx.db
+      .query("ai_drafts")
+      .withIndex("by_company_created", (q) =>
+        q.eq("companyId", companyId).gte("createdAt", since)
+      )
+      .collect();
+
+    const counts = { pending: 0, sent: 0, edited: 0, discarded: 0 };
+    for (const draft of drafts) {
+      counts[draft.status]++;
+    }
+
+    const resolved = counts.sent + counts.edited + counts.discarded;
+    return {
+      total: drafts.length,
+      ...counts,
+      // Share of resolved drafts that reached the customer
+      acceptanceRate:
+        resolved > 0 ? Math.round(((counts.sent + counts.edited) / resolved) * 100) : 0,
+    };
+  },
+});
@@ -1,6 +1,9 @@
 import { v } from "convex/values";
 import { mutation } from "../_generated/server";
 import { api } from "../_generated/api";
+import { shouldPersonaTakeOver } from "../ai/departmentPersona";
+import { startConversationSla } from "../sla/mutations";
+import { autoAssignConversation } from "../assignment/mutations";
 
 export const createDepartment = mutation({
   args: {
@@ -30,6 +33,39 @@ export const updateDepartment = mutation({
     name: v.optional(v.string()),
     description: v.optional(v.string()),
     isActive: v.optional(v.boolean()),
+    aiApprovalMode: v.optional(
+      v.union(
+        v.literal("inherit"),
+        v.literal("required"),
+        v.literal("autonomous")
+      )
+    ),
+    aiPersona: v.optional(
+      v.object({
+        enabled: v.boolean(),
+        personality: v.optional(
+          v.union(
+            v.literal("professional"),
+            v.literal("friendly"),
+            v.literal("casual"),
+            v.literal("technical")
+          )
+        ),
+        instructions: v.optional(v.string()),
+        knowledgeTopics: v.optional(v.array(v.string())),
+        productIds: v.optional(v.array(v.id("products"))),
+        handoffTriggers: v.optional(v.array(v.string())),
+      })
+    ),
+    assignmentStrategy: v.optional(
+      v.union(
+        v.literal("inherit"),
+        v.literal("manual"),
+        v.literal("round_robin"),
+        v.literal("least_busy"),
+        v.literal("skills")
+      )
+    ),
   },
   handler: async (ctx, { departmentId, ...updates }) => {
     const dept = await ctx.db.get(departmentId);
@@ -39,6 +75,9 @@ export const updateDepartment = mutation({
     if (updates.name !== undefined) patch.name = updates.name;
     if (updates.description !== undefined) patch.description = updates.description;
     if (updates.isActive !== undefined) patch.isActive = updates.isActive;
+    if (updates.aiApprovalMode !== undefined) patch.aiApprovalMode = updates.aiApprovalMode;
+    if (updates.aiPersona !== undefined) patch.aiPersona = updates.aiPersona;
+    if (updates.assignmentStrategy !== undefined) patch.assignmentStrategy = updates.assignmentStrategy;
 
     await ctx.db.patch(departmentId, patch);
     return { success: true };
@@ -83,6 +122,17 @@ export const deleteDepartment = mutation({
       }
     }
 
+    // The department's SLA policy goes with it
+    const slaPolicies = await ctx.db
+      .query("sla_policies")
+      .withIndex("by_company", (q) => q.eq("companyId", dept.companyId))
+      .collect();
+    for (const policy of slaPolicies) {
+      if (policy.departmentId === departmentId) {
+        await ctx.db.delete(policy._id);
+      }
+    }
+
     await ctx.db.delete(departmentId);
     return { success: true };
   },
@@ -154,12 +204,51 @@ export const selectDepartmentForConversation = mutation({
 
     const now = Date.now();
 
+    // The department's own AI answers first; its handoffs go to this department
+    if (shouldPersonaTakeOver(department.aiPersona, conversation.handoffReasonCategory)) {
+      await ctx.db.patch(conversationId, {
+        departmentId,
+        status: "ai_handling",
+        handoffTriggeredAt: undefined,
+        updatedAt: now,
+      });
+
+      await ctx.db.insert("messages", {
+        conversationId,
+        companyId: conversation.companyId,
+        role: "system",
+        content: `Routed to ${department.name}.`,
+        timestamp: now,
+        systemMessageType: "department_selected",
+      });
+
+      // Answer the question that led to the handoff
+      const lastCustomerMessage = await ctx.db
+        .query("messages")
+        .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+        .order("desc")
+        .filter((q) => q.eq(q.field("role"), "customer"))
+        .first();
+      if (lastCustomerMessage) {
+        const jobId = await ctx.scheduler.runAfter(
+          0,
+          api.ai.chatCompletions.generateChatResponse,
+          { conversationId, messageId: lastCustomerMessage._id }
+        );
+        await ctx.db.patch(conversationId, { pendingAIJobId: jobId });
+      }
+
+      return { success: true, aiPersona: true };
+    }
+
     await ctx.db.patch(conversationId, {
       departmentId,
       status: "available",
       handoffTriggeredAt: now,
       updatedAt: now,
     });
+    await startConversationSla(ctx, conversationId);
+    await autoAssignConversation(ctx, conversationId);
 
     await ctx.db.insert("messages", {
       conversationId,
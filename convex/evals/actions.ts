@@ -0,0 +1,202 @@
+/**
+ * Eval Actions
+ *
+ * Replays each test case through the same pipeline as generateChatResponse
+ * (rules, knowledge, prompt, then checkReply for the handoff decision, price
+ * guard and topic policy) without creating messages, then grades the reply.
+ */
+
+import { v } from "convex/values";
+import { internalAction } from "../_generated/server";
+import { api, internal } from "../_generated/api";
+import { pickModelSpec, resolveModel } from "../ai/providers";
+import { selectPromptKnowledge } from "../ai/knowledge";
+import { buildChatMessages, buildSupportSystemMessage, getMaxTokens } from "../ai/supportPrompt";
+import { matchCompanyRules } from "../aiRules/actions";
+import { getRuleOutcome } from "../ai/rules";
+import { HANDOFF_DECISION_SCHEMA, buildHandoffInstructions, parseHandoffDecision } from "../ai/handoff";
+import { DEFAULT_TOPIC_POLICY } from "../ai/topicPolicy";
+import type { TopicPolicy } from "../ai/topicPolicy";
+import { DEFAULT_PII_REDACTION, createRedactor } from "../ai/redaction";
+import { buildSourceLegend } from "../ai/citations";
+import { checkReply } from "../ai/replyChecks";
+import { gradeEvalAnswer } from "../ai/evals";
+
+/**
+ * Execute a run started by startRun
+ */
+export const executeRun = internalAction({
+  args: {
+    runId: v.id("eval_runs"),
+  },
+  handler: async (ctx, { runId }): Promise<void> => {
+    const loaded = await ctx.runQuery(internal.evals.queries.getRunForExecution, {
+      runId,
+    });
+    if (!loaded || loaded.run.status !== "running") return;
+    const { run, cases } = loaded;
+
+    let modelSpec: string | undefined;
+    try {
+      const company = await ctx.runQuery(api.companies.queries.getCompanyById, {
+        companyId: run.companyId,
+      });
+      if (!company) {
+        throw new Error("Company not found");
+      }
+
+      const plan = await ctx.runQuery(api.plans.queries.getPlanById, {
+        planId: company.planId,
+      });
+      modelSpec = pickModelSpec(company.selectedAiModel, plan?.aiModels);
+      const { provider, model } = resolveModel(modelSpec);
+
+      // Unsaved AI Studio settings take the place of the live ones
+      const candidate = run.candidateConfig ?? {};
+      const config = {
+        aiSystemPrompt: candidate.aiSystemPrompt ?? company.aiSystemPrompt,
+        aiResponseLength: candidate.aiResponseLength ?? company.aiResponseLength ?? "medium",
+        aiHandoffTriggers: candidate.aiHandoffTriggers ?? company.aiHandoffTriggers ?? [],
+        aiHandoffKeywordOverride:
+          candidate.aiHandoffKeywordOverride ?? company.aiHandoffKeywordOverride === true,
+      };
+      const topicPolicy: TopicPolicy =
+        candidate.aiTopicPolicy ?? company.aiTopicPolicy ?? DEFAULT_TOPIC_POLICY;
+
+      const products = await ctx.runQuery(
+        api.products.queries.getVisibleProductCatalogForAI,
+        { companyId: run.companyId }
+      );
+      const companyContext =
+        candidate.companyContext ??
+        (company.companyContextOriginal || company.companyContextProcessed || "");
+      const redactor = createRedactor(company.piiRedaction ?? DEFAULT_PII_REDACTION);
+
+      for (const testCase of cases) {
+        const startTime = Date.now();
+        let answer = "";
+        let handoff = false;
+        let handoffReason: string | undefined;
+        let ruleName: string | undefined;
+        const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+        let error: string | undefined;
+
+        try {
+          const ruleMatch = await matchCompanyRules(
+            ctx,
+            run.companyId,
+            testCase.question,
+            redactor.redact
+          );
+          const ruleOutcome = ruleMatch ? getRuleOutcome(ruleMatch.rule.actions) : null;
+
+          if (ruleMatch && ruleOutcome) {
+            const { rule } = ruleMatch;
+            ruleName = rule.name;
+            answer = ruleOutcome.reply;
+            handoff = ruleOutcome.handoff;
+            if (handoff) handoffReason = `Matched automation rule "${rule.name}"`;
+          } else {
+            // Unsaved context isn't indexed yet, so retrieval would search the saved one
+            const { knowledgeContext, productsContext, sources } = await selectPromptKnowledge(ctx, {
+              companyId: run.companyId,
+              companyContext,
+              products,
+              customerMessages: [redactor.redact(testCase.question)],
+              fullText: candidate.companyContext !== undefined,
+            });
+
+            const systemMessage = buildSupportSystemMessage({
+              companyName: company.name,
+              hasCompanyContext: companyContext.trim().length > 0,
+              knowledgeContext,
+              productsContext,
+              sourceLegend: buildSourceLegend(sources),
+              topicPolicy,
+              responseInstructions: buildHandoffInstructions(config.aiHandoffTriggers),
+              customInstructions: config.aiSystemPrompt,
+            });
+
+            const chatMessages = buildChatMessages({
+              systemMessage,
+              history: [{ role: "customer", content: testCase.question }],
+              redact: redactor.redact,
+            });
+            const maxTokens = getMaxTokens(config.aiResponseLength);
+            const completion = await provider.chat({
+              model,
+              messages: chatMessages,
+              temperature: 0.7,
+              maxTokens,
+              presencePenalty: 0.1,
+              frequencyPenalty: 0.1,
+              jsonSchema: HANDOFF_DECISION_SCHEMA,
+            });
+
+            // Same handoff decision, price guard and topic policy as live replies
+            const checked = await checkReply(provider, model, {
+              decision: parseHandoffDecision(completion.content),
+              content: completion.content,
+              chatMessages,
+              maxTokens,
+              customerMessage: testCase.question,
+              enabledTriggers: config.aiHandoffTriggers,
+              keywordOverride: config.aiHandoffKeywordOverride,
+              catalog: products,
+              productTitles: products.map((p: any) => p.title),
+              topicPolicy,
+              companyName: company.name,
+              companyContext,
+              redact: redactor.redact,
+              restore: redactor.restore,
+            });
+            for (const extra of [completion.usage, checked.usage]) {
+              usage.promptTokens += extra.promptTokens;
+              usage.completionTokens += extra.completionTokens;
+              usage.totalTokens += extra.totalTokens;
+            }
+
+            answer = checked.response;
+            handoff = checked.handoff.shouldHandoff;
+            if (handoff) handoffReason = checked.handoff.reason;
+          }
+        } catch (caseError) {
+          console.error("Eval case failed:", testCase._id, caseError);
+          error = caseError instanceof Error ? caseError.message : String(caseError);
+        }
+
+        // A case that errored never passes, whatever its checks say
+        const grade = gradeEvalAnswer(testCase, { answer, handoff });
+        await ctx.runMutation(internal.evals.mutations.recordResult, {
+          runId,
+          caseId: testCase._id,
+          question: testCase.question,
+          answer,
+          handoff,
+          handoffReason,
+          ruleName,
+          error,
+          passed: grade.passed && !error,
+          checks: grade.checks,
+          tokensUsed: usage.totalTokens,
+          processingTime: Date.now() - startTime,
+          aiModel: modelSpec,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+        });
+      }
+
+      await ctx.runMutation(internal.evals.mutations.finishRun, {
+        runId,
+        aiModel: modelSpec,
+      });
+    } catch (runError) {
+      console.error("Eval run failed:", runId, runError);
+      await ctx.runMutation(internal.evals.mutations.finishRun, {
+        runId,
+        aiModel: modelSpec,
+        error: runError instanceof Error ? runError.message : String(runError),
+      });
+    }
+  },
+});
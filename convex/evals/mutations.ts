@@ -0,0 +1,257 @@
+/**
+ * Eval Mutations
+ *
+ * Test case CRUD and run bookkeeping. Runs execute in
+ * convex/evals/actions.ts and record one result per case as they go.
+ */
+
+import { mutation, internalMutation } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { v } from "convex/values";
+import { MAX_EVAL_CASES, validateEvalCase } from "../ai/evals";
+import { recordModelUsage } from "../usage/mutations";
+
+// A run still "running" after this long died without finishing
+const STALE_RUN_MS = 15 * 60 * 1000;
+
+const cleanList = (items: string[]) =>
+  items.map((item) => item.trim()).filter(Boolean);
+
+/**
+ * Create a test case
+ */
+export const createCase = mutation({
+  args: {
+    companyId: v.id("companies"),
+    createdBy: v.optional(v.id("users")),
+    question: v.string(),
+    expectedFacts: v.array(v.string()),
+    forbiddenPhrases: v.array(v.string()),
+    expectHandoff: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { companyId, createdBy, ...testCase }) => {
+    const error = validateEvalCase(testCase);
+    if (error) throw new Error(error);
+
+    const existing = await ctx.db
+      .query("eval_cases")
+      .withIndex("by_company", (q) => q.eq("companyId", companyId))
+      .collect();
+    if (existing.length >= MAX_EVAL_CASES) {
+      throw new Error(`You can save up to ${MAX_EVAL_CASES} test cases`);
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("eval_cases", {
+      companyId,
+      question: testCase.question.trim(),
+      expectedFacts: cleanList(testCase.expectedFacts),
+      forbiddenPhrases: cleanList(testCase.forbiddenPhrases),
+      expectHandoff: testCase.expectHandoff,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Update a test case
+ */
+export const updateCase = mutation({
+  args: {
+    caseId: v.id("eval_cases"),
+    question: v.string(),
+    expectedFacts: v.array(v.string()),
+    forbiddenPhrases: v.array(v.string()),
+    expectHandoff: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { caseId, ...testCase }) => {
+    const existing = await ctx.db.get(caseId);
+    if (!existing) {
+      throw new Error("Test case not found");
+    }
+
+    const error = validateEvalCase(testCase);
+    if (error) throw new Error(error);
+
+    await ctx.db.patch(caseId, {
+      question: testCase.question.trim(),
+      expectedFacts: cleanList(testCase.expectedFacts),
+      forbiddenPhrases: cleanList(testCase.forbiddenPhrases),
+      expectHandoff: testCase.expectHandoff,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a test case. Past results keep their question snapshot.
+ */
+export const deleteCase = mutation({
+  args: {
+    caseId: v.id("eval_cases"),
+  },
+  handler: async (ctx, { caseId }) => {
+    await ctx.db.delete(caseId);
+    return { success: true };
+  },
+});
+
+/**
+ * Start a run over all of the company's test cases
+ *
+ * Pass `candidateConfig` to test unsaved AI Studio settings instead of the
+ * live ones.
+ */
+export const startRun = mutation({
+  args: {
+    companyId: v.id("companies"),
+    startedBy: v.optional(v.id("users")),
+    candidateConfig: v.optional(
+      v.object({
+        aiSystemPrompt: v.optional(v.string()),
+        aiResponseLength: v.optional(
+          v.union(v.literal("brief"), v.literal("medium"), v.literal("detailed"))
+        ),
+        aiHandoffTriggers: v.optional(v.array(v.string())),
+        aiHandoffKeywordOverride: v.optional(v.boolean()),
+        aiTopicPolicy: v.optional(
+          v.object({
+            allowedTopics: v.array(v.string()),
+            blockedTopics: v.array(v.string()),
+            deflectionMessage: v.optional(v.string()),
+            strictness: v.union(
+              v.literal("lenient"),
+              v.literal("balanced"),
+              v.literal("strict")
+            ),
+          })
+        ),
+        companyContext: v.optional(v.string()),
+      })
+    ),
+  },
+  handler: async (ctx, { companyId, startedBy, candidateConfig }) => {
+    const now = Date.now();
+
+    const latest = await ctx.db
+      .query("eval_runs")
+      .withIndex("by_company_started", (q) => q.eq("companyId", companyId))
+      .order("desc")
+      .first();
+    if (latest?.status === "running") {
+      if (now - latest.startedAt < STALE_RUN_MS) {
+        throw new Error("A test run is already in progress");
+      }
+      await ctx.db.patch(latest._id, {
+        status: "failed",
+        error: "Run timed out",
+        completedAt: now,
+      });
+    }
+
+    const cases = await ctx.db
+      .query("eval_cases")
+      .withIndex("by_company", (q) => q.eq("companyId", companyId))
+      .collect();
+    if (cases.length === 0) {
+      throw new Error("Add a test case first");
+    }
+
+    const runId = await ctx.db.insert("eval_runs", {
+      companyId,
+      status: "running",
+      candidateConfig,
+      totalCases: cases.length,
+      completedCases: 0,
+      passedCases: 0,
+      startedBy,
+      startedAt: now,
+    });
+
+    await ctx.scheduler.runAfter(0, internal.evals.actions.executeRun, { runId });
+
+    return runId;
+  },
+});
+
+/**
+ * Record one graded case and advance the run's progress. The case's model
+ * calls count toward the company's AI spend.
+ */
+export const recordResult = internalMutation({
+  args: {
+    runId: v.id("eval_runs"),
+    caseId: v.id("eval_cases"),
+    question: v.string(),
+    answer: v.string(),
+    handoff: v.boolean(),
+    handoffReason: v.optional(v.string()),
+    ruleName: v.optional(v.string()),
+    error: v.optional(v.string()),
+    passed: v.boolean(),
+    checks: v.array(
+      v.object({
+        kind: v.union(
+          v.literal("fact"),
+          v.literal("forbidden"),
+          v.literal("handoff")
+        ),
+        expected: v.string(),
+        passed: v.boolean(),
+      })
+    ),
+    tokensUsed: v.number(),
+    processingTime: v.number(),
+    aiModel: v.string(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+  },
+  handler: async (ctx, { runId, aiModel, promptTokens, completionTokens, ...result }) => {
+    const run = await ctx.db.get(runId);
+    if (!run) return;
+
+    if (promptTokens + completionTokens > 0) {
+      await recordModelUsage(ctx, {
+        companyId: run.companyId,
+        aiModel,
+        promptTokens,
+        completionTokens,
+      });
+    }
+
+    await ctx.db.insert("eval_results", {
+      runId,
+      companyId: run.companyId,
+      ...result,
+      createdAt: Date.now(),
+    });
+
+    await ctx.db.patch(runId, {
+      completedCases: run.completedCases + 1,
+      passedCases: run.passedCases + (result.passed ? 1 : 0),
+    });
+  },
+});
+
+/**
+ * Mark a run finished
+ */
+export const finishRun = internalMutation({
+  args: {
+    runId: v.id("eval_runs"),
+    aiModel: v.optional(v.string()),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, { runId, aiModel, error }) => {
+    await ctx.db.patch(runId, {
+      status: error ? "failed" : "completed",
+      aiModel,
+      error,
+      completedAt: Date.now(),
+    });
+  },
+});
@@ -0,0 +1,109 @@
+/**
+ * Eval Queries
+ *
+ * Read-only operations for golden-question test cases and their runs.
+ */
+
+import { query, internalQuery } from "../_generated/server";
+import { v } from "convex/values";
+import { compareEvalResults } from "../ai/evals";
+
+// Runs shown in the AI Studio history
+const RECENT_RUNS_LIMIT = 10;
+
+/**
+ * List a company's test cases, oldest first
+ */
+export const listCases = query({
+  args: {
+    companyId: v.id("companies"),
+  },
+  handler: async (ctx, { companyId }) => {
+    return await ctx.db
+      .query("eval_cases")
+      .withIndex("by_company", (q) => q.eq("companyId", companyId))
+      .collect();
+  },
+});
+
+/**
+ * Most recent runs, newest first
+ */
+export const listRuns = query({
+  args: {
+    companyId: v.id("companies"),
+  },
+  handler: async (ctx, { companyId }) => {
+    return await ctx.db
+      .query("eval_runs")
+      .withIndex("by_company_started", (q) => q.eq("companyId", companyId))
+      .order("desc")
+      .take(RECENT_RUNS_LIMIT);
+  },
+});
+
+/**
+ * Results of a run, each compared with the same case in the previous
+ * completed run
+ */
+export const getRunResults = query({
+  args: {
+    runId: v.id("eval_runs"),
+  },
+  handler: async (ctx, { runId }) => {
+    const run = await ctx.db.get(runId);
+    if (!run) return null;
+
+    const results = await ctx.db
+      .query("eval_results")
+      .withIndex("by_run", (q) => q.eq("runId", runId))
+      .collect();
+
+    const previousRun = await ctx.db
+      .query("eval_runs")
+      .withIndex("by_company_started", (q) =>
+        q.eq("companyId", run.companyId).lt("startedAt", run.startedAt)
+      )
+      .order("desc")
+      .filter((q) => q.eq(q.field("status"), "completed"))
+      .first();
+
+    const previousResults = previousRun
+      ? await ctx.db
+          .query("eval_results")
+          .withIndex("by_run", (q) => q.eq("runId", previousRun._id))
+          .collect()
+      : [];
+
+    const changes = compareEvalResults(previousResults, results);
+
+    return {
+      run,
+      previousRunId: previousRun?._id ?? null,
+      results: results.map((result) => ({
+        ...result,
+        ...(previousRun ? changes[result.caseId] : {}),
+      })),
+    };
+  },
+});
+
+/**
+ * Run with its cases, for the runner action
+ */
+export const getRunForExecution = internalQuery({
+  args: {
+    runId: v.id("eval_runs"),
+  },
+  handler: async (ctx, { runId }) => {
+    const run = await ctx.db.get(runId);
+    if (!run) return null;
+
+    const cases = await ctx.db
+      .query("eval_cases")
+      .withIndex("by_company", (q) => q.eq("companyId", run.companyId))
+      .collect();
+
+    return { run, cases };
+  },
+});
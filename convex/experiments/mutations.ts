@@ -0,0 +1,165 @@
+/**
+ * Experiment Mutations
+ *
+ * Start, stop and promote A/B experiments between two config versions,
+ * and assign new conversations to a variant.
+ */
+
+import { mutation, type MutationCtx } from "../_generated/server";
+import { v } from "convex/values";
+import type { Id } from "../_generated/dataModel";
+import { assignVariant, type ExperimentVariant } from "../ai/experiments";
+import { applyAiConfigVersion } from "../aiConfigVersions/mutations";
+
+/**
+ * Pick the variant for a conversation being created. Returns no fields
+ * when the company isn't running an experiment.
+ *
+ * Seeded by customer so a returning customer lands in the same variant.
+ */
+export async function assignExperimentVariant(
+  ctx: MutationCtx,
+  companyId: Id<"companies">,
+  customerId: Id<"users">
+): Promise<{
+  experimentId?: Id<"ai_experiments">;
+  experimentVariant?: ExperimentVariant;
+}> {
+  const experiment = await ctx.db
+    .query("ai_experiments")
+    .withIndex("by_company_status", (q) =>
+      q.eq("companyId", companyId).eq("status", "running")
+    )
+    .first();
+  if (!experiment) return {};
+
+  return {
+    experimentId: experiment._id,
+    experimentVariant: assignVariant(
+      `${experiment._id}:${customerId}`,
+      experiment.trafficSplit
+    ),
+  };
+}
+
+/**
+ * Start an experiment. Only one can run per company at a time.
+ */
+export const startExperiment = mutation({
+  args: {
+    companyId: v.id("companies"),
+    name: v.string(),
+    variantAVersionId: v.id("ai_config_versions"),
+    variantBVersionId: v.id("ai_config_versions"),
+    trafficSplit: v.number(),
+    startedBy: v.optional(v.id("users")),
+  },
+  handler: async (
+    ctx,
+    { companyId, name, variantAVersionId, variantBVersionId, trafficSplit, startedBy }
+  ) => {
+    if (!name.trim()) {
+      throw new Error("Name is required");
+    }
+    if (!Number.isInteger(trafficSplit) || trafficSplit < 1 || trafficSplit > 99) {
+      throw new Error("Traffic split must be between 1 and 99 percent");
+    }
+    if (variantAVersionId === variantBVersionId) {
+      throw new Error("Pick two different versions");
+    }
+
+    const [variantA, variantB] = await Promise.all([
+      ctx.db.get(variantAVersionId),
+      ctx.db.get(variantBVersionId),
+    ]);
+    if (variantA?.companyId !== companyId || variantB?.companyId !== companyId) {
+      throw new Error("Version not found");
+    }
+
+    const running = await ctx.db
+      .query("ai_experiments")
+      .withIndex("by_company_status", (q) =>
+        q.eq("companyId", companyId).eq("status", "running")
+      )
+      .first();
+    if (running) {
+      throw new Error("Stop the running experiment first");
+    }
+
+    return await ctx.db.insert("ai_experiments", {
+      companyId,
+      name: name.trim(),
+      variantAVersionId,
+      variantBVersionId,
+      trafficSplit,
+      status: "running",
+      startedBy,
+      startedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Stop an experiment without changing the live config
+ *
+ * Conversations already in a variant go back to the live config.
+ */
+export const stopExperiment = mutation({
+  args: {
+    experimentId: v.id("ai_experiments"),
+  },
+  handler: async (ctx, { experimentId }) => {
+    const experiment = await ctx.db.get(experimentId);
+    if (!experiment) {
+      throw new Error("Experiment not found");
+    }
+    if (experiment.status !== "running") {
+      throw new Error("Experiment is not running");
+    }
+
+    await ctx.db.patch(experimentId, {
+      status: "stopped",
+      endedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
+
+/**
+ * End an experiment and make the winning variant the live config
+ */
+export const promoteVariant = mutation({
+  args: {
+    experimentId: v.id("ai_experiments"),
+    variant: v.union(v.literal("a"), v.literal("b")),
+    promotedBy: v.optional(v.id("users")),
+  },
+  handler: async (ctx, { experimentId, variant, promotedBy }) => {
+    const experiment = await ctx.db.get(experimentId);
+    if (!experiment) {
+      throw new Error("Experiment not found");
+    }
+    if (experiment.status !== "running") {
+      throw new Error("Experiment is not running");
+    }
+
+    const version = await ctx.db.get(
+      variant === "a" ? experiment.variantAVersionId : experiment.variantBVersionId
+    );
+    if (!version) {
+      throw new Error("Version not found");
+    }
+
+    // Already live when the variant is the current config
+    await applyAiConfigVersion(ctx, version, promotedBy, "experiment");
+
+    await ctx.db.patch(experimentId, {
+      status: "completed",
+      winner: variant,
+      endedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
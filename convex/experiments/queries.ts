@@ -0,0 +1,109 @@
+/**
+ * Experiment Queries
+ *
+ * Read-only operations for A/B experiments and their per-variant results.
+ */
+
+import { query, internalQuery } from "../_generated/server";
+import { v } from "convex/values";
+import type { Id } from "../_generated/dataModel";
+import { summarizeVariant, type ExperimentVariant } from "../ai/experiments";
+
+// Experiments shown in Insights
+const RECENT_EXPERIMENTS_LIMIT = 10;
+
+/**
+ * Recent experiments, newest first, with their variants' version numbers
+ */
+export const listExperiments = query({
+  args: {
+    companyId: v.id("companies"),
+  },
+  handler: async (ctx, { companyId }) => {
+    const experiments = await ctx.db
+      .query("ai_experiments")
+      .withIndex("by_company_started", (q) => q.eq("companyId", companyId))
+      .order("desc")
+      .take(RECENT_EXPERIMENTS_LIMIT);
+
+    return await Promise.all(
+      experiments.map(async (experiment) => {
+        const [variantA, variantB] = await Promise.all([
+          ctx.db.get(experiment.variantAVersionId),
+          ctx.db.get(experiment.variantBVersionId),
+        ]);
+        return {
+          ...experiment,
+          variantAVersion: variantA?.version,
+          variantBVersion: variantB?.version,
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Handoff rate, deflection, CSAT and token use for each variant
+ */
+export const getExperimentResults = query({
+  args: {
+    experimentId: v.id("ai_experiments"),
+  },
+  handler: async (ctx, { experimentId }) => {
+    const summarize = async (variant: ExperimentVariant) => {
+      const conversations = await ctx.db
+        .query("conversations")
+        .withIndex("by_experiment", (q) =>
+          q.eq("experimentId", experimentId).eq("experimentVariant", variant)
+        )
+        .collect();
+
+      let aiReplies = 0;
+      let tokensUsed = 0;
+      for (const conversation of conversations) {
+        const replies = await ctx.db
+          .query("messages")
+          .withIndex("by_conversation", (q) => q.eq("conversationId", conversation._id))
+          .filter((q) => q.eq(q.field("role"), "ai"))
+          .collect();
+        aiReplies += replies.length;
+        tokensUsed += replies.reduce((sum, reply) => sum + (reply.tokensUsed ?? 0), 0);
+      }
+
+      return summarizeVariant(conversations, { aiReplies, tokensUsed });
+    };
+
+    const [a, b] = await Promise.all([summarize("a"), summarize("b")]);
+    return { a, b };
+  },
+});
+
+/**
+ * Settings for a conversation's variant while its experiment is running,
+ * or null when the conversation should use the live config
+ */
+export const getConversationVariantConfig = internalQuery({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, { conversationId }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation?.experimentId || !conversation.experimentVariant) return null;
+
+    const experiment = await ctx.db.get(conversation.experimentId);
+    if (experiment?.status !== "running") return null;
+
+    const versionId: Id<"ai_config_versions"> =
+      conversation.experimentVariant === "a"
+        ? experiment.variantAVersionId
+        : experiment.variantBVersionId;
+    const version = await ctx.db.get(versionId);
+    if (!version) return null;
+
+    return {
+      variant: conversation.experimentVariant,
+      version: version.version,
+      snapshot: version.snapshot,
+    };
+  },
+});
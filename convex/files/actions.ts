@@ -0,0 +1,54 @@
+/**
+ * File Actions
+ *
+ * Image attachments are read by the vision model from inside the AI
+ * response action, so the analysis is ready before the prompt is built.
+ */
+
+import type { ActionCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { DEFAULT_VISION_MODEL, resolveModel } from "../ai/providers";
+import { analyzeImage } from "../ai/vision";
+
+/**
+ * Analyze the image attached to a customer message and store the result on
+ * its file record. Never throws: a failed analysis is recorded on the file
+ * and the AI answers without it.
+ */
+export async function analyzeMessageAttachment(
+  ctx: ActionCtx,
+  messageId: Id<"messages">,
+  imageUrl: string
+): Promise<void> {
+  const fileId = await ctx.runMutation(internal.files.mutations.startAttachmentAnalysis, {
+    messageId,
+  });
+  if (!fileId) return;
+
+  try {
+    const { provider, model, spec } = resolveModel(
+      process.env.AI_VISION_MODEL || DEFAULT_VISION_MODEL
+    );
+    const { analysis, usage } = await analyzeImage(provider, model, imageUrl);
+    await ctx.runMutation(internal.files.mutations.completeAttachmentAnalysis, {
+      fileId,
+      ...analysis,
+      aiModel: spec,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+    });
+    console.log("🖼️ Attachment analyzed:", {
+      model: spec,
+      confidence: analysis.confidence,
+      extractedChars: analysis.extractedText.length,
+      totalTokens: usage.totalTokens,
+    });
+  } catch (error) {
+    console.warn("Attachment analysis failed:", error);
+    await ctx.runMutation(internal.files.mutations.failAttachmentAnalysis, {
+      fileId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
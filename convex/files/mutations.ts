@@ -0,0 +1,116 @@
+/**
+ * File Mutations
+ *
+ * Track image attachments on customer messages and store what the vision
+ * model read from them.
+ */
+
+import { v } from "convex/values";
+import { internalMutation } from "../_generated/server";
+import { recordModelUsage } from "../usage/mutations";
+
+// Mirrors FILE_LIMITS.image.maxSize in convex/uploadthing/config.ts
+const IMAGE_MAX_SIZE = 2 * 1024 * 1024;
+
+/**
+ * Get or create the file record for a message's attachment and mark it as
+ * processing. Returns null when there's nothing left to do: no attachment,
+ * or it was already analyzed.
+ */
+export const startAttachmentAnalysis = internalMutation({
+  args: {
+    messageId: v.id("messages"),
+  },
+  handler: async (ctx, { messageId }) => {
+    const message = await ctx.db.get(messageId);
+    if (!message?.attachmentUrl) return null;
+
+    const conversation = await ctx.db.get(message.conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    const existing = (
+      await ctx.db
+        .query("files")
+        .withIndex("by_conversation", (q) => q.eq("conversationId", conversation._id))
+        .collect()
+    ).find((file) => file.fileUrl === message.attachmentUrl);
+
+    if (existing?.status === "completed" || existing?.status === "processing") {
+      return null;
+    }
+
+    if (existing) {
+      await ctx.db.patch(existing._id, { status: "processing", processingError: undefined });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("files", {
+      companyId: conversation.companyId,
+      uploadedBy: conversation.customerId,
+      conversationId: conversation._id,
+      fileName: message.attachmentName || "image",
+      fileSize: message.attachmentSize || 0,
+      mimeType: message.attachmentType || "image/jpeg",
+      fileUrl: message.attachmentUrl,
+      fileType: "image",
+      maxSize: IMAGE_MAX_SIZE,
+      status: "processing",
+      uploadedAt: message.timestamp,
+    });
+  },
+});
+
+/**
+ * Store the vision model's analysis and add its cost to the conversation
+ */
+export const completeAttachmentAnalysis = internalMutation({
+  args: {
+    fileId: v.id("files"),
+    description: v.string(),
+    extractedText: v.string(),
+    confidence: v.number(),
+    aiModel: v.string(),
+    promptTokens: v.number(),
+    completionTokens: v.number(),
+  },
+  handler: async (
+    ctx,
+    { fileId, description, extractedText, confidence, aiModel, promptTokens, completionTokens }
+  ) => {
+    const file = await ctx.db.get(fileId);
+    if (!file) return;
+
+    await ctx.db.patch(fileId, {
+      status: "completed",
+      processedText: extractedText,
+      aiAnalysis: { description, extractedText, confidence },
+      processedAt: Date.now(),
+    });
+    await recordModelUsage(ctx, {
+      companyId: file.companyId,
+      conversationId: file.conversationId,
+      aiModel,
+      promptTokens,
+      completionTokens,
+    });
+  },
+});
+
+/**
+ * Record why an attachment couldn't be analyzed
+ */
+export const failAttachmentAnalysis = internalMutation({
+  args: {
+    fileId: v.id("files"),
+    error: v.string(),
+  },
+  handler: async (ctx, { fileId, error }) => {
+    await ctx.db.patch(fileId, {
+      status: "failed",
+      processingError: error,
+      processedAt: Date.now(),
+    });
+  },
+});
@@ -0,0 +1,32 @@
+/**
+ * File Queries
+ *
+ * Attachment analyses for building the AI prompt.
+ */
+
+import { v } from "convex/values";
+import { internalQuery } from "../_generated/server";
+
+/**
+ * Analyzed image attachments in a conversation
+ */
+export const getConversationImageAnalyses = internalQuery({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, { conversationId }) => {
+    const files = await ctx.db
+      .query("files")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", conversationId))
+      .collect();
+
+    return files
+      .filter((file) => file.status === "completed" && file.aiAnalysis)
+      .map((file) => ({
+        fileUrl: file.fileUrl,
+        fileName: file.fileName,
+        description: file.aiAnalysis?.description,
+        extractedText: file.aiAnalysis?.extractedText,
+      }));
+  },
+});
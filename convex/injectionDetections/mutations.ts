@@ -0,0 +1,77 @@
+/**
+ * Injection Detection Mutations
+ *
+ * Log suspicious customer messages, flag quarantined conversations for
+ * agent review, and clear the flag once an agent has looked.
+ */
+
+import { v } from "convex/values";
+import { mutation, internalMutation } from "../_generated/server";
+
+/**
+ * Record a message that scored as a possible prompt injection
+ *
+ * Stamps the score on the message, logs it for trends and, when the
+ * message was quarantined, flags the conversation for review.
+ */
+export const recordDetection = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    messageId: v.id("messages"),
+    score: v.number(),
+    signals: v.array(v.string()),
+    quarantined: v.boolean(),
+  },
+  handler: async (ctx, { conversationId, messageId, score, signals, quarantined }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    const now = Date.now();
+    await ctx.db.patch(messageId, {
+      injectionScore: score,
+      injectionSignals: signals,
+    });
+
+    await ctx.db.insert("injection_detections", {
+      companyId: conversation.companyId,
+      conversationId,
+      messageId,
+      score,
+      signals,
+      quarantined,
+      createdAt: now,
+    });
+
+    // Keep the highest-scoring unreviewed message on the flag
+    if (quarantined && (!conversation.injectionFlag || conversation.injectionFlag.score <= score)) {
+      await ctx.db.patch(conversationId, {
+        injectionFlag: { messageId, score, signals, flaggedAt: now },
+        updatedAt: now,
+      });
+    }
+  },
+});
+
+/**
+ * Agent has reviewed a flagged conversation
+ */
+export const clearInjectionFlag = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+  },
+  handler: async (ctx, { conversationId }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    await ctx.db.patch(conversationId, {
+      injectionFlag: undefined,
+      updatedAt: Date.now(),
+    });
+
+    return { success: true };
+  },
+});
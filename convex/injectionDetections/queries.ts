@@ -0,0 +1,70 @@
+/**
+ * Injection Detection Queries
+ *
+ * Trend reporting for suspicious and quarantined customer messages.
+ */
+
+import { v } from "convex/values";
+import { query } from "../_generated/server";
+
+/**
+ * Detections per day and the signals behind them
+ */
+export const getInjectionTrends = query({
+  args: {
+    companyId: v.id("companies"),
+    period: v.union(
+      v.literal("3days"),
+      v.literal("week"),
+      v.literal("month"),
+      v.literal("3months")
+    ),
+  },
+  handler: async (ctx, { companyId, period }) => {
+    const days = { "3days": 3, week: 7, month: 30, "3months": 90 }[period];
+    const startTime = Date.now() - days * 24 * 60 * 60 * 1000;
+
+    const detections = await ctx.db
+      .query("injection_detections")
+      .withIndex("by_company_created", (q) =>
+        q.eq("companyId", companyId).gte("createdAt", startTime)
+      )
+      .collect();
+
+    const byDay = new Map<number, { quarantined: number; suspicious: number }>();
+    const bySignal = new Map<string, number>();
+    const conversations = new Set<string>();
+    for (const detection of detections) {
+      const dayStart = new Date(detection.createdAt);
+      dayStart.setUTCHours(0, 0, 0, 0);
+      const day = byDay.get(dayStart.getTime()) ?? { quarantined: 0, suspicious: 0 };
+      if (detection.quarantined) day.quarantined++;
+      else day.suspicious++;
+      byDay.set(dayStart.getTime(), day);
+
+      for (const signal of detection.signals) {
+        bySignal.set(signal, (bySignal.get(signal) ?? 0) + 1);
+      }
+      conversations.add(detection.conversationId);
+    }
+
+    return {
+      total: detections.length,
+      quarantined: detections.filter((d) => d.quarantined).length,
+      conversations: conversations.size,
+      perDay: [...byDay.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([dayStart, counts]) => ({
+          date: new Date(dayStart).toISOString().split("T")[0],
+          label: new Date(dayStart).toLocaleDateString("en-US", {
+            month: "short",
+            day: "numeric",
+          }),
+          ...counts,
+        })),
+      signals: [...bySignal.entries()]
+        .map(([signal, count]) => ({ signal, count }))
+        .sort((a, b) => b.count - a.count),
+    };
+  },
+});
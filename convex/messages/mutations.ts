@@ -1,13 +1,47 @@
 import { v } from "convex/values";
-import { mutation } from "../_generated/server";
-import { api } from "../_generated/api";
+import { mutation, type MutationCtx } from "../_generated/server";
+import { api, internal } from "../_generated/api";
+import type { Doc, Id } from "../_generated/dataModel";
 import { acquireLock, releaseLock } from "../utils/transactions";
+import { RECENT_MESSAGE_WINDOW, isSummaryDue } from "../ai/summarization";
+import { clampFailedAttemptsThreshold, detectFailureLoop } from "../ai/failureLoop";
+import { recordSlaAgentReply, recordSlaCustomerMessage } from "../sla/policy";
+import { updateConversationSla } from "../sla/mutations";
+import { recordAssignmentTakeover } from "../assignment/mutations";
+import { wakeParkedConversation } from "../conversations/mutations";
+import {
+  classifyReview,
+  isVisibleToCustomer,
+  requiresApproval,
+} from "../ai/approval";
 
 /**
  * MESSAGES MUTATIONS
  * Handles message creation and read receipts
  */
 
+/**
+ * Schedule a rolling summary refresh when the new message count crosses
+ * the next summary interval
+ */
+async function scheduleSummaryIfDue(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+  newMessageCount: number
+) {
+  if (
+    isSummaryDue(
+      conversation.messageCount,
+      newMessageCount,
+      conversation.lastSummaryMessageCount
+    )
+  ) {
+    await ctx.scheduler.runAfter(0, internal.ai.summarize.summarizeConversation, {
+      conversationId: conversation._id,
+    });
+  }
+}
+
 // ============================================================================
 // CREATE MESSAGE
 // ============================================================================
@@ -29,6 +63,7 @@ export const createMessage = mutation({
     aiModel: v.optional(v.string()),
     tokensUsed: v.optional(v.number()),
     processingTime: v.optional(v.number()),
+    aiRuleId: v.optional(v.id("ai_rules")),
     attachmentUrl: v.optional(v.string()),
     attachmentName: v.optional(v.string()),
     attachmentSize: v.optional(v.number()),
@@ -57,6 +92,10 @@ export const createMessage = mutation({
       throw new Error("Conversation not found");
     }
 
+    // AI replies record which config version produced them
+    const company =
+      args.role === "ai" ? await ctx.db.get(conversation.companyId) : null;
+
     // Create message
     const messageId = await ctx.db.insert("messages", {
       conversationId: args.conversationId,
@@ -71,6 +110,8 @@ export const createMessage = mutation({
       aiModel: args.aiModel,
       tokensUsed: args.tokensUsed,
       processingTime: args.processingTime,
+      aiRuleId: args.aiRuleId,
+      aiConfigVersion: company?.aiConfigVersion,
       attachmentUrl: args.attachmentUrl,
       attachmentName: args.attachmentName,
       attachmentSize: args.attachmentSize,
@@ -89,10 +130,360 @@ export const createMessage = mutation({
       updatedAt: now,
     });
 
+    await scheduleSummaryIfDue(ctx, conversation, conversation.messageCount + 1);
+
+    return messageId;
+  },
+});
+
+// ============================================================================
+// AI STREAMING MESSAGES
+// ============================================================================
+//
+// Lifecycle of a streamed AI reply:
+// 1. startAIStreamMessage   - row created up front with empty content, "streaming"
+// 2. updateAIStreamContent  - patched with the accumulated text as tokens arrive
+// 3. completeAIStreamMessage - final text written, status "complete" (or
+//                              "replaced" when validation swapped the text)
+//    retractAIStreamMessage  - row removed entirely (e.g. handoff took over)
+//
+// In approval mode the row starts out "pending" and stays hidden from the
+// customer until an agent approves it (see approveAIMessage below).
+
+export const startAIStreamMessage = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    aiModel: v.optional(v.string()),
+    aiConfigVersion: v.optional(v.number()), // Experiment variant's version; defaults to the live one
+  },
+  handler: async (ctx, { conversationId, aiModel, aiConfigVersion }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    const company = await ctx.db.get(conversation.companyId);
+    const department = conversation.departmentId
+      ? await ctx.db.get(conversation.departmentId)
+      : null;
+    const needsApproval = requiresApproval(
+      company?.aiApprovalRequired,
+      department?.aiApprovalMode
+    );
+
+    const now = Date.now();
+
+    const messageId = await ctx.db.insert("messages", {
+      conversationId,
+      companyId: conversation.companyId,
+      role: "ai",
+      content: "",
+      timestamp: now,
+      aiModel,
+      aiConfigVersion: aiConfigVersion ?? company?.aiConfigVersion,
+      streamStatus: "streaming",
+      approvalStatus: needsApproval ? "pending" : undefined,
+
+      // Read receipts start as undefined (unread)
+      readByAgentAt: undefined,
+      readByCustomerAt: undefined,
+    });
+
+    await ctx.db.patch(conversationId, {
+      messageCount: conversation.messageCount + 1,
+      lastMessageAt: now,
+      updatedAt: now,
+      ...(needsApproval && {
+        pendingApprovalCount: (conversation.pendingApprovalCount ?? 0) + 1,
+      }),
+    });
+
+    await scheduleSummaryIfDue(ctx, conversation, conversation.messageCount + 1);
+
     return messageId;
   },
 });
 
+export const updateAIStreamContent = mutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+  },
+  handler: async (ctx, { messageId, content }) => {
+    const message = await ctx.db.get(messageId);
+
+    // Ignore late chunks once the message was completed or retracted
+    if (!message || message.streamStatus !== "streaming") {
+      return { updated: false };
+    }
+
+    await ctx.db.patch(messageId, { content });
+    return { updated: true };
+  },
+});
+
+export const completeAIStreamMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+    content: v.string(),
+    replaced: v.optional(v.boolean()), // True when final text differs from what was streamed
+    aiModel: v.optional(v.string()),
+    tokensUsed: v.optional(v.number()),
+    processingTime: v.optional(v.number()),
+    aiConfidence: v.optional(v.number()),
+    topicVerdict: v.optional(
+      v.object({
+        verdict: v.union(
+          v.literal("allowed"),
+          v.literal("off_topic"),
+          v.literal("blocked")
+        ),
+        matchedTopic: v.string(),
+        reason: v.string(),
+        confidence: v.number(),
+        strictness: v.union(
+          v.literal("lenient"),
+          v.literal("balanced"),
+          v.literal("strict")
+        ),
+        deflected: v.boolean(),
+      })
+    ),
+    redactedCategories: v.optional(v.array(v.string())),
+    knowledgeSources: v.optional(
+      v.array(
+        v.object({
+          type: v.union(
+            v.literal("company_context"),
+            v.literal("product"),
+            v.literal("plan")
+          ),
+          sourceId: v.optional(v.string()),
+          title: v.string(),
+          excerpt: v.optional(v.string()),
+        })
+      )
+    ),
+    ungrounded: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) {
+      throw new Error("Message not found");
+    }
+
+    // Flag the conversation so an agent checks the unsourced answer
+    if (args.ungrounded) {
+      await ctx.db.patch(message.conversationId, {
+        groundingFlag: { messageId: args.messageId, flaggedAt: Date.now() },
+      });
+    }
+
+    await ctx.db.patch(args.messageId, {
+      content: args.content,
+      streamStatus: args.replaced ? "replaced" : "complete",
+      aiModel: args.aiModel ?? message.aiModel,
+      tokensUsed: args.tokensUsed,
+      processingTime: args.processingTime,
+      aiConfidence: args.aiConfidence,
+      topicVerdict: args.topicVerdict,
+      redactedCategories: args.redactedCategories?.length ? args.redactedCategories : undefined,
+      knowledgeSources: args.knowledgeSources?.length ? args.knowledgeSources : undefined,
+      ungrounded: args.ungrounded || undefined,
+    });
+
+    return args.messageId;
+  },
+});
+
+export const retractAIStreamMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+  },
+  handler: async (ctx, { messageId }) => {
+    const message = await ctx.db.get(messageId);
+    if (!message) {
+      return { retracted: false };
+    }
+
+    await ctx.db.delete(messageId);
+
+    const conversation = await ctx.db.get(message.conversationId);
+    if (conversation) {
+      await ctx.db.patch(message.conversationId, {
+        messageCount: Math.max(0, conversation.messageCount - 1),
+        updatedAt: Date.now(),
+        ...(message.approvalStatus === "pending" && {
+          pendingApprovalCount: Math.max(0, (conversation.pendingApprovalCount ?? 0) - 1),
+        }),
+      });
+    }
+
+    return { retracted: true };
+  },
+});
+
+// ============================================================================
+// AI REPLY APPROVAL
+// ============================================================================
+
+async function getPendingAIMessage(ctx: MutationCtx, messageId: Id<"messages">) {
+  const message = await ctx.db.get(messageId);
+  if (!message || message.role !== "ai") {
+    throw new Error("Message not found");
+  }
+  if (message.approvalStatus !== "pending") {
+    throw new Error("This reply has already been reviewed");
+  }
+  if (message.streamStatus === "streaming") {
+    throw new Error("The AI is still writing this reply");
+  }
+  return message;
+}
+
+/**
+ * Release a pending AI reply to the customer, optionally with the agent's
+ * edits. The message moves to the end of the conversation so it shows up
+ * after anything the customer sent while it was waiting.
+ */
+export const approveAIMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+    agentId: v.id("users"),
+    content: v.optional(v.string()), // Edited text; omit to send as written
+  },
+  handler: async (ctx, { messageId, agentId, content }) => {
+    const message = await getPendingAIMessage(ctx, messageId);
+
+    const finalContent = content?.trim() || message.content;
+    const MAX_MESSAGE_LENGTH = 10000;
+    if (finalContent.length > MAX_MESSAGE_LENGTH) {
+      throw new Error(`Message too long. Maximum ${MAX_MESSAGE_LENGTH} characters allowed.`);
+    }
+
+    const status = classifyReview(message.content, finalContent);
+    const now = Date.now();
+
+    await ctx.db.patch(messageId, {
+      content: finalContent,
+      originalContent: status === "edited" ? message.content : undefined,
+      approvalStatus: status,
+      reviewedBy: agentId,
+      reviewedAt: now,
+      timestamp: now,
+    });
+
+    const conversation = await ctx.db.get(message.conversationId);
+    if (conversation) {
+      await ctx.db.patch(message.conversationId, {
+        pendingApprovalCount: Math.max(0, (conversation.pendingApprovalCount ?? 0) - 1),
+        lastMessageAt: now,
+        updatedAt: now,
+      });
+    }
+
+    return { status };
+  },
+});
+
+/**
+ * Keep a pending AI reply from ever reaching the customer. The message stays
+ * in the agent view (and in the readiness stats) as rejected.
+ */
+export const rejectAIMessage = mutation({
+  args: {
+    messageId: v.id("messages"),
+    agentId: v.id("users"),
+  },
+  handler: async (ctx, { messageId, agentId }) => {
+    const message = await getPendingAIMessage(ctx, messageId);
+    const now = Date.now();
+
+    await ctx.db.patch(messageId, {
+      approvalStatus: "rejected",
+      reviewedBy: agentId,
+      reviewedAt: now,
+    });
+
+    const conversation = await ctx.db.get(message.conversationId);
+    if (conversation) {
+      await ctx.db.patch(message.conversationId, {
+        pendingApprovalCount: Math.max(0, (conversation.pendingApprovalCount ?? 0) - 1),
+        updatedAt: now,
+      });
+    }
+
+    return { success: true };
+  },
+});
+
+// ============================================================================
+// AI REPLY FEEDBACK
+// ============================================================================
+
+/**
+ * Customer's thumbs up/down on an AI reply. A thumbs down can complete a
+ * failure loop, in which case the conversation is handed off right away
+ * instead of waiting for the customer's next message.
+ */
+export const submitMessageFeedback = mutation({
+  args: {
+    messageId: v.id("messages"),
+    feedback: v.union(v.literal("helpful"), v.literal("not_helpful")),
+  },
+  handler: async (ctx, { messageId, feedback }) => {
+    const message = await ctx.db.get(messageId);
+    if (!message || message.role !== "ai") {
+      throw new Error("Message not found");
+    }
+
+    await ctx.db.patch(messageId, { customerFeedback: feedback });
+
+    const conversation = await ctx.db.get(message.conversationId);
+    if (feedback !== "not_helpful" || conversation?.status !== "ai_handling") {
+      return { handoff: false };
+    }
+
+    const company = await ctx.db.get(conversation.companyId);
+    const department = conversation.departmentId
+      ? await ctx.db.get(conversation.departmentId)
+      : null;
+    const enabledTriggers = department?.aiPersona?.enabled && department.aiPersona.handoffTriggers
+      ? department.aiPersona.handoffTriggers
+      : company?.aiHandoffTriggers || [];
+    if (!company || !enabledTriggers.includes("multiple_failed_attempts")) {
+      return { handoff: false };
+    }
+
+    const recent = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", conversation._id))
+      .order("desc")
+      .filter((q) =>
+        q.and(
+          q.neq(q.field("approvalStatus"), "pending"),
+          q.neq(q.field("approvalStatus"), "rejected")
+        )
+      )
+      .take(RECENT_MESSAGE_WINDOW);
+
+    const loop = detectFailureLoop(
+      recent.reverse(),
+      clampFailedAttemptsThreshold(company.aiFailedAttemptsThreshold)
+    );
+    if (!loop) {
+      return { handoff: false };
+    }
+
+    await ctx.scheduler.runAfter(0, api.conversations.mutations.triggerHandoff, {
+      conversationId: conversation._id,
+      reason: loop.reason,
+      reasonCategory: "repeated_failures",
+    });
+    return { handoff: true };
+  },
+});
+
 // ============================================================================
 // MARK MESSAGES AS READ BY AGENT
 // ============================================================================
@@ -165,8 +556,11 @@ export const markMessagesAsReadByCustomer = mutation({
       )
       .collect();
 
-    // Combine both arrays
-    const allUnreadMessages = [...unreadAgentMessages, ...unreadAiMessages];
+    // Combine both arrays (AI replies awaiting approval aren't shown yet)
+    const allUnreadMessages = [
+      ...unreadAgentMessages,
+      ...unreadAiMessages.filter(isVisibleToCustomer),
+    ];
 
     // Mark all as read
     for (const message of allUnreadMessages) {
@@ -241,6 +635,17 @@ export const sendCustomerMessage = mutation({
       updatedAt: now,
     });
 
+    await scheduleSummaryIfDue(
+      ctx,
+      conversation,
+      conversation.messageCount + 1 + extraMessages
+    );
+
+    await updateConversationSla(ctx, args.conversationId, recordSlaCustomerMessage);
+
+    // A reply brings a parked conversation back to the agent queue
+    await wakeParkedConversation(ctx, conversation, "Customer replied");
+
     // Update customer's last active timestamp
     await ctx.db.patch(conversation.customerId, {
       lastActiveAt: now,
@@ -437,6 +842,11 @@ export const sendAgentMessage = mutation({
     }
 
     await ctx.db.patch(args.conversationId, updates);
+    await recordAssignmentTakeover(ctx, conversation, args.agentId);
+
+    await scheduleSummaryIfDue(ctx, conversation, updates.messageCount);
+
+    await updateConversationSla(ctx, args.conversationId, recordSlaAgentReply);
 
     // Add agent message to OpenAI thread (non-blocking, async)
     // This ensures AI sees agent messages when it takes over again
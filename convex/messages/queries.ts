@@ -1,5 +1,11 @@
 import { v } from "convex/values";
-import { query } from "../_generated/server";
+import { query, type QueryCtx } from "../_generated/server";
+import type { Id } from "../_generated/dataModel";
+import {
+  computeReadiness,
+  isVisibleToCustomer,
+  READINESS_WINDOW_MS,
+} from "../ai/approval";
 
 /**
  * MESSAGES QUERIES
@@ -10,45 +16,113 @@ import { query } from "../_generated/server";
 // GET MESSAGES (Paginated with Infinite Scroll)
 // ============================================================================
 
+async function listMessages(
+  ctx: QueryCtx,
+  {
+    conversationId,
+    limit = 50,
+    before,
+    includeUnapproved,
+  }: {
+    conversationId: Id<"conversations">;
+    limit?: number;
+    before?: number;
+    includeUnapproved: boolean;
+  }
+) {
+  let messagesQuery = ctx.db
+    .query("messages")
+    .withIndex("by_conversation", (q) =>
+      q.eq("conversationId", conversationId)
+    )
+    .order("desc"); // Most recent first
+
+  // If loading older messages (infinite scroll), filter by timestamp
+  if (before) {
+    messagesQuery = messagesQuery.filter((q) =>
+      q.lt(q.field("timestamp"), before)
+    );
+  }
+
+  // AI replies awaiting approval or rejected are for agents only
+  if (!includeUnapproved) {
+    messagesQuery = messagesQuery.filter((q) =>
+      q.and(
+        q.neq(q.field("approvalStatus"), "pending"),
+        q.neq(q.field("approvalStatus"), "rejected")
+      )
+    );
+  }
+
+  const messages = await messagesQuery.take(limit);
+
+  // Enrich messages with agent avatar URLs
+  const enrichedMessages = await Promise.all(
+    messages.map(async (message) => {
+      if (message.agentId) {
+        const agent = await ctx.db.get(message.agentId);
+        return {
+          ...message,
+          agentAvatar: agent?.avatarUrl,
+        };
+      }
+      return message;
+    })
+  );
+
+  // Return in chronological order (oldest first) for chat display
+  return enrichedMessages.reverse();
+}
+
+/**
+ * Messages as the customer sees them - AI replies awaiting approval or
+ * rejected are never returned
+ */
 export const getMessages = query({
   args: {
     conversationId: v.id("conversations"),
     limit: v.optional(v.number()), // Default 50
     before: v.optional(v.number()), // Timestamp to load messages before (for infinite scroll)
   },
-  handler: async (ctx, { conversationId, limit = 50, before }) => {
-    let messagesQuery = ctx.db
-      .query("messages")
-      .withIndex("by_conversation", (q) =>
-        q.eq("conversationId", conversationId)
-      )
-      .order("desc"); // Most recent first
+  handler: async (ctx, args) => {
+    return await listMessages(ctx, { ...args, includeUnapproved: false });
+  },
+});
 
-    // If loading older messages (infinite scroll), filter by timestamp
-    if (before) {
-      messagesQuery = messagesQuery.filter((q) =>
-        q.lt(q.field("timestamp"), before)
-      );
-    }
+/**
+ * Messages for the agent inbox, including AI replies awaiting approval and
+ * rejected ones. Returns null unless the caller is an agent of the company.
+ */
+export const getAgentMessages = query({
+  args: {
+    conversationId: v.id("conversations"),
+    limit: v.optional(v.number()), // Default 50
+    before: v.optional(v.number()), // Timestamp to load messages before (for infinite scroll)
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) return null;
 
-    const messages = await messagesQuery.take(limit);
-
-    // Enrich messages with agent avatar URLs
-    const enrichedMessages = await Promise.all(
-      messages.map(async (message) => {
-        if (message.agentId) {
-          const agent = await ctx.db.get(message.agentId);
-          return {
-            ...message,
-            agentAvatar: agent?.avatarUrl,
-          };
-        }
-        return message;
-      })
-    );
+    const user = await ctx.db
+      .query("users")
+      .withIndex("by_whop_user_id", (q) => q.eq("whopUserId", identity.subject))
+      .first();
+    if (!user) return null;
+
+    const conversation = await ctx.db.get(args.conversationId);
+    if (!conversation) return null;
 
-    // Return in chronological order (oldest first) for chat display
-    return enrichedMessages.reverse();
+    const userCompany = await ctx.db
+      .query("user_companies")
+      .withIndex("by_user_company", (q) =>
+        q.eq("userId", user._id).eq("companyId", conversation.companyId)
+      )
+      .first();
+    if (!userCompany || userCompany.role === "customer") {
+      return null; // Customers only get getMessages
+    }
+
+    return await listMessages(ctx, { ...args, includeUnapproved: true });
   },
 });
 
@@ -141,7 +215,10 @@ export const getUnreadCountForCustomer = query({
       )
       .collect();
 
-    return unreadAgentMessages.length + unreadAiMessages.length;
+    return (
+      unreadAgentMessages.length +
+      unreadAiMessages.filter(isVisibleToCustomer).length
+    );
   },
 });
 
@@ -192,9 +269,9 @@ export const hasUnreadMessages = query({
             .eq("role", "ai")
             .eq("readByCustomerAt", undefined)
         )
-        .take(1);
+        .collect();
 
-      return unreadAiMessages.length > 0;
+      return unreadAiMessages.some(isVisibleToCustomer);
     }
   },
 });
@@ -211,3 +288,48 @@ export const getMessage = query({
     return await ctx.db.get(messageId);
   },
 });
+
+// ============================================================================
+// AI APPROVAL STATS (readiness for autonomous mode)
+// ============================================================================
+
+export const getApprovalStats = query({
+  args: {
+    companyId: v.id("companies"),
+  },
+  handler: async (ctx, { companyId }) => {
+    const since = Date.now() - READINESS_WINDOW_MS;
+
+    const countReviewed = async (status: "approved" | "edited" | "rejected") => {
+      const reviewed = await ctx.db
+        .query("messages")
+        .withIndex("by_company_approval", (q) =>
+          q
+            .eq("companyId", companyId)
+            .eq("approvalStatus", status)
+            .gte("reviewedAt", since)
+        )
+        .collect();
+      return reviewed.length;
+    };
+
+    const counts = {
+      approved: await countReviewed("approved"),
+      edited: await countReviewed("edited"),
+      rejected: await countReviewed("rejected"),
+    };
+
+    const pending = await ctx.db
+      .query("messages")
+      .withIndex("by_company_approval", (q) =>
+        q.eq("companyId", companyId).eq("approvalStatus", "pending")
+      )
+      .collect();
+
+    return {
+      ...counts,
+      pending: pending.length,
+      ...computeReadiness(counts),
+    };
+  },
+});
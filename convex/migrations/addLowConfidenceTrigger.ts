@@ -0,0 +1,29 @@
+import { mutation } from "../_generated/server";
+
+// Low-confidence handoffs used to fire for every company. They're now the
+// "low_confidence" trigger - turn it on wherever triggers were set up, so
+// nothing changes until a company switches it off.
+export const run = mutation({
+  args: {},
+  handler: async (ctx) => {
+    let companies = 0;
+    for (const company of await ctx.db.query("companies").collect()) {
+      const triggers = company.aiHandoffTriggers;
+      if (triggers.length === 0 || triggers.includes("low_confidence")) continue;
+      await ctx.db.patch(company._id, { aiHandoffTriggers: [...triggers, "low_confidence"] });
+      companies++;
+    }
+
+    let departments = 0;
+    for (const department of await ctx.db.query("departments").collect()) {
+      const persona = department.aiPersona;
+      const triggers = persona?.handoffTriggers;
+      if (!persona || !triggers || triggers.includes("low_confidence")) continue;
+      await ctx.db.patch(department._id, {
+        aiPersona: { ...persona, handoffTriggers: [...triggers, "low_confidence"] },
+      });
+      departments++;
+    }
+    return { companies, departments };
+  },
+});
@@ -0,0 +1,35 @@
+import { mutation } from "../_generated/server";
+import { findOrCreateTag } from "../tags/mutations";
+import { MAX_TAG_NAME_LENGTH } from "../tags/names";
+
+// Tags used to be a string array on the conversation. Move each one onto a
+// company tag and clear the old field. Links are inserted directly so
+// updatedAt (and the agents' list order) is left alone.
+export const run = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const conversations = await ctx.db.query("conversations").collect();
+    let migrated = 0;
+    for (const conversation of conversations) {
+      if (!conversation.tags) continue;
+      const tagIds = new Set<string>();
+      for (const name of conversation.tags) {
+        const trimmed = name.trim().slice(0, MAX_TAG_NAME_LENGTH);
+        if (!trimmed) continue;
+        const tagId = await findOrCreateTag(ctx, conversation.companyId, trimmed);
+        if (tagIds.has(tagId)) continue;
+        tagIds.add(tagId);
+        await ctx.db.insert("conversation_tags", {
+          companyId: conversation.companyId,
+          conversationId: conversation._id,
+          tagId,
+          source: "migration",
+          createdAt: conversation.updatedAt,
+        });
+      }
+      await ctx.db.patch(conversation._id, { tags: undefined });
+      migrated++;
+    }
+    return { migrated };
+  },
+});
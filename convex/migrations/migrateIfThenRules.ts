@@ -0,0 +1,22 @@
+import { mutation } from "../_generated/server";
+import { internal } from "../_generated/api";
+
+// Companies that haven't had an AI reply since ai_rules shipped are
+// migrated here; everyone else was migrated on their next AI reply.
+export const run = mutation({
+  args: {},
+  handler: async (ctx) => {
+    const companies = await ctx.db.query("companies").collect();
+    let scheduled = 0;
+    for (const company of companies) {
+      if (company.aiRulesMigratedAt) continue;
+      await ctx.scheduler.runAfter(
+        0,
+        internal.aiRules.mutations.migrateCompanyIfThenRules,
+        { companyId: company._id }
+      );
+      scheduled++;
+    }
+    return { scheduled };
+  },
+});
@@ -0,0 +1,87 @@
+/**
+ * Model Pricing Mutations
+ *
+ * Set the per-model token prices used to cost AI replies. New prices only
+ * apply to replies tracked after the change.
+ */
+
+import { mutation } from "../_generated/server";
+import { v } from "convex/values";
+import { DEFAULT_MODEL_PRICING, pricingKey } from "../ai/pricing";
+
+/**
+ * Create or update the price for a model
+ */
+export const upsertModelPricing = mutation({
+  args: {
+    model: v.string(),
+    inputPerMillion: v.number(),
+    outputPerMillion: v.number(),
+  },
+  handler: async (ctx, { model, inputPerMillion, outputPerMillion }) => {
+    if (!model.trim()) {
+      throw new Error("Model is required");
+    }
+    if (
+      !Number.isFinite(inputPerMillion) ||
+      !Number.isFinite(outputPerMillion) ||
+      inputPerMillion < 0 ||
+      outputPerMillion < 0
+    ) {
+      throw new Error("Prices must be zero or more");
+    }
+
+    const key = pricingKey(model);
+    const existing = await ctx.db
+      .query("model_pricing")
+      .withIndex("by_model", (q) => q.eq("model", key))
+      .first();
+
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        inputPerMillion,
+        outputPerMillion,
+        updatedAt: Date.now(),
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("model_pricing", {
+      model: key,
+      inputPerMillion,
+      outputPerMillion,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+export const deleteModelPricing = mutation({
+  args: {
+    pricingId: v.id("model_pricing"),
+  },
+  handler: async (ctx, { pricingId }) => {
+    await ctx.db.delete(pricingId);
+    return { success: true };
+  },
+});
+
+/**
+ * Add list prices for models that aren't priced yet
+ */
+export const seedDefaultModelPricing = mutation({
+  args: {},
+  handler: async (ctx) => {
+    let added = 0;
+    for (const price of DEFAULT_MODEL_PRICING) {
+      const existing = await ctx.db
+        .query("model_pricing")
+        .withIndex("by_model", (q) => q.eq("model", price.model))
+        .first();
+      if (existing) continue;
+
+      await ctx.db.insert("model_pricing", { ...price, updatedAt: Date.now() });
+      added++;
+    }
+    return { added };
+  },
+});
@@ -0,0 +1,32 @@
+/**
+ * Model Pricing Queries
+ *
+ * Read the per-model token prices used to cost AI replies.
+ */
+
+import { query, type QueryCtx } from "../_generated/server";
+import { pricingKey, type ModelPrice } from "../ai/pricing";
+
+/**
+ * Price for a model spec, or null when nobody has priced the model yet
+ */
+export async function getModelPrice(
+  ctx: QueryCtx,
+  modelSpec: string
+): Promise<ModelPrice | null> {
+  return await ctx.db
+    .query("model_pricing")
+    .withIndex("by_model", (q) => q.eq("model", pricingKey(modelSpec)))
+    .first();
+}
+
+/**
+ * All priced models, alphabetically
+ */
+export const listModelPricing = query({
+  args: {},
+  handler: async (ctx) => {
+    const prices = await ctx.db.query("model_pricing").collect();
+    return prices.sort((a, b) => a.model.localeCompare(b.model));
+  },
+});
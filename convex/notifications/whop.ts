@@ -300,6 +300,12 @@ export const sendHandoffRequestNotification = action({
         }
       }
 
+      // An assigned conversation is only announced to the agent it was offered to
+      const assignedAgentId = conversation.pendingAssignment?.agentId;
+      if (assignedAgentId) {
+        eligibleAgents = eligibleAgents.filter((agent: any) => agent._id === assignedAgentId);
+      }
+
       const agentWhopUserIds = eligibleAgents
         .map((agent: any) => agent.whopUserId)
         .filter(Boolean);
@@ -314,9 +320,8 @@ export const sendHandoffRequestNotification = action({
       });
       const customerName = customer?.displayName || "A customer";
 
-      const title = departmentName
-        ? `[${departmentName}] Customer needs help`
-        : "Customer needs help";
+      const headline = assignedAgentId ? "Assigned to you" : "Customer needs help";
+      const title = departmentName ? `[${departmentName}] ${headline}` : headline;
 
       const result = await whopSdk.notifications.sendPushNotification({
         title,
@@ -335,6 +340,70 @@ export const sendHandoffRequestNotification = action({
   },
 });
 
+/**
+ * Send transfer notification to an agent
+ *
+ * Notifies the agent a conversation was transferred to, with the start of
+ * the handover note.
+ */
+export const sendTransferNotification = action({
+  args: {
+    conversationId: v.id("conversations"),
+    toAgentId: v.id("users"),
+    fromAgentName: v.string(),
+    note: v.optional(v.string()),
+  },
+  handler: async (ctx, { conversationId, toAgentId, fromAgentName, note }) => {
+    const whopSdk = getWhopSdk();
+
+    try {
+      const conversation = await ctx.runQuery(
+        api.conversations.queries.getConversation,
+        { conversationId }
+      );
+      if (!conversation) {
+        console.error("Conversation not found for transfer notification");
+        return { success: false };
+      }
+
+      const company = await ctx.runQuery(api.companies.queries.getCompanyById, {
+        companyId: conversation.companyId,
+      });
+      if (!company?.whopExperienceId) {
+        console.error("Company or whopExperienceId not found for transfer notification");
+        return { success: false };
+      }
+
+      const agent = await ctx.runQuery(api.users.queries.getUserById, {
+        userId: toAgentId,
+      });
+      if (!agent?.whopUserId) {
+        console.log("Transfer recipient has no Whop account to notify");
+        return { success: true };
+      }
+
+      const customer = await ctx.runQuery(api.users.queries.getUserById, {
+        userId: conversation.customerId,
+      });
+      const customerName = customer?.displayName || "A customer";
+
+      const result = await whopSdk.notifications.sendPushNotification({
+        title: `${fromAgentName} transferred ${customerName} to you`,
+        content: note ? note.slice(0, 100) : "Open the conversation to pick it up",
+        userIds: [agent.whopUserId],
+        experienceId: company.whopExperienceId,
+        restPath: `/experiences/${company.whopExperienceId}/dashboard/support?conversation=${conversationId}`,
+      });
+      console.log("Transfer notification result:", JSON.stringify(result));
+
+      return { success: true };
+    } catch (error) {
+      console.error("Error sending transfer notification:", error);
+      return { success: false };
+    }
+  },
+});
+
 /**
  * Send team invitation notification by username
  *
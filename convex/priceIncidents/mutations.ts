@@ -0,0 +1,57 @@
+/**
+ * Price Incident Mutations
+ *
+ * Log AI replies whose prices didn't match the plan catalog and how the
+ * price guard fixed them.
+ */
+
+import { v } from "convex/values";
+import { internalMutation } from "../_generated/server";
+
+/**
+ * Record a price guard incident and mark the reply it changed or flagged
+ */
+export const recordIncident = internalMutation({
+  args: {
+    conversationId: v.id("conversations"),
+    messageId: v.id("messages"),
+    mismatches: v.array(
+      v.object({
+        quoted: v.string(),
+        reason: v.union(v.literal("unknown_amount"), v.literal("wrong_period")),
+        correctedTo: v.optional(v.string()),
+      })
+    ),
+    resolution: v.union(
+      v.literal("corrected"),
+      v.literal("regenerated"),
+      v.literal("flagged")
+    ),
+    originalReply: v.string(),
+  },
+  handler: async (ctx, { conversationId, messageId, mismatches, resolution, originalReply }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) {
+      throw new Error("Conversation not found");
+    }
+
+    await ctx.db.patch(messageId, { priceCorrection: resolution });
+
+    // Flag the conversation so an agent checks the prices the guard couldn't fix
+    if (resolution === "flagged") {
+      await ctx.db.patch(conversationId, {
+        priceFlag: { messageId, flaggedAt: Date.now() },
+      });
+    }
+
+    await ctx.db.insert("price_incidents", {
+      companyId: conversation.companyId,
+      conversationId,
+      messageId,
+      mismatches,
+      resolution,
+      originalReply,
+      createdAt: Date.now(),
+    });
+  },
+});
@@ -0,0 +1,68 @@
+/**
+ * Price Incident Queries
+ *
+ * Reporting on AI replies that quoted prices outside the plan catalog.
+ */
+
+import { v } from "convex/values";
+import { query } from "../_generated/server";
+
+/**
+ * Incidents per day, how they were resolved, and the most recent ones
+ */
+export const getPriceIncidents = query({
+  args: {
+    companyId: v.id("companies"),
+    period: v.union(
+      v.literal("3days"),
+      v.literal("week"),
+      v.literal("month"),
+      v.literal("3months")
+    ),
+  },
+  handler: async (ctx, { companyId, period }) => {
+    const days = { "3days": 3, week: 7, month: 30, "3months": 90 }[period];
+    const startTime = Date.now() - days * 24 * 60 * 60 * 1000;
+
+    const incidents = await ctx.db
+      .query("price_incidents")
+      .withIndex("by_company_created", (q) =>
+        q.eq("companyId", companyId).gte("createdAt", startTime)
+      )
+      .collect();
+
+    const byResolution = { corrected: 0, regenerated: 0, flagged: 0, price_list: 0 };
+    const byDay = new Map<number, number>();
+    for (const incident of incidents) {
+      byResolution[incident.resolution]++;
+      const dayStart = new Date(incident.createdAt);
+      dayStart.setUTCHours(0, 0, 0, 0);
+      byDay.set(dayStart.getTime(), (byDay.get(dayStart.getTime()) ?? 0) + 1);
+    }
+
+    return {
+      total: incidents.length,
+      byResolution,
+      perDay: [...byDay.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([dayStart, count]) => ({
+          date: new Date(dayStart).toISOString().split("T")[0],
+          label: new Date(dayStart).toLocaleDateString("en-US", {
+            month: "short",
+            day: "numeric",
+          }),
+          count,
+        })),
+      recent: incidents
+        .slice(-10)
+        .reverse()
+        .map((incident) => ({
+          id: incident._id,
+          conversationId: incident.conversationId,
+          quoted: incident.mismatches.map((m) => m.quoted),
+          resolution: incident.resolution,
+          createdAt: incident.createdAt,
+        })),
+    };
+  },
+});
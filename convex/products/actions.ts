@@ -13,7 +13,7 @@
 
 import { v } from "convex/values";
 import { action, internalAction } from "../_generated/server";
-import { api } from "../_generated/api";
+import { api, internal } from "../_generated/api";
 import { getWhopConfig } from "../lib/whop";
 import { WhopServerSdk } from "@whop/api";
 import Whop from "@whop/sdk";
@@ -435,6 +435,11 @@ export const syncProducts = action({
         errors.push(`Plans sync failed: ${error instanceof Error ? error.message : String(error)}`);
       }
 
+      // Re-embed the catalog so AI retrieval reflects the synced products
+      await ctx.scheduler.runAfter(0, internal.ai.knowledge.reindexCompanyKnowledge, {
+        companyId,
+      });
+
       return {
         success: errors.length === 0,
         syncedCount: syncedProductIds.length,
@@ -6,6 +6,7 @@
 
 import { v } from "convex/values";
 import { mutation } from "../_generated/server";
+import { internal } from "../_generated/api";
 
 /**
  * Create or update a product from Whop data
@@ -206,10 +207,19 @@ export const toggleProductAIInclusion = mutation({
     includeInAI: v.boolean(),
   },
   handler: async (ctx, { productId, includeInAI }) => {
+    const product = await ctx.db.get(productId);
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
     await ctx.db.patch(productId, {
       includeInAI,
       updatedAt: Date.now(),
     });
+
+    await ctx.scheduler.runAfter(0, internal.ai.knowledge.reindexCompanyKnowledge, {
+      companyId: product.companyId,
+    });
     return { success: true };
   },
 });
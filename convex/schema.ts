@@ -25,6 +25,7 @@ export default defineSchema({
     // AI Configuration
     aiModels: v.array(v.string()), // Available AI models (e.g., ["gpt-3.5-turbo"])
     aiResponsesPerMonth: v.number(),
+    aiDraftsPerMonth: v.optional(v.number()), // Agent copilot drafts (defaults to aiResponsesPerMonth)
 
     // Features
     hasTemplates: v.boolean(),
@@ -72,6 +73,7 @@ export default defineSchema({
     // Usage tracking
     aiResponsesThisMonth: v.number(),
     aiResponsesResetAt: v.number(),
+    aiDraftsThisMonth: v.optional(v.number()), // Agent copilot drafts, metered separately
     usageWarningSent: v.optional(v.boolean()), // True if 80% warning sent this cycle
 
     // Scheduled plan changes (for cancellations)
@@ -92,6 +94,20 @@ export default defineSchema({
     ),
     aiSystemPrompt: v.string(),
     aiHandoffTriggers: v.array(v.string()),
+    aiHandoffKeywordOverride: v.optional(v.boolean()), // Keyword triggers force a handoff regardless of the AI's decision
+    aiFailedAttemptsThreshold: v.optional(v.number()), // Failed AI attempts before "multiple_failed_attempts" hands off
+    aiTopicPolicy: v.optional(
+      v.object({
+        allowedTopics: v.array(v.string()),
+        blockedTopics: v.array(v.string()),
+        deflectionMessage: v.optional(v.string()), // Replaces the default off-topic reply
+        strictness: v.union(
+          v.literal("lenient"),
+          v.literal("balanced"),
+          v.literal("strict")
+        ),
+      })
+    ), // See convex/ai/topicPolicy.ts
     selectedAiModel: v.string(), // Selected from plan's available models
 
     // Company context
@@ -102,13 +118,27 @@ export default defineSchema({
 
     // OpenAI Assistants API
     openaiAssistantId: v.optional(v.string()), // OpenAI Assistant ID (created per company)
-    openaiVectorStoreId: v.optional(v.string()), // Vector Store ID for company knowledge base
-    openaiContextFileId: v.optional(v.string()), // Current context file ID in Vector Store
+    openaiVectorStoreId: v.optional(v.string()), // Legacy - knowledge now lives in knowledge_chunks
+    openaiContextFileId: v.optional(v.string()), // Legacy - knowledge now lives in knowledge_chunks
     testAssistantId: v.optional(v.string()), // Cached test assistant ID (for AI Studio testing)
 
     // Departments
     departmentsEnabled: v.optional(v.boolean()),
 
+    // Automatic agent assignment - see convex/assignment/strategy.ts
+    assignment: v.optional(
+      v.object({
+        strategy: v.union(
+          v.literal("manual"),
+          v.literal("round_robin"),
+          v.literal("least_busy"),
+          v.literal("skills")
+        ),
+        acceptTimeoutMinutes: v.number(), // Then the next agent is tried
+        maxConcurrentConversations: v.optional(v.number()), // Default cap; unset means none
+      })
+    ),
+
     // Onboarding status
     onboardingCompleted: v.boolean(),
     setupWizardCompleted: v.boolean(),
@@ -117,6 +147,38 @@ export default defineSchema({
     excludedProductIds: v.optional(v.array(v.string())), // Whop product IDs to exclude from sync
     aiIncludeHiddenProducts: v.optional(v.boolean()), // Whether AI can reference hidden products
 
+    // Automation rules
+    aiRulesMigratedAt: v.optional(v.number()), // When IF/THEN lines from context were imported into ai_rules
+
+    // Approval mode - AI replies wait for an agent before the customer sees them
+    aiApprovalRequired: v.optional(v.boolean()), // See convex/ai/approval.ts
+
+    // Config history - number of the ai_config_versions row that matches the live settings
+    aiConfigVersion: v.optional(v.number()),
+
+    // PII redaction before customer text is sent to the model - see convex/ai/redaction.ts
+    // Unset means DEFAULT_PII_REDACTION (all built-in categories)
+    piiRedaction: v.optional(
+      v.object({
+        enabled: v.boolean(),
+        categories: v.array(
+          v.union(
+            v.literal("email"),
+            v.literal("phone"),
+            v.literal("card"),
+            v.literal("license_key")
+          )
+        ),
+        customPatterns: v.array(
+          v.object({
+            label: v.string(),
+            pattern: v.string(),
+            reinsert: v.boolean(),
+          })
+        ),
+      })
+    ),
+
     // Metadata
     createdAt: v.number(),
     updatedAt: v.number(),
@@ -196,6 +258,11 @@ export default defineSchema({
     // Department assignments (agent can belong to multiple departments)
     departmentIds: v.optional(v.array(v.id("departments"))),
 
+    // Automatic assignment - see convex/assignment/strategy.ts
+    maxConcurrentConversations: v.optional(v.number()), // Overrides the company default cap
+    skills: v.optional(v.array(v.string())), // Matched against tags and handoff categories
+    lastAssignedAt: v.optional(v.number()), // Round-robin position
+
     // Timestamps
     joinedAt: v.number(), // When user joined this company
     lastActiveInCompany: v.number(), // Last time user was active in this company
@@ -224,11 +291,114 @@ export default defineSchema({
       v.literal("awaiting_department"),
       v.literal("available"),
       v.literal("support_staff_handling"),
+      v.literal("pending_customer"), // Parked waiting on the customer's reply
+      v.literal("snoozed"), // Parked until wakeAt
       v.literal("resolved")
     ),
     departmentId: v.optional(v.id("departments")),
     handoffTriggeredAt: v.optional(v.number()),
     handoffReason: v.optional(v.string()), // e.g., "User requested support staff", "Billing question"
+    handoffReasonCategory: v.optional(
+      v.union(
+        v.literal("customer_requested_human"),
+        v.literal("billing"),
+        v.literal("account_access"),
+        v.literal("technical_issue"),
+        v.literal("negative_sentiment"),
+        v.literal("low_confidence"),
+        v.literal("keyword_trigger"),
+        v.literal("usage_limit"),
+        v.literal("automation_rule"),
+        v.literal("repeated_failures"),
+        v.literal("other")
+      )
+    ), // See convex/ai/handoff.ts
+
+    // Deprecated - tags now live in conversation_tags (see migrations/migrateConversationTags)
+    tags: v.optional(v.array(v.string())),
+
+    // SLA - see convex/sla/policy.ts
+    priority: v.optional(
+      v.union(
+        v.literal("low"),
+        v.literal("normal"),
+        v.literal("high"),
+        v.literal("urgent")
+      )
+    ), // Unset means normal
+    slaPolicyId: v.optional(v.id("sla_policies")),
+    sla: v.optional(
+      v.object({
+        priority: v.union(
+          v.literal("low"),
+          v.literal("normal"),
+          v.literal("high"),
+          v.literal("urgent")
+        ),
+        targets: v.object({
+          firstResponseMinutes: v.number(),
+          nextResponseMinutes: v.optional(v.number()),
+          resolutionMinutes: v.optional(v.number()),
+        }),
+        startedAt: v.number(), // Handoff time
+        firstResponseDueAt: v.number(),
+        firstRespondedAt: v.optional(v.number()),
+        nextResponseOpenedAt: v.optional(v.number()),
+        nextResponseDueAt: v.optional(v.number()),
+        nextResponseBreached: v.optional(v.boolean()),
+        resolutionDueAt: v.optional(v.number()),
+        resolvedAt: v.optional(v.number()),
+        closedAt: v.optional(v.number()),
+        pausedAt: v.optional(v.number()), // Parked
+        pausedMs: v.optional(v.number()),
+        breaches: v.array(
+          v.union(
+            v.literal("first_response"),
+            v.literal("next_response"),
+            v.literal("resolution")
+          )
+        ),
+        nextResponsesMet: v.number(),
+        nextResponsesBreached: v.number(),
+      })
+    ),
+    slaCheckJobId: v.optional(v.id("_scheduled_functions")), // Breach check at the next deadline
+
+    // AI replies waiting for agent approval
+    pendingApprovalCount: v.optional(v.number()),
+
+    // A/B experiment the conversation was assigned to at creation (sticky)
+    experimentId: v.optional(v.id("ai_experiments")),
+    experimentVariant: v.optional(v.union(v.literal("a"), v.literal("b"))),
+
+    // AI spend on this conversation (USD, priced from model_pricing)
+    aiCostUsd: v.optional(v.number()),
+
+    // Set when a customer message was quarantined as a prompt injection; cleared by an agent
+    injectionFlag: v.optional(
+      v.object({
+        messageId: v.id("messages"),
+        score: v.number(),
+        signals: v.array(v.string()),
+        flaggedAt: v.number(),
+      })
+    ),
+
+    // Set when an AI reply cited none of the company's knowledge; cleared by an agent
+    groundingFlag: v.optional(
+      v.object({
+        messageId: v.id("messages"),
+        flaggedAt: v.number(),
+      })
+    ),
+
+    // Set when an AI reply kept prices the price guard couldn't verify; cleared by an agent
+    priceFlag: v.optional(
+      v.object({
+        messageId: v.id("messages"),
+        flaggedAt: v.number(),
+      })
+    ),
 
     // Customer satisfaction
     csatRating: v.optional(v.union(v.literal("positive"), v.literal("negative"))),
@@ -242,8 +412,27 @@ export default defineSchema({
 
     // Agent participation (group chat model)
     participatingAgents: v.array(v.id("users")),
+
+    // Automatic assignment - the agent who owns the conversation, and the
+    // offer waiting for them to take over (see convex/assignment/strategy.ts)
+    assignedAgentId: v.optional(v.id("users")),
+    pendingAssignment: v.optional(
+      v.object({
+        assignmentId: v.id("conversation_assignments"),
+        agentId: v.id("users"),
+        reason: v.string(),
+        expiresAt: v.number(),
+      })
+    ),
+    assignmentTimeoutJobId: v.optional(v.id("_scheduled_functions")),
     lastAgentMessage: v.optional(v.number()),
 
+    // Parking (pending_customer / snoozed) - back to the queue at wakeAt or on a customer reply
+    parkedAt: v.optional(v.number()),
+    parkedBy: v.optional(v.id("users")),
+    wakeAt: v.optional(v.number()),
+    wakeJobId: v.optional(v.id("_scheduled_functions")),
+
     // AI processing state
     aiProcessing: v.boolean(),
     aiProcessingStartedAt: v.optional(v.number()),
@@ -271,8 +460,53 @@ export default defineSchema({
     .index("by_company_status", ["companyId", "status"])
     .index("by_company_customer", ["companyId", "customerId"])
     .index("by_company_updated", ["companyId", "updatedAt"])
+    .index("by_company_handoff", ["companyId", "handoffTriggeredAt"])
+    .index("by_experiment", ["experimentId", "experimentVariant"])
+    .index("by_assigned_agent_status", ["assignedAgentId", "status"])
     .index("by_status", ["status"]),
 
+  // ============================================================================
+  // CONVERSATION ASSIGNMENTS - Automatic assignment log (one row per offer)
+  // ============================================================================
+  conversation_assignments: defineTable({
+    companyId: v.id("companies"),
+    conversationId: v.id("conversations"),
+    agentId: v.id("users"),
+    departmentId: v.optional(v.id("departments")),
+    strategy: v.union(
+      v.literal("round_robin"),
+      v.literal("least_busy"),
+      v.literal("skills")
+    ),
+    reason: v.string(), // Why this agent was picked, shown to agents
+    outcome: v.union(
+      v.literal("pending"),
+      v.literal("accepted"),
+      v.literal("declined"),
+      v.literal("timed_out"),
+      v.literal("taken_over"), // Another agent took the conversation first
+      v.literal("cancelled") // Resolved, handed back to the AI or re-routed
+    ),
+    assignedAt: v.number(),
+    respondedAt: v.optional(v.number()),
+  })
+    .index("by_conversation", ["conversationId", "assignedAt"])
+    .index("by_company_assigned", ["companyId", "assignedAt"]),
+
+  // ============================================================================
+  // CONVERSATION TRANSFERS - Handovers between agents and departments
+  // ============================================================================
+  conversation_transfers: defineTable({
+    companyId: v.id("companies"),
+    conversationId: v.id("conversations"),
+    fromAgentId: v.id("users"),
+    toAgentId: v.optional(v.id("users")), // Unset when handed to a department's queue
+    fromDepartmentId: v.optional(v.id("departments")),
+    toDepartmentId: v.optional(v.id("departments")),
+    note: v.optional(v.string()), // Private handover note, only shown to agents
+    createdAt: v.number(),
+  }).index("by_conversation", ["conversationId", "createdAt"]),
+
   // ============================================================================
   // MESSAGES - Individual messages in conversations
   // ============================================================================
@@ -297,7 +531,87 @@ export default defineSchema({
     // AI metadata (for ai messages)
     aiModel: v.optional(v.string()),
     tokensUsed: v.optional(v.number()),
+    promptTokens: v.optional(v.number()),
+    completionTokens: v.optional(v.number()),
+    costUsd: v.optional(v.number()), // Priced from model_pricing when tracked
     processingTime: v.optional(v.number()),
+    aiConfidence: v.optional(v.number()), // Model's self-reported confidence (0-1)
+    aiRuleId: v.optional(v.id("ai_rules")), // Set when an automation rule produced the reply
+    aiConfigVersion: v.optional(v.number()), // Company's ai_config_versions number when the reply was generated
+    redactedCategories: v.optional(v.array(v.string())), // PII categories hidden from the model for this reply
+
+    // Knowledge the AI reply relied on - see convex/ai/citations.ts
+    knowledgeSources: v.optional(
+      v.array(
+        v.object({
+          type: v.union(
+            v.literal("company_context"),
+            v.literal("product"),
+            v.literal("plan")
+          ),
+          sourceId: v.optional(v.string()), // products/whopPlans id, or context section number
+          title: v.string(),
+          excerpt: v.optional(v.string()),
+        })
+      )
+    ),
+    ungrounded: v.optional(v.boolean()), // Cited no sources - flagged for review
+    priceCorrection: v.optional(
+      v.union(
+        v.literal("corrected"),
+        v.literal("regenerated"),
+        v.literal("flagged"),
+        v.literal("price_list") // Older replies swapped for the plan list
+      )
+    ), // Price guard changed or flagged the reply's prices
+    customerFeedback: v.optional(
+      v.union(v.literal("helpful"), v.literal("not_helpful"))
+    ), // Customer's thumbs up/down on an AI reply - see convex/ai/failureLoop.ts
+
+    // Prompt injection score (customer messages, only when suspicious) - see convex/ai/injection.ts
+    injectionScore: v.optional(v.number()),
+    injectionSignals: v.optional(v.array(v.string())),
+
+    // Approval mode (ai messages only) - pending/rejected replies are hidden from the customer
+    approvalStatus: v.optional(
+      v.union(
+        v.literal("pending"),
+        v.literal("approved"),
+        v.literal("edited"),
+        v.literal("rejected")
+      )
+    ),
+    reviewedBy: v.optional(v.id("users")),
+    reviewedAt: v.optional(v.number()),
+    originalContent: v.optional(v.string()), // AI text before the agent edited it
+    topicVerdict: v.optional(
+      v.object({
+        verdict: v.union(
+          v.literal("allowed"),
+          v.literal("off_topic"),
+          v.literal("blocked")
+        ),
+        matchedTopic: v.string(),
+        reason: v.string(),
+        confidence: v.number(),
+        strictness: v.union(
+          v.literal("lenient"),
+          v.literal("balanced"),
+          v.literal("strict")
+        ),
+        deflected: v.boolean(), // True when the reply was swapped for the deflection message
+      })
+    ),
+
+    // Streaming state (ai messages written incrementally as tokens arrive)
+    // "replaced" = final validation swapped out the streamed text
+    streamStatus: v.optional(
+      v.union(
+        v.literal("streaming"),
+        v.literal("complete"),
+        v.literal("replaced")
+      )
+    ),
 
     // Message metadata
     timestamp: v.number(),
@@ -321,12 +635,14 @@ export default defineSchema({
         v.literal("agent_joined"),
         v.literal("agent_left"),
         v.literal("issue_resolved"),
-        v.literal("auto_resolved")
+        v.literal("auto_resolved"),
+        v.literal("transferred")
       )
     ),
   })
     .index("by_conversation", ["conversationId", "timestamp"])
     .index("by_company", ["companyId", "timestamp"])
+    .index("by_company_approval", ["companyId", "approvalStatus", "reviewedAt"])
     // Compound indexes for efficient unread message queries
     .index("by_conversation_role_unread_agent", [
       "conversationId",
@@ -362,6 +678,9 @@ export default defineSchema({
     lastUsedAt: v.optional(v.number()),
     lastUsedBy: v.optional(v.id("users")),
 
+    // Tags added to the conversation when an agent uses the template
+    tagIds: v.optional(v.array(v.id("tags"))),
+
     // Template management
     isActive: v.boolean(),
     isDefault: v.boolean(), // System-created vs user-created
@@ -472,6 +791,295 @@ export default defineSchema({
     .index("by_company", ["companyId"])
     .index("by_uploader", ["uploadedBy"]),
 
+  // ============================================================================
+  // KNOWLEDGE CHUNKS - Embedded company context and product catalog for retrieval
+  // ============================================================================
+  knowledge_chunks: defineTable({
+    // Relationships
+    companyId: v.id("companies"),
+
+    // Source
+    sourceType: v.union(
+      v.literal("company_context"),
+      v.literal("product")
+    ),
+    sourceId: v.optional(v.string()), // Product ID for product chunks
+    title: v.optional(v.string()),
+    chunkIndex: v.number(), // Position within the source
+
+    // Content
+    content: v.string(),
+    embedding: v.array(v.float64()),
+    embeddingModel: v.string(),
+
+    // Metadata
+    createdAt: v.number(),
+  })
+    .index("by_company", ["companyId"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: 1536,
+      filterFields: ["companyId"],
+    }),
+
+  // ============================================================================
+  // AI RULES - Admin-defined automation rules checked before the LLM
+  // ============================================================================
+  ai_rules: defineTable({
+    // Relationships
+    companyId: v.id("companies"),
+
+    // Matching
+    name: v.string(),
+    matchType: v.union(
+      v.literal("contains"),
+      v.literal("regex"),
+      v.literal("semantic")
+    ),
+    pattern: v.string(), // Substring, regex source, or example phrasing for semantic rules
+    semanticThreshold: v.optional(v.number()), // Cosine similarity needed (semantic only)
+    embedding: v.optional(v.array(v.float64())), // Embedded pattern (semantic only)
+    embeddingModel: v.optional(v.string()),
+    priority: v.number(), // Lower runs first
+    enabled: v.boolean(),
+
+    // What happens on a match
+    actions: v.object({
+      reply: v.optional(v.string()),
+      handoff: v.optional(v.boolean()),
+      departmentId: v.optional(v.id("departments")),
+      tag: v.optional(v.string()),
+    }),
+
+    // Stats
+    hitCount: v.number(),
+    lastHitAt: v.optional(v.number()),
+
+    // Metadata
+    source: v.union(v.literal("manual"), v.literal("context_migration")),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  })
+    .index("by_company", ["companyId"])
+    .index("by_company_priority", ["companyId", "priority"]),
+
+  // ============================================================================
+  // AI DRAFTS - Copilot replies drafted for agents
+  // ============================================================================
+  ai_drafts: defineTable({
+    // Relationships
+    companyId: v.id("companies"),
+    conversationId: v.id("conversations"),
+    agentId: v.id("users"),
+
+    // Draft
+    content: v.string(),
+    aiModel: v.string(),
+    tokensUsed: v.number(),
+    processingTime: v.number(),
+
+    // Outcome: what the agent did with it
+    status: v.union(
+      v.literal("pending"),
+      v.literal("sent"), // Sent unchanged
+      v.literal("edited"), // Sent after changes
+      v.literal("discarded")
+    ),
+    sentMessageId: v.optional(v.id("messages")),
+    resolvedAt: v.optional(v.number()),
+
+    // Metadata
+    createdAt: v.number(),
+  })
+    .index("by_conversation", ["conversationId", "createdAt"])
+    .index("by_company_created", ["companyId", "createdAt"]),
+
+  // ============================================================================
+  // EVAL CASES - Golden questions the AI is regression-tested against
+  // ============================================================================
+  eval_cases: defineTable({
+    companyId: v.id("companies"),
+
+    // Test case (see convex/ai/evals.ts)
+    question: v.string(),
+    expectedFacts: v.array(v.string()), // Answer must mention each of these
+    forbiddenPhrases: v.array(v.string()), // Answer must mention none of these
+    expectHandoff: v.optional(v.boolean()), // Unset = handoff isn't checked
+
+    // Metadata
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_company", ["companyId"]),
+
+  // ============================================================================
+  // EVAL RUNS - One batch execution of a company's eval cases
+  // ============================================================================
+  eval_runs: defineTable({
+    companyId: v.id("companies"),
+    status: v.union(
+      v.literal("running"),
+      v.literal("completed"),
+      v.literal("failed")
+    ),
+
+    // Unsaved AI Studio settings the run was executed with, if any
+    candidateConfig: v.optional(
+      v.object({
+        aiSystemPrompt: v.optional(v.string()),
+        aiResponseLength: v.optional(
+          v.union(v.literal("brief"), v.literal("medium"), v.literal("detailed"))
+        ),
+        aiHandoffTriggers: v.optional(v.array(v.string())),
+        aiHandoffKeywordOverride: v.optional(v.boolean()),
+        aiTopicPolicy: v.optional(
+          v.object({
+            allowedTopics: v.array(v.string()),
+            blockedTopics: v.array(v.string()),
+            deflectionMessage: v.optional(v.string()),
+            strictness: v.union(
+              v.literal("lenient"),
+              v.literal("balanced"),
+              v.literal("strict")
+            ),
+          })
+        ),
+        companyContext: v.optional(v.string()),
+      })
+    ),
+    aiModel: v.optional(v.string()),
+
+    // Progress
+    totalCases: v.number(),
+    completedCases: v.number(),
+    passedCases: v.number(),
+    error: v.optional(v.string()),
+
+    // Metadata
+    startedBy: v.optional(v.id("users")),
+    startedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  }).index("by_company_started", ["companyId", "startedAt"]),
+
+  eval_results: defineTable({
+    runId: v.id("eval_runs"),
+    caseId: v.id("eval_cases"),
+    companyId: v.id("companies"),
+
+    // What the AI did
+    question: v.string(), // Snapshot - the case may be edited later
+    answer: v.string(),
+    handoff: v.boolean(),
+    handoffReason: v.optional(v.string()),
+    ruleName: v.optional(v.string()), // Answered by an automation rule
+    error: v.optional(v.string()),
+
+    // Grade
+    passed: v.boolean(),
+    checks: v.array(
+      v.object({
+        kind: v.union(
+          v.literal("fact"),
+          v.literal("forbidden"),
+          v.literal("handoff")
+        ),
+        expected: v.string(),
+        passed: v.boolean(),
+      })
+    ),
+
+    tokensUsed: v.number(),
+    processingTime: v.number(),
+    createdAt: v.number(),
+  }).index("by_run", ["runId"]),
+
+  // ============================================================================
+  // AI CONFIG VERSIONS - Snapshot of the AI settings on every save
+  // ============================================================================
+  ai_config_versions: defineTable({
+    companyId: v.id("companies"),
+    version: v.number(), // 1, 2, 3... per company
+
+    // Full snapshot (see convex/ai/configVersions.ts)
+    snapshot: v.object({
+      selectedAiModel: v.string(),
+      aiPersonality: v.union(
+        v.literal("professional"),
+        v.literal("friendly"),
+        v.literal("casual"),
+        v.literal("technical")
+      ),
+      aiResponseLength: v.union(
+        v.literal("brief"),
+        v.literal("medium"),
+        v.literal("detailed")
+      ),
+      aiSystemPrompt: v.string(),
+      aiHandoffTriggers: v.array(v.string()),
+      aiHandoffKeywordOverride: v.optional(v.boolean()),
+      aiFailedAttemptsThreshold: v.optional(v.number()),
+      aiApprovalRequired: v.optional(v.boolean()),
+      aiTopicPolicy: v.optional(
+        v.object({
+          allowedTopics: v.array(v.string()),
+          blockedTopics: v.array(v.string()),
+          deflectionMessage: v.optional(v.string()),
+          strictness: v.union(
+            v.literal("lenient"),
+            v.literal("balanced"),
+            v.literal("strict")
+          ),
+        })
+      ),
+      companyContextOriginal: v.string(),
+      companyContextProcessed: v.string(),
+    }),
+    changedFields: v.array(v.string()), // Compared with the previous version
+
+    // Where the save came from
+    source: v.union(
+      v.literal("baseline"), // Settings as they were before the first recorded save
+      v.literal("ai_studio"),
+      v.literal("company_context"),
+      v.literal("onboarding"),
+      v.literal("rollback"),
+      v.literal("experiment") // A promoted experiment variant
+    ),
+    restoredFromVersion: v.optional(v.number()),
+
+    // Metadata
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+  }).index("by_company_version", ["companyId", "version"]),
+
+  // ============================================================================
+  // AI EXPERIMENTS - A/B tests between two config versions
+  // ============================================================================
+  ai_experiments: defineTable({
+    companyId: v.id("companies"),
+    name: v.string(),
+
+    // Variants are saved config versions (see convex/ai/experiments.ts)
+    variantAVersionId: v.id("ai_config_versions"),
+    variantBVersionId: v.id("ai_config_versions"),
+    trafficSplit: v.number(), // Percent of new conversations that get variant B
+
+    status: v.union(
+      v.literal("running"),
+      v.literal("stopped"), // Ended without promoting either variant
+      v.literal("completed") // A winner was promoted to the live config
+    ),
+    winner: v.optional(v.union(v.literal("a"), v.literal("b"))),
+
+    // Metadata
+    startedBy: v.optional(v.id("users")),
+    startedAt: v.number(),
+    endedAt: v.optional(v.number()),
+  })
+    .index("by_company_status", ["companyId", "status"])
+    .index("by_company_started", ["companyId", "startedAt"]),
+
   // ============================================================================
   // PRESENCE - Real-time typing indicators
   // ============================================================================
@@ -604,6 +1212,23 @@ export default defineSchema({
     agentMessageCount: v.number(), // Agent messages
     conversationCount: v.number(), // Active conversations
     handoffCount: v.number(), // AI → Support Staff handoffs
+    aiDraftCount: v.optional(v.number()), // Copilot drafts generated for agents
+
+    // AI spend
+    promptTokens: v.optional(v.number()),
+    completionTokens: v.optional(v.number()),
+    costUsd: v.optional(v.number()),
+    costByModel: v.optional(
+      v.array(
+        v.object({
+          model: v.string(),
+          responses: v.number(),
+          promptTokens: v.number(),
+          completionTokens: v.number(),
+          costUsd: v.number(),
+        })
+      )
+    ),
 
     // Timestamps
     createdAt: v.number(),
@@ -612,6 +1237,54 @@ export default defineSchema({
     .index("by_company_period", ["companyId", "period", "periodStart"])
     .index("by_period_start", ["periodStart"]),
 
+  // ============================================================================
+  // INJECTION DETECTIONS - Suspicious customer messages, for trend reporting
+  // ============================================================================
+  injection_detections: defineTable({
+    companyId: v.id("companies"),
+    conversationId: v.id("conversations"),
+    messageId: v.id("messages"),
+    score: v.number(), // 0-100
+    signals: v.array(v.string()),
+    quarantined: v.boolean(), // Kept from the model and answered with the canned reply
+    createdAt: v.number(),
+  }).index("by_company_created", ["companyId", "createdAt"]),
+
+  // ============================================================================
+  // PRICE INCIDENTS - AI replies that quoted prices not in the plan catalog
+  // ============================================================================
+  price_incidents: defineTable({
+    companyId: v.id("companies"),
+    conversationId: v.id("conversations"),
+    messageId: v.id("messages"),
+    mismatches: v.array(
+      v.object({
+        quoted: v.string(), // As written in the reply, e.g. "$30/month"
+        reason: v.union(v.literal("unknown_amount"), v.literal("wrong_period")),
+        correctedTo: v.optional(v.string()),
+      })
+    ),
+    // How the customer-facing reply was fixed - see convex/ai/priceGuard.ts
+    resolution: v.union(
+      v.literal("corrected"),
+      v.literal("regenerated"),
+      v.literal("flagged"),
+      v.literal("price_list") // Older incidents, before unresolved replies were flagged
+    ),
+    originalReply: v.string(),
+    createdAt: v.number(),
+  }).index("by_company_created", ["companyId", "createdAt"]),
+
+  // ============================================================================
+  // MODEL PRICING - Per-model token prices used to cost AI replies
+  // ============================================================================
+  model_pricing: defineTable({
+    model: v.string(), // Model name without provider prefix, e.g. "gpt-5-nano"
+    inputPerMillion: v.number(), // USD per 1M prompt tokens
+    outputPerMillion: v.number(), // USD per 1M completion tokens
+    updatedAt: v.number(),
+  }).index("by_model", ["model"]),
+
   // ============================================================================
   // PRODUCTS - Whop products/listings for AI context
   // ============================================================================
@@ -771,10 +1444,93 @@ export default defineSchema({
     description: v.optional(v.string()),
     isActive: v.boolean(),
     isDefault: v.optional(v.boolean()),
+    aiApprovalMode: v.optional(
+      v.union(
+        v.literal("inherit"),
+        v.literal("required"),
+        v.literal("autonomous")
+      )
+    ), // Overrides the company's aiApprovalRequired
+    aiPersona: v.optional(
+      v.object({
+        enabled: v.boolean(),
+        personality: v.optional(
+          v.union(
+            v.literal("professional"),
+            v.literal("friendly"),
+            v.literal("casual"),
+            v.literal("technical")
+          )
+        ),
+        instructions: v.optional(v.string()),
+        knowledgeTopics: v.optional(v.array(v.string())), // Context sections must mention one
+        productIds: v.optional(v.array(v.id("products"))),
+        handoffTriggers: v.optional(v.array(v.string())), // Replaces the company's triggers
+      })
+    ), // Department AI that answers before handing off to the department's agents
+    assignmentStrategy: v.optional(
+      v.union(
+        v.literal("inherit"),
+        v.literal("manual"),
+        v.literal("round_robin"),
+        v.literal("least_busy"),
+        v.literal("skills")
+      )
+    ), // Overrides the company's assignment strategy
     createdBy: v.id("users"),
     createdAt: v.number(),
     updatedAt: v.number(),
   })
     .index("by_company", ["companyId"])
     .index("by_company_active", ["companyId", "isActive"]),
+
+  // ============================================================================
+  // TAGS - Company labels for categorizing conversations
+  // ============================================================================
+  tags: defineTable({
+    companyId: v.id("companies"),
+    name: v.string(),
+    key: v.string(), // Lowercased name - names are unique per company, ignoring case
+    color: v.string(), // One of TAG_COLORS in convex/tags/names.ts
+    description: v.optional(v.string()),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_company_key", ["companyId", "key"]),
+
+  // ============================================================================
+  // CONVERSATION TAGS - Which tags are on which conversations
+  // ============================================================================
+  conversation_tags: defineTable({
+    companyId: v.id("companies"),
+    conversationId: v.id("conversations"),
+    tagId: v.id("tags"),
+    source: v.union(
+      v.literal("agent"),
+      v.literal("ai_rule"),
+      v.literal("template"),
+      v.literal("migration")
+    ),
+    addedBy: v.optional(v.id("users")), // Agent, or whoever used the template
+    createdAt: v.number(),
+  })
+    .index("by_conversation_tag", ["conversationId", "tagId"])
+    .index("by_tag", ["tagId"])
+    .index("by_company_created", ["companyId", "createdAt"]),
+
+  // ============================================================================
+  // SLA POLICIES - Response and resolution targets for handed-off conversations
+  // ============================================================================
+  sla_policies: defineTable({
+    companyId: v.id("companies"),
+    departmentId: v.optional(v.id("departments")), // Unset = company default
+    name: v.string(),
+    isActive: v.boolean(),
+    firstResponseMinutes: v.number(),
+    nextResponseMinutes: v.optional(v.number()),
+    resolutionMinutes: v.optional(v.number()),
+    createdBy: v.optional(v.id("users")),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_company", ["companyId"]),
 });
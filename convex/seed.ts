@@ -39,6 +39,7 @@ export const seedInitialData = mutation({
       // AI Configuration
       aiModels: ["gpt-4o-mini"],
       aiResponsesPerMonth: 100,
+      aiDraftsPerMonth: 50,
 
       // Features
       hasTemplates: false,
@@ -62,6 +63,7 @@ export const seedInitialData = mutation({
       // AI Configuration
       aiModels: ["gpt-4o-mini", "gpt-4o"],
       aiResponsesPerMonth: 5000,
+      aiDraftsPerMonth: 2000,
 
       // Features
       hasTemplates: true,
@@ -85,6 +87,7 @@ export const seedInitialData = mutation({
       // AI Configuration
       aiModels: ["gpt-4o", "gpt-4o-mini", "gpt-4"],
       aiResponsesPerMonth: 25000,
+      aiDraftsPerMonth: 10000,
 
       // Features
       hasTemplates: true,
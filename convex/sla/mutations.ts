@@ -0,0 +1,244 @@
+/**
+ * SLA Mutations
+ *
+ * Manage SLA policies and keep each conversation's SLA clock up to date.
+ * The clock starts at the handoff; a scheduled check at the next deadline
+ * marks breaches.
+ */
+
+import { mutation, internalMutation, type MutationCtx } from "../_generated/server";
+import { internal } from "../_generated/api";
+import { v } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  DEFAULT_PRIORITY,
+  markSlaBreaches,
+  nextSlaCheckAt,
+  selectSlaPolicy,
+  startSla,
+  type ConversationSla,
+} from "./policy";
+
+function validateTargets(targets: {
+  firstResponseMinutes?: number;
+  nextResponseMinutes?: number;
+  resolutionMinutes?: number;
+}) {
+  for (const minutes of Object.values(targets)) {
+    if (minutes !== undefined && (!Number.isFinite(minutes) || minutes <= 0)) {
+      throw new Error("SLA targets must be a positive number of minutes");
+    }
+  }
+}
+
+async function findPolicyForScope(
+  ctx: MutationCtx,
+  companyId: Id<"companies">,
+  departmentId: Id<"departments"> | undefined
+) {
+  const policies = await ctx.db
+    .query("sla_policies")
+    .withIndex("by_company", (q) => q.eq("companyId", companyId))
+    .collect();
+  return policies.find((policy) => policy.departmentId === departmentId) ?? null;
+}
+
+/**
+ * Store a conversation's SLA and move the breach check to its next deadline
+ */
+async function saveConversationSla(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+  sla: ConversationSla | undefined,
+  patch: Partial<Doc<"conversations">> = {}
+) {
+  const checkAt = sla ? nextSlaCheckAt(sla) : null;
+  const previousCheckAt = conversation.sla ? nextSlaCheckAt(conversation.sla) : null;
+  let slaCheckJobId = conversation.slaCheckJobId;
+
+  if (checkAt !== previousCheckAt || (!slaCheckJobId && checkAt !== null)) {
+    if (slaCheckJobId) {
+      try {
+        await ctx.scheduler.cancel(slaCheckJobId);
+      } catch (error) {
+        // Already ran
+      }
+    }
+    slaCheckJobId =
+      checkAt !== null
+        ? await ctx.scheduler.runAt(checkAt, internal.sla.mutations.checkSlaBreaches, {
+            conversationId: conversation._id,
+          })
+        : undefined;
+  }
+
+  await ctx.db.patch(conversation._id, { ...patch, sla, slaCheckJobId });
+}
+
+/**
+ * Start the SLA clock for a conversation that was just handed to agents.
+ * Call after the handoff patch, so the department is current. Restarts the
+ * clock on a repeat handoff; clears it when no policy applies.
+ */
+export async function startConversationSla(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">
+) {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation) return;
+
+  const policies = await ctx.db
+    .query("sla_policies")
+    .withIndex("by_company", (q) => q.eq("companyId", conversation.companyId))
+    .collect();
+  const policy = selectSlaPolicy(policies, conversation.departmentId);
+
+  if (!policy) {
+    if (conversation.sla && conversation.sla.closedAt === undefined) {
+      await saveConversationSla(ctx, conversation, undefined, { slaPolicyId: undefined });
+    }
+    return;
+  }
+
+  const sla = startSla(
+    {
+      firstResponseMinutes: policy.firstResponseMinutes,
+      nextResponseMinutes: policy.nextResponseMinutes,
+      resolutionMinutes: policy.resolutionMinutes,
+    },
+    conversation.priority ?? DEFAULT_PRIORITY,
+    Date.now()
+  );
+  await saveConversationSla(ctx, conversation, sla, { slaPolicyId: policy._id });
+}
+
+/**
+ * Apply an event (agent reply, customer message, resolution...) to a
+ * conversation's running SLA. Does nothing when there's no SLA.
+ */
+export async function updateConversationSla(
+  ctx: MutationCtx,
+  conversationId: Id<"conversations">,
+  update: (sla: ConversationSla, now: number) => ConversationSla
+) {
+  const conversation = await ctx.db.get(conversationId);
+  if (!conversation?.sla) return;
+  await saveConversationSla(ctx, conversation, update(conversation.sla, Date.now()));
+}
+
+/**
+ * Scheduled at a conversation's next SLA deadline
+ */
+export const checkSlaBreaches = internalMutation({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, { conversationId }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation?.sla) return;
+
+    const sla = markSlaBreaches(conversation.sla, Date.now());
+    if (sla !== conversation.sla) {
+      console.log(`⏰ SLA breached on ${conversationId}: ${sla.breaches.join(", ")}`);
+    }
+
+    // This job is the one stored on the conversation - don't cancel it
+    await saveConversationSla(ctx, { ...conversation, slaCheckJobId: undefined }, sla);
+  },
+});
+
+export const createSlaPolicy = mutation({
+  args: {
+    companyId: v.id("companies"),
+    departmentId: v.optional(v.id("departments")),
+    name: v.string(),
+    firstResponseMinutes: v.number(),
+    nextResponseMinutes: v.optional(v.number()),
+    resolutionMinutes: v.optional(v.number()),
+    createdBy: v.optional(v.id("users")),
+  },
+  handler: async (ctx, { companyId, departmentId, name, createdBy, ...targets }) => {
+    if (!name.trim()) throw new Error("Policy name is required");
+    validateTargets(targets);
+
+    if (departmentId) {
+      const department = await ctx.db.get(departmentId);
+      if (!department || department.companyId !== companyId) {
+        throw new Error("Department not found");
+      }
+    }
+    if (await findPolicyForScope(ctx, companyId, departmentId)) {
+      throw new Error(
+        departmentId
+          ? "This department already has an SLA policy"
+          : "The company already has a default SLA policy"
+      );
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("sla_policies", {
+      companyId,
+      departmentId,
+      name: name.trim(),
+      isActive: true,
+      ...targets,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+/**
+ * Changes apply to SLAs started after the update - running clocks keep
+ * the targets they started with.
+ */
+export const updateSlaPolicy = mutation({
+  args: {
+    policyId: v.id("sla_policies"),
+    name: v.optional(v.string()),
+    isActive: v.optional(v.boolean()),
+    firstResponseMinutes: v.optional(v.number()),
+    nextResponseMinutes: v.optional(v.union(v.number(), v.null())), // null removes the target
+    resolutionMinutes: v.optional(v.union(v.number(), v.null())),
+  },
+  handler: async (ctx, { policyId, ...updates }) => {
+    const policy = await ctx.db.get(policyId);
+    if (!policy) throw new Error("SLA policy not found");
+
+    validateTargets({
+      firstResponseMinutes: updates.firstResponseMinutes,
+      nextResponseMinutes: updates.nextResponseMinutes ?? undefined,
+      resolutionMinutes: updates.resolutionMinutes ?? undefined,
+    });
+
+    const patch: any = { updatedAt: Date.now() };
+    if (updates.name !== undefined) {
+      if (!updates.name.trim()) throw new Error("Policy name is required");
+      patch.name = updates.name.trim();
+    }
+    if (updates.isActive !== undefined) patch.isActive = updates.isActive;
+    if (updates.firstResponseMinutes !== undefined) {
+      patch.firstResponseMinutes = updates.firstResponseMinutes;
+    }
+    if (updates.nextResponseMinutes !== undefined) {
+      patch.nextResponseMinutes = updates.nextResponseMinutes ?? undefined;
+    }
+    if (updates.resolutionMinutes !== undefined) {
+      patch.resolutionMinutes = updates.resolutionMinutes ?? undefined;
+    }
+
+    await ctx.db.patch(policyId, patch);
+    return { success: true };
+  },
+});
+
+export const deleteSlaPolicy = mutation({
+  args: { policyId: v.id("sla_policies") },
+  handler: async (ctx, { policyId }) => {
+    const policy = await ctx.db.get(policyId);
+    if (!policy) throw new Error("SLA policy not found");
+
+    // Conversations keep their running SLA - it carries its own targets
+    await ctx.db.delete(policyId);
+    return { success: true };
+  },
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import {
+  closeSla,
+  markSlaBreaches,
+  nextSlaCheckAt,
+  pauseSla,
+  pendingSlaTargets,
+  recordSlaAgentReply,
+  recordSlaCustomerMessage,
+  reprioritizeSla,
+  resumeSla,
+  selectSlaPolicy,
+  startSla,
+  summarizeSlaAttainment,
+} from "./policy";
+
+const MINUTE = 60 * 1000;
+const targets = { firstResponseMinutes: 60, nextResponseMinutes: 30, resolutionMinutes: 480 };
+
+describe("selectSlaPolicy", () => {
+  const policies = [
+    { name: "Default", isActive: true },
+    { name: "Billing", departmentId: "billing", isActive: true },
+    { name: "Tech", departmentId: "tech", isActive: false },
+  ];
+
+  it("prefers the department's policy", () => {
+    expect(selectSlaPolicy(policies, "billing")?.name).toBe("Billing");
+  });
+
+  it("falls back to the active company default", () => {
+    expect(selectSlaPolicy(policies, "tech")?.name).toBe("Default");
+    expect(selectSlaPolicy(policies, undefined)?.name).toBe("Default");
+    expect(selectSlaPolicy(policies.slice(1), undefined)).toBeNull();
+  });
+});
+
+describe("startSla", () => {
+  it("scales due times by priority", () => {
+    const normal = startSla(targets, "normal", 0);
+    expect(normal.firstResponseDueAt).toBe(60 * MINUTE);
+    expect(normal.resolutionDueAt).toBe(480 * MINUTE);
+
+    const urgent = startSla(targets, "urgent", 0);
+    expect(urgent.firstResponseDueAt).toBe(15 * MINUTE);
+    expect(startSla({ firstResponseMinutes: 60 }, "low", 0).resolutionDueAt).toBeUndefined();
+  });
+
+  it("rescales running targets when the priority changes", () => {
+    const sla = reprioritizeSla(startSla(targets, "normal", 0), "high");
+    expect(sla.firstResponseDueAt).toBe(30 * MINUTE);
+    expect(sla.resolutionDueAt).toBe(240 * MINUTE);
+
+    const responded = recordSlaAgentReply(startSla(targets, "normal", 0), 10 * MINUTE);
+    expect(reprioritizeSla(responded, "urgent").firstResponseDueAt).toBe(60 * MINUTE);
+  });
+});
+
+describe("responses", () => {
+  it("meets the first response and opens a window for the next one", () => {
+    let sla = recordSlaAgentReply(startSla(targets, "normal", 0), 20 * MINUTE);
+    expect(sla.firstRespondedAt).toBe(20 * MINUTE);
+    expect(sla.breaches).toEqual([]);
+
+    sla = recordSlaCustomerMessage(sla, 40 * MINUTE);
+    expect(sla.nextResponseDueAt).toBe(70 * MINUTE);
+    // A second customer message doesn't restart the clock
+    expect(recordSlaCustomerMessage(sla, 50 * MINUTE).nextResponseDueAt).toBe(70 * MINUTE);
+
+    sla = recordSlaAgentReply(sla, 60 * MINUTE);
+    expect(sla.nextResponseDueAt).toBeUndefined();
+    expect(sla.nextResponsesMet).toBe(1);
+  });
+
+  it("doesn't open a next-response window before the first response", () => {
+    const sla = recordSlaCustomerMessage(startSla(targets, "normal", 0), 5 * MINUTE);
+    expect(sla.nextResponseOpenedAt).toBeUndefined();
+  });
+
+  it("counts a late reply as breached", () => {
+    let sla = recordSlaAgentReply(startSla(targets, "normal", 0), 90 * MINUTE);
+    expect(sla.breaches).toEqual(["first_response"]);
+
+    sla = recordSlaCustomerMessage(sla, 100 * MINUTE);
+    sla = recordSlaAgentReply(sla, 200 * MINUTE);
+    expect(sla.breaches).toEqual(["first_response", "next_response"]);
+    expect(sla.nextResponsesBreached).toBe(1);
+    expect(sla.nextResponsesMet).toBe(0);
+  });
+});
+
+describe("markSlaBreaches", () => {
+  it("marks each overdue target once", () => {
+    const sla = startSla(targets, "normal", 0);
+    expect(markSlaBreaches(sla, 30 * MINUTE).breaches).toEqual([]);
+
+    const breached = markSlaBreaches(markSlaBreaches(sla, 61 * MINUTE), 62 * MINUTE);
+    expect(breached.breaches).toEqual(["first_response"]);
+    // Still overdue, so it stays in the list
+    expect(pendingSlaTargets(breached)[0]).toEqual({ metric: "first_response", dueAt: 60 * MINUTE });
+  });
+
+  it("schedules the next check for the earliest target not yet breached", () => {
+    const sla = startSla(targets, "normal", 0);
+    expect(nextSlaCheckAt(sla)).toBe(60 * MINUTE);
+    expect(nextSlaCheckAt(markSlaBreaches(sla, 61 * MINUTE))).toBe(480 * MINUTE);
+    expect(nextSlaCheckAt(closeSla(sla, 10 * MINUTE, true))).toBeNull();
+  });
+});
+
+describe("closeSla", () => {
+  it("records a late resolution and stops every target", () => {
+    const sla = closeSla(recordSlaAgentReply(startSla(targets, "normal", 0), MINUTE), 500 * MINUTE, true);
+    expect(sla.breaches).toEqual(["resolution"]);
+    expect(sla.resolvedAt).toBe(500 * MINUTE);
+    expect(pendingSlaTargets(sla)).toEqual([]);
+  });
+});
+
+describe("pauseSla", () => {
+  it("stops every target while parked and moves them back on resume", () => {
+    const paused = pauseSla(startSla(targets, "normal", 0), 30 * MINUTE);
+    expect(pendingSlaTargets(paused)).toEqual([]);
+    expect(nextSlaCheckAt(paused)).toBeNull();
+    expect(markSlaBreaches(paused, 600 * MINUTE).breaches).toEqual([]);
+
+    const resumed = resumeSla(paused, 630 * MINUTE);
+    expect(resumed.firstResponseDueAt).toBe(660 * MINUTE);
+    expect(resumed.resolutionDueAt).toBe(1080 * MINUTE);
+    expect(reprioritizeSla(resumed, "normal").firstResponseDueAt).toBe(660 * MINUTE);
+  });
+
+  it("lets the customer's reply open a fresh window after the pause", () => {
+    const responded = recordSlaAgentReply(startSla(targets, "normal", 0), 10 * MINUTE);
+    const paused = pauseSla(responded, 20 * MINUTE);
+    const resumed = resumeSla(recordSlaCustomerMessage(paused, 200 * MINUTE), 200 * MINUTE);
+    expect(resumed.nextResponseDueAt).toBe(230 * MINUTE);
+    expect(resumed.resolutionDueAt).toBe(660 * MINUTE);
+  });
+
+  it("counts targets already overdue when parked", () => {
+    expect(pauseSla(startSla(targets, "normal", 0), 90 * MINUTE).breaches).toEqual(["first_response"]);
+  });
+});
+
+describe("summarizeSlaAttainment", () => {
+  it("counts met and breached targets, leaving running ones out", () => {
+    const onTime = closeSla(recordSlaAgentReply(startSla(targets, "normal", 0), MINUTE), 100 * MINUTE, true);
+    const late = recordSlaAgentReply(startSla(targets, "urgent", 0), 30 * MINUTE);
+    const running = startSla(targets, "normal", 0);
+
+    const summary = summarizeSlaAttainment([onTime, late, running]);
+    expect(summary.conversations).toBe(3);
+    expect(summary.breachedConversations).toBe(1);
+    expect(summary.metrics.first_response).toEqual({ met: 1, breached: 1, attainmentRate: 0.5 });
+    expect(summary.metrics.resolution).toEqual({ met: 1, breached: 0, attainmentRate: 1 });
+    expect(summary.metrics.next_response.attainmentRate).toBeNull();
+    expect(summary.byPriority.urgent).toEqual({ conversations: 1, breached: 1 });
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * SLA POLICIES
+ *
+ * A policy sets how fast agents must answer once a conversation reaches
+ * them. It has three targets:
+ * - first response: the first agent reply after the handoff,
+ * - next response: every later agent reply, counted from the customer message
+ *   that's waiting for one,
+ * - resolution: marking the conversation resolved.
+ *
+ * The clock starts at the handoff. Targets are scaled by the conversation's
+ * priority, so an urgent conversation gets a quarter of the time. A department
+ * policy wins over the company default. The clock is paused while the
+ * conversation is parked, and every running target moves back by the pause.
+ *
+ * Everything here is pure - the mutations store the resulting `ConversationSla`
+ * on the conversation and schedule a check for the next deadline.
+ */
+
+export type ConversationPriority = "low" | "normal" | "high" | "urgent";
+
+export type SlaMetric = "first_response" | "next_response" | "resolution";
+
+export const DEFAULT_PRIORITY: ConversationPriority = "normal";
+
+export const PRIORITY_LABELS: Record<ConversationPriority, string> = {
+  low: "Low",
+  normal: "Normal",
+  high: "High",
+  urgent: "Urgent",
+};
+
+export const SLA_METRIC_LABELS: Record<SlaMetric, string> = {
+  first_response: "First response",
+  next_response: "Next response",
+  resolution: "Resolution",
+};
+
+// Share of the policy's target time each priority gets
+export const PRIORITY_TARGET_MULTIPLIERS: Record<ConversationPriority, number> = {
+  urgent: 0.25,
+  high: 0.5,
+  normal: 1,
+  low: 2,
+};
+
+// Targets closer than this show as "due soon" in the agent list
+export const SLA_DUE_SOON_MS = 15 * 60 * 1000;
+
+export type SlaTargets = {
+  firstResponseMinutes: number;
+  nextResponseMinutes?: number;
+  resolutionMinutes?: number;
+};
+
+export type ConversationSla = {
+  priority: ConversationPriority;
+  targets: SlaTargets; // The policy's unscaled targets, kept so priority changes can rescale
+  startedAt: number;
+  firstResponseDueAt: number;
+  firstRespondedAt?: number;
+  nextResponseOpenedAt?: number; // Customer message waiting for an agent reply
+  nextResponseDueAt?: number;
+  nextResponseBreached?: boolean; // The open window is already counted as breached
+  resolutionDueAt?: number;
+  resolvedAt?: number;
+  closedAt?: number; // Resolved, or handed back to the AI
+  pausedAt?: number; // Parked - no target runs until it's resumed
+  pausedMs?: number; // Total time spent paused, added to every target
+  breaches: SlaMetric[];
+  nextResponsesMet: number;
+  nextResponsesBreached: number;
+};
+
+export type SlaTarget = {
+  metric: SlaMetric;
+  dueAt: number;
+};
+
+export type SlaMetricAttainment = {
+  met: number;
+  breached: number;
+  attainmentRate: number | null; // null when nothing has been measured yet
+};
+
+export type SlaAttainment = {
+  conversations: number;
+  breachedConversations: number;
+  metrics: Record<SlaMetric, SlaMetricAttainment>;
+  byPriority: Record<ConversationPriority, { conversations: number; breached: number }>;
+};
+
+const MINUTE_MS = 60 * 1000;
+
+export function scaleTargetMs(minutes: number, priority: ConversationPriority): number {
+  return Math.round(minutes * MINUTE_MS * PRIORITY_TARGET_MULTIPLIERS[priority]);
+}
+
+/**
+ * The policy that applies to a conversation: the department's active policy,
+ * otherwise the company's active default (one without a department).
+ */
+export function selectSlaPolicy<T extends { departmentId?: unknown; isActive: boolean }>(
+  policies: T[],
+  departmentId: unknown
+): T | null {
+  const active = policies.filter((policy) => policy.isActive);
+  if (departmentId) {
+    const departmentPolicy = active.find((policy) => policy.departmentId === departmentId);
+    if (departmentPolicy) return departmentPolicy;
+  }
+  return active.find((policy) => !policy.departmentId) ?? null;
+}
+
+export function startSla(
+  targets: SlaTargets,
+  priority: ConversationPriority,
+  now: number
+): ConversationSla {
+  return {
+    priority,
+    targets,
+    startedAt: now,
+    firstResponseDueAt: now + scaleTargetMs(targets.firstResponseMinutes, priority),
+    resolutionDueAt:
+      targets.resolutionMinutes !== undefined
+        ? now + scaleTargetMs(targets.resolutionMinutes, priority)
+        : undefined,
+    breaches: [],
+    nextResponsesMet: 0,
+    nextResponsesBreached: 0,
+  };
+}
+
+/**
+ * Rescale the due times for a new priority. Targets already met or breached
+ * keep their outcome.
+ */
+export function reprioritizeSla(
+  sla: ConversationSla,
+  priority: ConversationPriority
+): ConversationSla {
+  const { targets } = sla;
+  return {
+    ...sla,
+    priority,
+    firstResponseDueAt:
+      sla.firstRespondedAt !== undefined
+        ? sla.firstResponseDueAt
+        : sla.startedAt + (sla.pausedMs ?? 0) + scaleTargetMs(targets.firstResponseMinutes, priority),
+    nextResponseDueAt:
+      sla.nextResponseOpenedAt !== undefined && targets.nextResponseMinutes !== undefined
+        ? sla.nextResponseOpenedAt + scaleTargetMs(targets.nextResponseMinutes, priority)
+        : sla.nextResponseDueAt,
+    resolutionDueAt:
+      targets.resolutionMinutes !== undefined && sla.closedAt === undefined
+        ? sla.startedAt + (sla.pausedMs ?? 0) + scaleTargetMs(targets.resolutionMinutes, priority)
+        : sla.resolutionDueAt,
+  };
+}
+
+/**
+ * Targets still running, earliest first. Breached targets stay in the list
+ * until they're met, so the agent list keeps showing them as overdue.
+ * Nothing runs while the clock is paused.
+ */
+export function pendingSlaTargets(sla: ConversationSla): SlaTarget[] {
+  if (sla.closedAt !== undefined || sla.pausedAt !== undefined) return [];
+
+  const pending: SlaTarget[] = [];
+  if (sla.firstRespondedAt === undefined) {
+    pending.push({ metric: "first_response", dueAt: sla.firstResponseDueAt });
+  }
+  if (sla.nextResponseDueAt !== undefined) {
+    pending.push({ metric: "next_response", dueAt: sla.nextResponseDueAt });
+  }
+  if (sla.resolutionDueAt !== undefined) {
+    pending.push({ metric: "resolution", dueAt: sla.resolutionDueAt });
+  }
+  return pending.sort((a, b) => a.dueAt - b.dueAt);
+}
+
+function isCounted(sla: ConversationSla, target: SlaTarget): boolean {
+  return target.metric === "next_response"
+    ? sla.nextResponseBreached === true
+    : sla.breaches.includes(target.metric);
+}
+
+/**
+ * When the breach check should next run: the earliest target not yet
+ * counted as breached. null once nothing is left to breach.
+ */
+export function nextSlaCheckAt(sla: ConversationSla): number | null {
+  const next = pendingSlaTargets(sla).find((target) => !isCounted(sla, target));
+  return next ? next.dueAt : null;
+}
+
+/**
+ * Record every target that's past due. Safe to call repeatedly - each
+ * target is only counted once.
+ */
+export function markSlaBreaches(sla: ConversationSla, now: number): ConversationSla {
+  let next = sla;
+  for (const target of pendingSlaTargets(sla)) {
+    if (target.dueAt >= now || isCounted(next, target)) continue;
+    next = {
+      ...next,
+      breaches: next.breaches.includes(target.metric)
+        ? next.breaches
+        : [...next.breaches, target.metric],
+    };
+    if (target.metric === "next_response") {
+      next = {
+        ...next,
+        nextResponseBreached: true,
+        nextResponsesBreached: next.nextResponsesBreached + 1,
+      };
+    }
+  }
+  return next;
+}
+
+/**
+ * An agent replied: meets the first response, or closes the open
+ * next-response window.
+ */
+export function recordSlaAgentReply(sla: ConversationSla, now: number): ConversationSla {
+  if (sla.closedAt !== undefined) return sla;
+  const checked = markSlaBreaches(sla, now);
+
+  if (checked.firstRespondedAt === undefined) {
+    return { ...checked, firstRespondedAt: now };
+  }
+  if (checked.nextResponseOpenedAt === undefined) return checked;
+
+  return {
+    ...checked,
+    nextResponseOpenedAt: undefined,
+    nextResponseDueAt: undefined,
+    nextResponseBreached: undefined,
+    nextResponsesMet: checked.nextResponseBreached
+      ? checked.nextResponsesMet
+      : checked.nextResponsesMet + 1,
+  };
+}
+
+/**
+ * A customer wrote in: after the first response, this starts the
+ * next-response clock unless one is already running.
+ */
+export function recordSlaCustomerMessage(sla: ConversationSla, now: number): ConversationSla {
+  if (
+    sla.closedAt !== undefined ||
+    sla.firstRespondedAt === undefined ||
+    sla.nextResponseOpenedAt !== undefined ||
+    sla.targets.nextResponseMinutes === undefined
+  ) {
+    return sla;
+  }
+  return {
+    ...sla,
+    nextResponseOpenedAt: now,
+    nextResponseDueAt: now + scaleTargetMs(sla.targets.nextResponseMinutes, sla.priority),
+  };
+}
+
+/**
+ * Stop the clock. `resolved` is false when the conversation went back to the
+ * AI - that isn't a resolution, but no target is running any more either.
+ */
+export function closeSla(sla: ConversationSla, now: number, resolved: boolean): ConversationSla {
+  if (sla.closedAt !== undefined) return sla;
+  return {
+    ...markSlaBreaches(sla, now),
+    closedAt: now,
+    resolvedAt: resolved ? now : undefined,
+  };
+}
+
+/**
+ * Pause the clock while the conversation is parked. Targets already past
+ * due are counted first.
+ */
+export function pauseSla(sla: ConversationSla, now: number): ConversationSla {
+  if (sla.closedAt !== undefined || sla.pausedAt !== undefined) return sla;
+  return { ...markSlaBreaches(sla, now), pausedAt: now };
+}
+
+/**
+ * Restart a paused clock, moving every running target back by the pause.
+ * A next-response window opened during the pause (the customer's reply that
+ * woke the conversation) already counts from its own start.
+ */
+export function resumeSla(sla: ConversationSla, now: number): ConversationSla {
+  if (sla.pausedAt === undefined) return sla;
+  const paused = Math.max(0, now - sla.pausedAt);
+  const shiftWindow =
+    sla.nextResponseOpenedAt !== undefined && sla.nextResponseOpenedAt <= sla.pausedAt;
+
+  return {
+    ...sla,
+    pausedAt: undefined,
+    pausedMs: (sla.pausedMs ?? 0) + paused,
+    firstResponseDueAt:
+      sla.firstRespondedAt === undefined ? sla.firstResponseDueAt + paused : sla.firstResponseDueAt,
+    nextResponseOpenedAt: shiftWindow ? sla.nextResponseOpenedAt! + paused : sla.nextResponseOpenedAt,
+    nextResponseDueAt:
+      shiftWindow && sla.nextResponseDueAt !== undefined
+        ? sla.nextResponseDueAt + paused
+        : sla.nextResponseDueAt,
+    resolutionDueAt:
+      sla.resolutionDueAt !== undefined ? sla.resolutionDueAt + paused : sla.resolutionDueAt,
+  };
+}
+
+function rate(met: number, breached: number): number | null {
+  return met + breached > 0 ? met / (met + breached) : null;
+}
+
+/**
+ * Met vs breached targets across conversations. Targets still running
+ * aren't counted either way.
+ */
+export function summarizeSlaAttainment(slas: ConversationSla[]): SlaAttainment {
+  const counts: Record<SlaMetric, { met: number; breached: number }> = {
+    first_response: { met: 0, breached: 0 },
+    next_response: { met: 0, breached: 0 },
+    resolution: { met: 0, breached: 0 },
+  };
+  const byPriority: SlaAttainment["byPriority"] = {
+    urgent: { conversations: 0, breached: 0 },
+    high: { conversations: 0, breached: 0 },
+    normal: { conversations: 0, breached: 0 },
+    low: { conversations: 0, breached: 0 },
+  };
+  let breachedConversations = 0;
+
+  for (const sla of slas) {
+    if (sla.breaches.includes("first_response")) counts.first_response.breached++;
+    else if (sla.firstRespondedAt !== undefined) counts.first_response.met++;
+
+    counts.next_response.met += sla.nextResponsesMet;
+    counts.next_response.breached += sla.nextResponsesBreached;
+
+    if (sla.breaches.includes("resolution")) counts.resolution.breached++;
+    else if (sla.resolutionDueAt !== undefined && sla.resolvedAt !== undefined) {
+      counts.resolution.met++;
+    }
+
+    const breached = sla.breaches.length > 0;
+    if (breached) breachedConversations++;
+    byPriority[sla.priority].conversations++;
+    if (breached) byPriority[sla.priority].breached++;
+  }
+
+  const metrics = {} as Record<SlaMetric, SlaMetricAttainment>;
+  for (const metric of Object.keys(counts) as SlaMetric[]) {
+    const { met, breached } = counts[metric];
+    metrics[metric] = { met, breached, attainmentRate: rate(met, breached) };
+  }
+
+  return {
+    conversations: slas.length,
+    breachedConversations,
+    metrics,
+    byPriority,
+  };
+}
@@ -0,0 +1,57 @@
+/**
+ * SLA Queries
+ *
+ * SLA policies for the workspace settings and attainment reporting for insights.
+ */
+
+import { v } from "convex/values";
+import { query } from "../_generated/server";
+import { pendingSlaTargets, summarizeSlaAttainment } from "./policy";
+
+export const listSlaPolicies = query({
+  args: { companyId: v.id("companies") },
+  handler: async (ctx, { companyId }) => {
+    return await ctx.db
+      .query("sla_policies")
+      .withIndex("by_company", (q) => q.eq("companyId", companyId))
+      .collect();
+  },
+});
+
+/**
+ * Met vs breached targets for conversations handed off in the period, and
+ * how many open conversations are past a deadline right now
+ */
+export const getSlaAttainment = query({
+  args: {
+    companyId: v.id("companies"),
+    period: v.union(
+      v.literal("3days"),
+      v.literal("week"),
+      v.literal("month"),
+      v.literal("3months")
+    ),
+  },
+  handler: async (ctx, { companyId, period }) => {
+    const days = { "3days": 3, week: 7, month: 30, "3months": 90 }[period];
+    const now = Date.now();
+    const startTime = now - days * 24 * 60 * 60 * 1000;
+
+    const conversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_company_handoff", (q) =>
+        q.eq("companyId", companyId).gte("handoffTriggeredAt", startTime)
+      )
+      .collect();
+
+    const slas = conversations.flatMap((conversation) =>
+      conversation.sla && conversation.sla.startedAt >= startTime ? [conversation.sla] : []
+    );
+
+    return {
+      ...summarizeSlaAttainment(slas),
+      overdueNow: slas.filter((sla) => pendingSlaTargets(sla).some((target) => target.dueAt < now))
+        .length,
+    };
+  },
+});
@@ -0,0 +1,220 @@
+/**
+ * Tag Mutations
+ *
+ * Manage a company's tags and put them on conversations. Agents tag from
+ * the conversation view; AI rules and templates tag through the helpers
+ * below.
+ */
+
+import { mutation, type MutationCtx } from "../_generated/server";
+import { v } from "convex/values";
+import type { Doc, Id } from "../_generated/dataModel";
+import {
+  defaultTagColor,
+  isTagColor,
+  normalizeTagName,
+  tagKey,
+  type TagSource,
+} from "./names";
+
+function validateColor(color: string) {
+  if (!isTagColor(color)) throw new Error(`Unknown tag color "${color}"`);
+}
+
+async function getTagByName(ctx: MutationCtx, companyId: Id<"companies">, name: string) {
+  return await ctx.db
+    .query("tags")
+    .withIndex("by_company_key", (q) => q.eq("companyId", companyId).eq("key", tagKey(name)))
+    .first();
+}
+
+/**
+ * The company's tag with this name (ignoring case), created if missing
+ */
+export async function findOrCreateTag(
+  ctx: MutationCtx,
+  companyId: Id<"companies">,
+  name: string,
+  createdBy?: Id<"users">
+): Promise<Id<"tags">> {
+  const existing = await getTagByName(ctx, companyId, name);
+  if (existing) return existing._id;
+
+  const normalized = normalizeTagName(name);
+  const now = Date.now();
+  return await ctx.db.insert("tags", {
+    companyId,
+    name: normalized,
+    key: normalized.toLowerCase(),
+    color: defaultTagColor(normalized),
+    createdBy,
+    createdAt: now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Put a tag on a conversation. Returns false when it was already there.
+ */
+export async function addConversationTag(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+  tagId: Id<"tags">,
+  source: TagSource,
+  addedBy?: Id<"users">
+): Promise<boolean> {
+  const existing = await ctx.db
+    .query("conversation_tags")
+    .withIndex("by_conversation_tag", (q) =>
+      q.eq("conversationId", conversation._id).eq("tagId", tagId)
+    )
+    .first();
+  if (existing) return false;
+
+  const now = Date.now();
+  await ctx.db.insert("conversation_tags", {
+    companyId: conversation.companyId,
+    conversationId: conversation._id,
+    tagId,
+    source,
+    addedBy,
+    createdAt: now,
+  });
+  await ctx.db.patch(conversation._id, { updatedAt: now });
+  return true;
+}
+
+export const createTag = mutation({
+  args: {
+    companyId: v.id("companies"),
+    name: v.string(),
+    color: v.optional(v.string()),
+    description: v.optional(v.string()),
+    createdBy: v.optional(v.id("users")),
+  },
+  handler: async (ctx, { companyId, name, color, description, createdBy }) => {
+    const normalized = normalizeTagName(name);
+    if (color !== undefined) validateColor(color);
+    if (await getTagByName(ctx, companyId, normalized)) {
+      throw new Error(`A tag named "${normalized}" already exists`);
+    }
+
+    const now = Date.now();
+    return await ctx.db.insert("tags", {
+      companyId,
+      name: normalized,
+      key: normalized.toLowerCase(),
+      color: color ?? defaultTagColor(normalized),
+      description: description?.trim() || undefined,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+    });
+  },
+});
+
+export const updateTag = mutation({
+  args: {
+    tagId: v.id("tags"),
+    name: v.optional(v.string()),
+    color: v.optional(v.string()),
+    description: v.optional(v.string()),
+  },
+  handler: async (ctx, { tagId, name, color, description }) => {
+    const tag = await ctx.db.get(tagId);
+    if (!tag) throw new Error("Tag not found");
+
+    const patch: any = { updatedAt: Date.now() };
+    if (name !== undefined) {
+      const normalized = normalizeTagName(name);
+      const existing = await getTagByName(ctx, tag.companyId, normalized);
+      if (existing && existing._id !== tagId) {
+        throw new Error(`A tag named "${normalized}" already exists`);
+      }
+      patch.name = normalized;
+      patch.key = normalized.toLowerCase();
+    }
+    if (color !== undefined) {
+      validateColor(color);
+      patch.color = color;
+    }
+    if (description !== undefined) patch.description = description.trim() || undefined;
+
+    await ctx.db.patch(tagId, patch);
+    return { success: true };
+  },
+});
+
+/**
+ * Delete a tag, removing it from every conversation and template
+ */
+export const deleteTag = mutation({
+  args: { tagId: v.id("tags") },
+  handler: async (ctx, { tagId }) => {
+    const tag = await ctx.db.get(tagId);
+    if (!tag) throw new Error("Tag not found");
+
+    const links = await ctx.db
+      .query("conversation_tags")
+      .withIndex("by_tag", (q) => q.eq("tagId", tagId))
+      .collect();
+    for (const link of links) {
+      await ctx.db.delete(link._id);
+    }
+
+    const templates = await ctx.db
+      .query("templates")
+      .withIndex("by_company_active", (q) => q.eq("companyId", tag.companyId))
+      .collect();
+    for (const template of templates) {
+      if (template.tagIds?.includes(tagId)) {
+        await ctx.db.patch(template._id, {
+          tagIds: template.tagIds.filter((id) => id !== tagId),
+        });
+      }
+    }
+
+    await ctx.db.delete(tagId);
+    return { success: true, removedFrom: links.length };
+  },
+});
+
+export const addTagToConversation = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    tagId: v.id("tags"),
+    agentId: v.optional(v.id("users")),
+  },
+  handler: async (ctx, { conversationId, tagId, agentId }) => {
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) throw new Error("Conversation not found");
+
+    const tag = await ctx.db.get(tagId);
+    if (!tag || tag.companyId !== conversation.companyId) {
+      throw new Error("Tag not found");
+    }
+
+    const added = await addConversationTag(ctx, conversation, tagId, "agent", agentId);
+    return { success: true, added };
+  },
+});
+
+export const removeTagFromConversation = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    tagId: v.id("tags"),
+  },
+  handler: async (ctx, { conversationId, tagId }) => {
+    const link = await ctx.db
+      .query("conversation_tags")
+      .withIndex("by_conversation_tag", (q) =>
+        q.eq("conversationId", conversationId).eq("tagId", tagId)
+      )
+      .first();
+    if (!link) return { success: true, removed: false };
+
+    await ctx.db.delete(link._id);
+    await ctx.db.patch(conversationId, { updatedAt: Date.now() });
+    return { success: true, removed: true };
+  },
+});
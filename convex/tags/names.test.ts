@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { defaultTagColor, isTagColor, normalizeTagName, tagKey } from "./names";
+
+describe("normalizeTagName", () => {
+  it("trims and collapses whitespace", () => {
+    expect(normalizeTagName("  Refund   request ")).toBe("Refund request");
+  });
+
+  it("rejects empty and overlong names", () => {
+    expect(() => normalizeTagName("   ")).toThrow("required");
+    expect(() => normalizeTagName("x".repeat(41))).toThrow("at most 40");
+  });
+});
+
+describe("tagKey", () => {
+  it("matches names case-insensitively", () => {
+    expect(tagKey("Refund  Request")).toBe(tagKey("refund request"));
+  });
+});
+
+describe("defaultTagColor", () => {
+  it("is stable per name and never gray", () => {
+    expect(defaultTagColor("billing")).toBe(defaultTagColor(" Billing "));
+    for (const name of ["billing", "refund", "bug", "vip", "discord", "onboarding"]) {
+      const color = defaultTagColor(name);
+      expect(isTagColor(color)).toBe(true);
+      expect(color).not.toBe("gray");
+    }
+  });
+});
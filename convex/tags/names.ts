@@ -0,0 +1,62 @@
+/**
+ * TAG NAMES
+ *
+ * Tags are company-wide labels agents, AI rules and templates put on
+ * conversations. Names are matched case-insensitively, so "Refund" from a
+ * rule and "refund" typed by an agent land on the same tag.
+ */
+
+export const MAX_TAG_NAME_LENGTH = 40;
+
+export const TAG_COLORS = [
+  "gray",
+  "red",
+  "orange",
+  "yellow",
+  "green",
+  "blue",
+  "indigo",
+  "purple",
+  "pink",
+] as const;
+
+export type TagColor = (typeof TAG_COLORS)[number];
+
+export type TagSource = "agent" | "ai_rule" | "template" | "migration";
+
+/**
+ * Trimmed name with inner whitespace collapsed. Throws when nothing is left
+ * or the name is too long.
+ */
+export function normalizeTagName(name: string): string {
+  const normalized = name.trim().replace(/\s+/g, " ");
+  if (!normalized) throw new Error("Tag name is required");
+  if (normalized.length > MAX_TAG_NAME_LENGTH) {
+    throw new Error(`Tag names can be at most ${MAX_TAG_NAME_LENGTH} characters`);
+  }
+  return normalized;
+}
+
+/**
+ * Lookup key - two names with the same key are the same tag
+ */
+export function tagKey(name: string): string {
+  return normalizeTagName(name).toLowerCase();
+}
+
+export function isTagColor(color: string): color is TagColor {
+  return (TAG_COLORS as readonly string[]).includes(color);
+}
+
+/**
+ * Colour for a tag created without one (by a rule or the migration).
+ * Stable per name, and never gray so it stands out from the default.
+ */
+export function defaultTagColor(name: string): TagColor {
+  const key = tagKey(name);
+  let hash = 0;
+  for (let i = 0; i < key.length; i++) {
+    hash = (hash * 31 + key.charCodeAt(i)) >>> 0;
+  }
+  return TAG_COLORS[1 + (hash % (TAG_COLORS.length - 1))];
+}
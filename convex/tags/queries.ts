@@ -0,0 +1,80 @@
+/**
+ * Tag Queries
+ *
+ * The company's tags for pickers and settings, and tag counts for insights.
+ */
+
+import { v } from "convex/values";
+import { query } from "../_generated/server";
+
+export const listTags = query({
+  args: { companyId: v.id("companies") },
+  handler: async (ctx, { companyId }) => {
+    const tags = await ctx.db
+      .query("tags")
+      .withIndex("by_company_key", (q) => q.eq("companyId", companyId))
+      .collect();
+
+    return await Promise.all(
+      tags.map(async (tag) => {
+        const links = await ctx.db
+          .query("conversation_tags")
+          .withIndex("by_tag", (q) => q.eq("tagId", tag._id))
+          .collect();
+        return { ...tag, conversationCount: links.length };
+      })
+    );
+  },
+});
+
+/**
+ * How often each tag was added to a conversation in the period, most used first
+ */
+export const getTagCounts = query({
+  args: {
+    companyId: v.id("companies"),
+    period: v.union(
+      v.literal("3days"),
+      v.literal("week"),
+      v.literal("month"),
+      v.literal("3months")
+    ),
+  },
+  handler: async (ctx, { companyId, period }) => {
+    const days = { "3days": 3, week: 7, month: 30, "3months": 90 }[period];
+    const startTime = Date.now() - days * 24 * 60 * 60 * 1000;
+
+    const links = await ctx.db
+      .query("conversation_tags")
+      .withIndex("by_company_created", (q) =>
+        q.eq("companyId", companyId).gte("createdAt", startTime)
+      )
+      .collect();
+
+    const counts = new Map<string, { conversations: number; fromAi: number }>();
+    for (const link of links) {
+      const entry = counts.get(link.tagId) ?? { conversations: 0, fromAi: 0 };
+      entry.conversations += 1;
+      if (link.source === "ai_rule") entry.fromAi += 1;
+      counts.set(link.tagId, entry);
+    }
+
+    const tags = await ctx.db
+      .query("tags")
+      .withIndex("by_company_key", (q) => q.eq("companyId", companyId))
+      .collect();
+
+    return {
+      totalTagged: new Set(links.map((link) => link.conversationId)).size,
+      tags: tags
+        .filter((tag) => counts.has(tag._id))
+        .map((tag) => ({
+          tagId: tag._id,
+          name: tag.name,
+          color: tag.color,
+          ...counts.get(tag._id)!,
+        }))
+        .sort((a, b) => b.conversations - a.conversations),
+    };
+  },
+});
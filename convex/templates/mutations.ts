@@ -6,6 +6,7 @@
 
 import { mutation } from "../_generated/server";
 import { v } from "convex/values";
+import { addConversationTag } from "../tags/mutations";
 
 /**
  * Copy default templates to a new company
@@ -124,8 +125,9 @@ export const createTemplate = mutation({
       v.literal("resolution"),
       v.literal("general")
     ),
+    tagIds: v.optional(v.array(v.id("tags"))),
   },
-  handler: async (ctx, { companyId, createdBy, title, content, category }) => {
+  handler: async (ctx, { companyId, createdBy, title, content, category, tagIds }) => {
     const now = Date.now();
 
     const templateId = await ctx.db.insert("templates", {
@@ -135,6 +137,7 @@ export const createTemplate = mutation({
       content,
       category,
       usageCount: 0,
+      tagIds: tagIds?.length ? tagIds : undefined,
       isActive: true,
       isDefault: false,
       createdAt: now,
@@ -161,8 +164,9 @@ export const updateTemplate = mutation({
         v.literal("general")
       )
     ),
+    tagIds: v.optional(v.array(v.id("tags"))),
   },
-  handler: async (ctx, { templateId, title, content, category }) => {
+  handler: async (ctx, { templateId, title, content, category, tagIds }) => {
     const updates: any = {
       updatedAt: Date.now(),
     };
@@ -170,11 +174,49 @@ export const updateTemplate = mutation({
     if (title !== undefined) updates.title = title;
     if (content !== undefined) updates.content = content;
     if (category !== undefined) updates.category = category;
+    if (tagIds !== undefined) updates.tagIds = tagIds.length ? tagIds : undefined;
 
     await ctx.db.patch(templateId, updates);
   },
 });
 
+/**
+ * Record that an agent sent a template in a conversation
+ *
+ * Bumps usage stats and adds the template's tags to the conversation.
+ */
+export const applyTemplate = mutation({
+  args: {
+    templateId: v.id("templates"),
+    conversationId: v.id("conversations"),
+    agentId: v.id("users"),
+  },
+  handler: async (ctx, { templateId, conversationId, agentId }) => {
+    const template = await ctx.db.get(templateId);
+    if (!template) throw new Error("Template not found");
+
+    const conversation = await ctx.db.get(conversationId);
+    if (!conversation) throw new Error("Conversation not found");
+
+    await ctx.db.patch(templateId, {
+      usageCount: template.usageCount + 1,
+      lastUsedAt: Date.now(),
+      lastUsedBy: agentId,
+    });
+
+    let tagsAdded = 0;
+    for (const tagId of template.tagIds ?? []) {
+      const tag = await ctx.db.get(tagId);
+      if (!tag || tag.companyId !== conversation.companyId) continue;
+      if (await addConversationTag(ctx, conversation, tagId, "template", agentId)) {
+        tagsAdded++;
+      }
+    }
+
+    return { success: true, tagsAdded };
+  },
+});
+
 /**
  * Delete a template
  */
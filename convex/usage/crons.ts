@@ -1,4 +1,5 @@
 import { internalMutation } from "../_generated/server";
+import { mergeModelCosts } from "../ai/pricing";
 
 /**
  * USAGE CRON JOBS
@@ -20,10 +21,11 @@ export const resetExpiredUsage = internalMutation({
 
     let resetCount = 0;
     for (const company of companies) {
-      if (company.aiResponsesResetAt && company.aiResponsesResetAt <= now && company.aiResponsesThisMonth > 0) {
+      if (company.aiResponsesResetAt && company.aiResponsesResetAt <= now && (company.aiResponsesThisMonth > 0 || (company.aiDraftsThisMonth ?? 0) > 0)) {
         const newResetAt = now + 30 * 24 * 60 * 60 * 1000;
         await ctx.db.patch(company._id, {
           aiResponsesThisMonth: 0,
+          aiDraftsThisMonth: 0,
           aiResponsesResetAt: newResetAt,
           currentPeriodStart: now,
           currentPeriodEnd: newResetAt,
@@ -119,6 +121,23 @@ export const aggregateDailyUsage = internalMutation({
           0
         );
 
+        const totalPromptTokens = hourlyRecords.reduce(
+          (sum, record) => sum + (record.promptTokens ?? 0),
+          0
+        );
+        const totalCompletionTokens = hourlyRecords.reduce(
+          (sum, record) => sum + (record.completionTokens ?? 0),
+          0
+        );
+        const totalCost = hourlyRecords.reduce(
+          (sum, record) => sum + (record.costUsd ?? 0),
+          0
+        );
+        const costByModel = mergeModelCosts(
+          [],
+          hourlyRecords.flatMap((record) => record.costByModel ?? [])
+        );
+
         // Check if daily record already exists
         const existingDaily = await ctx.db
           .query("usage_records")
@@ -138,6 +157,10 @@ export const aggregateDailyUsage = internalMutation({
             agentMessageCount: totalAgentMessages,
             conversationCount: totalConversations,
             handoffCount: totalHandoffs,
+            promptTokens: totalPromptTokens,
+            completionTokens: totalCompletionTokens,
+            costUsd: totalCost,
+            costByModel,
             updatedAt: now,
           });
           console.log(
@@ -155,6 +178,10 @@ export const aggregateDailyUsage = internalMutation({
             agentMessageCount: totalAgentMessages,
             conversationCount: totalConversations,
             handoffCount: totalHandoffs,
+            promptTokens: totalPromptTokens,
+            completionTokens: totalCompletionTokens,
+            costUsd: totalCost,
+            costByModel,
             createdAt: now,
             updatedAt: now,
           });
@@ -1,12 +1,68 @@
 import { v } from "convex/values";
-import { mutation } from "../_generated/server";
+import { internalMutation, mutation, type MutationCtx } from "../_generated/server";
 import { api } from "../_generated/api";
+import type { Id } from "../_generated/dataModel";
+import { computeCostUsd, mergeModelCosts, pricingKey, type ModelCost } from "../ai/pricing";
+import { getModelPrice } from "../modelPricing/queries";
 
 /**
  * USAGE TRACKING MUTATIONS
  * Track AI response usage for billing and insights
  */
 
+/**
+ * Add tokens and cost to the company's record for the current hour
+ */
+async function addHourlyUsage(
+  ctx: MutationCtx,
+  companyId: Id<"companies">,
+  now: number,
+  { aiResponseCount, modelCost }: { aiResponseCount: number; modelCost: ModelCost }
+) {
+  const startOfHour = new Date(now);
+  startOfHour.setMinutes(0, 0, 0);
+  const endOfHour = new Date(startOfHour.getTime() + 60 * 60 * 1000 - 1);
+
+  const hourlyRecord = await ctx.db
+    .query("usage_records")
+    .withIndex("by_company_period", (q) =>
+      q
+        .eq("companyId", companyId)
+        .eq("period", "hourly")
+        .eq("periodStart", startOfHour.getTime())
+    )
+    .first();
+
+  if (hourlyRecord) {
+    await ctx.db.patch(hourlyRecord._id, {
+      aiResponseCount: hourlyRecord.aiResponseCount + aiResponseCount,
+      promptTokens: (hourlyRecord.promptTokens ?? 0) + modelCost.promptTokens,
+      completionTokens: (hourlyRecord.completionTokens ?? 0) + modelCost.completionTokens,
+      costUsd: (hourlyRecord.costUsd ?? 0) + modelCost.costUsd,
+      costByModel: mergeModelCosts(hourlyRecord.costByModel, [modelCost]),
+      updatedAt: now,
+    });
+  } else {
+    await ctx.db.insert("usage_records", {
+      companyId,
+      period: "hourly",
+      periodStart: startOfHour.getTime(),
+      periodEnd: endOfHour.getTime(),
+      aiResponseCount,
+      customerMessageCount: 0,
+      agentMessageCount: 0,
+      conversationCount: 0,
+      handoffCount: 0,
+      promptTokens: modelCost.promptTokens,
+      completionTokens: modelCost.completionTokens,
+      costUsd: modelCost.costUsd,
+      costByModel: [modelCost],
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+}
+
 // ============================================================================
 // TRACK AI RESPONSE
 // ============================================================================
@@ -16,11 +72,22 @@ export const trackAIResponse = mutation({
     conversationId: v.id("conversations"),
     aiModel: v.string(),
     tokensUsed: v.number(),
-    experienceId: v.string(),
+    promptTokens: v.optional(v.number()),
+    completionTokens: v.optional(v.number()),
+    messageId: v.optional(v.id("messages")),
+    experienceId: v.optional(v.string()), // Defaults to the company's Whop experience
   },
   handler: async (
     ctx,
-    { conversationId, aiModel, tokensUsed, experienceId }
+    {
+      conversationId,
+      aiModel,
+      tokensUsed,
+      promptTokens = 0,
+      completionTokens = 0,
+      messageId,
+      experienceId,
+    }
   ) => {
     // Get conversation to get companyId
     const conversation = await ctx.db.get(conversationId);
@@ -73,14 +140,15 @@ export const trackAIResponse = mutation({
         adminUserCompanies.map(async (uc) => ctx.db.get(uc.userId))
       );
 
-      if (admins.length > 0) {
+      const warningExperienceId = experienceId ?? company.whopExperienceId;
+      if (admins.length > 0 && warningExperienceId) {
         // Schedule notification to be sent (mutations can't call actions directly)
         await ctx.scheduler.runAfter(
           0,
           api.usage.actions.sendUsageWarningNotification,
           {
             companyId: conversation.companyId,
-            experienceId,
+            experienceId: warningExperienceId,
             currentUsage: newUsageCount,
             usageLimit: plan.aiResponsesPerMonth,
             planName: plan.name,
@@ -89,48 +157,94 @@ export const trackAIResponse = mutation({
       }
     }
 
-    // 4. Create hourly record for daily aggregation
-    const date = new Date(now);
-    const startOfHour = new Date(date);
-    startOfHour.setMinutes(0, 0, 0);
-    const endOfHour = new Date(startOfHour.getTime() + 60 * 60 * 1000 - 1);
-
-    // Create/update hourly record
-    const hourlyRecord = await ctx.db
-      .query("usage_records")
-      .withIndex("by_company_period", (q) =>
-        q
-          .eq("companyId", conversation.companyId)
-          .eq("period", "hourly")
-          .eq("periodStart", startOfHour.getTime())
-      )
-      .first();
-
-    if (hourlyRecord) {
-      await ctx.db.patch(hourlyRecord._id, {
-        aiResponseCount: hourlyRecord.aiResponseCount + 1,
-        updatedAt: now,
-      });
-    } else {
-      await ctx.db.insert("usage_records", {
-        companyId: conversation.companyId,
-        period: "hourly",
-        periodStart: startOfHour.getTime(),
-        periodEnd: endOfHour.getTime(),
-        aiResponseCount: 1,
-        customerMessageCount: 0,
-        agentMessageCount: 0,
-        conversationCount: 0,
-        handoffCount: 0,
-        createdAt: now,
-        updatedAt: now,
-      });
+    // 4. Cost the reply at the model's current price
+    const price = await getModelPrice(ctx, aiModel);
+    const costUsd = computeCostUsd(price, promptTokens, completionTokens);
+    const modelCost = {
+      model: pricingKey(aiModel),
+      responses: 1,
+      promptTokens,
+      completionTokens,
+      costUsd,
+    };
+
+    await ctx.db.patch(conversationId, {
+      aiCostUsd: (conversation.aiCostUsd ?? 0) + costUsd,
+    });
+    if (messageId) {
+      await ctx.db.patch(messageId, { promptTokens, completionTokens, costUsd });
     }
 
+    // 5. Add to the hourly record for daily aggregation
+    await addHourlyUsage(ctx, conversation.companyId, now, { aiResponseCount: 1, modelCost });
+
     return { success: true };
   },
 });
 
+// ============================================================================
+// TRACK MODEL USAGE (model calls that aren't customer replies)
+// ============================================================================
+
+/**
+ * Cost a model call that isn't a customer reply - topic checks, image
+ * analysis, summaries, copilot drafts, evals and embeddings. Counts toward
+ * spend but not toward the monthly response limit.
+ */
+export async function recordModelUsage(
+  ctx: MutationCtx,
+  {
+    companyId,
+    conversationId,
+    aiModel,
+    promptTokens,
+    completionTokens = 0,
+  }: {
+    companyId: Id<"companies">;
+    conversationId?: Id<"conversations">;
+    aiModel: string;
+    promptTokens: number;
+    completionTokens?: number;
+  }
+) {
+  const price = await getModelPrice(ctx, aiModel);
+  const costUsd = computeCostUsd(price, promptTokens, completionTokens);
+
+  if (conversationId) {
+    const conversation = await ctx.db.get(conversationId);
+    if (conversation) {
+      await ctx.db.patch(conversationId, {
+        aiCostUsd: (conversation.aiCostUsd ?? 0) + costUsd,
+      });
+    }
+  }
+
+  await addHourlyUsage(ctx, companyId, Date.now(), {
+    aiResponseCount: 0,
+    modelCost: {
+      model: pricingKey(aiModel),
+      responses: 0,
+      promptTokens,
+      completionTokens,
+      costUsd,
+    },
+  });
+  return costUsd;
+}
+
+export const trackModelUsage = internalMutation({
+  args: {
+    companyId: v.id("companies"),
+    conversationId: v.optional(v.id("conversations")),
+    aiModel: v.string(),
+    promptTokens: v.number(),
+    completionTokens: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    await recordModelUsage(ctx, args);
+  },
+});
+
 // ============================================================================
 // GET CURRENT USAGE
 // ============================================================================
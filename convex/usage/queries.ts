@@ -1,5 +1,8 @@
 import { v } from "convex/values";
 import { query } from "../_generated/server";
+import { getDraftLimit } from "../ai/copilot";
+import { mergeModelCosts, type ModelCost } from "../ai/pricing";
+import { getModelPrice } from "../modelPricing/queries";
 
 /**
  * USAGE QUERIES
@@ -45,6 +48,10 @@ export const getCurrentUsage = query({
       Math.ceil((company.aiResponsesResetAt - now) / (24 * 60 * 60 * 1000))
     );
 
+    // Agent copilot drafts are metered separately
+    const draftLimit = getDraftLimit(plan);
+    const draftsUsed = company.aiDraftsThisMonth ?? 0;
+
     return {
       plan: plan.name,
       totalLimit: plan.aiResponsesPerMonth,
@@ -54,6 +61,13 @@ export const getCurrentUsage = query({
       billingCycleStart: company.currentPeriodStart,
       billingCycleEnd: company.aiResponsesResetAt,
       daysUntilReset,
+      drafts: {
+        totalLimit: draftLimit,
+        currentUsage: draftsUsed,
+        remaining: Math.max(0, draftLimit - draftsUsed),
+        percentageUsed:
+          draftLimit > 0 ? Math.round((draftsUsed / draftLimit) * 1000) / 10 : 0,
+      },
     };
   },
 });
@@ -386,6 +400,115 @@ export const getPeriodStats = query({
   },
 });
 
+// ============================================================================
+// GET SPEND BREAKDOWN (AI cost per model, day and conversation)
+// ============================================================================
+
+// Most expensive conversations shown in the breakdown
+const TOP_CONVERSATIONS_LIMIT = 10;
+
+export const getSpendBreakdown = query({
+  args: {
+    companyId: v.id("companies"),
+    period: v.union(
+      v.literal("3days"),
+      v.literal("week"),
+      v.literal("month"),
+      v.literal("3months")
+    ),
+  },
+  handler: async (ctx, { companyId, period }) => {
+    const now = Date.now();
+    const days = { "3days": 3, week: 7, month: 30, "3months": 90 }[period];
+    const startTime = now - days * 24 * 60 * 60 * 1000;
+
+    // Daily rollups plus the hourly records not yet rolled up
+    const records = [
+      ...(await ctx.db
+        .query("usage_records")
+        .withIndex("by_company_period", (q) =>
+          q
+            .eq("companyId", companyId)
+            .eq("period", "daily")
+            .gte("periodStart", startTime)
+            .lte("periodStart", now)
+        )
+        .collect()),
+      ...(await ctx.db
+        .query("usage_records")
+        .withIndex("by_company_period", (q) =>
+          q
+            .eq("companyId", companyId)
+            .eq("period", "hourly")
+            .gte("periodStart", startTime)
+        )
+        .collect()),
+    ];
+
+    const byDay = new Map<number, { costUsd: number; responses: number }>();
+    let costByModel: ModelCost[] = [];
+    for (const record of records) {
+      const dayStart = new Date(record.periodStart);
+      dayStart.setUTCHours(0, 0, 0, 0);
+      const day = byDay.get(dayStart.getTime()) ?? { costUsd: 0, responses: 0 };
+      byDay.set(dayStart.getTime(), {
+        costUsd: day.costUsd + (record.costUsd ?? 0),
+        responses: day.responses + record.aiResponseCount,
+      });
+      costByModel = mergeModelCosts(costByModel, record.costByModel ?? []);
+    }
+
+    const perDay = [...byDay.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([dayStart, day]) => ({
+        date: new Date(dayStart).toISOString().split("T")[0],
+        label: new Date(dayStart).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+        }),
+        ...day,
+      }));
+
+    // Lifetime spend of conversations active in the period
+    const activeConversations = await ctx.db
+      .query("conversations")
+      .withIndex("by_company_updated", (q) =>
+        q.eq("companyId", companyId).gte("updatedAt", startTime)
+      )
+      .collect();
+    const topConversations = await Promise.all(
+      activeConversations
+        .filter((conversation) => (conversation.aiCostUsd ?? 0) > 0)
+        .sort((a, b) => (b.aiCostUsd ?? 0) - (a.aiCostUsd ?? 0))
+        .slice(0, TOP_CONVERSATIONS_LIMIT)
+        .map(async (conversation) => {
+          const customer = await ctx.db.get(conversation.customerId);
+          return {
+            conversationId: conversation._id,
+            customerName: customer?.displayName ?? "Unknown customer",
+            messageCount: conversation.messageCount,
+            costUsd: conversation.aiCostUsd ?? 0,
+            lastMessageAt: conversation.lastMessageAt,
+          };
+        })
+    );
+
+    // Models that replied in the period but have no price set
+    const unpricedModels: string[] = [];
+    for (const entry of costByModel) {
+      if (!(await getModelPrice(ctx, entry.model))) unpricedModels.push(entry.model);
+    }
+
+    return {
+      totalCostUsd: perDay.reduce((sum, day) => sum + day.costUsd, 0),
+      perModel: costByModel,
+      perDay,
+      topConversations,
+      unpricedModels,
+    };
+  },
+});
+
 // ============================================================================
 // CHECK USAGE LIMITS (for AI generation)
 // ============================================================================
@@ -418,3 +541,34 @@ export const checkUsageLimit = query({
     };
   },
 });
+
+// ============================================================================
+// CHECK DRAFT USAGE LIMIT (agent copilot)
+// ============================================================================
+
+export const checkDraftUsageLimit = query({
+  args: {
+    companyId: v.id("companies"),
+  },
+  handler: async (ctx, { companyId }) => {
+    const company = await ctx.db.get(companyId);
+    if (!company) {
+      throw new Error("Company not found");
+    }
+
+    const plan = await ctx.db.get(company.planId);
+    if (!plan) {
+      throw new Error("Plan not found");
+    }
+
+    const limit = getDraftLimit(plan);
+    const currentUsage = company.aiDraftsThisMonth ?? 0;
+
+    return {
+      hasReachedLimit: currentUsage >= limit,
+      currentUsage,
+      limit,
+      remaining: Math.max(0, limit - currentUsage),
+    };
+  },
+});
@@ -322,6 +322,8 @@ export const getTeamMembersForCompany = query({
           joinedAt: uc.joinedAt,
           lastActiveInCompany: uc.lastActiveInCompany,
           departmentIds: uc.departmentIds || [],
+          maxConcurrentConversations: uc.maxConcurrentConversations,
+          skills: uc.skills || [],
         };
       })
     );
@@ -20,8 +20,9 @@ export const updateContextFromText = action({
     companyId: v.id("companies"),
     text: v.string(),
     shouldCondense: v.optional(v.boolean()),
+    updatedBy: v.optional(v.id("users")),
   },
-  handler: async (ctx, { companyId, text, shouldCondense = false }) => {
+  handler: async (ctx, { companyId, text, shouldCondense = false, updatedBy }) => {
     try {
       let processedText = text;
       let condensed = false;
@@ -68,11 +69,12 @@ export const updateContextFromText = action({
         companyContextOriginal: text,
         companyContextProcessed: processedText,
         companyContextFileId: undefined, // No file for text input
+        updatedBy,
       });
 
-      // Update Vector Store with new context
+      // Refresh assistant and knowledge index with new context
       console.log(
-        "[updateContextFromText] Triggering Vector Store update for company:",
+        "[updateContextFromText] Triggering knowledge update for company:",
         companyId
       );
 
@@ -81,7 +83,7 @@ export const updateContextFromText = action({
       });
 
       console.log(
-        "[updateContextFromText] Vector Store update triggered (async)"
+        "[updateContextFromText] Knowledge update triggered (async)"
       );
 
       return {